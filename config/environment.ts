@@ -3,36 +3,153 @@ export interface SalesforceConfig {
     apiVersion: string;
 }
 
+export type AuthStrategy = 'cli' | 'jwt' | 'refreshToken' | 'clientCredentials';
+
+/** When to attach a test's Lightning traffic as a HAR */
+export type HarMode = 'always' | 'on-failure' | 'off';
+
+export interface AuthConfig {
+    strategy: AuthStrategy;
+    loginUrl: string;
+    clientId: string;
+    clientSecret: string;
+    username: string;
+    privateKeyPath: string;
+    refreshToken: string;
+    targetOrg: string;
+}
+
+export interface ApiRetryConfig {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    retryableStatuses: number[];
+    retryableErrorCodes: string[];
+}
+
+/** Records whose field matches a glob pattern (* is the only wildcard) */
+export interface SweepTarget {
+    sObjectType: string;
+    field: string;
+    pattern: string;
+}
+
 export interface EnvironmentConfig {
     salesforce: SalesforceConfig;
+    auth: AuthConfig;
     timeouts: {
         navigation: number;
         action: number;
         assertion: number;
         spinnerWait: number;
+        /** Quiet period after the last Aura/UI API response before Lightning counts as idle */
+        lightningIdle: number;
         test: number;
+        bulkJob: number;
     };
     retries: {
         flaky: number;
         failed: number;
+        api: ApiRetryConfig;
+    };
+    sessionState: {
+        /** Where global setup saves storageState files, one folder per org */
+        dir: string;
+        /** Re-authenticate when a saved session is older than this, even if it still works */
+        maxAgeMinutes: number;
+    };
+    network: {
+        /** When to attach the test's Aura/UI API traffic to the report as a HAR */
+        har: HarMode;
+        /** Aura action descriptors (or parts of them) whose ERROR state is expected and does not fail a test */
+        ignoredActionErrors: string[];
+    };
+    metadata: {
+        /** Stop the run when force-app and the org differ; false only reports the drift */
+        failOnDrift: boolean;
+    };
+    testData: {
+        /** Leave created records in the org when a test fails, for debugging */
+        keepOnFailure: boolean;
+        /** Naming patterns and minimum age the orphaned-record sweeper looks for */
+        sweep: {
+            targets: SweepTarget[];
+            olderThanHours: number;
+        };
     };
 }
 
+/**
+ * An environment variable limited to a set of values; a value outside them throws rather than
+ * quietly falling back to the default
+ */
+export function envChoice<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+    const value = process.env[name];
+    if (!value) return fallback;
+    if (!(allowed as readonly string[]).includes(value)) {
+        throw new Error(`${name} must be one of ${allowed.join(', ')}; got "${value}"`);
+    }
+    return value as T;
+}
+
 export const config: EnvironmentConfig = {
     salesforce: {
         instanceUrl: process.env.SF_INSTANCE_URL || 'https://saas-velocity-3251-dev-ed.scratch.my.salesforce.com',
         apiVersion: process.env.SF_API_VERSION || '60.0',
     },
+    auth: {
+        strategy: envChoice<AuthStrategy>('SF_AUTH_STRATEGY', ['cli', 'jwt', 'refreshToken', 'clientCredentials'], 'cli'),
+        loginUrl: process.env.SF_LOGIN_URL || 'https://login.salesforce.com',
+        clientId: process.env.SF_CLIENT_ID || '',
+        clientSecret: process.env.SF_CLIENT_SECRET || '',
+        username: process.env.SF_USERNAME || '',
+        privateKeyPath: process.env.SF_JWT_KEY_FILE || '',
+        refreshToken: process.env.SF_REFRESH_TOKEN || '',
+        targetOrg: process.env.SF_TARGET_ORG || '',
+    },
     timeouts: {
         navigation: 60000,
         action: 30000,
         assertion: 15000,
         spinnerWait: 60000,
+        lightningIdle: 300,
         test: 300000,
+        bulkJob: 600000,
     },
     retries: {
         flaky: 2,
         failed: 1,
+        api: {
+            maxAttempts: Number(process.env.SF_API_MAX_ATTEMPTS) || 4,
+            baseDelayMs: 500,
+            maxDelayMs: 8000,
+            retryableStatuses: [502, 503, 504],
+            retryableErrorCodes: ['UNABLE_TO_LOCK_ROW', 'REQUEST_LIMIT_EXCEEDED', 'SERVER_UNAVAILABLE'],
+        },
+    },
+    sessionState: {
+        dir: 'playwright/.auth',
+        maxAgeMinutes: Number(process.env.SF_SESSION_MAX_AGE_MINUTES) || 90,
+    },
+    network: {
+        har: envChoice<HarMode>('SF_NETWORK_HAR', ['always', 'on-failure', 'off'], 'on-failure'),
+        ignoredActionErrors: (process.env.SF_IGNORED_AURA_ERRORS || '').split(',').map(descriptor => descriptor.trim()).filter(Boolean),
+    },
+    metadata: {
+        failOnDrift: process.env.SF_FAIL_ON_DRIFT !== 'false',
+    },
+    testData: {
+        keepOnFailure: process.env.SF_KEEP_DATA_ON_FAILURE === 'true',
+        sweep: {
+            targets: [
+                { sObjectType: 'Opportunity', field: 'Name', pattern: 'TestOpp_*' },
+                { sObjectType: 'Opportunity', field: 'Name', pattern: 'TestOpportunity_*' },
+                { sObjectType: 'Account', field: 'Name', pattern: 'TestAccount_*' },
+                { sObjectType: 'User', field: 'Username', pattern: 'testplatform_*@test.automation.com' },
+                { sObjectType: 'User', field: 'Username', pattern: 'testuser_*@test.automation.com' },
+            ],
+            olderThanHours: Number(process.env.SF_SWEEP_OLDER_THAN_HOURS) || 24,
+        },
     },
 };
 
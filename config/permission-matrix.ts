@@ -0,0 +1,53 @@
+/** Field-level security: hidden, read-only or editable */
+export type FieldAccess = 'none' | 'read' | 'edit';
+
+/**
+ * Expected access to one sObject. Permissions left out are not checked.
+ */
+export interface ObjectAccess {
+    create?: boolean;
+    read?: boolean;
+    edit?: boolean;
+    delete?: boolean;
+    /**
+     * Field-level security by API name. Only fields with field-level security have
+     * FieldPermissions rows; required fields such as Name or StageName follow object access
+     */
+    fields?: Record<string, FieldAccess>;
+}
+
+/** Expected access by sObject API name */
+export type PersonaPermissions = Record<string, ObjectAccess>;
+
+/** Expected access by persona */
+export type PermissionMatrix = Record<string, PersonaPermissions>;
+
+/**
+ * What each persona may do, checked by PermissionMatrixVerifier against the org and the UI.
+ * Keep in step with force-app/main/default/permissionsets and the personas' profiles.
+ */
+export const permissionMatrix: PermissionMatrix = {
+    /** Standard Platform User with the OpportunityReadOnly permission set */
+    readOnlyPlatform: {
+        Opportunity: {
+            create: false,
+            read: true,
+            edit: false,
+            delete: false,
+            fields: {
+                Amount: 'read',
+                Quantity__c: 'read',
+                Probability: 'read',
+                Type: 'read',
+                LeadSource: 'read',
+                Description: 'read',
+                NextStep: 'read',
+            },
+        },
+        Account: {
+            read: true,
+        },
+    },
+};
+
+export default permissionMatrix;
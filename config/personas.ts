@@ -0,0 +1,59 @@
+import { envChoice } from './environment';
+
+/**
+ * A kind of user the tests act as. Users are provisioned from this definition and reused across
+ * runs; changing it here updates the existing users on the next run.
+ */
+export interface PersonaDefinition {
+    firstName: string;
+    lastName: string;
+    /** Profile name, e.g. Standard Platform User */
+    profile: string;
+    /** API names of the permission sets the user should have, and no others */
+    permissionSets: string[];
+    /** UserRole name; left alone when not set */
+    role?: string;
+    localeSidKey: string;
+    languageLocaleKey: string;
+    timeZoneSidKey: string;
+    /** How many users to keep, i.e. how many workers can use the persona at once */
+    poolSize: number;
+}
+
+const defaults = {
+    localeSidKey: 'en_US',
+    languageLocaleKey: 'en_US',
+    timeZoneSidKey: 'America/Los_Angeles',
+    poolSize: 2,
+};
+
+/**
+ * Personas by name. The names match the rows of config/permission-matrix.ts.
+ */
+export const personas: Record<string, PersonaDefinition> = {
+    readOnlyPlatform: {
+        ...defaults,
+        firstName: 'Test',
+        lastName: 'PlatformUser',
+        profile: 'Standard Platform User',
+        permissionSets: ['OpportunityReadOnly'],
+    },
+};
+
+/**
+ * How persona browser sessions log in:
+ * - password: a fresh password is set through the API and typed into the login page
+ * - jwt: a JWT bearer token for the persona's username (the connected app in SF_CLIENT_ID
+ *   must be pre-authorized for the persona's profile), opened through frontdoor.jsp
+ */
+export type PersonaLoginMethod = 'password' | 'jwt';
+
+export const personaLoginMethod = envChoice<PersonaLoginMethod>('SF_PERSONA_LOGIN', ['password', 'jwt'], 'password');
+
+/**
+ * Usernames are global across every Salesforce org, so persona usernames carry the org Id:
+ * readonlyplatform.1.00d5g000004abcd@<domain>
+ */
+export const personaUsernameDomain = process.env.SF_PERSONA_DOMAIN || 'test.automation.com';
+
+export default personas;
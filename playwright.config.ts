@@ -1,11 +1,12 @@
 import { defineConfig, devices } from '@playwright/test';
 import { config } from './config/environment';
+import { ADMIN_STATE_USER, sessionStatePath } from './tests/utils/session-state';
 
 /**
  * Playwright Configuration for Salesforce Lightning Testing
  * Optimized for Salesforce-specific challenges:
  * - Extended timeouts for Lightning Experience page loads
- * - Single browser context to maintain session
+ * - Sessions saved once by tests/auth.setup.ts, so tests start logged in
  * - Video/screenshot capture for debugging
  */
 export default defineConfig({
@@ -18,6 +19,8 @@ export default defineConfig({
     ['html', { open: 'never' }],
     ['list'],
     ['json', { outputFile: 'test-results/results.json' }],
+    // Which selector fallbacks matched; lists dead selectors and deep fallbacks after the run
+    ['./tests/reporters/locator-reporter.ts', { outputFile: 'test-results/locator-report.json' }],
   ],
 
   timeout: 120000, // 2 minutes per test for Lightning loads
@@ -42,9 +45,33 @@ export default defineConfig({
 
   projects: [
     {
-      name: 'chromium',
+      // Offline checks of the framework itself (stand-ins, no org or browser needed)
+      name: 'framework',
+      testDir: './tests/framework',
+    },
+    {
+      // SalesforceUtils selectors against captured Lightning markup (browser, no org)
+      name: 'lightning-dom',
+      testDir: './tests/lightning-dom',
       use: { ...devices['Desktop Chrome'] },
     },
+    {
+      // Fails the run early when force-app and the org differ (SF_FAIL_ON_DRIFT=false to only report)
+      name: 'metadata-drift',
+      testMatch: /metadata-drift\.setup\.ts/,
+    },
+    {
+      // Logs the admin and each persona in once and saves their storageState under playwright/.auth/
+      name: 'auth',
+      testMatch: /auth\.setup\.ts/,
+      use: { ...devices['Desktop Chrome'] },
+    },
+    {
+      name: 'chromium',
+      testIgnore: ['framework/**', 'lightning-dom/**'],
+      dependencies: ['metadata-drift', 'auth'],
+      use: { ...devices['Desktop Chrome'], storageState: sessionStatePath(ADMIN_STATE_USER) },
+    },
   ],
 
   // Output folder for test artifacts
@@ -0,0 +1,38 @@
+/**
+ * Metadata drift check
+ *
+ * Compares the permission sets, fields and layouts under force-app/main/default with the org
+ * and exits 1 when they differ, e.g. after scripts/deploy-config.sh or a change made by hand.
+ *
+ *   npm run drift
+ *   npm run drift -- --json          # structured diff for other tools
+ */
+import { parseArgs } from 'util';
+import { request } from '@playwright/test';
+import { SalesforceApiUtils } from '../tests/utils/salesforce-api';
+import { formatDriftReport, MetadataDriftDetector } from '../tests/utils/metadata-drift';
+
+async function main(): Promise<number> {
+    const { values } = parseArgs({
+        options: {
+            'json': { type: 'boolean', default: false },
+        },
+    });
+
+    const context = await request.newContext({ ignoreHTTPSErrors: true });
+    try {
+        const drift = await new MetadataDriftDetector(new SalesforceApiUtils(context)).detect();
+        console.log(values.json ? JSON.stringify(drift, null, 2) : formatDriftReport(drift));
+        return drift.length ? 1 : 0;
+    } finally {
+        await context.dispose();
+    }
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,108 @@
+/**
+ * sObject type generator
+ *
+ * Writes tests/types/sobjects.generated.ts from force-app/main/default/objects, merged with the
+ * org describe of each object so standard fields get their types and picklist values.
+ *
+ *   npm run generate:types                          # force-app objects, merged with the org describe
+ *   npm run generate:types -- --objects Account,User   # also generate objects that are not in force-app
+ *   npm run generate:types -- --metadata-only       # no org: standard fields without a <type> become unknown
+ *   npm run generate:types -- --mock-describes      # test fixture tests/mocks/sobjects.generated.ts, merged with tests/mocks/describe-fixtures.ts
+ *   npm run generate:types -- --check               # exit 1 if the committed file is out of date
+ */
+import { parseArgs } from 'util';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { request } from '@playwright/test';
+import { SObjectDescribe } from '../tests/utils/describe-cache';
+import { SalesforceApiUtils } from '../tests/utils/salesforce-api';
+import { mergeSObject, readObjectMetadata, renderSObjectTypes } from '../tests/utils/sobject-typegen';
+import { describeFixtures } from '../tests/mocks/describe-fixtures';
+
+const ROOT = join(__dirname, '..');
+const OBJECTS_DIR = join(ROOT, 'force-app/main/default/objects');
+const DEFAULT_OUT = join(ROOT, 'tests/types/sobjects.generated.ts');
+/** The mock describes are invented test data, so their types only ever back the framework specs */
+const MOCK_OUT = join(ROOT, 'tests/mocks/sobjects.generated.ts');
+
+const header = (source: string, flag: string) => `/**
+ * Generated by scripts/generate-sobject-types.ts from ${source}.
+ * Do not edit by hand; run \`npm run generate:types${flag}\` after changing fields.
+ */`;
+
+const HEADERS = {
+    org: header('force-app/main/default/objects and the org describe', ''),
+    metadataOnly: header('force-app/main/default/objects alone; standard fields without a <type> are unknown', ' -- --metadata-only'),
+    mock: `/**
+ * Test fixture for the framework specs, not the types of any org: generated by scripts/generate-sobject-types.ts
+ * from force-app/main/default/objects and the mock describes in tests/mocks/describe-fixtures.ts.
+ * Do not import it outside tests/framework; run \`npm run generate:types -- --mock-describes\` after changing the mock describes.
+ */`,
+};
+
+async function describeAll(objectNames: string[]): Promise<Record<string, SObjectDescribe>> {
+    const context = await request.newContext({ ignoreHTTPSErrors: true });
+    try {
+        const sfApi = new SalesforceApiUtils(context);
+        const describes: Record<string, SObjectDescribe> = {};
+        for (const name of objectNames) {
+            describes[name] = await sfApi.describeSObject(name);
+        }
+        return describes;
+    } finally {
+        await context.dispose();
+    }
+}
+
+async function main(): Promise<number> {
+    const { values } = parseArgs({
+        options: {
+            'objects': { type: 'string' },
+            'metadata-only': { type: 'boolean', default: false },
+            'mock-describes': { type: 'boolean', default: false },
+            'out': { type: 'string' },
+            'check': { type: 'boolean', default: false },
+        },
+    });
+
+    const metadata = readObjectMetadata(OBJECTS_DIR);
+    const extra = values.objects?.split(',').map(name => name.trim()).filter(Boolean) ?? [];
+    const objectNames = [...new Set([...Object.keys(metadata), ...extra])].sort();
+    if ((values['metadata-only'] || values['mock-describes']) && extra.length) {
+        throw new Error('--objects needs the org describe; drop --metadata-only and --mock-describes');
+    }
+
+    const [describes, fileHeader]: [Record<string, SObjectDescribe>, string] = values['metadata-only']
+        ? [{}, HEADERS.metadataOnly]
+        : values['mock-describes']
+            ? [describeFixtures, HEADERS.mock]
+            : [await describeAll(objectNames), HEADERS.org];
+    const source = renderSObjectTypes(
+        objectNames.map(name => mergeSObject(name, metadata[name], describes[name])),
+        fileHeader
+    );
+
+    const out = values.out ? join(process.cwd(), values.out) : values['mock-describes'] ? MOCK_OUT : DEFAULT_OUT;
+    if (values.check) {
+        const current = existsSync(out) ? readFileSync(out, 'utf8') : '';
+        if (current !== source) {
+            console.error(`${relative(ROOT, out)} is out of date; run npm run generate:types`);
+            return 1;
+        }
+        console.log(`${relative(ROOT, out)} is up to date`);
+        return 0;
+    }
+
+    mkdirSync(dirname(out), { recursive: true });
+    writeFileSync(out, source);
+    console.log(`Wrote ${objectNames.join(', ')} to ${relative(ROOT, out)}`);
+    return 0;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
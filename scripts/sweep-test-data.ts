@@ -0,0 +1,76 @@
+/**
+ * Orphaned test-record sweeper
+ *
+ * Lists (and with --execute removes) test records left behind by interrupted runs.
+ *
+ *   npm run sweep                                   # dry run with the patterns in config.testData.sweep
+ *   npm run sweep -- --older-than 2 --execute
+ *   npm run sweep -- --pattern "Opportunity.Name=TestOpp_*" --created-by ci.user@example.com
+ */
+import { parseArgs } from 'util';
+import { request } from '@playwright/test';
+import { config, SweepTarget } from '../config/environment';
+import { SalesforceApiUtils } from '../tests/utils/salesforce-api';
+import { formatSweepTable, TestDataSweeper } from '../tests/utils/test-data-sweeper';
+
+function parsePattern(value: string): SweepTarget {
+    const match = value.match(/^(\w+)\.(\w+)=(.+)$/);
+    if (!match) {
+        throw new Error(`Invalid --pattern "${value}", expected <sObject>.<field>=<glob>, e.g. Opportunity.Name=TestOpp_*`);
+    }
+    return { sObjectType: match[1], field: match[2], pattern: match[3] };
+}
+
+async function main(): Promise<number> {
+    const { values } = parseArgs({
+        options: {
+            'execute': { type: 'boolean', default: false },
+            'older-than': { type: 'string' },
+            'created-by': { type: 'string' },
+            'pattern': { type: 'string', multiple: true },
+        },
+    });
+
+    const olderThanHours = values['older-than'] !== undefined ? Number(values['older-than']) : config.testData.sweep.olderThanHours;
+    if (!Number.isFinite(olderThanHours) || olderThanHours < 0) {
+        throw new Error(`Invalid --older-than "${values['older-than']}", expected a number of hours`);
+    }
+
+    const context = await request.newContext({ ignoreHTTPSErrors: true });
+    try {
+        const sfApi = new SalesforceApiUtils(context);
+        let createdById: string | undefined;
+        if (values['created-by']) {
+            createdById = await sfApi.getUserIdByUsername(values['created-by']) ?? undefined;
+            if (!createdById) throw new Error(`User "${values['created-by']}" not found`);
+        }
+
+        const sweeper = new TestDataSweeper(sfApi, {
+            targets: values.pattern?.map(parsePattern),
+            olderThanHours,
+            createdById,
+        });
+
+        const orphans = await sweeper.find();
+        console.log(formatSweepTable(orphans));
+        if (!orphans.length) return 0;
+
+        if (!values.execute) {
+            console.log(`\nDry run: ${orphans.length} record(s) older than ${olderThanHours}h would be removed. Re-run with --execute to remove them.`);
+            return 0;
+        }
+
+        const report = await sweeper.sweep(orphans);
+        return report.failed.length ? 1 : 0;
+    } finally {
+        await context.dispose();
+    }
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,40 @@
+import { test as setup } from '@playwright/test';
+import { SalesforceApiUtils } from './utils/salesforce-api';
+import { PersonaProvisioner } from './utils/persona-provisioner';
+import { PersonaSessions } from './utils/persona-sessions';
+import { ADMIN_STATE_USER, SessionStateCache } from './utils/session-state';
+import { personaLoginMethod, personas } from '../config/personas';
+import { config } from '../config/environment';
+
+/**
+ * Logs the admin and every persona in once and saves their storageState under playwright/.auth/,
+ * so tests start logged in. Saved sessions that are still fresh are kept as they are.
+ */
+setup('admin and persona sessions are saved', async ({ browser, request }, testInfo) => {
+    setup.setTimeout(config.timeouts.test);
+    const cache = new SessionStateCache(request);
+
+    if (!await cache.load(ADMIN_STATE_USER)) {
+        const context = await browser.newContext({ baseURL: config.salesforce.instanceUrl, ignoreHTTPSErrors: true });
+        try {
+            await new SalesforceApiUtils(await context.newPage()).loginViaFrontdoor();
+            await cache.save(ADMIN_STATE_USER, context);
+        } finally {
+            await context.close();
+        }
+    }
+
+    // One session per pool slot a worker of this run can lease
+    const adminApi = new SalesforceApiUtils(request);
+    const provisioner = new PersonaProvisioner(adminApi);
+    const sessions = new PersonaSessions(browser, adminApi, {}, personaLoginMethod, cache);
+    try {
+        for (const [persona, definition] of Object.entries(personas)) {
+            for (let slot = 0; slot < Math.min(definition.poolSize, testInfo.config.workers); slot++) {
+                await sessions.open(await provisioner.provision(persona, slot));
+            }
+        }
+    } finally {
+        await sessions.closeAll();
+    }
+});
@@ -0,0 +1,67 @@
+import { test as base, expect, Locator, Page } from '@playwright/test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SalesforceUtils } from '../utils/salesforce-utils';
+import { LIGHTNING_DOM_DIR, lightningDomFile, LightningDomFixture, LightningDomVariant } from '../mocks/lightning-dom';
+
+/**
+ * Serves the captured Lightning markup in tests/mocks/lightning-dom to the browser through page.route,
+ * under a Lightning-style URL so SalesforceUtils.getCurrentObjectName() and record Id parsing work:
+ *
+ *   await lightningDom.open('combobox', 'lightning-picklist');
+ *   await sfUtils.fillField('Stage', 'Qualification', 'combobox');
+ *   await expect(lightningDom.field).toHaveAttribute('data-selected-value', 'Qualification');
+ */
+
+const ORIGIN = 'https://lightning-dom.lightning.force.com';
+
+export class LightningDom {
+    constructor(private page: Page) { }
+
+    /**
+     * Load one variant of a fixture file; the path is what the browser URL shows
+     */
+    async open<F extends LightningDomFixture>(
+        fixture: F,
+        variant: LightningDomVariant<F>,
+        path = '/lightning/o/Opportunity/new'
+    ): Promise<void> {
+        await this.page.goto(`${ORIGIN}${path}?c__fixture=${fixture}&c__variant=${variant}`);
+    }
+
+    /** The element a fixture marks as the widget under test */
+    get field(): Locator {
+        return this.page.locator('[data-testid="field"]').first();
+    }
+
+    /** data-testid of every element clicked since the variant was opened */
+    async clicks(): Promise<string[]> {
+        return this.page.evaluate(() => (window as unknown as { __clicks: string[] }).__clicks);
+    }
+}
+
+type LightningDomFixtures = {
+    lightningDom: LightningDom;
+    sfUtils: SalesforceUtils;
+};
+
+export const test = base.extend<LightningDomFixtures>({
+    lightningDom: async ({ page }, use) => {
+        await page.route(`${ORIGIN}/**`, async route => {
+            const url = new URL(route.request().url());
+            if (url.pathname === '/lightning-dom.js') {
+                return route.fulfill({ contentType: 'text/javascript', body: readFileSync(join(LIGHTNING_DOM_DIR, 'lightning-dom.js')) });
+            }
+            const fixture = url.searchParams.get('c__fixture') as LightningDomFixture | null;
+            if (!fixture) return route.fulfill({ status: 404, body: 'Not found' });
+            await route.fulfill({ contentType: 'text/html', body: readFileSync(lightningDomFile(fixture)) });
+        });
+        await use(new LightningDom(page));
+    },
+
+    sfUtils: async ({ page }, use) => {
+        await use(new SalesforceUtils(page));
+    },
+});
+
+export { expect };
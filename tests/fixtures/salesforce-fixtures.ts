@@ -1,9 +1,21 @@
-import { test as base, expect, Page } from '@playwright/test';
+import { test as base, expect as baseExpect, Page, PlaywrightWorkerArgs } from '@playwright/test';
 import { AccountPage } from '../pages/account-page';
 import { OpportunityPage } from '../pages/opportunity-page';
 import { UserPage } from '../pages/user-page';
+import { RecordPage } from '../pages/record-page';
+import { ListView } from '../pages/list-view';
+import { RelatedList } from '../pages/related-list';
 import { SalesforceApiUtils } from '../utils/salesforce-api';
 import { SalesforceUtils } from '../utils/salesforce-utils';
+import { salesforceMatchers } from './salesforce-matchers';
+import { setActiveRegistry, TestDataRegistry } from '../utils/test-data-registry';
+import { DescribeCache } from '../utils/describe-cache';
+import { PersonaPool, PersonaProvisioner, ProvisionedPersona } from '../utils/persona-provisioner';
+import { PersonaSession, PersonaSessions } from '../utils/persona-sessions';
+import { ADMIN_STATE_USER, SessionStateCache } from '../utils/session-state';
+import { NetworkRecorder } from '../utils/network-recorder';
+import { PersonaLoginMethod, personaLoginMethod } from '../../config/personas';
+import { config } from '../../config/environment';
 
 /**
  * Extended Playwright test fixtures for Salesforce testing
@@ -15,13 +27,139 @@ type SalesforceFixtures = {
     accountPage: AccountPage;
     opportunityPage: OpportunityPage;
     userPage: UserPage;
+    recordPage: <T extends object = Record<string, unknown>>(objectName: string) => RecordPage<T>;
+    listView: <T extends object = Record<string, unknown>>(objectName: string, listViewName?: string) => ListView<T>;
+    relatedList: <C extends object = Record<string, unknown>>(parentObject: string, name: string) => RelatedList<C>;
     sfApi: SalesforceApiUtils;
     sfUtils: SalesforceUtils;
     authenticatedPage: Page;
+    dataRegistry: TestDataRegistry;
+    persona: (name: string) => Promise<ProvisionedPersona>;
+    personaSession: (name: string, method?: PersonaLoginMethod) => Promise<PersonaSession>;
+    networkRecorder: NetworkRecorder;
+};
+
+type SalesforceWorkerFixtures = {
+    retainDataForWorker: boolean;
+    workerDataRegistry: TestDataRegistry | undefined;
+    personaPool: PersonaPool;
 };
 
 // Extend the base test with Salesforce fixtures
-export const test = base.extend<SalesforceFixtures>({
+export const test = base.extend<SalesforceFixtures, SalesforceWorkerFixtures>({
+    /**
+     * Keep the records of a file's tests until its worker finishes instead of removing them at
+     * each test's teardown, for serial scenarios whose steps open records an earlier step created:
+     *
+     *   test.use({ retainDataForWorker: true });
+     */
+    retainDataForWorker: [false, { option: true, scope: 'worker' }],
+
+    /**
+     * The registry shared by the worker's tests when retainDataForWorker is set; cleaned up when the worker finishes
+     */
+    workerDataRegistry: [async ({ retainDataForWorker, playwright }, use) => {
+        if (!retainDataForWorker) {
+            await use(undefined);
+            return;
+        }
+        const registry = new TestDataRegistry(config.testData.keepOnFailure);
+        setActiveRegistry(registry);
+        await use(registry);
+        setActiveRegistry(undefined);
+        await removeTrackedRecords(registry, playwright);
+    }, { scope: 'worker', auto: true }],
+
+    /**
+     * Test data registry fixture
+     * Removes the records the test created at its teardown, or leaves them to the worker's registry
+     * with retainDataForWorker. Each record is attributed to the test that created it, so
+     * SF_KEEP_DATA_ON_FAILURE keeps only a failed test's records.
+     */
+    dataRegistry: [async ({ workerDataRegistry, playwright }, use, testInfo) => {
+        const registry = workerDataRegistry ?? new TestDataRegistry(config.testData.keepOnFailure);
+        registry.startTest(testInfo.testId, testInfo.title);
+        setActiveRegistry(registry);
+        await use(registry);
+        setActiveRegistry(workerDataRegistry);
+        registry.startTest(undefined);
+        if (testInfo.status !== testInfo.expectedStatus) {
+            registry.markFailed(testInfo.testId);
+        }
+        if (!workerDataRegistry) await removeTrackedRecords(registry, playwright);
+    }, { auto: true }],
+
+    /**
+     * Records the Aura and UI API traffic of the test's page and persona sessions
+     * An unexpected Aura action error fails the test with the server's message, at the latest at
+     * teardown; the traffic is attached as lightning-network.har per config.network.har
+     */
+    networkRecorder: async ({}, use, testInfo) => {
+        const recorder = new NetworkRecorder();
+        await use(recorder);
+        await recorder.settle();
+
+        const failed = testInfo.status !== testInfo.expectedStatus || recorder.unexpectedErrors.length > 0;
+        if (recorder.exchanges.length && (config.network.har === 'always' || (config.network.har === 'on-failure' && failed))) {
+            await testInfo.attach('lightning-network.har', {
+                body: JSON.stringify(recorder.toHar(), null, 2),
+                contentType: 'application/json',
+            });
+        }
+        if (recorder.unexpectedErrors.length && testInfo.status === testInfo.expectedStatus) {
+            throw recorder.unexpectedErrors[0];
+        }
+    },
+
+    /**
+     * The test's page, with its Lightning traffic recorded
+     */
+    page: async ({ page, networkRecorder }, use) => {
+        networkRecorder.record(page, 'admin');
+        await use(page);
+    },
+
+    /**
+     * Persona user pool fixture
+     * Leases this worker's users from the pools in config/personas.ts, provisioning each
+     * persona the first time a test asks for it
+     */
+    personaPool: [async ({ playwright }, use, workerInfo) => {
+        const request = await playwright.request.newContext({ ignoreHTTPSErrors: true });
+        try {
+            await use(new PersonaPool(new PersonaProvisioner(new SalesforceApiUtils(request)), workerInfo.parallelIndex));
+        } finally {
+            await request.dispose();
+        }
+    }, { scope: 'worker' }],
+
+    /**
+     * The user for a persona, e.g. await persona('readOnlyPlatform')
+     */
+    persona: async ({ personaPool }, use) => {
+        await use(name => personaPool.lease(name));
+    },
+
+    /**
+     * A persona logged in to its own browser context, e.g. await personaSession('readOnlyPlatform')
+     * Sessions run alongside the test's own page, start from the persona's saved session when it is
+     * still fresh, and are closed at teardown
+     */
+    personaSession: async ({ browser, personaPool, viewport, playwright, networkRecorder }, use) => {
+        const request = await playwright.request.newContext({ ignoreHTTPSErrors: true });
+        const sessions = new PersonaSessions(browser, new SalesforceApiUtils(request), { viewport }, personaLoginMethod, new SessionStateCache(request));
+        try {
+            await use(async (name, method) => {
+                const session = await sessions.open(await personaPool.lease(name), method);
+                networkRecorder.record(session.page, name);
+                return session;
+            });
+        } finally {
+            await sessions.closeAll();
+            await request.dispose();
+        }
+    },
+
     /**
      * Account page object fixture
      */
@@ -46,6 +184,27 @@ export const test = base.extend<SalesforceFixtures>({
         await use(userPage);
     },
 
+    /**
+     * Page object factory for any other sObject, e.g. recordPage('Contact')
+     */
+    recordPage: async ({ page }, use) => {
+        await use(<T extends object>(objectName: string) => new RecordPage<T>(page, objectName));
+    },
+
+    /**
+     * List view page object factory, e.g. listView('Opportunity', 'Default_Opportunity_Pipeline')
+     */
+    listView: async ({ page }, use) => {
+        await use(<T extends object>(objectName: string, listViewName?: string) => new ListView<T>(page, objectName, listViewName));
+    },
+
+    /**
+     * Related list factory for the open record page, e.g. relatedList('Account', 'Contacts')
+     */
+    relatedList: async ({ page }, use) => {
+        await use(<C extends object>(parentObject: string, name: string) => new RelatedList<C>(page, parentObject, name));
+    },
+
     /**
      * Salesforce API utilities fixture
      */
@@ -57,24 +216,40 @@ export const test = base.extend<SalesforceFixtures>({
     /**
      * Salesforce UI utilities fixture
      */
-    sfUtils: async ({ page }, use) => {
-        const sfUtils = new SalesforceUtils(page);
+    sfUtils: async ({ page, sfApi }, use) => {
+        const sfUtils = new SalesforceUtils(page, new DescribeCache(sfApi));
         await use(sfUtils);
     },
 
     /**
-     * Pre-authenticated page fixture
-     * Use this when you need to start with a logged-in session
+     * Pre-authenticated page fixture, open on Lightning home
+     * The page starts from the admin's saved session; if that has expired mid-run it logs in
+     * again and saves the new session for the tests after it
      */
     authenticatedPage: async ({ page }, use) => {
         const sfApi = new SalesforceApiUtils(page);
-        await sfApi.loginViaFrontdoor();
+        if (await sfApi.ensureLoggedIn()) {
+            await new SessionStateCache(page.request).save(ADMIN_STATE_USER, page.context());
+        }
         await use(page);
     },
 });
 
-// Re-export expect for convenience
-export { expect };
+/**
+ * Remove a registry's records through an API context of its own, as the test's page may be gone
+ */
+async function removeTrackedRecords(registry: TestDataRegistry, playwright: PlaywrightWorkerArgs['playwright']): Promise<void> {
+    if (!registry.tracked.length) return;
+    const request = await playwright.request.newContext({ ignoreHTTPSErrors: true });
+    try {
+        await registry.cleanup(new SalesforceApiUtils(request));
+    } finally {
+        await request.dispose();
+    }
+}
+
+// Re-export expect with the Salesforce matchers added
+export const expect = baseExpect.extend(salesforceMatchers);
 
 // Export test data generators
 export const testData = {
@@ -0,0 +1,67 @@
+import { ExpectMatcherState, MatcherReturnType } from '@playwright/test';
+import { SalesforceApiError } from '../utils/salesforce-errors';
+
+/**
+ * Custom expect matchers for Salesforce API failures
+ *
+ *   await expect(sfApi.createRecord('Opportunity', {...}))
+ *       .toFailWithSalesforceError('REQUIRED_FIELD_MISSING', ['CloseDate']);
+ */
+export const salesforceMatchers = {
+    async toFailWithSalesforceError(
+        this: ExpectMatcherState,
+        received: Promise<unknown>,
+        errorCode: string,
+        fields?: string[]
+    ): Promise<MatcherReturnType> {
+        const name = 'toFailWithSalesforceError';
+        const expected = fields ? `${errorCode} on [${fields.join(', ')}]` : errorCode;
+
+        let thrown: unknown;
+        let rejected = false;
+        try {
+            await received;
+        } catch (error) {
+            thrown = error;
+            rejected = true;
+        }
+
+        if (!rejected) {
+            return {
+                name,
+                pass: false,
+                expected,
+                message: () => `${this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot })}\n\n` +
+                    `Expected: rejected with ${this.utils.printExpected(expected)}\nReceived: promise resolved`,
+            };
+        }
+
+        if (!(thrown instanceof SalesforceApiError)) {
+            return {
+                name,
+                pass: false,
+                expected,
+                actual: thrown,
+                message: () => `${this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot })}\n\n` +
+                    `Expected: SalesforceApiError with ${this.utils.printExpected(expected)}\n` +
+                    `Received: ${this.utils.printReceived(thrown instanceof Error ? thrown.message : thrown)}`,
+            };
+        }
+
+        const fieldsForCode = thrown.fieldsFor(errorCode);
+        const pass = thrown.hasErrorCode(errorCode)
+            && (!fields || fields.every(field => fieldsForCode.includes(field)));
+        const actual = thrown.errors.map(error => `${error.errorCode} on [${error.fields.join(', ')}]`).join('; ');
+
+        return {
+            name,
+            pass,
+            expected,
+            actual,
+            message: () => `${this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot })}\n\n` +
+                `Expected: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected)}\n` +
+                `Received: ${this.utils.printReceived(actual)}\n` +
+                `Request:  ${thrown.method} ${thrown.endpoint}`,
+        };
+    },
+};
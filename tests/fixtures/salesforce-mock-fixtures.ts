@@ -0,0 +1,67 @@
+import { test as base, expect as baseExpect } from '@playwright/test';
+import { salesforceMatchers } from './salesforce-matchers';
+import { SalesforceMock, SalesforceMockOptions, startSalesforceMock } from '../mocks/salesforce-mock-server';
+import { clearSessionCache } from '../utils/auth-providers';
+import { clearDescribeCache } from '../utils/describe-cache';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { config } from '../../config/environment';
+
+/**
+ * Fixtures for testing the framework itself against the in-memory mock Salesforce server
+ * Each test gets a fresh mock; config.salesforce.instanceUrl and config.auth point at it
+ * for the duration of the test, so code that builds its own SalesforceApiUtils needs no changes:
+ *
+ *   test.use({ salesforceMockOptions: { records: { Account: [{ Name: 'Acme' }] } } });
+ *
+ *   test('finds the account', async ({ mockApi }) => {
+ *       expect(await mockApi.query("SELECT Id FROM Account WHERE Name = 'Acme'")).toHaveLength(1);
+ *   });
+ */
+
+type SalesforceMockFixtures = {
+    salesforceMockOptions: SalesforceMockOptions;
+    salesforceMock: SalesforceMock;
+    mockApi: SalesforceApiUtils;
+};
+
+export const test = base.extend<SalesforceMockFixtures>({
+    salesforceMockOptions: [{}, { option: true }],
+
+    salesforceMock: async ({ salesforceMockOptions }, use) => {
+        const mock = await startSalesforceMock(salesforceMockOptions);
+        const { salesforce, auth } = config;
+        config.salesforce = { ...salesforce, instanceUrl: mock.url };
+        config.auth = {
+            ...auth,
+            strategy: 'clientCredentials',
+            loginUrl: mock.url,
+            clientId: mock.clientId,
+            clientSecret: mock.clientSecret,
+        };
+        clearSessionCache();
+        clearDescribeCache();
+
+        try {
+            await use(mock);
+        } finally {
+            config.salesforce = salesforce;
+            config.auth = auth;
+            clearSessionCache();
+            clearDescribeCache();
+            await mock.close();
+        }
+    },
+
+    baseURL: async ({ salesforceMock }, use) => {
+        await use(salesforceMock.url);
+    },
+
+    /**
+     * API client authenticated against the mock through the client credentials flow
+     */
+    mockApi: async ({ salesforceMock: _mock, request }, use) => {
+        await use(new SalesforceApiUtils(request));
+    },
+});
+
+export const expect = baseExpect.extend(salesforceMatchers);
@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import { generateKeyPairSync } from 'crypto';
+import { writeFileSync } from 'fs';
+import { AuthConfig } from '../../config/environment';
+import {
+    clearSessionCache,
+    ClientCredentialsAuthProvider,
+    createAuthProvider,
+    JwtBearerAuthProvider,
+    RefreshTokenAuthProvider,
+} from '../utils/auth-providers';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { OAuthStandIn, startOAuthStandIn } from '../mocks/oauth-token-server';
+
+/**
+ * Authentication strategies exercised against a local OAuth token endpoint stand-in
+ */
+
+test.describe('Auth providers', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    let standIn: OAuthStandIn;
+    let authConfig: AuthConfig;
+
+    test.beforeEach(async ({}, testInfo) => {
+        clearSessionCache();
+        standIn = await startOAuthStandIn({
+            clientId: 'ci-connected-app',
+            clientSecret: 'ci-secret',
+            username: 'ci.user@test.automation.com',
+            refreshToken: 'ci-refresh-token',
+            publicKey,
+        });
+
+        const privateKeyPath = testInfo.outputPath('server.key');
+        writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+
+        authConfig = {
+            strategy: 'jwt',
+            loginUrl: standIn.url,
+            clientId: 'ci-connected-app',
+            clientSecret: 'ci-secret',
+            username: 'ci.user@test.automation.com',
+            privateKeyPath,
+            refreshToken: 'ci-refresh-token',
+            targetOrg: '',
+        };
+    });
+
+    test.afterEach(async () => {
+        await standIn.close();
+    });
+
+    test('JWT bearer flow sends a signed assertion', async ({ request }) => {
+        const session = await new JwtBearerAuthProvider(authConfig).authenticate(request);
+
+        expect(session.accessToken).toBe(standIn.issuedTokens[0]);
+        expect(session.instanceUrl).toBe(standIn.url);
+        expect(standIn.tokenRequests[0].grant_type).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    });
+
+    test('refresh token flow exchanges the configured token', async ({ request }) => {
+        const session = await new RefreshTokenAuthProvider(authConfig).authenticate(request);
+
+        expect(session.accessToken).toBe(standIn.issuedTokens[0]);
+        expect(standIn.tokenRequests[0]).toMatchObject({
+            grant_type: 'refresh_token',
+            client_id: 'ci-connected-app',
+            refresh_token: 'ci-refresh-token',
+        });
+    });
+
+    test('client credentials flow sends client id and secret', async ({ request }) => {
+        const session = await new ClientCredentialsAuthProvider(authConfig).authenticate(request);
+
+        expect(session.accessToken).toBe(standIn.issuedTokens[0]);
+        expect(standIn.tokenRequests[0]).toMatchObject({ grant_type: 'client_credentials', client_secret: 'ci-secret' });
+    });
+
+    test('token endpoint errors surface the OAuth error description', async ({ request }) => {
+        const provider = new RefreshTokenAuthProvider({ ...authConfig, refreshToken: 'revoked' });
+
+        await expect(provider.authenticate(request)).rejects.toThrow(/400 - expired access\/refresh token/);
+    });
+
+    test('missing settings are reported by environment variable name', async ({ request }) => {
+        const provider = new ClientCredentialsAuthProvider({ ...authConfig, clientSecret: '' });
+
+        await expect(provider.authenticate(request)).rejects.toThrow('SF_CLIENT_SECRET is required');
+    });
+
+    test('createAuthProvider picks the configured strategy', () => {
+        expect(createAuthProvider({ ...authConfig, strategy: 'jwt' })).toBeInstanceOf(JwtBearerAuthProvider);
+        expect(createAuthProvider({ ...authConfig, strategy: 'refreshToken' })).toBeInstanceOf(RefreshTokenAuthProvider);
+        expect(createAuthProvider({ ...authConfig, strategy: 'clientCredentials' })).toBeInstanceOf(ClientCredentialsAuthProvider);
+    });
+
+    for (const strategy of ['jwt', 'refreshToken', 'clientCredentials'] as const) {
+        test(`restCall works with the ${strategy} strategy and reuses the cached token`, async ({ request }) => {
+            const provider = createAuthProvider({ ...authConfig, strategy });
+            const first = new SalesforceApiUtils(request, provider);
+            const second = new SalesforceApiUtils(request, createAuthProvider({ ...authConfig, strategy }));
+
+            const limits = await first.restCall<{ DailyApiRequests: { Max: number } }>('GET', '/limits');
+            await second.restCall('GET', '/limits');
+
+            expect(limits.DailyApiRequests.Max).toBe(15000);
+            expect(standIn.tokenRequests).toHaveLength(1);
+        });
+    }
+});
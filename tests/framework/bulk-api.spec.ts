@@ -0,0 +1,97 @@
+import { test } from '@playwright/test';
+import { expect } from '../fixtures';
+import { BulkApiClient } from '../utils/bulk-api';
+import { parseCsv, toCsv } from '../utils/csv';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { soql } from '../utils/soql-builder';
+import { BulkStandIn, startBulkStandIn } from '../mocks/bulk-api-server';
+
+/**
+ * Bulk API 2.0 client exercised against a local stand-in that simulates job state transitions
+ */
+
+test.describe('Bulk API 2.0 client', () => {
+    let standIn: BulkStandIn;
+    let bulk: BulkApiClient;
+
+    test.beforeEach(async ({ request }) => {
+        standIn = await startBulkStandIn({
+            requiredFields: { Opportunity: ['Name', 'StageName', 'CloseDate'] },
+            queryRows: Array.from({ length: 5 }, (_, i) => ({ Id: `006${i}`, Name: `TestOpp_${i}` })),
+            pollsUntilComplete: 2,
+        });
+        bulk = new BulkApiClient(new SalesforceApiUtils(request, standIn.authProvider), { pollIntervalMs: 5, timeoutMs: 2000 });
+    });
+
+    test.afterEach(async () => {
+        await standIn.close();
+    });
+
+    test('ingests an array and returns successful and failed results', async () => {
+        const opportunities = [
+            { Name: 'TestOpp_1', StageName: 'Prospecting', CloseDate: '2030-01-31', Quantity__c: 10 },
+            { Name: 'TestOpp_2', StageName: 'Prospecting', CloseDate: '2030-01-31', Quantity__c: null },
+            { Name: 'TestOpp_3', StageName: 'Prospecting', CloseDate: '' },
+        ];
+
+        const result = await bulk.ingest('Opportunity', 'insert', opportunities);
+
+        expect(result.job.state).toBe('JobComplete');
+        expect(standIn.stateHistory.get(result.job.id)).toEqual(['Open', 'UploadComplete', 'InProgress', 'JobComplete']);
+        expect(result.successful.map(r => r.Name)).toEqual(['TestOpp_1', 'TestOpp_2']);
+        expect(result.successful[0].sf__Id).toMatch(/^006/);
+        expect(result.successful[1].Quantity__c).toBe('#N/A');
+        expect(result.failed).toHaveLength(1);
+        expect(result.failed[0].sf__Error).toContain('REQUIRED_FIELD_MISSING');
+        expect(result.unprocessed).toEqual([]);
+    });
+
+    test('ingests a CSV string unchanged', async () => {
+        const csv = 'Name\n"Smith, Jones & ""Partners"""\n"Line\nbreak"\n';
+
+        const result = await bulk.ingest('Account', 'insert', csv);
+
+        expect(result.successful.map(r => r.Name)).toEqual(['Smith, Jones & "Partners"', 'Line\nbreak']);
+    });
+
+    test('upsert requires an external Id field', async () => {
+        await expect(bulk.ingest('Account', 'upsert', [{ Name: 'A1' }])).rejects.toThrow('externalIdFieldName');
+    });
+
+    test('job creation errors are SalesforceApiErrors', async () => {
+        await expect(bulk.ingest('Nonexistent__c', 'insert', [{ Name: 'x' }])).toFailWithSalesforceError('INVALIDJOB');
+    });
+
+    test('query follows the Sforce-Locator across result pages', async () => {
+        const pages: number[] = [];
+        const job = await bulk.createQueryJob(soql('Opportunity').select('Id', 'Name'));
+        await bulk.waitForJob(job.id, 'query');
+        for await (const page of bulk.queryResultPages(job.id, 2)) {
+            pages.push(page.length);
+        }
+
+        const rows = await bulk.query(soql('Opportunity').select('Id', 'Name'), { maxRecordsPerPage: 2 });
+
+        expect(pages).toEqual([2, 2, 1]);
+        expect(rows.map(r => r.Name)).toEqual(['TestOpp_0', 'TestOpp_1', 'TestOpp_2', 'TestOpp_3', 'TestOpp_4']);
+    });
+
+    test('polling gives up after the timeout', async ({ request }) => {
+        const impatient = new BulkApiClient(new SalesforceApiUtils(request, standIn.authProvider), { pollIntervalMs: 5, timeoutMs: 0 });
+        const job = await impatient.createIngestJob('Account', 'insert');
+        await impatient.uploadJobData(job.id, toCsv([{ Name: 'A1' }]));
+        await impatient.closeJob(job.id);
+
+        await expect(impatient.waitForJob(job.id)).rejects.toThrow(/still InProgress after 0ms/);
+    });
+});
+
+test.describe('CSV helpers', () => {
+    test('round-trips quotes, commas, newlines and nulls', () => {
+        const records = [{ Name: 'O\'Brien, "The" Firm', Description: 'multi\nline', Amount: 10, Type: null }];
+
+        expect(parseCsv(toCsv(records))).toEqual([
+            { Name: 'O\'Brien, "The" Firm', Description: 'multi\nline', Amount: '10', Type: '#N/A' },
+        ]);
+    });
+});
@@ -0,0 +1,164 @@
+import { test, Page } from '@playwright/test';
+import { expect } from '../fixtures';
+import { assertValidPicklistValue, clearDescribeCache, DescribeCache, RecordLayout } from '../utils/describe-cache';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { SalesforceUtils } from '../utils/salesforce-utils';
+import { describeFixtures, OPPORTUNITY_STAGES } from '../mocks/describe-fixtures';
+
+/**
+ * Describe-driven field metadata: UI label mapping, widget inference and picklist validation
+ */
+
+const item = (label: string, apiName: string | null, componentType = 'Field') => ({
+    label,
+    required: false,
+    editableForNew: true,
+    editableForUpdate: true,
+    layoutComponents: [{ apiName, componentType }],
+});
+
+const opportunityLayout: RecordLayout = {
+    sections: [
+        {
+            heading: 'Opportunity Information',
+            layoutRows: [
+                { layoutItems: [item('Opportunity Name', 'Name'), item('Close Date', 'CloseDate')] },
+                { layoutItems: [item('Account Name', 'AccountId'), item('', null, 'EmptySpace')] },
+            ],
+        },
+        { heading: 'Additional Information', layoutRows: [{ layoutItems: [item('Quantity', 'Quantity__c')] }] },
+    ],
+};
+
+function describingApi(calls: string[]): SalesforceApiUtils {
+    return {
+        describeSObject: async (name: string) => {
+            calls.push(name);
+            return describeFixtures[name];
+        },
+        getRecordLayout: async (name: string, mode: string) => {
+            calls.push(`${name} layout ${mode}`);
+            return opportunityLayout;
+        },
+        getRelatedListInfo: async (name: string) => {
+            calls.push(`${name} related lists`);
+            return [
+                { relatedListId: 'Contacts', label: 'Contacts', objectApiName: 'Contact' },
+                { relatedListId: 'Opportunities', label: 'Opportunities', objectApiName: 'Opportunity' },
+                { relatedListId: 'CombinedAttachments', label: 'Notes & Attachments', objectApiName: 'CombinedAttachment' },
+            ];
+        },
+    } as unknown as SalesforceApiUtils;
+}
+
+test.describe('Describe cache', () => {
+    let calls: string[];
+    let describe: DescribeCache;
+
+    test.beforeEach(() => {
+        clearDescribeCache();
+        calls = [];
+        describe = new DescribeCache(describingApi(calls));
+    });
+
+    test('describes each object once per worker', async () => {
+        await Promise.all([describe.describe('Opportunity'), describe.getField('Opportunity', 'Stage')]);
+        await new DescribeCache(describingApi(calls)).getField('Opportunity', 'Amount');
+
+        expect(calls).toEqual(['Opportunity']);
+    });
+
+    test('maps record page labels to API names and widgets', async () => {
+        const fields = await Promise.all(
+            ['Opportunity Name', 'Account Name', 'Close Date', 'Stage', 'Amount', 'Probability', 'Type', 'Private', 'Description']
+                .map(label => describe.getField('Opportunity', label))
+        );
+
+        expect(fields.map(f => [f.apiName, f.fieldType])).toEqual([
+            ['Name', 'text'],
+            ['AccountId', 'lookup'],
+            ['CloseDate', 'date'],
+            ['StageName', 'combobox'],
+            ['Amount', 'currency'],
+            ['Probability', 'text'],
+            ['Type', 'combobox'],
+            ['IsPrivate', 'checkbox'],
+            ['Description', 'text'],
+        ]);
+        expect(fields[1].referenceTo).toEqual(['Account']);
+        expect(await describe.getField('Account', 'Follow-up At')).toMatchObject({ dataType: 'datetime', fieldType: 'datetime' });
+        expect(await describe.getField('Account', 'Regions')).toMatchObject({ dataType: 'multipicklist', fieldType: null });
+        expect(fields[3].picklistValues).toEqual(OPPORTUNITY_STAGES);
+        expect(await describe.findField('Account', 'Account Name')).toMatchObject({ apiName: 'Name' });
+        expect(await describe.findField('Opportunity', 'No Such Field')).toBeNull();
+    });
+
+    test('treats non-nillable fields without a default as required', async () => {
+        const required = await describe.getRequiredFields('Opportunity');
+
+        expect(required.map(f => f.apiName)).toEqual(['Name', 'StageName', 'CloseDate']);
+    });
+
+    test('reads layout fields in display order and finds the name field', async () => {
+        const fields = await describe.getLayoutFields('Opportunity');
+        await describe.getLayoutFields('Opportunity');
+
+        expect(fields.map(f => `${f.section}: ${f.label} (${f.apiName})`)).toEqual([
+            'Opportunity Information: Opportunity Name (Name)',
+            'Opportunity Information: Close Date (CloseDate)',
+            'Opportunity Information: Account Name (AccountId)',
+            'Additional Information: Quantity (Quantity__c)',
+        ]);
+        expect(calls).toEqual(['Opportunity layout View']);
+        expect(await describe.getNameField('Account')).toBe('Name');
+        expect(await describe.getLayoutLabel('Opportunity', 'AccountId')).toBe('Account Name');
+        expect(await describe.getLayoutLabel('Opportunity', 'Stage')).toBe('Stage');
+    });
+
+    test('pairs layout related lists with the child relationship behind them', async () => {
+        const relatedLists = await describe.getRelatedLists('Account');
+        await describe.getRelatedList('Account', 'opportunities');
+
+        expect(relatedLists).toEqual([
+            { label: 'Contacts', relationshipName: 'Contacts', childObject: 'Contact', field: 'AccountId' },
+            { label: 'Opportunities', relationshipName: 'Opportunities', childObject: 'Opportunity', field: 'AccountId' },
+        ]);
+        expect(calls.sort()).toEqual(['Account', 'Account related lists']);
+        await expect(describe.getRelatedList('Account', 'Cases')).rejects.toThrow(
+            'Account has no related list labelled or named "Cases" on its layout. Related lists: Contacts (Contacts), Opportunities (Opportunities)'
+        );
+    });
+
+    test('fillField rejects an invalid picklist value before touching the UI', async () => {
+        const page = { url: () => 'https://example.lightning.force.com/lightning/o/Opportunity/new?count=1', on: () => page } as unknown as Page;
+        const sfUtils = new SalesforceUtils(page, describe);
+
+        expect(sfUtils.getCurrentObjectName()).toBe('Opportunity');
+        await expect(sfUtils.fillField('Stage', 'Closed Maybe')).rejects.toThrow(
+            '"Closed Maybe" is not a valid Opportunity.StageName value. Active values: Prospecting, Qualification'
+        );
+        await expect(sfUtils.fillField('Industry', 'Mining', undefined, 'Account')).rejects.toThrow('Account.Industry');
+    });
+
+    test('accepts picklist values by label or API name and leaves comboboxes free text', async () => {
+        const rating = await describe.getField('Account', 'Rating');
+        const territory = await describe.getField('Account', 'Territory');
+
+        expect(() => assertValidPicklistValue('Account', rating, 'Warm')).not.toThrow();
+        expect(() => assertValidPicklistValue('Account', rating, 'Lukewarm')).not.toThrow();
+        expect(() => assertValidPicklistValue('Account', rating, 'Cold')).toThrow(
+            '"Cold" is not a valid Account.Rating value. Active values: Hot, Warm (Lukewarm)'
+        );
+        expect(territory).toMatchObject({ dataType: 'combobox', fieldType: 'combobox' });
+        expect(() => assertValidPicklistValue('Account', territory, 'East')).not.toThrow();
+    });
+
+    test('fillField rejects a field without a supported widget unless a fieldType is passed', async () => {
+        const page = { url: () => 'https://example.lightning.force.com/lightning/r/Account/001000000000001AAA/edit', on: () => page } as unknown as Page;
+        const sfUtils = new SalesforceUtils(page, describe);
+
+        await expect(sfUtils.fillField('Regions', 'EMEA')).rejects.toThrow(
+            'Field "Regions" on Account is a multipicklist field, which fillField has no widget for; pass a fieldType'
+        );
+    });
+});
@@ -0,0 +1,26 @@
+import { test, expect } from '@playwright/test';
+import { readdirSync, readFileSync } from 'fs';
+import { LIGHTNING_DOM_DIR, LIGHTNING_DOM_FIXTURES, lightningDomFile, LightningDomFixture } from '../mocks/lightning-dom';
+
+/**
+ * The Lightning DOM fixture files and their manifest agree, so every captured variant is reachable
+ * from tests/lightning-dom and no spec points at a template that does not exist
+ */
+
+test.describe('Lightning DOM fixtures', () => {
+    test('lists every fixture file in the manifest', () => {
+        const files = readdirSync(LIGHTNING_DOM_DIR).filter(file => file.endsWith('.html')).map(file => file.replace(/\.html$/, ''));
+
+        expect(files.sort()).toEqual(Object.keys(LIGHTNING_DOM_FIXTURES).sort());
+    });
+
+    for (const fixture of Object.keys(LIGHTNING_DOM_FIXTURES) as LightningDomFixture[]) {
+        test(`${fixture}.html has one template per listed variant`, () => {
+            const html = readFileSync(lightningDomFile(fixture), 'utf8');
+            const templates = [...html.matchAll(/<template id="([\w-]+)">/g)].map(match => match[1]);
+
+            expect(templates).toEqual([...LIGHTNING_DOM_FIXTURES[fixture]]);
+            expect(html).toContain('<script src="/lightning-dom.js"></script>');
+        });
+    }
+});
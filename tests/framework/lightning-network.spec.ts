@@ -0,0 +1,141 @@
+import { test, expect, Page, Request, Response } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { isLightningRequest, LightningNetwork, parseAuraActions } from '../utils/lightning-network';
+import { config } from '../../config/environment';
+
+/**
+ * In-flight tracking and the waits built on it, driven by a stand-in page that emits the
+ * request events Playwright would
+ */
+
+const INSTANCE = 'https://example.lightning.force.com';
+const OPPORTUNITY_ID = '006000000000001AAA';
+
+function auraBody(...actions: { descriptor: string; params?: Record<string, unknown> }[]): string {
+    const message = { actions: actions.map((action, index) => ({ id: `${index};a`, ...action })) };
+    return new URLSearchParams({ message: JSON.stringify(message), 'aura.token': 'token' }).toString();
+}
+
+function fakeRequest(url: string, postData: string | null = null): Request {
+    const response = { status: () => 200, url: () => url } as Response;
+    return {
+        url: () => `${INSTANCE}${url}`,
+        method: () => postData ? 'POST' : 'GET',
+        postData: () => postData,
+        response: async () => response,
+        failure: () => ({ errorText: 'net::ERR_ABORTED' }),
+    } as unknown as Request;
+}
+
+function fakePage(): { page: Page; emit: (event: string, request: Request) => void } {
+    const events = new EventEmitter();
+    return { page: events as unknown as Page, emit: (event, request) => events.emit(event, request) };
+}
+
+test.describe('Lightning network waits', () => {
+    test('recognises Aura, UI API and Apex traffic and reads the actions of an Aura request', () => {
+        expect(isLightningRequest(`${INSTANCE}/aura?r=12&ui-force-components-controllers-recordGlobalValueProvider.RecordGvp.getRecord=1`)).toBe(true);
+        expect(isLightningRequest(`${INSTANCE}/s/sfsites/aura?r=3`)).toBe(true);
+        expect(isLightningRequest(`${INSTANCE}/services/data/v60.0/ui-api/records/${OPPORTUNITY_ID}`)).toBe(true);
+        expect(isLightningRequest(`${INSTANCE}/webruntime/api/apex/execute?classname=OpportunityController`)).toBe(true);
+        expect(isLightningRequest(`${INSTANCE}/cometd/60.0/connect`)).toBe(false);
+        expect(isLightningRequest(`${INSTANCE}/lightning/r/Opportunity/${OPPORTUNITY_ID}/view`)).toBe(false);
+
+        expect(parseAuraActions(auraBody(
+            { descriptor: 'serviceComponent://ui.force.components.controllers.lists.listViewDataManager.ListViewDataManagerController/ACTION$getItems' },
+            { descriptor: 'aura://ApexActionController/ACTION$execute', params: { namespace: '', classname: 'OpportunityController', method: 'getPipeline' } },
+        )).map(action => action.descriptor)).toEqual([
+            'serviceComponent://ui.force.components.controllers.lists.listViewDataManager.ListViewDataManagerController/ACTION$getItems',
+            'apex://OpportunityController/ACTION$getPipeline',
+        ]);
+        expect(parseAuraActions(null)).toEqual([]);
+        expect(parseAuraActions('message=not-json')).toEqual([]);
+    });
+
+    test('is idle only once no request has been in flight for the quiet period', async () => {
+        const { page, emit } = fakePage();
+        const network = LightningNetwork.for(page);
+        expect(LightningNetwork.for(page)).toBe(network);
+
+        const request = fakeRequest('/aura?r=1', auraBody({ descriptor: 'aura://RecordUiController/ACTION$getRecordWithFields' }));
+        emit('request', request);
+        emit('request', fakeRequest('/cometd/60.0/connect'));
+        setTimeout(() => emit('requestfinished', request), 200);
+
+        const started = Date.now();
+        await network.waitForLightningIdle({ idleTime: 100, timeout: 2000 });
+        expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+        expect(network.pending).toEqual([]);
+
+        emit('request', fakeRequest(`/services/data/v60.0/ui-api/records/${OPPORTUNITY_ID}`));
+        await expect(network.waitForLightningIdle({ idleTime: 50, timeout: 200 }))
+            .rejects.toThrow(`Lightning still busy after 200ms: GET /services/data/v60.0/ui-api/records/${OPPORTUNITY_ID}`);
+    });
+
+    test('resolves an Aura action wait with the response of the request that carried it', async () => {
+        const { page, emit } = fakePage();
+        const network = LightningNetwork.for(page);
+
+        const saved = network.waitForAuraAction('RecordUiController/ACTION$updateRecord', { timeout: 1000 });
+        const other = fakeRequest('/aura?r=1', auraBody({ descriptor: 'aura://HostConfigController/ACTION$getConfigData' }));
+        const update = fakeRequest('/aura?r=2', auraBody(
+            { descriptor: 'aura://ComponentController/ACTION$reportFailedAction' },
+            { descriptor: 'aura://RecordUiController/ACTION$updateRecord', params: { recordId: OPPORTUNITY_ID } },
+        ));
+        for (const request of [other, update]) emit('request', request);
+        emit('requestfinished', other);
+        emit('requestfinished', update);
+
+        expect((await saved).url()).toBe('/aura?r=2');
+
+        const apex = network.waitForAuraAction('apex://OpportunityController', { timeout: 1000 });
+        const failed = fakeRequest('/aura?r=3', auraBody({ descriptor: 'aura://ApexActionController/ACTION$execute', params: { classname: 'OpportunityController', method: 'close' } }));
+        emit('request', failed);
+        emit('requestfailed', failed);
+        await expect(apex).rejects.toThrow('Request for Aura action "apex://OpportunityController" failed: net::ERR_ABORTED');
+
+        await expect(network.waitForAuraAction('ACTION$never', { timeout: 50 })).rejects.toThrow('No request for Aura action "ACTION$never" completed within 50ms');
+    });
+
+    test('matches record loads by Id in UI API URLs and Aura record actions', async () => {
+        const { page, emit } = fakePage();
+        const network = LightningNetwork.for(page);
+
+        const fromUiApi = network.waitForUiApiRecord(OPPORTUNITY_ID, { timeout: 1000 });
+        const elsewhere = fakeRequest('/services/data/v60.0/ui-api/records/006000000000002AAA');
+        const batch = fakeRequest(`/services/data/v60.0/ui-api/records/batch/${OPPORTUNITY_ID.slice(0, 15)},006000000000002`);
+        for (const request of [elsewhere, batch]) {
+            emit('request', request);
+            emit('requestfinished', request);
+        }
+        expect((await fromUiApi).url()).toBe(batch.url().replace(INSTANCE, ''));
+
+        const fromAura = network.waitForUiApiRecord(OPPORTUNITY_ID, { timeout: 1000 });
+        const layout = fakeRequest('/aura?r=4', auraBody({ descriptor: 'aura://LayoutController/ACTION$getLayout', params: { recordId: OPPORTUNITY_ID } }));
+        const record = fakeRequest('/aura?r=5', auraBody({ descriptor: 'aura://RecordUiController/ACTION$getRecordWithFields', params: { recordId: OPPORTUNITY_ID } }));
+        for (const request of [layout, record]) {
+            emit('request', request);
+            emit('requestfinished', request);
+        }
+        expect((await fromAura).url()).toBe('/aura?r=5');
+    });
+
+    test('drops requests open longer than the action timeout but still settles waits on them', async () => {
+        const { page, emit } = fakePage();
+        const network = LightningNetwork.for(page);
+        const longPoll = fakeRequest('/aura?r=6', auraBody({ descriptor: 'aura://ComponentController/ACTION$getEvents' }));
+        const events = network.waitForAuraAction('ACTION$getEvents', { timeout: 1000 });
+        emit('request', longPoll);
+        expect(network.pending).toEqual([longPoll]);
+
+        const now = Date.now;
+        Date.now = () => now() + config.timeouts.action + 1;
+        try {
+            expect(network.pending).toEqual([]);
+        } finally {
+            Date.now = now;
+        }
+        emit('requestfinished', longPoll);
+        expect((await events).url()).toBe('/aura?r=6');
+    });
+});
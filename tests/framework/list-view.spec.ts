@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import { toListInfoInput } from '../utils/list-view-api';
+import { parseItemCount } from '../pages/list-view';
+
+/**
+ * List views created through the UI API and the status line ListView reads its row count from;
+ * tests/lightning-dom drives ListView against list view markup
+ */
+
+test.describe('List views', () => {
+    test('builds the UI API list-info body from a definition', () => {
+        expect(toListInfoInput({ developerName: 'Test_Pipeline', label: 'Test Pipeline' })).toEqual({
+            listViewApiName: 'Test_Pipeline',
+            label: 'Test Pipeline',
+            filteredByInfo: [],
+            scope: { apiName: 'everything' },
+            visibility: 'Private',
+        });
+
+        expect(toListInfoInput({
+            developerName: 'Test_Pipeline',
+            label: 'Test Pipeline',
+            columns: ['Name', 'StageName', 'Amount'],
+            filters: [
+                { field: 'StageName', operator: 'Equals', values: ['Prospecting', 'Qualification'] },
+                { field: 'Amount', operator: 'GreaterThan', values: ['1000'] },
+            ],
+            filterLogic: '1 OR 2',
+            scope: 'mine',
+            visibility: 'Public',
+        })).toEqual({
+            listViewApiName: 'Test_Pipeline',
+            label: 'Test Pipeline',
+            displayColumns: ['Name', 'StageName', 'Amount'],
+            filteredByInfo: [
+                { fieldApiName: 'StageName', operator: 'Equals', operandLabels: ['Prospecting', 'Qualification'] },
+                { fieldApiName: 'Amount', operator: 'GreaterThan', operandLabels: ['1000'] },
+            ],
+            filterLogicString: '1 OR 2',
+            scope: { apiName: 'mine' },
+            visibility: 'Public',
+        });
+    });
+
+    test('reads the item count and whether more rows load on scroll', () => {
+        expect(parseItemCount('50+ items • Sorted by Opportunity Name • Filtered by All opportunities')).toEqual({ count: 50, more: true });
+        expect(parseItemCount('1,250 items • Updated a few seconds ago')).toEqual({ count: 1250, more: false });
+        expect(parseItemCount('1 item • Sorted by Close Date')).toEqual({ count: 1, more: false });
+        expect(parseItemCount('Updated a few seconds ago')).toBeNull();
+    });
+});
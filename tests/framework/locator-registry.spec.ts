@@ -0,0 +1,148 @@
+import { test, expect, Locator, Page } from '@playwright/test';
+import { readFileSync } from 'fs';
+import { formatLocatorReport, LOCATOR_ANNOTATION, LocatorRegistry } from '../utils/locator-registry';
+import { locators } from '../utils/locators';
+import LocatorReporter from '../reporters/locator-reporter';
+import type { TestCase, TestResult } from '@playwright/test/reporter';
+
+/**
+ * Fallback order, match telemetry and the dead-selector report. There is no browser in the
+ * framework project, so pages are stand-ins that report a fixed set of selectors as visible;
+ * tests/lightning-dom drives the real selectors against captured markup.
+ */
+
+// Keys of their own, so the locator reporter ignores this spec's annotations
+const registry = new LocatorRegistry({
+    'demo.editButton': {
+        description: 'Edit button',
+        strategies: [
+            { selector: 'button[name="Edit"]' },
+            { selector: 'lightning-button:has-text("Edit")', release: "Winter '24" },
+            { selector: 'a[title="Edit"]', release: "Summer '20" },
+        ],
+    },
+    'demo.outputValue': {
+        description: 'Field value',
+        strategies: [
+            { selector: ({ label }: { label: string }) => `force-record-output-field:has(span:text-is("${label}")) lightning-formatted-text` },
+            { selector: ({ label }: { label: string }) => `records-record-layout-item[field-label="${label}"] lightning-formatted-text` },
+            { selector: ({ label }: { label: string }) => `div.slds-form-element:has(span:has-text("${label}")) .slds-form-element__static` },
+        ],
+    },
+    'demo.toast': {
+        description: 'Toast',
+        strategies: [{ selector: 'div.toastContainer' }],
+    },
+});
+
+/**
+ * A page on which the given selectors are visible; `appears` become visible once waited for
+ */
+function fakePage(visible: string[], appears: string[] = []): Page {
+    const locator = (selectors: string[]): Locator => ({
+        filter: () => locator(selectors),
+        first: () => locator(selectors),
+        or: (other: Locator) => locator([...selectors, ...(other as unknown as { selectors: string[] }).selectors]),
+        isVisible: async () => selectors.some(selector => visible.includes(selector)),
+        waitFor: async () => {
+            if (!selectors.some(selector => appears.includes(selector))) throw new Error('Timeout');
+            visible.push(...appears);
+        },
+        selectors,
+    }) as unknown as Locator;
+    return { locator: (selector: string) => locator([selector]) } as unknown as Page;
+}
+
+function locatorAnnotations(): string[] {
+    return test.info().annotations.filter(annotation => annotation.type === LOCATOR_ANNOTATION).map(annotation => annotation.description!);
+}
+
+test.describe('Locator registry', () => {
+    test('fills parameters into selectors and shows them as placeholders in templates', () => {
+        expect(registry.selectors('demo.outputValue', { label: 'Amount' })[1])
+            .toBe('records-record-layout-item[field-label="Amount"] lightning-formatted-text');
+        expect(registry.templates('demo.outputValue')[2]).toBe('div.slds-form-element:has(span:has-text("{label}")) .slds-form-element__static');
+    });
+
+    test('returns the first strategy with a visible match and records it on the test', async () => {
+        const page = fakePage(['a[title="Edit"]', 'lightning-button:has-text("Edit")']);
+
+        expect(await registry.find(page, 'demo.editButton', {})).not.toBeNull();
+        await registry.find(page, 'demo.editButton', {});
+        expect(await registry.find(page, 'demo.toast', {})).toBeNull();
+
+        expect(locatorAnnotations()).toEqual([
+            'demo.editButton: strategy 2 of 3 (lightning-button:has-text("Edit"))',
+            'demo.toast: no strategy matched',
+        ]);
+    });
+
+    test('waits for any strategy when a timeout is given', async () => {
+        const page = fakePage([], ['div.slds-form-element:has(span:has-text("Stage")) .slds-form-element__static']);
+
+        expect(await registry.find(page, 'demo.outputValue', { label: 'Stage' })).toBeNull();
+        expect(await registry.find(page, 'demo.outputValue', { label: 'Stage' }, { timeout: 1000 })).not.toBeNull();
+
+        expect(locatorAnnotations()).toEqual([
+            'demo.outputValue: no strategy matched',
+            'demo.outputValue: strategy 3 of 3 (div.slds-form-element:has(span:has-text("Stage")) .slds-form-element__static)',
+        ]);
+    });
+
+    test('reports tried-but-dead selectors apart from unreached fallbacks, deep fallbacks and unused keys', () => {
+        const annotation = (description: string) => ({ type: LOCATOR_ANNOTATION, description });
+        const report = registry.report([
+            [annotation('demo.editButton: strategy 1 of 3 (button[name="Edit"])'), annotation('demo.outputValue: strategy 3 of 3 (...)')],
+            [annotation('demo.editButton: strategy 1 of 3 (button[name="Edit"])'), { type: 'api-retry', description: 'GET /query' }],
+            [annotation('demo.outputValue: no strategy matched'), annotation('demo.outputValue: strategy 3 of 3 (...)')],
+        ]);
+
+        expect(report.dead).toEqual([
+            { key: 'demo.outputValue', strategy: 1, selector: 'force-record-output-field:has(span:text-is("{label}")) lightning-formatted-text' },
+            { key: 'demo.outputValue', strategy: 2, selector: 'records-record-layout-item[field-label="{label}"] lightning-formatted-text' },
+        ]);
+        expect(report.unreached).toEqual([
+            { key: 'demo.editButton', strategy: 2, selector: 'lightning-button:has-text("Edit")', release: "Winter '24" },
+            { key: 'demo.editButton', strategy: 3, selector: 'a[title="Edit"]', release: "Summer '20" },
+        ]);
+        expect(report.keys[0].strategies.map(strategy => strategy.tried)).toEqual([2, 0, 0]);
+        expect(report.deep).toEqual([
+            { key: 'demo.outputValue', strategy: 3, selector: 'div.slds-form-element:has(span:has-text("{label}")) .slds-form-element__static', tests: 2 },
+        ]);
+        expect(report.unused).toEqual(['demo.toast']);
+        expect(report.keys[1]).toMatchObject({ key: 'demo.outputValue', tests: 2, misses: 1 });
+
+        const text = formatLocatorReport(report);
+        expect(text).toContain('Locators: 2 of 3 keys resolved');
+        expect(text).toContain('Dead selectors (tried and never matched this run): 2');
+        expect(text).toContain('  demo.outputValue #1 force-record-output-field');
+        expect(text).not.toContain('demo.editButton #3');
+        expect(text).toContain('Fallbacks not reached (an earlier strategy always matched): 2');
+        expect(text).toContain('demo.outputValue  2      1       0 / 0 / 2');
+        expect(formatLocatorReport(registry.report([]))).toBe('No registered locators were resolved');
+    });
+
+    test('the reporter writes the report for runs that resolved locators', async ({}, testInfo) => {
+        const outputFile = testInfo.outputPath('locator-report.json');
+        const reporter = new LocatorReporter({ outputFile });
+        const result = (description: string) => ({ annotations: [{ type: LOCATOR_ANNOTATION, description }] }) as TestResult;
+
+        reporter.onTestEnd({} as TestCase, result('record.editButton: strategy 1 of 4 (button[name="Edit"])'));
+        reporter.onTestEnd({} as TestCase, { annotations: [] } as unknown as TestResult);
+        reporter.onEnd();
+
+        const written = JSON.parse(readFileSync(outputFile, 'utf-8'));
+        expect(written.keys.find((key: { key: string }) => key.key === 'record.editButton'))
+            .toMatchObject({ tests: 1, misses: 0, strategies: [{ tests: 1 }, { tests: 0 }, { tests: 0 }, { tests: 0 }] });
+    });
+
+    test('every registered key has distinct strategies that build without parameters missing', () => {
+        for (const key of locators.keys) {
+            const templates = locators.templates(key);
+            expect(locators.definitions[key].description, key).toBeTruthy();
+            expect(templates.length, key).toBeGreaterThan(0);
+            expect(new Set(templates).size, `${key} lists a selector twice`).toBe(templates.length);
+            expect(templates.join(' '), key).not.toContain('undefined');
+        }
+    });
+});
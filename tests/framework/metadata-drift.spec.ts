@@ -0,0 +1,140 @@
+import { test, expect } from '../fixtures/salesforce-mock-fixtures';
+import {
+    expectedDataType,
+    formatDriftReport,
+    MetadataDriftDetector,
+    MetadataDriftError,
+    parseLayout,
+    parsePermissionSet,
+    readMetadataSource,
+} from '../utils/metadata-drift';
+import type { SalesforceMock } from '../mocks/salesforce-mock-server';
+
+/**
+ * Drift between force-app metadata and the org, with the mock server's store standing in for
+ * the org's PermissionSet, ObjectPermissions, FieldPermissions and FieldDefinition records
+ */
+
+const source = readMetadataSource();
+const PERMISSION_SET_FILE = 'force-app/main/default/permissionsets/OpportunityReadOnly.permissionset-meta.xml';
+
+/**
+ * Make the mock org match force-app exactly
+ */
+function deploy(salesforceMock: SalesforceMock): void {
+    const { store } = salesforceMock;
+    const [readOnly] = source.permissionSets;
+    const permissionSetId = store.all('PermissionSet').find(set => set.Name === readOnly.name)!.Id as string;
+    store.update(permissionSetId, { Label: readOnly.label, Description: readOnly.description });
+
+    for (const permission of readOnly.objectPermissions) {
+        store.insert('ObjectPermissions', {
+            ParentId: permissionSetId,
+            SobjectType: permission.object,
+            PermissionsCreate: permission.allowCreate,
+            PermissionsRead: permission.allowRead,
+            PermissionsEdit: permission.allowEdit,
+            PermissionsDelete: permission.allowDelete,
+            PermissionsViewAllRecords: permission.viewAllRecords,
+            PermissionsModifyAllRecords: permission.modifyAllRecords,
+        });
+    }
+    for (const permission of readOnly.fieldPermissions) {
+        store.insert('FieldPermissions', {
+            ParentId: permissionSetId,
+            Field: permission.field,
+            PermissionsRead: permission.readable,
+            PermissionsEdit: permission.editable,
+        });
+    }
+
+    const entity = store.insert('EntityDefinition', { QualifiedApiName: 'Opportunity' });
+    const fieldNames = new Set([...source.fields.map(field => field.name), ...source.layouts.flatMap(layout => layout.fields)]);
+    for (const name of fieldNames) {
+        store.insert('FieldDefinition', {
+            EntityDefinitionId: entity.Id,
+            QualifiedApiName: name,
+            Label: name === 'Quantity__c' ? 'Quantity' : name,
+            DataType: name === 'Quantity__c' ? 'Number(18, 0)' : 'Text(255)',
+        });
+    }
+}
+
+function fieldPermission(salesforceMock: SalesforceMock, field: string) {
+    return salesforceMock.store.all('FieldPermissions').find(row => row.Field === field)!;
+}
+
+test.describe('Metadata drift', () => {
+    test('parses permission sets, custom fields and layouts from force-app', () => {
+        const [readOnly] = source.permissionSets;
+        const quantity = source.fields.find(field => field.name === 'Quantity__c');
+
+        expect(readOnly).toMatchObject({ name: 'OpportunityReadOnly', label: 'Opportunity Read Only', file: PERMISSION_SET_FILE });
+        expect(readOnly.objectPermissions.map(permission => permission.object)).toEqual(['Opportunity', 'Account']);
+        expect(readOnly.fieldPermissions).toContainEqual({ field: 'Opportunity.Quantity__c', readable: true, editable: false });
+        expect(quantity).toMatchObject({ object: 'Opportunity', label: 'Quantity', type: 'Number', precision: 18, scale: 0 });
+        expect(expectedDataType(quantity!)).toBe('Number(18, 0)');
+        expect(source.layouts[0]).toMatchObject({ name: 'Opportunity-Opportunity Layout', object: 'Opportunity' });
+        expect(source.layouts[0].fields).toContain('StageName');
+
+        expect(parseLayout('<Layout/>', 'Case-Case %28Support%29 Layout').name).toBe('Case-Case (Support) Layout');
+        expect(parsePermissionSet('<PermissionSet><label>R&amp;D</label></PermissionSet>', 'RD'))
+            .toMatchObject({ label: 'R&D', description: null, objectPermissions: [], fieldPermissions: [] });
+    });
+
+    test('reports nothing when the org matches force-app', async ({ salesforceMock, mockApi }) => {
+        deploy(salesforceMock);
+
+        const drift = await new MetadataDriftDetector(mockApi).detect();
+
+        expect(drift).toEqual([]);
+        expect(formatDriftReport(drift)).toBe('force-app metadata matches the org');
+    });
+
+    test('reports changed, unexpected and missing permissions and fields', async ({ salesforceMock, mockApi }) => {
+        deploy(salesforceMock);
+        const { store } = salesforceMock;
+        store.update(fieldPermission(salesforceMock, 'Opportunity.Amount').Id as string, { PermissionsEdit: true });
+        store.delete(fieldPermission(salesforceMock, 'Opportunity.NextStep').Id as string);
+        store.insert('FieldPermissions', { ParentId: fieldPermission(salesforceMock, 'Opportunity.Type').ParentId, Field: 'Opportunity.StageName', PermissionsRead: true, PermissionsEdit: false });
+        store.insert('ObjectPermissions', {
+            ParentId: fieldPermission(salesforceMock, 'Opportunity.Type').ParentId, SobjectType: 'Contact',
+            PermissionsCreate: false, PermissionsRead: true, PermissionsEdit: false, PermissionsDelete: false,
+            PermissionsViewAllRecords: false, PermissionsModifyAllRecords: false,
+        });
+        const quantity = store.all('FieldDefinition').find(field => field.QualifiedApiName === 'Quantity__c')!;
+        store.update(quantity.Id as string, { DataType: 'Text(255)' });
+        store.delete(store.all('FieldDefinition').find(field => field.QualifiedApiName === 'CampaignId')!.Id as string);
+
+        const drift = await new MetadataDriftDetector(mockApi).detect();
+
+        expect(drift).toEqual([
+            { type: 'ObjectPermissions', component: 'OpportunityReadOnly', member: 'Contact', kind: 'unexpected', property: 'PermissionsRead', expected: false, actual: true, file: PERMISSION_SET_FILE },
+            { type: 'FieldPermissions', component: 'OpportunityReadOnly', member: 'Opportunity.Amount', kind: 'changed', property: 'PermissionsEdit', expected: false, actual: true, file: PERMISSION_SET_FILE },
+            { type: 'FieldPermissions', component: 'OpportunityReadOnly', member: 'Opportunity.NextStep', kind: 'changed', property: 'PermissionsRead', expected: true, actual: false, file: PERMISSION_SET_FILE },
+            { type: 'FieldPermissions', component: 'OpportunityReadOnly', member: 'Opportunity.StageName', kind: 'unexpected', property: 'PermissionsRead', expected: false, actual: true, file: PERMISSION_SET_FILE },
+            { type: 'CustomField', component: 'Opportunity.CampaignId', kind: 'missing', file: 'force-app/main/default/objects/Opportunity/fields/CampaignId.field-meta.xml' },
+            { type: 'CustomField', component: 'Opportunity.Quantity__c', kind: 'changed', property: 'DataType', expected: 'Number(18, 0)', actual: 'Text(255)', file: 'force-app/main/default/objects/Opportunity/fields/Quantity__c.field-meta.xml' },
+            { type: 'LayoutItem', component: 'Opportunity-Opportunity Layout', member: 'Opportunity.CampaignId', kind: 'missing', file: 'force-app/main/default/layouts/Opportunity-Opportunity Layout.layout-meta.xml' },
+        ]);
+        expect(formatDriftReport(drift).split('\n').slice(0, 5)).toEqual([
+            '7 differences between force-app and the org:',
+            '',
+            PERMISSION_SET_FILE,
+            '  unexpected  ObjectPermissions OpportunityReadOnly Contact PermissionsRead: force-app false, org true',
+            '  changed     FieldPermissions OpportunityReadOnly Opportunity.Amount PermissionsEdit: force-app false, org true',
+        ]);
+    });
+
+    test('reports a permission set that was never deployed as one missing component', async ({ salesforceMock, mockApi }) => {
+        deploy(salesforceMock);
+        salesforceMock.store.delete(salesforceMock.store.all('PermissionSet').find(set => set.Name === 'OpportunityReadOnly')!.Id as string);
+
+        const drift = await new MetadataDriftDetector(mockApi).detect();
+        const error = new MetadataDriftError(drift);
+
+        expect(drift).toEqual([{ type: 'PermissionSet', component: 'OpportunityReadOnly', kind: 'missing', file: PERMISSION_SET_FILE }]);
+        expect(error.message).toContain('  missing     PermissionSet OpportunityReadOnly: not in the org');
+        expect(error.message).toContain('SF_FAIL_ON_DRIFT=false');
+    });
+});
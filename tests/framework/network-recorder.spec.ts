@@ -0,0 +1,152 @@
+import { test, expect, Page, Request, Response } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { LightningNetwork } from '../utils/lightning-network';
+import { AuraActionError, NetworkRecorder, parseAuraResponse } from '../utils/network-recorder';
+import { envChoice, HarMode } from '../../config/environment';
+
+/**
+ * Aura action states, fail-fast errors and the HAR, recorded from a stand-in page that emits
+ * the request events Playwright would
+ */
+
+const INSTANCE = 'https://example.lightning.force.com';
+const UPDATE_RECORD = 'aura://RecordUiController/ACTION$updateRecord';
+
+const validationError = {
+    id: '2;a',
+    state: 'ERROR',
+    error: [{
+        message: 'An error occurred while trying to update the record. Please try again.',
+        data: { output: { errors: [], fieldErrors: { Amount: [{ message: 'Amount must be positive' }] } } },
+    }],
+};
+
+function auraBody(...descriptors: string[]): string {
+    const message = { actions: descriptors.map((descriptor, index) => ({ id: `${index + 1};a`, descriptor, params: {} })) };
+    return new URLSearchParams({ message: JSON.stringify(message), 'aura.context': '{}', 'aura.token': 'secret-token' }).toString();
+}
+
+function fakeRequest(url: string, postData: string | null, status: number, body: string): Request {
+    const response = {
+        status: () => status,
+        statusText: () => status === 200 ? 'OK' : 'Bad Request',
+        headers: () => ({ 'content-type': 'application/json', 'set-cookie': 'sid=00D!secret' }),
+        text: async () => body,
+    } as unknown as Response;
+    return {
+        url: () => `${INSTANCE}${url}`,
+        method: () => postData ? 'POST' : 'GET',
+        postData: () => postData,
+        headers: () => ({ cookie: 'sid=00D!secret', 'content-type': 'application/x-www-form-urlencoded' }),
+        response: async () => response,
+        timing: () => ({ startTime: Date.parse('2026-01-05T10:00:00Z'), responseEnd: 120 }),
+        failure: () => null,
+    } as unknown as Request;
+}
+
+function recordedPage(recorder: NetworkRecorder) {
+    const events = new EventEmitter();
+    const page = events as unknown as Page;
+    recorder.record(page, 'admin');
+    return {
+        network: LightningNetwork.for(page),
+        exchange: async (request: Request) => {
+            events.emit('request', request);
+            events.emit('requestfinished', request);
+            await recorder.settle();
+        },
+    };
+}
+
+test.describe('Network recorder', () => {
+    test('reads action states from plain, guarded and exception Aura responses', () => {
+        const body = JSON.stringify({ actions: [{ id: '1;a', state: 'SUCCESS', returnValue: {} }, validationError] });
+        expect(parseAuraResponse(body, ['aura://A/ACTION$read', UPDATE_RECORD])).toEqual([
+            { descriptor: 'aura://A/ACTION$read', state: 'SUCCESS', errors: [] },
+            {
+                descriptor: UPDATE_RECORD,
+                state: 'ERROR',
+                errors: ['An error occurred while trying to update the record. Please try again.', 'Amount: Amount must be positive'],
+            },
+        ]);
+        expect(parseAuraResponse(`while(1);\n${JSON.stringify({ actions: [{ state: 'INCOMPLETE' }] })}`, ['aura://A/ACTION$read']))
+            .toEqual([{ descriptor: 'aura://A/ACTION$read', state: 'INCOMPLETE', errors: [] }]);
+        expect(parseAuraResponse('*/{"message":"An internal server error has occurred\\nError ID: 42","event":{"descriptor":"markup://aura:systemError"}}/*ERROR*/', ['aura://A/ACTION$read']))
+            .toEqual([{ descriptor: 'aura://A/ACTION$read', state: 'ERROR', errors: ['An internal server error has occurred\nError ID: 42'] }]);
+        expect(parseAuraResponse('<html>', ['aura://A/ACTION$read'])).toEqual([]);
+    });
+
+    test('fails waits on the page as soon as an unexpected action errors', async () => {
+        const recorder = new NetworkRecorder([]);
+        const { network, exchange } = recordedPage(recorder);
+        const idle = network.waitForLightningIdle({ idleTime: 5000, timeout: 10000 });
+
+        await exchange(fakeRequest('/aura?r=7', auraBody('aura://A/ACTION$read', UPDATE_RECORD), 200,
+            JSON.stringify({ actions: [{ id: '1;a', state: 'SUCCESS' }, validationError] })));
+
+        await expect(idle).rejects.toThrow(AuraActionError);
+        await expect(network.untilFailure(new Promise(() => { }))).rejects.toThrow(
+            `${UPDATE_RECORD} failed on the server (admin): An error occurred while trying to update the record. Please try again.; Amount: Amount must be positive`
+        );
+        expect(recorder.unexpectedErrors).toHaveLength(1);
+        expect(recorder.actions.map(action => action.state)).toEqual(['SUCCESS', 'ERROR']);
+    });
+
+    test('leaves allowed action errors and failed UI API reads to the test', async () => {
+        const recorder = new NetworkRecorder(['ACTION$getRecordActions']);
+        recorder.allowActionErrors(/RecordUiController/);
+        const { network, exchange } = recordedPage(recorder);
+
+        await exchange(fakeRequest('/aura?r=8', auraBody(UPDATE_RECORD), 200, JSON.stringify({ actions: [validationError] })));
+        await exchange(fakeRequest('/aura?r=9', auraBody('aura://ActionsController/ACTION$getRecordActions'), 200,
+            JSON.stringify({ actions: [{ state: 'ERROR', error: [{ message: 'No access' }] }] })));
+        await exchange(fakeRequest('/services/data/v60.0/ui-api/records/006000000000001', null, 404, '[{"errorCode":"NOT_FOUND","message":"gone"}]'));
+        expect(recorder.unexpectedErrors).toEqual([]);
+        expect(network.failure).toBeUndefined();
+
+        await exchange(fakeRequest('/services/data/v60.0/ui-api/records', '{"apiName":"Opportunity","fields":{}}', 400,
+            '[{"errorCode":"REQUIRED_FIELD_MISSING","message":"Required fields are missing: [Name]"}]'));
+        expect(recorder.unexpectedErrors.map(error => error.message)).toEqual([
+            'POST /services/data/v60.0/ui-api/records failed on the server (admin): REQUIRED_FIELD_MISSING: Required fields are missing: [Name]',
+        ]);
+    });
+
+    test('builds a HAR of the Lightning traffic only, with credentials masked', async () => {
+        const recorder = new NetworkRecorder([]);
+        const { exchange } = recordedPage(recorder);
+
+        await exchange(fakeRequest('/lightning/r/Opportunity/006000000000001/view', null, 200, '<html>'));
+        await exchange(fakeRequest('/aura?r=1&other.getRecord=1', auraBody('aura://A/ACTION$read'), 200, JSON.stringify({ actions: [{ state: 'SUCCESS' }] })));
+
+        const har = recorder.toHar();
+        expect(har.log.version).toBe('1.2');
+        expect(har.log.entries).toHaveLength(1);
+
+        const [entry] = har.log.entries;
+        expect(entry.startedDateTime).toBe('2026-01-05T10:00:00.000Z');
+        expect(entry.time).toBe(120);
+        expect(entry.request.queryString).toEqual([{ name: 'r', value: '1' }, { name: 'other.getRecord', value: '1' }]);
+        expect(entry.request.postData?.text).toContain('aura.token=%5BREDACTED%5D');
+        expect(entry.request.headers).toContainEqual({ name: 'cookie', value: '[REDACTED]' });
+        expect(entry.response.headers).toContainEqual({ name: 'set-cookie', value: '[REDACTED]' });
+        expect(JSON.stringify(har)).not.toContain('secret');
+        expect(entry._auraActions).toEqual([{ descriptor: 'aura://A/ACTION$read', state: 'SUCCESS', errors: [] }]);
+    });
+
+    test('rejects an SF_NETWORK_HAR value it does not know instead of defaulting', () => {
+        const modes: HarMode[] = ['always', 'on-failure', 'off'];
+        const previous = process.env.SF_NETWORK_HAR;
+        try {
+            delete process.env.SF_NETWORK_HAR;
+            expect(envChoice('SF_NETWORK_HAR', modes, 'on-failure')).toBe('on-failure');
+            process.env.SF_NETWORK_HAR = 'off';
+            expect(envChoice('SF_NETWORK_HAR', modes, 'on-failure')).toBe('off');
+            process.env.SF_NETWORK_HAR = 'on_failure';
+            expect(() => envChoice('SF_NETWORK_HAR', modes, 'on-failure'))
+                .toThrow('SF_NETWORK_HAR must be one of always, on-failure, off; got "on_failure"');
+        } finally {
+            if (previous === undefined) delete process.env.SF_NETWORK_HAR;
+            else process.env.SF_NETWORK_HAR = previous;
+        }
+    });
+});
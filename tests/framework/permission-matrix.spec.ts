@@ -0,0 +1,143 @@
+import { test, expect } from '../fixtures/salesforce-mock-fixtures';
+import { opportunityDescribe } from '../mocks/describe-fixtures';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { SalesforceNotFoundError } from '../utils/salesforce-errors';
+import { failedChecks, formatPermissionGrid, PermissionMatrixVerifier } from '../utils/permission-matrix';
+import { PermissionMatrix } from '../../config/permission-matrix';
+
+/**
+ * Permission matrix verification against ObjectPermissions, FieldPermissions, UserRecordAccess
+ * and describe-as-user, using the mock server's sObject store as the org
+ */
+
+const USER_ID = '005000000000PLTAAA';
+const PROFILE_ID = '00e000000000PLTAAA';
+const PROFILE_SET_ID = '0PS000000000PRFAAA';
+const READ_ONLY_SET_ID = '0PS000000000ROAAAA';
+const OPPORTUNITY_ID = '006000000000ROAAAA';
+
+const matrix: PermissionMatrix = {
+    readOnlyPlatform: {
+        Opportunity: { create: false, read: true, edit: false, delete: false, fields: { Amount: 'read', NextStep: 'read' } },
+        Account: { read: true },
+    },
+};
+
+function objectPermissions(parentId: string, sObjectType: string, create: boolean, read: boolean, edit: boolean, remove: boolean) {
+    return {
+        ParentId: parentId, SobjectType: sObjectType,
+        PermissionsCreate: create, PermissionsRead: read, PermissionsEdit: edit, PermissionsDelete: remove,
+    };
+}
+
+function fieldPermissions(parentId: string, field: string, read: boolean, edit: boolean) {
+    return { ParentId: parentId, SobjectType: field.split('.')[0], Field: field, PermissionsRead: read, PermissionsEdit: edit };
+}
+
+test.describe('Permission matrix', () => {
+    test.use({
+        salesforceMockOptions: {
+            records: {
+                Profile: [{ Id: PROFILE_ID, Name: 'Platform Test Profile' }],
+                PermissionSet: [
+                    { Id: PROFILE_SET_ID, Name: 'X00e000000000PLT', IsOwnedByProfile: true, ProfileId: PROFILE_ID },
+                    { Id: READ_ONLY_SET_ID, Name: 'OpportunityReadOnlyCopy', IsOwnedByProfile: false, ProfileId: null },
+                ],
+                PermissionSetAssignment: [
+                    { AssigneeId: USER_ID, PermissionSetId: PROFILE_SET_ID },
+                    { AssigneeId: USER_ID, PermissionSetId: READ_ONLY_SET_ID },
+                ],
+                ObjectPermissions: [
+                    objectPermissions(PROFILE_SET_ID, 'Account', true, true, true, true),
+                    objectPermissions(READ_ONLY_SET_ID, 'Account', false, true, false, false),
+                    objectPermissions(READ_ONLY_SET_ID, 'Opportunity', false, true, false, false),
+                ],
+                FieldPermissions: [
+                    fieldPermissions(READ_ONLY_SET_ID, 'Opportunity.Amount', true, false),
+                    fieldPermissions(READ_ONLY_SET_ID, 'Opportunity.NextStep', true, false),
+                ],
+                UserRecordAccess: [
+                    { UserId: USER_ID, RecordId: OPPORTUNITY_ID, HasReadAccess: true, HasEditAccess: false, HasDeleteAccess: false },
+                ],
+            },
+        },
+    });
+
+    test('passes when the org grants exactly what the matrix declares', async ({ mockApi }) => {
+        const checks = await new PermissionMatrixVerifier(mockApi, matrix)
+            .verifyApi('readOnlyPlatform', USER_ID, { records: { Opportunity: OPPORTUNITY_ID } });
+
+        expect(failedChecks(checks), formatPermissionGrid(checks)).toEqual([]);
+        expect(checks.filter(check => check.via === 'permissions')).toHaveLength(9);
+        expect(checks.filter(check => check.via === 'record').map(check => check.source)).toEqual([
+            `UserRecordAccess.HasReadAccess on ${OPPORTUNITY_ID}`,
+            `UserRecordAccess.HasEditAccess on ${OPPORTUNITY_ID}`,
+            `UserRecordAccess.HasDeleteAccess on ${OPPORTUNITY_ID}`,
+        ]);
+        expect(checks.find(check => check.sObject === 'Account')?.grantedBy)
+            .toEqual(['Profile: Platform Test Profile', 'OpportunityReadOnlyCopy']);
+    });
+
+    test('names the permission and permission set that differ', async ({ salesforceMock, mockApi }) => {
+        salesforceMock.store.insert('PermissionSet', { Id: '0PS000000000EDTAAA', Name: 'OpportunityEditor', IsOwnedByProfile: false, ProfileId: null });
+        salesforceMock.store.insert('PermissionSetAssignment', { AssigneeId: USER_ID, PermissionSetId: '0PS000000000EDTAAA' });
+        salesforceMock.store.insert('ObjectPermissions', objectPermissions('0PS000000000EDTAAA', 'Opportunity', false, true, true, false));
+        salesforceMock.store.insert('FieldPermissions', fieldPermissions('0PS000000000EDTAAA', 'Opportunity.Amount', true, true));
+        salesforceMock.store.update(
+            salesforceMock.store.all('FieldPermissions').find(row => row.Field === 'Opportunity.NextStep')!.Id as string,
+            { PermissionsRead: false }
+        );
+
+        const checks = await new PermissionMatrixVerifier(mockApi, matrix).verifyApi('readOnlyPlatform', USER_ID);
+
+        expect(failedChecks(checks)).toEqual([
+            'readOnlyPlatform Opportunity edit: expected no, ObjectPermissions.PermissionsEdit is yes (granted by OpportunityEditor)',
+            'readOnlyPlatform Opportunity.Amount edit: expected no, FieldPermissions.PermissionsEdit is yes (granted by OpportunityEditor)',
+            'readOnlyPlatform Opportunity.NextStep read: expected yes, FieldPermissions.PermissionsRead is no',
+        ]);
+    });
+
+    test('checks the describe made as the user', async ({ mockApi }) => {
+        const asUser = {
+            describeSObject: async (sObject: string) => {
+                if (sObject === 'Account') throw new SalesforceNotFoundError(404, [], { method: 'GET', endpoint: '/sobjects/Account/describe' });
+                return {
+                    ...opportunityDescribe,
+                    createable: false,
+                    updateable: false,
+                    deletable: false,
+                    fields: opportunityDescribe.fields
+                        .filter(field => field.name !== 'NextStep')
+                        .map(field => ({ ...field, updateable: field.name === 'Amount' })),
+                };
+            },
+        } as unknown as SalesforceApiUtils;
+
+        const checks = await new PermissionMatrixVerifier(mockApi, matrix).verifyApi('readOnlyPlatform', USER_ID, { asUser });
+
+        expect(failedChecks(checks.filter(check => check.via === 'describe'))).toEqual([
+            'readOnlyPlatform Opportunity.Amount edit: expected no, describe(Opportunity).fields.Amount.updateable is yes',
+            'readOnlyPlatform Opportunity.NextStep read: expected yes, describe(Opportunity).fields.NextStep is no',
+            'readOnlyPlatform Account read: expected yes, describe(Account) is no',
+        ]);
+    });
+
+    test('formats a pass/fail grid and rejects unknown personas', async ({ mockApi }) => {
+        const verifier = new PermissionMatrixVerifier(mockApi, matrix);
+        const checks = await verifier.verifyApi('readOnlyPlatform', USER_ID);
+        checks[0] = { ...checks[0], actual: true, pass: false, grantedBy: ['Oops'] };
+
+        expect(formatPermissionGrid(checks).split('\n')).toEqual([
+            'Persona           Object       Field     Via          Create  Read  Edit  Delete',
+            '----------------  -----------  --------  -----------  ------  ----  ----  ------',
+            'readOnlyPlatform  Opportunity            permissions  yes ✗   yes   no    no',
+            'readOnlyPlatform  Opportunity  Amount    permissions          yes   no',
+            'readOnlyPlatform  Opportunity  NextStep  permissions          yes   no',
+            'readOnlyPlatform  Account                permissions          yes',
+            '',
+            '1 of 9 permission checks failed:',
+            '  ✗ readOnlyPlatform Opportunity create: expected no, ObjectPermissions.PermissionsCreate is yes (granted by Oops)',
+        ]);
+        expect(() => verifier.expectationsFor('admin')).toThrow('Persona "admin" is not in the permission matrix. Known personas: readOnlyPlatform');
+    });
+});
@@ -0,0 +1,86 @@
+import { test, expect } from '../fixtures/salesforce-mock-fixtures';
+import { PersonaPool, PersonaProvisioner } from '../utils/persona-provisioner';
+import { setActiveRegistry, TestDataRegistry } from '../utils/test-data-registry';
+import { PersonaDefinition } from '../../config/personas';
+
+/**
+ * Persona provisioning against the mock server: create once, then reuse, repair and reactivate
+ */
+
+const READ_ONLY: PersonaDefinition = {
+    firstName: 'Test',
+    lastName: 'PlatformUser',
+    profile: 'Standard Platform User',
+    permissionSets: ['OpportunityReadOnly'],
+    localeSidKey: 'en_US',
+    languageLocaleKey: 'en_US',
+    timeZoneSidKey: 'America/Los_Angeles',
+    poolSize: 2,
+};
+
+test.describe('Persona provisioning', () => {
+    test.use({
+        salesforceMockOptions: {
+            records: {
+                PermissionSet: [{ Id: '0PS000000000EDTAAA', Name: 'OpportunityEditor', Label: 'Opportunity Editor', IsOwnedByProfile: false }],
+            },
+        },
+    });
+
+    test('creates the user once and reuses it on later runs', async ({ salesforceMock, mockApi }) => {
+        const registry = new TestDataRegistry();
+        setActiveRegistry(registry);
+        try {
+            const first = await new PersonaProvisioner(mockApi, { readOnlyPlatform: READ_ONLY }).provision('readOnlyPlatform');
+            const second = await new PersonaProvisioner(mockApi, { readOnlyPlatform: READ_ONLY }).provision('readOnlyPlatform');
+
+            expect(first).toMatchObject({ persona: 'readOnlyPlatform', slot: 0, changes: ['created', 'assigned OpportunityReadOnly'] });
+            expect(first.username).toBe('readonlyplatform.1.00d000000000001@test.automation.com');
+            expect(second).toEqual({ ...first, changes: [] });
+            expect(salesforceMock.store.get(first.userId)?.fields).toMatchObject({
+                Alias: 'readOnl1',
+                ProfileId: salesforceMock.store.all('Profile').find(profile => profile.Name === 'Standard Platform User')?.Id,
+                IsActive: true,
+            });
+            // Persona users and their assignments outlive the run
+            expect(registry.tracked).toEqual([]);
+        } finally {
+            setActiveRegistry(undefined);
+        }
+    });
+
+    test('reactivates the user and reconciles profile and permission sets', async ({ salesforceMock, mockApi }) => {
+        const provisioner = new PersonaProvisioner(mockApi, { readOnlyPlatform: READ_ONLY });
+        const { userId } = await provisioner.provision('readOnlyPlatform');
+        const { store } = salesforceMock;
+        store.update(userId, { IsActive: false, ProfileId: store.all('Profile').find(profile => profile.Name === 'Standard User')?.Id });
+        store.delete(store.all('PermissionSetAssignment').find(assignment => assignment.AssigneeId === userId)!.Id as string);
+        store.insert('PermissionSetAssignment', { AssigneeId: userId, PermissionSetId: '0PS000000000EDTAAA' });
+
+        const repaired = await provisioner.provision('readOnlyPlatform');
+
+        expect(repaired.changes).toEqual(['ProfileId changed', 'reactivated', 'assigned OpportunityReadOnly', 'unassigned OpportunityEditor']);
+        expect(store.get(userId)?.fields.IsActive).toBe(true);
+        expect(store.all('PermissionSetAssignment').filter(assignment => assignment.AssigneeId === userId)
+            .map(assignment => store.get(assignment.PermissionSetId as string)?.fields.Name)).toEqual(['OpportunityReadOnly']);
+    });
+
+    test('leases one user per worker slot and provisions it once', async ({ salesforceMock, mockApi }) => {
+        const provisioner = new PersonaProvisioner(mockApi, { readOnlyPlatform: READ_ONLY });
+        const workerOne = new PersonaPool(provisioner, 0);
+        const workerTwo = new PersonaPool(provisioner, 1);
+
+        const [lease, again, other] = await Promise.all([
+            workerOne.lease('readOnlyPlatform'),
+            workerOne.lease('readOnlyPlatform'),
+            workerTwo.lease('readOnlyPlatform'),
+        ]);
+
+        expect(again).toBe(lease);
+        expect(other.username).toBe('readonlyplatform.2.00d000000000001@test.automation.com');
+        expect(salesforceMock.store.all('User').filter(user => (user.Username as string).startsWith('readonlyplatform.'))).toHaveLength(2);
+        await expect(new PersonaPool(provisioner, 2).lease('readOnlyPlatform'))
+            .rejects.toThrow('Persona "readOnlyPlatform" has a pool of 2 users but worker 3 needs one');
+        expect(() => provisioner.definition('admin')).toThrow('Persona "admin" is not defined in config/personas.ts');
+    });
+});
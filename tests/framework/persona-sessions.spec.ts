@@ -0,0 +1,60 @@
+import type { Browser, BrowserContext, Cookie } from '@playwright/test';
+import { test, expect } from '../fixtures/salesforce-mock-fixtures';
+import { BrowserSessionAuthProvider } from '../utils/auth-providers';
+import { generatePassword, PersonaSessions } from '../utils/persona-sessions';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { SalesforceNotFoundError } from '../utils/salesforce-errors';
+
+/**
+ * Persona sessions against the mock server. There is no browser in the framework project, so
+ * contexts are stand-ins that only hold cookies and record being closed.
+ */
+
+const MOCK_SESSION_ID = '00D000000000001!mock-static';
+
+function fakeContext(cookies: Partial<Cookie>[] = []) {
+    const context = {
+        closed: false,
+        cookies: async (url?: string) => cookies.filter(cookie => !url || url.includes(cookie.domain ?? '')),
+        newPage: async () => ({}),
+        close: async () => { context.closed = true; },
+    };
+    return context;
+}
+
+test.describe('Persona sessions', () => {
+    test('generated passwords satisfy the password policy', async ({ salesforceMock, mockApi }) => {
+        const [user] = salesforceMock.store.all('User');
+        const passwords = Array.from({ length: 5 }, generatePassword);
+
+        for (const password of passwords) {
+            await mockApi.setUserPassword(user.Id as string, password);
+        }
+
+        expect(new Set(passwords).size).toBe(passwords.length);
+        expect(salesforceMock.passwords.get(user.Id as string)).toBe(passwords[passwords.length - 1]);
+    });
+
+    test('calls the API with the sid of a logged-in browser context', async ({ salesforceMock, request }) => {
+        const host = new URL(salesforceMock.url).hostname;
+        const loggedIn = fakeContext([{ name: 'sid', value: MOCK_SESSION_ID, domain: host }]);
+        const sfApi = new SalesforceApiUtils(request, new BrowserSessionAuthProvider(loggedIn as unknown as BrowserContext, 'viewer@test.com'));
+
+        const users = await sfApi.query('SELECT Id FROM User');
+
+        expect(users.length).toBeGreaterThan(0);
+        await expect(new BrowserSessionAuthProvider(fakeContext() as unknown as BrowserContext, 'viewer@test.com').authenticate())
+            .rejects.toThrow(`Browser session authentication failed: no sid cookie for ${salesforceMock.url}; log viewer@test.com in first`);
+    });
+
+    test('closes the context of a session that fails to log in', async ({ mockApi }) => {
+        const context = fakeContext();
+        const browser = { newContext: async () => context } as unknown as Browser;
+        const sessions = new PersonaSessions(browser, mockApi, {}, 'password');
+
+        await expect(sessions.open({ persona: 'readOnlyPlatform', slot: 0, userId: '005000000000404AAA', username: 'gone@test.com', changes: [] }))
+            .rejects.toBeInstanceOf(SalesforceNotFoundError);
+        expect(context.closed).toBe(true);
+        await sessions.closeAll();
+    });
+});
@@ -0,0 +1,41 @@
+import { test, expect } from '@playwright/test';
+import { compareRelatedListRows, parseRelatedListCount } from '../pages/related-list';
+
+/**
+ * The count in a related list title and the cross-check of its rows against a SOQL child query;
+ * tests/lightning-dom drives RelatedList against related list markup
+ */
+
+test.describe('Related lists', () => {
+    test('reads the count in the card title', () => {
+        expect(parseRelatedListCount('Opportunities (3)')).toEqual({ count: 3, more: false });
+        expect(parseRelatedListCount('Contacts (6+)')).toEqual({ count: 6, more: true });
+        expect(parseRelatedListCount('Cases (1,024)\n')).toEqual({ count: 1024, more: false });
+        expect(parseRelatedListCount('Notes & Attachments')).toBeNull();
+    });
+
+    test('compares the rows shown with the child records from SOQL', () => {
+        expect(compareRelatedListRows(
+            ['006000000000001', '006000000000002AAA'],
+            ['006000000000001AAA', '006000000000002AAA', '006000000000003AAA'],
+            { count: 2, more: true }
+        )).toEqual({
+            shown: 2,
+            queried: 3,
+            complete: false,
+            countMatches: true,
+            unexpected: [],
+            missing: [],
+        });
+
+        expect(compareRelatedListRows(
+            ['006000000000001AAA', '006000000000009AAA'],
+            ['006000000000001AAA', '006000000000002AAA'],
+            { count: 2, more: false }
+        )).toMatchObject({ complete: true, countMatches: true, unexpected: ['006000000000009AAA'], missing: ['006000000000002AAA'] });
+
+        expect(compareRelatedListRows(['006000000000001AAA'], ['006000000000001AAA'], { count: 6, more: true }))
+            .toMatchObject({ complete: false, countMatches: false });
+        expect(compareRelatedListRows([], [], null)).toMatchObject({ complete: false, countMatches: true });
+    });
+});
@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import { config } from '../../config/environment';
+import { clearSessionCache, RefreshTokenAuthProvider } from '../utils/auth-providers';
+import { backoffDelay } from '../utils/api-retry';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { OAuthStandIn, startOAuthStandIn } from '../mocks/oauth-token-server';
+
+/**
+ * Session refresh and retry/backoff behaviour of restCall
+ */
+
+test.describe('restCall resilience', () => {
+    const originalPolicy = { ...config.retries.api };
+    let standIn: OAuthStandIn;
+    let sfApi: SalesforceApiUtils;
+
+    test.beforeEach(async ({ request }) => {
+        clearSessionCache();
+        config.retries.api.baseDelayMs = 1;
+        config.retries.api.maxDelayMs = 5;
+
+        standIn = await startOAuthStandIn({ clientId: 'ci-connected-app', refreshToken: 'ci-refresh-token' });
+        sfApi = new SalesforceApiUtils(request, new RefreshTokenAuthProvider({
+            ...config.auth,
+            strategy: 'refreshToken',
+            loginUrl: standIn.url,
+            clientId: 'ci-connected-app',
+            clientSecret: '',
+            refreshToken: 'ci-refresh-token',
+        }));
+    });
+
+    test.afterEach(async () => {
+        Object.assign(config.retries.api, originalPolicy);
+        await standIn.close();
+    });
+
+    test('refreshes the session once on INVALID_SESSION_ID', async () => {
+        await sfApi.restCall('GET', '/limits');
+        standIn.revokeAll();
+
+        await sfApi.restCall('GET', '/limits');
+
+        expect(standIn.tokenRequests).toHaveLength(2);
+        expect(test.info().annotations.map(a => a.type)).toContain('api-retry');
+    });
+
+    test('does not loop when the refreshed session is also rejected', async () => {
+        await sfApi.restCall('GET', '/limits');
+        standIn.queueFailure(401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+        standIn.queueFailure(401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+
+        await expect(sfApi.restCall('GET', '/limits')).rejects.toThrow('401');
+        expect(standIn.tokenRequests).toHaveLength(2);
+    });
+
+    test('retries idempotent calls on 503 and transient error codes', async () => {
+        standIn.queueFailure(503, [{ message: 'Server unavailable', errorCode: 'SERVER_UNAVAILABLE' }]);
+        standIn.queueFailure(400, [{ message: 'unable to obtain exclusive access to this record', errorCode: 'UNABLE_TO_LOCK_ROW' }]);
+
+        await sfApi.restCall('PATCH', '/sobjects/Account/001000000000001', { Name: 'A1' });
+
+        expect(standIn.dataRequests.filter(r => r.method === 'PATCH')).toHaveLength(3);
+    });
+
+    test('gives up after the configured number of attempts', async () => {
+        config.retries.api.maxAttempts = 2;
+        for (let i = 0; i < 3; i++) {
+            standIn.queueFailure(403, [{ message: 'TotalRequests Limit exceeded.', errorCode: 'REQUEST_LIMIT_EXCEEDED' }]);
+        }
+
+        await expect(sfApi.restCall('GET', '/limits')).rejects.toThrow('REQUEST_LIMIT_EXCEEDED');
+        expect(standIn.dataRequests).toHaveLength(2);
+    });
+
+    test('does not replay POST unless marked idempotent', async () => {
+        standIn.queueFailure(503, [{ message: 'Server unavailable', errorCode: 'SERVER_UNAVAILABLE' }]);
+        await expect(sfApi.restCall('POST', '/sobjects/Account', { Name: 'A1' })).rejects.toThrow('503');
+
+        standIn.queueFailure(503, [{ message: 'Server unavailable', errorCode: 'SERVER_UNAVAILABLE' }]);
+        await sfApi.restCall('POST', '/composite', { compositeRequest: [] }, { idempotent: true });
+    });
+
+    test('backoff delay grows exponentially up to the cap', () => {
+        const policy = { ...originalPolicy, baseDelayMs: 100, maxDelayMs: 1000 };
+        const ceiling = () => 1;
+
+        expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, policy, ceiling))).toEqual([100, 200, 400, 800, 1000]);
+        expect(backoffDelay(3, policy, () => 0.5)).toBe(200);
+    });
+});
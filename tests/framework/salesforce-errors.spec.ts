@@ -0,0 +1,110 @@
+import { test } from '@playwright/test';
+import { expect } from '../fixtures';
+import { config } from '../../config/environment';
+import { clearSessionCache, RefreshTokenAuthProvider } from '../utils/auth-providers';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import {
+    isSensitiveKey,
+    SalesforceApiError,
+    SalesforceAuthError,
+    SalesforceLimitError,
+    SalesforceNotFoundError,
+    SalesforceValidationError,
+} from '../utils/salesforce-errors';
+import { startOAuthStandIn } from '../mocks/oauth-token-server';
+
+/**
+ * Structured SalesforceApiError parsing and the toFailWithSalesforceError matcher
+ */
+
+const requiredFieldBody = JSON.stringify([
+    { message: 'Required fields are missing: [CloseDate]', errorCode: 'REQUIRED_FIELD_MISSING', fields: ['CloseDate'] },
+]);
+
+function requestContext(payload?: unknown) {
+    return { method: 'POST', endpoint: '/sobjects/Opportunity', payload };
+}
+
+test.describe('SalesforceApiError', () => {
+    test('parses errorCode, message and fields from the response body', () => {
+        const error = SalesforceApiError.fromResponse(400, requiredFieldBody, requestContext());
+
+        expect(error).toBeInstanceOf(SalesforceValidationError);
+        expect(error.status).toBe(400);
+        expect(error.errors).toEqual([
+            { errorCode: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing: [CloseDate]', fields: ['CloseDate'] },
+        ]);
+        expect(error.message).toBe(
+            'Salesforce API error: 400 POST /sobjects/Opportunity - ' +
+            'REQUIRED_FIELD_MISSING: Required fields are missing: [CloseDate] [CloseDate]'
+        );
+    });
+
+    test('picks the subclass from status and errorCode', () => {
+        const body = (errorCode: string) => JSON.stringify([{ message: errorCode, errorCode }]);
+
+        expect(SalesforceApiError.fromResponse(401, body('INVALID_SESSION_ID'), requestContext())).toBeInstanceOf(SalesforceAuthError);
+        expect(SalesforceApiError.fromResponse(404, body('NOT_FOUND'), requestContext())).toBeInstanceOf(SalesforceNotFoundError);
+        expect(SalesforceApiError.fromResponse(403, body('REQUEST_LIMIT_EXCEEDED'), requestContext())).toBeInstanceOf(SalesforceLimitError);
+    });
+
+    test('keeps the raw body when it is not a Salesforce error array', () => {
+        const error = SalesforceApiError.fromResponse(502, '<html>Bad Gateway</html>', requestContext());
+
+        expect(error.errors).toEqual([]);
+        expect(error.message).toContain('<html>Bad Gateway</html>');
+    });
+
+    test('redacts credentials in the captured payload', () => {
+        const error = SalesforceApiError.fromResponse(400, requiredFieldBody, {
+            method: 'POST',
+            endpoint: '/sobjects/User/005000000000001/password',
+            payload: { NewPassword: 'Secr3t!', nested: { accessToken: 'abc', Name: 'kept' } },
+        });
+
+        expect(error.payload).toEqual({ NewPassword: '[REDACTED]', nested: { accessToken: '[REDACTED]', Name: 'kept' } });
+    });
+
+    test('redacts credential keys only as whole words', () => {
+        expect(['sid', 'SID', 'access_token', 'client_secret', 'aura.token', 'refreshToken', 'assertion'].filter(key => !isSensitiveKey(key))).toEqual([]);
+        expect(['Inside_Sales__c', 'Residence__c', 'Tokenized__c', 'Description', 'Passwords_Rotated__c'].filter(isSensitiveKey)).toEqual([]);
+    });
+});
+
+test.describe('toFailWithSalesforceError', () => {
+    const rejection = () => Promise.reject(SalesforceApiError.fromResponse(400, requiredFieldBody, requestContext()));
+
+    test('passes on a matching errorCode and fields', async () => {
+        await expect(rejection()).toFailWithSalesforceError('REQUIRED_FIELD_MISSING');
+        await expect(rejection()).toFailWithSalesforceError('REQUIRED_FIELD_MISSING', ['CloseDate']);
+        await expect(rejection()).not.toFailWithSalesforceError('DUPLICATE_VALUE');
+    });
+
+    test('fails on a different field, a resolved promise or a plain Error', async () => {
+        await expect(expect(rejection()).toFailWithSalesforceError('REQUIRED_FIELD_MISSING', ['StageName']))
+            .rejects.toThrow('REQUIRED_FIELD_MISSING on [CloseDate]');
+        await expect(expect(Promise.resolve('001')).toFailWithSalesforceError('REQUIRED_FIELD_MISSING'))
+            .rejects.toThrow('promise resolved');
+        await expect(expect(Promise.reject(new Error('boom'))).toFailWithSalesforceError('REQUIRED_FIELD_MISSING'))
+            .rejects.toThrow('boom');
+    });
+
+    test('works on errors thrown by restCall', async ({ request }) => {
+        clearSessionCache();
+        const standIn = await startOAuthStandIn({ clientId: 'ci-connected-app', refreshToken: 'ci-refresh-token' });
+        try {
+            const sfApi = new SalesforceApiUtils(request, new RefreshTokenAuthProvider({
+                ...config.auth,
+                loginUrl: standIn.url,
+                clientId: 'ci-connected-app',
+                refreshToken: 'ci-refresh-token',
+            }));
+            standIn.queueFailure(400, JSON.parse(requiredFieldBody));
+
+            await expect(sfApi.createRecord('Opportunity', { Name: 'TestOpp' }))
+                .toFailWithSalesforceError('REQUIRED_FIELD_MISSING', ['CloseDate']);
+        } finally {
+            await standIn.close();
+        }
+    });
+});
@@ -0,0 +1,281 @@
+import { test, expect } from '../fixtures/salesforce-mock-fixtures';
+import { soql } from '../utils/soql-builder';
+import { compositeRef } from '../utils/composite-api';
+import { setActiveRegistry, TestDataRegistry } from '../utils/test-data-registry';
+import { TestDataSweeper } from '../utils/test-data-sweeper';
+import { Opportunity, untyped } from '../types';
+import { config } from '../../config/environment';
+
+/**
+ * The mock Salesforce server: REST CRUD, SOQL subset and paging, describe validation, passwords
+ * and error bodies, exercised through the real SalesforceApiUtils
+ */
+
+const OPPORTUNITY: Opportunity = { Name: 'TestOpp_Mock', StageName: 'Prospecting', CloseDate: '2030-01-31' };
+
+test.describe('Salesforce mock server', () => {
+    test.use({
+        salesforceMockOptions: {
+            records: {
+                Account: [
+                    { Id: '001000000000ACMAAA', Name: 'Acme', Industry: 'Technology' },
+                    { Id: '001000000000GLBAAA', Name: 'Globex', Industry: 'Energy' },
+                ],
+            },
+        },
+    });
+
+    test('points the framework config at the mock', async ({ salesforceMock, mockApi }) => {
+        const session = await mockApi.authenticate();
+
+        expect(config.salesforce.instanceUrl).toBe(salesforceMock.url);
+        expect(session.instanceUrl).toBe(salesforceMock.url);
+        expect(await mockApi.getCurrentUserId()).toBe(salesforceMock.userId);
+    });
+
+    test('creates, reads, updates and deletes records', async ({ salesforceMock, mockApi }) => {
+        const id = await mockApi.createRecord('Opportunity', { ...OPPORTUNITY, AccountId: '001000000000ACMAAA' });
+        await mockApi.updateRecord('Opportunity', id, { StageName: 'Qualification' });
+
+        expect(id).toMatch(/^006\w{15}$/);
+        expect(await mockApi.getRecord('Opportunity', id, ['Name', 'StageName'])).toEqual({
+            attributes: { type: 'Opportunity', url: `/services/data/v${config.salesforce.apiVersion}/sobjects/Opportunity/${id}` },
+            Id: id,
+            Name: 'TestOpp_Mock',
+            StageName: 'Qualification',
+        });
+
+        await mockApi.deleteRecord('Opportunity', id);
+        expect(salesforceMock.store.get(id)).toBeUndefined();
+        await expect(mockApi.getRecord('Opportunity', id)).toFailWithSalesforceError('NOT_FOUND');
+    });
+
+    test('filters, sorts and follows relationships in SOQL', async ({ mockApi }) => {
+        await mockApi.createRecord('Opportunity', { ...OPPORTUNITY, Name: 'TestOpp_1', Amount: 500, AccountId: '001000000000ACMAAA' });
+        await mockApi.createRecord('Opportunity', { ...OPPORTUNITY, Name: 'TestOpp_2', Amount: 1500, AccountId: '001000000000GLBAAA' });
+        await mockApi.createRecord('Opportunity', { ...OPPORTUNITY, Name: 'Renewal', Amount: 9000 });
+
+        const records = await mockApi.query<{ Name: string; Account: { Name: string } }>(
+            soql<{ Name: string; Account: { Name: string } }>('Opportunity')
+                .select('Name', 'Account.Name')
+                .where('Name', 'LIKE', 'TestOpp%')
+                .orderBy('Amount', 'DESC')
+        );
+        const accounts = await mockApi.query<{ Name: string }>(
+            "SELECT Name FROM Account WHERE (Industry = 'Energy' OR Name = 'Acme') AND Id != null ORDER BY Name LIMIT 1"
+        );
+
+        expect(records.map(r => `${r.Name} @ ${r.Account.Name}`)).toEqual(['TestOpp_2 @ Globex', 'TestOpp_1 @ Acme']);
+        expect(accounts.map(a => a.Name)).toEqual(['Acme']);
+    });
+
+    test('pages large results through nextRecordsUrl', async ({ salesforceMock, mockApi }) => {
+        for (let i = 0; i < 5; i++) salesforceMock.store.insert('Account', { Name: `Paged ${i}` });
+        salesforceMock.requests.length = 0;
+
+        const records = await mockApi.query<{ Name: string }>("SELECT Name FROM Account WHERE Name LIKE 'Paged%'");
+
+        expect(records).toHaveLength(5);
+        expect(salesforceMock.requests.map(r => r.path.replace(/\?.*/, ''))).toEqual(['/query']);
+    });
+
+    test('answers with Salesforce-shaped validation errors', async ({ mockApi }) => {
+        await expect(mockApi.createRecord('Opportunity', { Name: 'TestOpp_Incomplete' }))
+            .toFailWithSalesforceError('REQUIRED_FIELD_MISSING', ['StageName', 'CloseDate']);
+        await expect(mockApi.createRecord(untyped('Opportunity'), { ...OPPORTUNITY, StageName: 'Closed Maybe' }))
+            .toFailWithSalesforceError('INVALID_OR_NULL_FOR_RESTRICTED_PICKLIST', ['StageName']);
+        await expect(mockApi.createRecord(untyped('Opportunity'), { ...OPPORTUNITY, Colour__c: 'Blue' }))
+            .toFailWithSalesforceError('INVALID_FIELD');
+        await expect(mockApi.createRecord('Widget__c', { Name: 'x' })).toFailWithSalesforceError('NOT_FOUND');
+        await expect(mockApi.query('SELECT COUNT() FROM Account')).toFailWithSalesforceError('MALFORMED_QUERY');
+    });
+
+    test('serves describe and sets user passwords', async ({ salesforceMock, mockApi }) => {
+        const profileId = await mockApi.getProfileIdByName('Standard Platform User');
+        const userId = await mockApi.createUser({
+            firstName: 'Mock',
+            lastName: 'User',
+            email: 'mock@example.com',
+            username: 'testplatform_mock@test.automation.com',
+            profileId: profileId!,
+        });
+
+        await mockApi.restCall('POST', `/sobjects/User/${userId}/password`, { NewPassword: 'Passw0rd!123' });
+        await expect(mockApi.restCall('POST', `/sobjects/User/${userId}/password`, { NewPassword: 'short' }))
+            .toFailWithSalesforceError('INVALID_NEW_PASSWORD');
+        await expect(mockApi.createUser({
+            firstName: 'Mock',
+            lastName: 'Again',
+            email: 'mock@example.com',
+            username: 'testplatform_mock@test.automation.com',
+            profileId: profileId!,
+        })).toFailWithSalesforceError('DUPLICATE_USERNAME', ['Username']);
+
+        expect(salesforceMock.passwords.get(userId)).toBe('Passw0rd!123');
+        expect((await mockApi.describeSObject('Opportunity')).keyPrefix).toBe('006');
+    });
+
+    test('retries a queued transient failure', async ({ salesforceMock, mockApi }) => {
+        salesforceMock.queueFailure(503, [{ errorCode: 'SERVER_UNAVAILABLE', message: 'Try again' }]);
+
+        const accounts = await mockApi.query(soql<{ Id: string }>('Account').select('Id'));
+
+        expect(accounts).toHaveLength(2);
+    });
+
+    test('rolls back an all-or-none collection insert', async ({ salesforceMock, mockApi }) => {
+        const results = await mockApi.createRecords('Account', [{ Name: 'Kept?' }, { Industry: 'Energy' }], { allOrNone: true });
+
+        expect(results.map(r => r.errors[0]?.errorCode)).toEqual(['ALL_OR_NONE_OPERATION_ROLLED_BACK', 'REQUIRED_FIELD_MISSING']);
+        expect(salesforceMock.store.all('Account')).toHaveLength(2);
+    });
+
+    test('tracks each collection batch as it commits and keeps allOrNone to one batch', async ({ salesforceMock, mockApi }) => {
+        const registry = new TestDataRegistry();
+        const accounts = Array.from({ length: 201 }, (_, i) => ({ Name: `TestAccount_Batch ${i}` }));
+        setActiveRegistry(registry);
+        try {
+            salesforceMock.queueFailure(400, [{ errorCode: 'INVALID_INPUT', message: 'Batch rejected' }], 1);
+            await expect(mockApi.createRecords('Account', accounts)).toFailWithSalesforceError('INVALID_INPUT');
+            expect(registry.tracked).toHaveLength(200);
+
+            await expect(mockApi.createRecords('Account', accounts, { allOrNone: true })).rejects.toThrow(
+                'allOrNone cannot span batches: got 201 records, at most 200 fit in one request'
+            );
+            expect(salesforceMock.store.all('Account')).toHaveLength(202);
+        } finally {
+            setActiveRegistry(undefined);
+        }
+    });
+
+    test('supports registry cleanup and the orphan sweeper', async ({ salesforceMock, mockApi }) => {
+        const registry = new TestDataRegistry();
+        const accountId = await mockApi.createRecord('Account', { Name: 'TestAccount_Old' });
+        const opportunityId = await mockApi.createRecord('Opportunity', { ...OPPORTUNITY, AccountId: accountId });
+        registry.track('Account', accountId);
+        registry.track('Opportunity', opportunityId);
+
+        const sweeper = new TestDataSweeper(mockApi, {
+            targets: [{ sObjectType: 'Account', field: 'Name', pattern: 'TestAccount_*' }],
+            olderThanHours: -1,
+        });
+        expect((await sweeper.find()).map(r => r.id)).toEqual([accountId]);
+
+        const report = await registry.cleanup(mockApi);
+        expect(report.failed).toEqual([]);
+        expect(salesforceMock.store.get(accountId)).toBeUndefined();
+        expect(salesforceMock.store.get(opportunityId)).toBeUndefined();
+    });
+});
+
+test.describe('Salesforce mock composite and collections', () => {
+    let registry: TestDataRegistry;
+
+    test.use({ salesforceMockOptions: { records: { Region__c: [{ External_Id__c: 'R-1', Name: 'North' }] } } });
+
+    test.beforeEach(() => {
+        registry = new TestDataRegistry();
+        setActiveRegistry(registry);
+    });
+
+    test.afterEach(() => {
+        setActiveRegistry(undefined);
+    });
+
+    test('resolves composite references and tracks the inserted records', async ({ salesforceMock, mockApi }) => {
+        const responses = await mockApi.composite([
+            { method: 'POST', url: '/sobjects/Account', referenceId: 'acct', body: { Name: 'TestAccount_Composite' } },
+            { method: 'POST', url: '/sobjects/Opportunity', referenceId: 'opp', body: { ...OPPORTUNITY, AccountId: compositeRef('acct') } },
+            { method: 'GET', url: `/sobjects/Account/${compositeRef('acct')}?fields=Name`, referenceId: 'read' },
+        ], { allOrNone: true });
+
+        const accountId = (responses[0].body as { id: string }).id;
+        const opportunityId = (responses[1].body as { id: string }).id;
+        expect(responses.map(r => `${r.referenceId} ${r.httpStatusCode}`)).toEqual(['acct 201', 'opp 201', 'read 200']);
+        expect(responses[2].body).toMatchObject({ Id: accountId, Name: 'TestAccount_Composite' });
+        expect(salesforceMock.store.get(opportunityId)?.fields.AccountId).toBe(accountId);
+        expect(registry.tracked).toEqual([
+            { sObjectType: 'Account', id: accountId },
+            { sObjectType: 'Opportunity', id: opportunityId },
+        ]);
+    });
+
+    test('rolls back an all-or-none composite call and tracks nothing', async ({ salesforceMock, mockApi }) => {
+        const responses = await mockApi.composite([
+            { method: 'POST', url: '/sobjects/Account', referenceId: 'acct', body: { Name: 'TestAccount_RolledBack' } },
+            { method: 'POST', url: '/sobjects/Opportunity', referenceId: 'opp', body: { Name: 'TestOpp_NoStage', AccountId: compositeRef('acct') } },
+            { method: 'POST', url: '/sobjects/Contact', referenceId: 'contact', body: { LastName: 'Halted' } },
+        ], { allOrNone: true });
+
+        expect(responses.map(r => [r.httpStatusCode, (r.body as { errorCode: string }[])[0].errorCode])).toEqual([
+            [400, 'PROCESSING_HALTED'],
+            [400, 'REQUIRED_FIELD_MISSING'],
+            [400, 'PROCESSING_HALTED'],
+        ]);
+        expect(salesforceMock.store.all('Account')).toEqual([]);
+        expect(registry.tracked).toEqual([]);
+    });
+
+    test('maps graph results and tracks only the graphs that succeeded', async ({ salesforceMock, mockApi }) => {
+        const results = await mockApi.compositeGraph([
+            {
+                graphId: 'good',
+                compositeRequest: [
+                    { method: 'POST', url: '/sobjects/Account', referenceId: 'acct', body: { Name: 'TestAccount_Graph' } },
+                    { method: 'POST', url: '/sobjects/Opportunity', referenceId: 'opp', body: { ...OPPORTUNITY, AccountId: compositeRef('acct') } },
+                ],
+            },
+            {
+                graphId: 'bad',
+                compositeRequest: [
+                    { method: 'POST', url: '/sobjects/Account', referenceId: 'acct', body: { Name: 'TestAccount_GraphRolledBack' } },
+                    { method: 'POST', url: '/sobjects/Opportunity', referenceId: 'opp', body: { ...OPPORTUNITY, StageName: 'Closed Maybe' } },
+                ],
+            },
+        ]);
+
+        expect(results.map(r => [r.graphId, r.isSuccessful, r.compositeResponse.map(response => response.httpStatusCode)])).toEqual([
+            ['good', true, [201, 201]],
+            ['bad', false, [400, 400]],
+        ]);
+        expect(salesforceMock.store.all('Account').map(a => a.Name)).toEqual(['TestAccount_Graph']);
+        expect(registry.tracked.map(r => r.sObjectType)).toEqual(['Account', 'Opportunity']);
+    });
+
+    test('returns a typed result per record and tracks only upsert inserts', async ({ salesforceMock, mockApi }) => {
+        const regions = [{ External_Id__c: 'R-1', Name: 'North East' }, { External_Id__c: 'R-2', Name: 'South' }];
+        const upserted = await mockApi.upsertRecords('Region__c', 'External_Id__c', regions);
+        const created = await mockApi.createRecords('Account', [{ Name: 'TestAccount_Partial' }, { Industry: 'Energy' }]);
+
+        expect(upserted.map(r => [r.record, r.success, r.created])).toEqual([[regions[0], true, false], [regions[1], true, true]]);
+        expect(salesforceMock.store.all('Region__c').map(r => r.Name)).toEqual(['North East', 'South']);
+        expect(created[0]).toMatchObject({ record: { Name: 'TestAccount_Partial' }, success: true, errors: [] });
+        expect(created[1]).toEqual({
+            record: { Industry: 'Energy' },
+            id: null,
+            success: false,
+            errors: [{ errorCode: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing: [Name]', fields: ['Name'] }],
+        });
+        expect(registry.tracked).toEqual([
+            { sObjectType: 'Region__c', id: upserted[1].id },
+            { sObjectType: 'Account', id: created[0].id },
+        ]);
+    });
+});
+
+test.describe('Salesforce mock server paging', () => {
+    test.use({ salesforceMockOptions: { queryPageSize: 2 } });
+
+    test('returns nextRecordsUrl batches of the configured size', async ({ salesforceMock, mockApi }) => {
+        for (let i = 0; i < 5; i++) salesforceMock.store.insert('Account', { Name: `Paged ${i}` });
+
+        const names = (await mockApi.query<{ Name: string }>('SELECT Name FROM Account ORDER BY Name DESC')).map(r => r.Name);
+
+        expect(names).toEqual(['Paged 4', 'Paged 3', 'Paged 2', 'Paged 1', 'Paged 0']);
+        expect(salesforceMock.requests.filter(r => r.path.startsWith('/query')).map(r => r.path.replace(/\?.*/, ''))).toEqual([
+            '/query',
+            expect.stringMatching(/^\/query\/01gMOCK\d+-2$/),
+            expect.stringMatching(/^\/query\/01gMOCK\d+-4$/),
+        ]);
+    });
+});
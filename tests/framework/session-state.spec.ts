@@ -0,0 +1,77 @@
+import type { BrowserContext } from '@playwright/test';
+import { existsSync, mkdirSync, utimesSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { test, expect } from '../fixtures/salesforce-mock-fixtures';
+import { SessionStateCache, sessionStatePath } from '../utils/session-state';
+import { config } from '../../config/environment';
+
+/**
+ * Saved storageState sessions against the mock server, which accepts its static token as a sid.
+ * Contexts are stand-ins that write a storageState file like BrowserContext.storageState does.
+ */
+
+const MOCK_SESSION_ID = '00D000000000001!mock-static';
+const USER = 'viewer@test.automation.com';
+
+function fakeContext(sid: string, domain: string, expires = -1) {
+    const state = { cookies: [{ name: 'sid', value: sid, domain, path: '/', expires }], origins: [] };
+    return {
+        storageState: async ({ path }: { path: string }) => {
+            mkdirSync(dirname(path), { recursive: true });
+            writeFileSync(path, JSON.stringify(state));
+            return state;
+        },
+    } as unknown as BrowserContext;
+}
+
+test.describe('Session state cache', () => {
+    const { sessionState } = config;
+
+    // Saved sessions go to the test's output folder rather than playwright/.auth/
+    test.beforeEach(async ({}, testInfo) => {
+        config.sessionState = { ...sessionState, dir: testInfo.outputPath('auth') };
+    });
+
+    test.afterEach(() => {
+        config.sessionState = sessionState;
+    });
+
+    test('keys saved sessions by org and user', async ({}, testInfo) => {
+        expect(sessionStatePath('admin', 'https://acme.my.salesforce.com/'))
+            .toBe(`${testInfo.outputPath('auth')}/acme.my.salesforce.com/admin.json`);
+        expect(sessionStatePath('viewer+1@acme.com', 'https://acme.my.salesforce.com'))
+            .toBe(`${testInfo.outputPath('auth')}/acme.my.salesforce.com/viewer_1@acme.com.json`);
+    });
+
+    test('reuses a saved session while the API accepts it', async ({ salesforceMock, request }) => {
+        const cache = new SessionStateCache(request, salesforceMock.url);
+        expect(await cache.check(USER)).toBe('missing');
+        expect(await cache.load(USER)).toBeUndefined();
+
+        const path = await cache.save(USER, fakeContext(MOCK_SESSION_ID, '127.0.0.1'));
+
+        expect(await cache.check(USER)).toBe('fresh');
+        expect(await cache.load(USER)).toBe(path);
+        expect(salesforceMock.requests[salesforceMock.requests.length - 1].path).toBe('/limits');
+    });
+
+    test('drops sessions that are too old, expired or rejected', async ({ salesforceMock, request }) => {
+        const cache = new SessionStateCache(request, salesforceMock.url, 90);
+
+        const path = await cache.save(USER, fakeContext(MOCK_SESSION_ID, '127.0.0.1'));
+        const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60_000);
+        utimesSync(path, twoHoursAgo, twoHoursAgo);
+        expect(await cache.check(USER)).toBe('expired');
+
+        await cache.save(USER, fakeContext(MOCK_SESSION_ID, '127.0.0.1', Date.now() / 1000 - 60));
+        expect(await cache.check(USER)).toBe('expired');
+
+        await cache.save(USER, fakeContext(MOCK_SESSION_ID, 'other.my.salesforce.com'));
+        expect(await cache.check(USER)).toBe('expired');
+
+        await cache.save(USER, fakeContext('00D000000000001!logged-out', '127.0.0.1'));
+        expect(await cache.check(USER)).toBe('rejected');
+        expect(await cache.load(USER)).toBeUndefined();
+        expect(existsSync(path)).toBe(false);
+    });
+});
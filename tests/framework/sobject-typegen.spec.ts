@@ -0,0 +1,102 @@
+import { test, expect } from '@playwright/test';
+import { join } from 'path';
+import { mergeSObject, parseFieldMetadata, readObjectMetadata, renderSObjectTypes } from '../utils/sobject-typegen';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { soql } from '../utils/soql-builder';
+import { opportunityDescribe } from '../mocks/describe-fixtures';
+import { OpportunityFields, SoqlFieldPath } from '../types';
+import type { Opportunity as MockOpportunity } from '../mocks/sobjects.generated';
+
+/**
+ * sObject type generation from force-app field metadata and describes, and the compile-time
+ * checks the generated types give createRecord/getRecord/soql
+ */
+
+const PICKLIST_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<CustomField xmlns="http://soap.sforce.com/2006/04/metadata">
+    <fullName>Delivery_Status__c</fullName>
+    <label>Delivery Status</label>
+    <type>Picklist</type>
+    <required>true</required>
+    <valueSet>
+        <restricted>true</restricted>
+        <valueSetDefinition>
+            <sorted>false</sorted>
+            <value><fullName>Not Started</fullName><default>true</default><label>Not Started</label></value>
+            <value><fullName>O&apos;Neil &amp; Co</fullName><default>false</default><label>O'Neil</label></value>
+        </valueSetDefinition>
+    </valueSet>
+</CustomField>`;
+
+test.describe('sObject type generator', () => {
+    test('parses custom field metadata', () => {
+        const [quantity] = readObjectMetadata(join(__dirname, '../../force-app/main/default/objects')).Opportunity
+            .filter(field => field.name === 'Quantity__c');
+
+        expect(quantity).toEqual({ name: 'Quantity__c', label: 'Quantity', type: 'double', picklistValues: [], referenceTo: [], required: false });
+        expect(parseFieldMetadata(PICKLIST_XML)).toMatchObject({
+            name: 'Delivery_Status__c',
+            type: 'picklist',
+            picklistValues: ['Not Started', 'O\'Neil & Co'],
+            required: true,
+        });
+    });
+
+    test('takes types from the describe and keeps metadata-only fields', () => {
+        const merged = mergeSObject('Opportunity', [
+            { name: 'StageName', picklistValues: [], referenceTo: [], required: false },
+            parseFieldMetadata(PICKLIST_XML),
+        ], opportunityDescribe);
+        const byName = Object.fromEntries(merged.fields.map(field => [field.name, field]));
+
+        expect(merged.fields[0].name).toBe('Id');
+        expect(byName.StageName).toMatchObject({ type: 'picklist', nillable: false, source: 'both' });
+        expect(byName.Delivery_Status__c).toMatchObject({ type: 'picklist', nillable: false, source: 'metadata' });
+        expect(byName.Amount).toMatchObject({ type: 'currency', source: 'describe' });
+    });
+
+    test('renders interfaces, picklist unions and field constants', () => {
+        const source = renderSObjectTypes([
+            mergeSObject('Shipment__c', [parseFieldMetadata(PICKLIST_XML), { name: 'OwnerId', picklistValues: [], referenceTo: [], required: true }]),
+        ], '// header');
+
+        expect(source).toContain([
+            'export type ShipmentDeliveryStatus =',
+            '    | \'Not Started\'',
+            '    | \'O\\\'Neil & Co\';',
+        ].join('\n'));
+        expect(source).toContain('    Delivery_Status__c?: ShipmentDeliveryStatus;');
+        expect(source).toContain('    /** OwnerId (force-app only) */\n    OwnerId?: unknown;');
+        expect(source).toContain('    Delivery_Status__c: \'Delivery_Status__c\',');
+        expect(source).toContain('export interface SObjectTypeMap {\n    Shipment__c: Shipment__c;\n}');
+    });
+
+    test('generated types reject misspelt fields at compile time', () => {
+        // Never called: these only have to type-check, and tsc fails if an expected error goes away
+        const typed = (sfApi: SalesforceApiUtils) => [
+            // @ts-expect-error Quantity_c is not an Opportunity field
+            sfApi.createRecord('Opportunity', { Name: 'x', Quantity_c: 1 }),
+            // @ts-expect-error Quantity__r is not an Opportunity field
+            sfApi.getRecord('Opportunity', '006', ['Name', 'Quantity__r']),
+            sfApi.createRecord('Widget__c', { Anything: true }),
+        ];
+        const query = () => soql('Opportunity')
+            .select('Name', 'AccountId', OpportunityFields.Quantity__c)
+            // @ts-expect-error Stage is a label, not an API name
+            .where('Stage', '=', 'Prospecting');
+
+        expect(typeof typed).toBe('function');
+        expect(typeof query).toBe('function');
+        expect(OpportunityFields.Quantity__c).toBe('Quantity__c');
+    });
+
+    test('types merged with a describe reject unknown picklist values and follow relationships', () => {
+        // The mock-describe fixture stands in for types generated against an org
+        // @ts-expect-error not an Opportunity stage
+        const unknownStage: MockOpportunity = { StageName: 'Closed Maybe' };
+        const prospect: MockOpportunity = { StageName: 'Prospecting' };
+        const path: SoqlFieldPath<MockOpportunity> = 'Account.Name';
+
+        expect([unknownStage.StageName, prospect.StageName, path]).toEqual(['Closed Maybe', 'Prospecting', 'Account.Name']);
+    });
+});
@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+import { dateLiteral, dateOnly, escapeSoqlLiteral, likePattern, soql } from '../utils/soql-builder';
+import { untyped } from '../types';
+
+/**
+ * SOQL builder rendering and literal escaping
+ */
+
+test.describe('SOQL builder', () => {
+    test('escapes quotes, backslashes and control characters in literals', () => {
+        expect(escapeSoqlLiteral(`O'Brien "Ltd" \\ 50%\n`)).toBe(`O\\'Brien \\"Ltd\\" \\\\ 50%\\n`);
+        expect(soql('Account').where('Name', '=', `O'Brien`).toString())
+            .toBe(`SELECT Id FROM Account WHERE Name = 'O\\'Brien'`);
+    });
+
+    test('keeps an injected clause inside the string literal', () => {
+        const query = soql('Account').select('Id').where('Name', '=', `x' OR Name != '`).toString();
+
+        expect(query).toBe(`SELECT Id FROM Account WHERE Name = 'x\\' OR Name != \\''`);
+    });
+
+    test('renders relationship fields, subqueries, ordering and limits', () => {
+        const query = soql('Account')
+            .select('Id', 'Owner.Name', soql('Opportunities').select('Id', 'Quantity__c').orderBy('CloseDate', 'DESC').limit(5))
+            .where('Industry', 'IN', ['Energy', 'Media'])
+            .whereAny(['Type', '=', 'Customer'], ['Type', '=', null])
+            .orderBy('Name')
+            .orderBy('CreatedDate', 'DESC', 'LAST')
+            .limit(10)
+            .offset(20)
+            .toString();
+
+        expect(query).toBe(
+            'SELECT Id, Owner.Name, (SELECT Id, Quantity__c FROM Opportunities ORDER BY CloseDate DESC LIMIT 5) ' +
+            "FROM Account WHERE Industry IN ('Energy', 'Media') AND (Type = 'Customer' OR Type = null) " +
+            'ORDER BY Name ASC, CreatedDate DESC NULLS LAST LIMIT 10 OFFSET 20'
+        );
+    });
+
+    test('renders date literals, dates and datetimes unquoted', () => {
+        const query = soql(untyped('Opportunity'))
+            .where('CreatedDate', '>=', dateLiteral('LAST_N_DAYS', 7))
+            .where('CloseDate', '<', dateOnly('2030-01-31'))
+            .where('LastModifiedDate', '<', new Date('2030-01-01T10:00:00.000Z'))
+            .where('CloseDate', '!=', dateLiteral('TODAY'))
+            .toString();
+
+        expect(query).toBe(
+            'SELECT Id FROM Opportunity WHERE CreatedDate >= LAST_N_DAYS:7 AND CloseDate < 2030-01-31 ' +
+            'AND LastModifiedDate < 2030-01-01T10:00:00Z AND CloseDate != TODAY'
+        );
+    });
+
+    test('turns globs into LIKE patterns with literal underscores', () => {
+        const query = soql('User').where('Username', 'LIKE', likePattern("testplatform_*@o'test.com")).toString();
+
+        expect(query).toBe("SELECT Id FROM User WHERE Username LIKE 'testplatform\\_%@o\\'test.com'");
+        expect(likePattern('50%*').text).toBe("'50\\%%'");
+    });
+
+    test('rejects unsafe identifiers and malformed values', () => {
+        expect(() => soql('Account').where('Name = \'x\' OR Id', '=', 'y')).toThrow('Invalid SOQL field name');
+        expect(() => soql('Account').select('Id FROM User --')).toThrow('Invalid SOQL field name');
+        expect(() => soql('Account').where('Id', 'IN', [])).toThrow('at least one value');
+        expect(() => soql('Account').where('Id', 'IN', 'abc')).toThrow('needs an array');
+        expect(() => soql('Account').limit(-1)).toThrow('Invalid SOQL LIMIT');
+        expect(() => dateOnly('31/01/2030')).toThrow('Invalid SOQL date');
+    });
+});
@@ -0,0 +1,149 @@
+import { test } from '@playwright/test';
+import { expect } from '../fixtures';
+import { RecordSaveResult } from '../utils/composite-api';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { TestDataRegistry } from '../utils/test-data-registry';
+
+/**
+ * Teardown ordering and cleanup reporting of the test data registry
+ */
+
+type Call = { operation: 'delete' | 'deactivate' | 'deleteListViews'; ids: string[] };
+
+function recordingApi(calls: Call[], failIds: Record<string, string> = {}): SalesforceApiUtils {
+    const result = (id: string): RecordSaveResult<string> => failIds[id]
+        ? { record: id, id: null, success: false, errors: [{ errorCode: failIds[id], message: 'failed', fields: [] }] }
+        : { record: id, id, success: true, errors: [] };
+
+    return {
+        deleteRecords: async (ids: string[]) => {
+            calls.push({ operation: 'delete', ids });
+            return ids.map(result);
+        },
+        deleteListViews: async (ids: string[]) => {
+            calls.push({ operation: 'deleteListViews', ids });
+            return ids.map(result);
+        },
+        updateRecords: async (_: string, records: { Id: string }[]) => {
+            calls.push({ operation: 'deactivate', ids: records.map(r => r.Id) });
+            return records.map(r => result(r.Id));
+        },
+    } as unknown as SalesforceApiUtils;
+}
+
+test.describe('Test data registry', () => {
+    test('orders children before parents and newest first', () => {
+        const registry = new TestDataRegistry();
+        registry.track('Account', '001A');
+        registry.track('User', '005A');
+        registry.track('Opportunity', '006A');
+        registry.track('Opportunity', '006B');
+        registry.track('OpportunityLineItem', '00kA');
+        registry.track('Account', '001A');
+
+        expect(registry.teardownOrder().map(r => r.id)).toEqual(['00kA', '006B', '006A', '001A', '005A']);
+    });
+
+    test('deletes by type and deactivates users', async () => {
+        const registry = new TestDataRegistry();
+        registry.track('Account', '001A');
+        registry.track('Opportunity', '006A');
+        registry.track('User', '005A');
+        const calls: Call[] = [];
+
+        const report = await registry.cleanup(recordingApi(calls));
+
+        expect(calls).toEqual([
+            { operation: 'delete', ids: ['006A'] },
+            { operation: 'delete', ids: ['001A'] },
+            { operation: 'deactivate', ids: ['005A'] },
+        ]);
+        expect(report.deleted).toHaveLength(2);
+        expect(report.deactivated).toEqual([{ sObjectType: 'User', id: '005A' }]);
+        expect(registry.tracked).toEqual([]);
+    });
+
+    test('deletes list views through the UI API before the records', async () => {
+        const registry = new TestDataRegistry();
+        registry.track('Opportunity', '006A');
+        registry.track('ListView', '00BA');
+        registry.track('ListView', '00BB');
+        const calls: Call[] = [];
+
+        const report = await registry.cleanup(recordingApi(calls));
+
+        expect(calls).toEqual([
+            { operation: 'deleteListViews', ids: ['00BB', '00BA'] },
+            { operation: 'delete', ids: ['006A'] },
+        ]);
+        expect(report.deleted.map(r => r.id)).toEqual(['00BB', '00BA', '006A']);
+        expect(registry.tracked).toEqual([]);
+    });
+
+    test('treats already deleted records as removed and reports real failures', async () => {
+        const registry = new TestDataRegistry();
+        registry.track('Account', '001A');
+        registry.track('Account', '001B');
+
+        const report = await registry.cleanup(recordingApi([], { '001A': 'ENTITY_IS_DELETED', '001B': 'DELETE_FAILED' }));
+
+        expect(report.deleted.map(r => r.id)).toEqual(['001A']);
+        expect(report.failed).toEqual([{ sObjectType: 'Account', id: '001B', message: 'DELETE_FAILED: failed' }]);
+        expect(registry.tracked.map(r => r.id)).toEqual(['001B']);
+    });
+
+    test('keeps data after a failure only when configured to', async () => {
+        const calls: Call[] = [];
+        const keeping = new TestDataRegistry(true);
+        keeping.startTest('t1', '1.1 Create Account');
+        keeping.track('Account', '001A');
+        keeping.markFailed('t1');
+        const cleaning = new TestDataRegistry(false);
+        cleaning.track('Account', '001B');
+        cleaning.markFailed('t1');
+
+        await keeping.cleanup(recordingApi(calls));
+        await cleaning.cleanup(recordingApi(calls));
+
+        expect(calls).toEqual([{ operation: 'delete', ids: ['001B'] }]);
+        expect(keeping.tracked).toHaveLength(1);
+    });
+
+    test('keeps only the records of the failed test and cleans up the rest', async () => {
+        const calls: Call[] = [];
+        const registry = new TestDataRegistry(true);
+        registry.track('User', '005A');
+        registry.startTest('t1', '1.1 Create Account');
+        registry.track('Account', '001A');
+        registry.startTest('t2', '1.2 Create Opportunity');
+        registry.track('Opportunity', '006A');
+        registry.track('Account', '001B');
+        registry.markFailed('t2');
+
+        await registry.cleanup(recordingApi(calls));
+
+        expect(calls).toEqual([
+            { operation: 'delete', ids: ['001A'] },
+            { operation: 'deactivate', ids: ['005A'] },
+        ]);
+        expect(registry.tracked).toEqual([
+            { sObjectType: 'Opportunity', id: '006A', test: 't2' },
+            { sObjectType: 'Account', id: '001B', test: 't2' },
+        ]);
+    });
+
+    test('tells apart tests that share a title', async () => {
+        const calls: Call[] = [];
+        const registry = new TestDataRegistry(true);
+        registry.startTest('a1', 'creates an account');
+        registry.track('Account', '001A');
+        registry.startTest('b1', 'creates an account');
+        registry.track('Account', '001B');
+        registry.markFailed('b1');
+
+        await registry.cleanup(recordingApi(calls));
+
+        expect(calls).toEqual([{ operation: 'delete', ids: ['001A'] }]);
+        expect(registry.tracked).toEqual([{ sObjectType: 'Account', id: '001B', test: 'b1' }]);
+    });
+});
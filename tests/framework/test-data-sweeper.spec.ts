@@ -0,0 +1,89 @@
+import { test } from '@playwright/test';
+import { expect } from '../fixtures';
+import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { formatSweepTable, OrphanedRecord, TestDataSweeper } from '../utils/test-data-sweeper';
+
+/**
+ * Orphaned test-record sweeper: query construction, dry-run table and referential removal order
+ */
+
+const CREATED = '2030-01-01T00:00:00.000+0000';
+
+function fakeApi(rows: Record<string, Record<string, string>[]>, log: string[]): SalesforceApiUtils {
+    return {
+        getCurrentUserId: async () => '005AUTOMATION',
+        query: async (query: { toString(): string }) => {
+            const text = query.toString();
+            log.push(text);
+            return rows[text.match(/FROM (\w+)/)![1]] ?? [];
+        },
+        deleteRecords: async (ids: string[]) => {
+            log.push(`delete ${ids.join(',')}`);
+            return ids.map(id => ({ record: id, id, success: true, errors: [] }));
+        },
+        updateRecords: async (_: string, records: { Id: string }[]) => {
+            log.push(`deactivate ${records.map(r => r.Id).join(',')}`);
+            return records.map(r => ({ record: r, id: r.Id, success: true, errors: [] }));
+        },
+    } as unknown as SalesforceApiUtils;
+}
+
+test.describe('Test data sweeper', () => {
+    test('queries each pattern for old records created by the automation user', async () => {
+        const log: string[] = [];
+        const sweeper = new TestDataSweeper(fakeApi({}, log), {
+            targets: [
+                { sObjectType: 'Opportunity', field: 'Name', pattern: 'TestOpp_*' },
+                { sObjectType: 'User', field: 'Username', pattern: 'testplatform_*@test.automation.com' },
+            ],
+            olderThanHours: 0,
+        });
+
+        await sweeper.find();
+
+        expect(log[0]).toMatch(/^SELECT Id, Name, CreatedDate FROM Opportunity WHERE Name LIKE 'TestOpp\\_%' AND CreatedDate < \S+Z AND CreatedById = '005AUTOMATION' ORDER BY CreatedDate ASC$/);
+        expect(log[1]).toContain("WHERE Username LIKE 'testplatform\\_%@test.automation.com'");
+        expect(log[1]).toContain('AND IsActive = true');
+    });
+
+    test('removes opportunities before accounts and deactivates users last', async () => {
+        const log: string[] = [];
+        const api = fakeApi({
+            Account: [{ Id: '001A', Name: 'TestAccount_1', CreatedDate: CREATED }],
+            Opportunity: [
+                { Id: '006A', Name: 'TestOpp_1', CreatedDate: CREATED },
+                { Id: '006B', Name: 'TestOpp_2', CreatedDate: CREATED },
+            ],
+            User: [{ Id: '005A', Username: 'testplatform_1@test.automation.com', CreatedDate: CREATED }],
+        }, log);
+        const sweeper = new TestDataSweeper(api, {
+            targets: [
+                { sObjectType: 'User', field: 'Username', pattern: 'testplatform_*@test.automation.com' },
+                { sObjectType: 'Account', field: 'Name', pattern: 'TestAccount_*' },
+                { sObjectType: 'Opportunity', field: 'Name', pattern: 'TestOpp_*' },
+            ],
+            createdById: '005CI',
+        });
+
+        const orphans = await sweeper.find();
+        const report = await sweeper.sweep(orphans);
+
+        expect(orphans.map(r => r.name)).toEqual(['testplatform_1@test.automation.com', 'TestAccount_1', 'TestOpp_1', 'TestOpp_2']);
+        expect(log.filter(entry => !entry.startsWith('SELECT'))).toEqual(['delete 006B,006A', 'delete 001A', 'deactivate 005A']);
+        expect(report.deleted).toHaveLength(3);
+        expect(report.deactivated).toHaveLength(1);
+    });
+
+    test('formats a dry-run table', () => {
+        const records: OrphanedRecord[] = [
+            { sObjectType: 'Opportunity', id: '006A', name: 'TestOpp_1', createdDate: CREATED, pattern: 'TestOpp_*' },
+        ];
+
+        expect(formatSweepTable(records).split('\n')).toEqual([
+            `Type         Id    Name       Created${' '.repeat(CREATED.length - 7)}  Pattern`,
+            `-----------  ----  ---------  ${'-'.repeat(CREATED.length)}  ---------`,
+            `Opportunity  006A  TestOpp_1  ${CREATED}  TestOpp_*`,
+        ]);
+        expect(formatSweepTable([])).toBe('No orphaned test records found');
+    });
+});
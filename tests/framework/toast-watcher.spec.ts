@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { describeToast, matchesToast, parseToastLink, Toast } from '../utils/toast-watcher';
+
+/**
+ * Toast matching and record links; tests/lightning-dom drives the watcher against toast markup
+ */
+
+const created: Toast = {
+    id: 2,
+    shownAt: 0,
+    type: 'success',
+    title: 'Success',
+    message: 'Opportunity "Big Deal" was created.',
+    links: [],
+    visible: true,
+};
+
+test.describe('Toast watcher', () => {
+    test('matches toasts by type, text or pattern', () => {
+        expect(matchesToast(created, 'success')).toBe(true);
+        expect(matchesToast(created, 'error')).toBe(false);
+        expect(matchesToast(created, /^Success Opportunity ".+" was created\.$/)).toBe(true);
+        expect(matchesToast(created, { type: 'success', text: 'Big Deal' })).toBe(true);
+        expect(matchesToast(created, { type: 'info', text: 'Big Deal' })).toBe(false);
+        expect(matchesToast(created, {})).toBe(true);
+        expect(describeToast(created)).toBe('success "Success: Opportunity "Big Deal" was created."');
+    });
+
+    test('reads record Ids from Lightning and Classic links only', () => {
+        expect(parseToastLink({ text: 'Big Deal', href: '/lightning/r/Opportunity/006000000000001AAA/view' }))
+            .toEqual({ text: 'Big Deal', href: '/lightning/r/Opportunity/006000000000001AAA/view', objectName: 'Opportunity', recordId: '006000000000001AAA' });
+        expect(parseToastLink({ text: 'Acme', href: '/lightning/r/001000000000001/view' }).recordId).toBe('001000000000001');
+        expect(parseToastLink({ text: 'Acme', href: '/001000000000001AAA' }).recordId).toBe('001000000000001AAA');
+        expect(parseToastLink({ text: 'Help', href: 'https://help.salesforce.com/articleView' }).recordId).toBeUndefined();
+        expect(parseToastLink({ text: 'List', href: '/lightning/o/Opportunity/list' }).recordId).toBeUndefined();
+    });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from '../fixtures/lightning-dom-fixtures';
+import { ListView } from '../pages/list-view';
+
+/**
+ * ListView against a captured list view: picker, search, sorting, row selection, mass actions,
+ * cell edits and lazy loading, without an org (readRows needs the describe, readRowsByLabel does not)
+ */
+
+const LIST_PATH = '/lightning/o/Opportunity/list';
+
+test.describe('ListView', () => {
+    test('reads rows by column label and sorts by a column', async ({ page, lightningDom }) => {
+        await lightningDom.open('list-view', 'datatable', LIST_PATH);
+        const listView = new ListView(page, 'Opportunity');
+
+        expect(await listView.columns()).toEqual(['Opportunity Name', 'Amount', 'Close Date', 'Next Step']);
+        expect(await listView.readRowsByLabel()).toEqual([
+            { 'Opportunity Name': 'Acme Renewal', Amount: '$5,000.00', 'Close Date': '3/31/2026', 'Next Step': 'Send quote' },
+            { 'Opportunity Name': 'Big Deal', Amount: '$120,000.00', 'Close Date': '6/30/2026', 'Next Step': 'Call back' },
+            { 'Opportunity Name': 'Globex Pilot', Amount: '$800.00', 'Close Date': '1/15/2026', 'Next Step': '' },
+        ]);
+
+        await listView.sortBy('Amount', 'descending');
+        expect((await listView.readRowsByLabel()).map(row => row['Opportunity Name'])).toEqual(['Big Deal', 'Acme Renewal', 'Globex Pilot']);
+        await listView.sortBy('Amount', 'descending');
+        await listView.sortBy('Opportunity Name');
+        expect((await listView.readRowsByLabel()).map(row => row['Opportunity Name'])).toEqual(['Acme Renewal', 'Big Deal', 'Globex Pilot']);
+
+        await expect(listView.sortBy('Next Step')).rejects.toThrow('Column "Next Step" of the Opportunity list view is not sortable');
+    });
+
+    test('switches list views through the picker and searches', async ({ page, lightningDom }) => {
+        await lightningDom.open('list-view', 'datatable', LIST_PATH);
+        const listView = new ListView(page, 'Opportunity');
+
+        await listView.switchTo('Opportunity Pipeline');
+        expect(await listView.currentName()).toBe('Opportunity Pipeline');
+        expect(await lightningDom.clicks()).toEqual(['picker', 'pipeline']);
+
+        await listView.search('big');
+        expect(await listView.rowCount()).toBe(1);
+        expect(await listView.itemCount()).toEqual({ count: 1, more: false });
+        await listView.search('');
+        expect(await listView.rowCount()).toBe(3);
+    });
+
+    test('selects rows for an action in the button bar or its overflow menu', async ({ page, lightningDom }) => {
+        await lightningDom.open('list-view', 'datatable', LIST_PATH);
+        const listView = new ListView(page, 'Opportunity');
+
+        await listView.runMassAction('Change Owner', ['Big Deal']);
+        await listView.runMassAction('Add to Campaign', ['Big Deal', 'Globex Pilot']);
+
+        expect(await lightningDom.clicks()).toEqual(['change-owner', 'more-actions', 'add-to-campaign']);
+        const checked = page.locator('tbody tr').locator('input[type="checkbox"]');
+        await expect(checked.nth(0)).not.toBeChecked();
+        await expect(checked.nth(1)).toBeChecked();
+        await expect(checked.nth(2)).toBeChecked();
+    });
+
+    test('edits cells in place and saves the grid', async ({ page, lightningDom }) => {
+        await lightningDom.open('list-view', 'datatable', LIST_PATH);
+        const listView = new ListView(page, 'Opportunity');
+
+        await listView.inlineEditCell('Globex Pilot', 'Next Step', 'Schedule demo');
+        await listView.inlineEditCell('Acme Renewal', 'Next Step', 'Discarded', { save: false });
+        await listView.cancelInlineEdit();
+
+        expect(await lightningDom.clicks()).toEqual(['save', 'cancel']);
+        expect((await listView.readRowsByLabel()).map(row => row['Next Step'])).toEqual(['Send quote', 'Call back', 'Schedule demo']);
+        await expect(listView.inlineEditCell('Big Deal', 'Close Date', '7/1/2026')).rejects.toThrow(
+            'No inline-edit pencil for "Close Date" in row "Big Deal" of the Opportunity list view'
+        );
+        await expect(listView.inlineEditCell('Initech', 'Next Step', 'Call')).rejects.toThrow('No row for "Initech" in the Opportunity list view');
+    });
+
+    test('throws with the grid error when the save is rejected', async ({ page, lightningDom }) => {
+        await lightningDom.open('list-view', 'save-error', LIST_PATH);
+        const listView = new ListView(page, 'Opportunity');
+
+        await expect(listView.inlineEditCell('Big Deal', 'Next Step', '')).rejects.toThrow(
+            'Inline edit was not saved: We hit a snag. Next Step: Next Step cannot be blank'
+        );
+    });
+
+    test('scrolls until every lazily loaded row is in', async ({ page, lightningDom }) => {
+        await lightningDom.open('list-view', 'lazy-load', LIST_PATH);
+        const listView = new ListView(page, 'Opportunity');
+
+        expect(await listView.rowCount()).toBe(3);
+        expect(await listView.itemCount()).toEqual({ count: 3, more: true });
+
+        const rows = await listView.readRowsByLabel({ all: true });
+        expect(rows.map(row => row['Opportunity Name'])).toEqual([1, 2, 3, 4, 5, 6, 7].map(number => `Lazy Deal ${number}`));
+        expect(await listView.itemCount()).toEqual({ count: 7, more: false });
+    });
+});
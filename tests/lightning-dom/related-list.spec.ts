@@ -0,0 +1,60 @@
+import { test, expect } from '../fixtures/lightning-dom-fixtures';
+import { RelatedList } from '../pages/related-list';
+import { AccountPage } from '../pages/account-page';
+
+/**
+ * RelatedList against captured related list cards: the Related tab, table and tile rows, the title
+ * count and row action menus, without an org (readRows and the New action need the describe)
+ */
+
+const ACCOUNT_PATH = '/lightning/r/Account/001000000000001AAA/view';
+const OPPORTUNITY_PATH = '/lightning/r/Opportunity/006000000000002AAA/view';
+
+test.describe('RelatedList', () => {
+    test('opens the Related tab and reads a table by column label', async ({ page, lightningDom }) => {
+        await lightningDom.open('related-list', 'datatable', ACCOUNT_PATH);
+        const opportunities = new RelatedList(page, 'Account', 'Opportunities');
+
+        await opportunities.open();
+        expect(await lightningDom.clicks()).toEqual(['related-tab']);
+        expect(await opportunities.count()).toEqual({ count: 3, more: false });
+        expect(await opportunities.readRowsByLabel()).toEqual([
+            { 'Opportunity Name': 'Acme Renewal', Stage: 'Prospecting', 'Close Date': '3/31/2026' },
+            { 'Opportunity Name': 'Big Deal', Stage: 'Negotiation/Review', 'Close Date': '6/30/2026' },
+            { 'Opportunity Name': 'Globex Pilot', Stage: 'Closed Won', 'Close Date': '1/15/2026' },
+        ]);
+        expect(await opportunities.findRow('Initech')).toBeNull();
+        expect(await new AccountPage(page).verifyOpportunityInRelatedList('Big Deal')).toBe(true);
+    });
+
+    test('finds a list of tiles by relationship name', async ({ page, lightningDom }) => {
+        await lightningDom.open('related-list', 'tiles', OPPORTUNITY_PATH);
+        const contactRoles = new RelatedList(page, 'Opportunity', 'OpportunityContactRoles');
+
+        await contactRoles.open();
+        expect(await contactRoles.count()).toEqual({ count: 2, more: true });
+        expect(await contactRoles.rowCount()).toBe(2);
+        expect(await contactRoles.readRowsByLabel()).toEqual([
+            { Name: 'Ann Lee', Role: 'Decision Maker', Primary: 'Yes' },
+            { Name: 'Raj Patel', Role: 'Evaluator', Primary: '' },
+        ]);
+    });
+
+    test('runs actions from the row menu of a table row or tile', async ({ page, lightningDom }) => {
+        await lightningDom.open('related-list', 'datatable', ACCOUNT_PATH);
+        const opportunities = new RelatedList(page, 'Account', 'Opportunities');
+        await opportunities.open();
+
+        await opportunities.rowAction('Big Deal', 'Edit');
+        await opportunities.rowAction('Acme Renewal', 'Delete');
+        expect(await lightningDom.clicks()).toEqual(['related-tab', 'row-menu-2', 'edit-2', 'row-menu-1', 'delete-1']);
+        await expect(opportunities.rowAction('Globex Pilot', 'Edit')).rejects.toThrow(
+            'Row "Globex Pilot" of the Opportunities related list has no action menu'
+        );
+        await expect(opportunities.rowAction('Initech', 'Edit')).rejects.toThrow('No row for "Initech" in the Opportunities related list');
+
+        await lightningDom.open('related-list', 'tiles', OPPORTUNITY_PATH);
+        await new RelatedList(page, 'Opportunity', 'Contact Roles').rowAction('Ann Lee', 'Edit');
+        expect(await lightningDom.clicks()).toEqual(['tile-menu-1', 'tile-edit-1']);
+    });
+});
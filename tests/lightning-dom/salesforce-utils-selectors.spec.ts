@@ -0,0 +1,294 @@
+import { test, expect } from '../fixtures/lightning-dom-fixtures';
+import { readLayoutValues } from '../pages/record-page';
+
+/**
+ * SalesforceUtils against captured Lightning markup: every selector fallback is driven by a
+ * fixture variant that only it matches, so editing a selector list breaks the matching case here
+ */
+
+test.describe('fillField text inputs', () => {
+    const cases = [
+        { variant: 'lightning-input', label: 'Opportunity Name' },
+        { variant: 'input-field-name', label: 'NextStep' },
+        { variant: 'input-name', label: 'Alias' },
+        { variant: 'label-following-input', label: 'Website' },
+        { variant: 'lightning-textarea', label: 'Description' },
+        { variant: 'label-click', label: 'Next Steps' },
+    ] as const;
+
+    for (const { variant, label } of cases) {
+        test(`${variant}`, async ({ lightningDom, sfUtils }) => {
+            await lightningDom.open('text-input', variant);
+
+            await sfUtils.fillField(label, 'Typed value', 'text');
+
+            await expect(lightningDom.field).toHaveValue('Typed value');
+        });
+    }
+});
+
+test.describe('fillField comboboxes', () => {
+    const cases = [
+        { variant: 'lightning-combobox', label: 'Stage', value: 'Qualification' },
+        { variant: 'lightning-picklist', label: 'Stage', value: 'Qualification' },
+        { variant: 'label-ancestor', label: 'Lead Source', value: 'Phone Inquiry' },
+        { variant: 'span-ancestor', label: 'Forecast Category', value: 'Best Case' },
+        { variant: 'form-element-base-combobox', label: 'Type', value: 'Existing Customer - Upgrade' },
+    ] as const;
+
+    for (const { variant, label, value } of cases) {
+        test(`${variant}`, async ({ lightningDom, sfUtils }) => {
+            await lightningDom.open('combobox', variant);
+
+            await sfUtils.fillField(label, value, 'combobox');
+
+            await expect(lightningDom.field).toHaveAttribute('data-selected-value', value);
+        });
+    }
+});
+
+test.describe('fillField lookups', () => {
+    const cases = [
+        { variant: 'lightning-lookup', label: 'Account Name', value: 'Acme Holdings' },
+        { variant: 'input-field-lookup', label: 'Campaign', value: 'Summer Expo' },
+        { variant: 'force-lookup', label: 'Parent Account', value: 'Globex' },
+        { variant: 'grouped-combobox', label: 'Manager', value: 'Jane Manager' },
+        { variant: 'label-following-input', label: 'Partner Account', value: 'Initech' },
+    ] as const;
+
+    for (const { variant, label, value } of cases) {
+        test(`${variant}`, async ({ lightningDom, sfUtils }) => {
+            await lightningDom.open('lookup', variant);
+
+            await sfUtils.fillField(label, value, 'lookup');
+
+            await expect(lightningDom.field).toHaveAttribute('data-selected-value', value);
+            await expect(lightningDom.field.locator('input')).toHaveValue(value);
+        });
+    }
+});
+
+test.describe('fillField date/time inputs', () => {
+    const cases = [
+        { variant: 'lightning-input', label: 'Follow-up At' },
+        { variant: 'fieldset-legend', label: 'Reminder At' },
+    ] as const;
+
+    for (const { variant, label } of cases) {
+        test(`${variant}`, async ({ page, lightningDom, sfUtils }) => {
+            await lightningDom.open('datetime', variant);
+
+            await sfUtils.fillField(label, '2026-03-31T14:30', 'datetime');
+
+            await expect(page.getByTestId('date')).toHaveValue('2026-03-31');
+            await expect(page.getByTestId('time')).toHaveValue('14:30');
+        });
+    }
+});
+
+test.describe('getFieldValue', () => {
+    const cases = [
+        { variant: 'output-field-text', label: 'Opportunity Name', value: 'TestOpp_Dom' },
+        { variant: 'output-field-number', label: 'Amount', value: '$50,000.00' },
+        { variant: 'output-field-link', label: 'Account Name', value: 'Acme Corporation' },
+        { variant: 'output-field-url', label: 'Website', value: 'https://acme.example.com' },
+        { variant: 'layout-item-text', label: 'Stage', value: 'Prospecting' },
+        { variant: 'layout-item-number', label: 'Probability (%)', value: '10%' },
+        { variant: 'static-text', label: 'Close Date', value: '1/31/2030' },
+    ] as const;
+
+    for (const { variant, label, value } of cases) {
+        test(`${variant}`, async ({ lightningDom, sfUtils }) => {
+            await lightningDom.open('record-layout', variant, '/lightning/r/Opportunity/006000000000001AAA/view');
+
+            expect(await sfUtils.getFieldValue(label)).toBe(value);
+            expect(await sfUtils.getCurrentRecordId()).toBe('006000000000001AAA');
+        });
+
+        test(`${variant} read with the rest of the layout in one pass`, async ({ page, lightningDom }) => {
+            await lightningDom.open('record-layout', variant);
+
+            expect(await page.locator('body').evaluate(readLayoutValues, [label, 'Not On Layout'])).toEqual({ [label]: value });
+        });
+    }
+
+    test('throws for a field that is not on the page', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('record-layout', 'static-text');
+
+        await expect(sfUtils.getFieldValue('Amount')).rejects.toThrow('Field value for "Amount" not found');
+    });
+});
+
+test.describe('isFieldEditable', () => {
+    const cases = [
+        { variant: 'editable-output-field', label: 'Next Step', editable: true },
+        { variant: 'editable-layout-item', label: 'Description', editable: true },
+        { variant: 'editable-input', label: 'Amount', editable: true },
+        { variant: 'read-only', label: 'Amount', editable: false },
+    ] as const;
+
+    for (const { variant, label, editable } of cases) {
+        test(`${variant}`, async ({ lightningDom, sfUtils }) => {
+            await lightningDom.open('record-layout', variant);
+
+            expect(await sfUtils.isFieldEditable(label)).toBe(editable);
+        });
+    }
+});
+
+test.describe('waitForToast', () => {
+    test('reads a success toast with a record link and closes it', async ({ page, lightningDom, sfUtils }) => {
+        await lightningDom.open('toast', 'success');
+
+        const message = await sfUtils.waitForToast('success');
+
+        expect(message.trim()).toBe('Opportunity "TestOpp_Dom" was created.');
+        await expect(page.locator('div.toastContainer')).toHaveCount(0);
+    });
+
+    test('reads an error toast without a .toastMessage and closes it through lightning-button-icon', async ({ page, lightningDom, sfUtils }) => {
+        await lightningDom.open('toast', 'error');
+
+        expect((await sfUtils.waitForToast('error')).trim()).toBe('Error');
+        expect(await lightningDom.clicks()).toEqual(['close']);
+        await expect(page.locator('div.toastContainer')).toHaveCount(0);
+    });
+
+    test('fails when the toast has a different theme', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('toast', 'error');
+
+        await expect(sfUtils.waitForToast('success')).rejects.toThrow('Waited for a success toast, but an error toast appeared: error "Error"');
+    });
+
+    test('waits for a self-dismissing toast to disappear', async ({ page, lightningDom, sfUtils }) => {
+        await lightningDom.open('toast', 'warning');
+
+        expect((await sfUtils.waitForToast('warning')).trim()).toBe('Your session will expire soon.');
+        await sfUtils.waitForToastDisappear();
+        await expect(page.locator('div.toastContainer')).toBeHidden();
+    });
+});
+
+test.describe('inline edit', () => {
+    test('fills the fields after one pencil opens edit mode and saves', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('inline-edit', 'record-layout', '/lightning/r/Opportunity/006000000000001AAA/view');
+
+        const report = await sfUtils.inlineEditMany({ 'Next Step': 'Send proposal', Amount: '2500' });
+
+        expect(report).toEqual({ editable: ['Next Step', 'Amount'], noPencil: [] });
+        expect(await lightningDom.clicks()).toEqual(['pencil-next-step', 'save']);
+        expect(await sfUtils.getFieldValue('Next Step')).toBe('Send proposal');
+        expect(await sfUtils.getFieldValue('Amount')).toBe('2500');
+    });
+
+    test('reports fields without a pencil before touching the page', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('inline-edit', 'record-layout', '/lightning/r/Opportunity/006000000000001AAA/view');
+
+        expect(await sfUtils.findInlineEditable(['Amount', 'Probability (%)'])).toEqual({ editable: ['Amount'], noPencil: ['Probability (%)'] });
+        await expect(sfUtils.inlineEdit('Probability (%)', '20')).rejects.toThrow(
+            'No inline-edit pencil for "Probability (%)": read-only for this user or not on the layout'
+        );
+        expect(await lightningDom.clicks()).toEqual([]);
+
+        const report = await sfUtils.inlineEditMany({ Amount: '3000', 'Probability (%)': '20' }, { requireAll: false });
+        expect(report.noPencil).toEqual(['Probability (%)']);
+        expect(await sfUtils.getFieldValue('Amount')).toBe('3000');
+    });
+
+    test('cancels an open inline edit', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('inline-edit', 'record-layout', '/lightning/r/Opportunity/006000000000001AAA/view');
+
+        await sfUtils.inlineEdit('Amount', '9999', { save: false });
+        await sfUtils.cancelInlineEdit();
+
+        expect(await lightningDom.clicks()).toEqual(['pencil-amount', 'cancel']);
+        expect(await sfUtils.getFieldValue('Amount')).toBe('1000');
+    });
+
+    test('throws with the error header when the save is rejected', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('inline-edit', 'save-error', '/lightning/r/Opportunity/006000000000001AAA/view');
+
+        await expect(sfUtils.inlineEdit('Amount', '-5')).rejects.toThrow(
+            'Inline edit was not saved: We hit a snag. Amount: Amount must be positive'
+        );
+    });
+});
+
+test.describe('ToastWatcher', () => {
+    test('collects stacked toasts with their type, title, message and record link', async ({ page, lightningDom, sfUtils }) => {
+        await lightningDom.open('toast', 'stacked');
+
+        const created = await sfUtils.toasts.waitFor({ type: 'success', text: /was created/ });
+        expect(created).toMatchObject({
+            title: 'Success',
+            message: 'Opportunity "Stacked Deal" was created.',
+            recordId: '006000000000002AAA',
+            links: [{ text: 'Stacked Deal', objectName: 'Opportunity', recordId: '006000000000002AAA' }],
+        });
+        expect((await sfUtils.toasts.seen()).map(toast => `${toast.type}: ${toast.message}`)).toEqual([
+            'info: Your changes are being saved.',
+            'success: Opportunity "Stacked Deal" was created.',
+        ]);
+        await sfUtils.toasts.expectNoErrorToast();
+
+        await sfUtils.toasts.dismiss(created);
+        expect(await lightningDom.clicks()).toEqual(['close-success']);
+        await expect(page.locator('div.toastContainer')).toHaveCount(1);
+    });
+
+    test('ignores toasts shown before watch() and flags error toasts', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('toast', 'error');
+
+        await expect(sfUtils.toasts.expectNoErrorToast()).rejects.toThrow('Expected no error toast, but 1 appeared: error "Error"');
+        await sfUtils.toasts.watch();
+        expect(await sfUtils.toasts.seen()).toEqual([]);
+        await expect(sfUtils.toasts.waitFor('error', { timeout: 300 })).rejects.toThrow('No error toast appeared within 300ms');
+    });
+});
+
+test.describe('waitForSpinners', () => {
+    const variants = [
+        'spinner-container', 'slds-spinner', 'aura-rendered-spinner', 'force-spinner-container', 'loading-spinner', 'lightning-spinner',
+        'several-spinners',
+    ] as const;
+
+    for (const variant of variants) {
+        test(`${variant}`, async ({ page, lightningDom, sfUtils }) => {
+            await lightningDom.open('spinner', variant);
+
+            await sfUtils.waitForSpinners();
+
+            const stillSpinning = await page.locator('[data-hide-after]').evaluateAll(
+                spinners => spinners.filter(spinner => (spinner as HTMLElement).style.display !== 'none').length
+            );
+            expect(stillSpinning).toBe(0);
+            await expect(page.locator('#content')).toBeVisible();
+        });
+    }
+});
+
+test.describe('clickButton', () => {
+    const cases = [
+        { variant: 'button', label: 'Save' },
+        { variant: 'lightning-button', label: 'Clone' },
+        { variant: 'anchor-button', label: 'New' },
+        { variant: 'input-button', label: 'Login' },
+        { variant: 'title', label: 'Show more actions' },
+    ] as const;
+
+    for (const { variant, label } of cases) {
+        test(`${variant}`, async ({ lightningDom, sfUtils }) => {
+            await lightningDom.open('button', variant);
+
+            await sfUtils.clickButton(label);
+
+            expect(await lightningDom.clicks()).toEqual(['target']);
+        });
+    }
+
+    test('throws when no fallback matches', async ({ lightningDom, sfUtils }) => {
+        await lightningDom.open('button', 'button');
+
+        await expect(sfUtils.clickButton('Submit for Approval')).rejects.toThrow('Button with label "Submit for Approval" not found');
+    });
+});
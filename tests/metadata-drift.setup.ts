@@ -0,0 +1,16 @@
+import { test as setup } from '@playwright/test';
+import { SalesforceApiUtils } from './utils/salesforce-api';
+import { formatDriftReport, MetadataDriftDetector, MetadataDriftError } from './utils/metadata-drift';
+import { config } from '../config/environment';
+
+/**
+ * Gate for the org-backed projects: stops the run before any test when the org's permission sets,
+ * fields or layouts differ from force-app, since every failure after that would be noise
+ */
+setup('force-app metadata is deployed to the org', async ({ request }) => {
+    const drift = await new MetadataDriftDetector(new SalesforceApiUtils(request)).detect();
+    if (!drift.length) return;
+
+    if (config.metadata.failOnDrift) throw new MetadataDriftError(drift);
+    console.warn(formatDriftReport(drift));
+});
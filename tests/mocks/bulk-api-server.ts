@@ -0,0 +1,219 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AuthProvider } from '../utils/auth-providers';
+import { BulkJobInfo, BulkJobState } from '../utils/bulk-api';
+import { parseCsv, toCsv } from '../utils/csv';
+
+/**
+ * Local stand-in for Bulk API 2.0 that walks jobs through the real state machine:
+ * ingest Open -> UploadComplete -> InProgress -> JobComplete, query UploadComplete -> InProgress -> JobComplete
+ */
+export interface BulkStandInOptions {
+    /** Objects the stand-in accepts jobs for */
+    objects?: string[];
+    /** Fields that must be non-empty for insert/upsert; rows without them end up in failedResults */
+    requiredFields?: Record<string, string[]>;
+    /** Rows served by query jobs */
+    queryRows?: Record<string, unknown>[];
+    /** How many status polls report InProgress before a job completes */
+    pollsUntilComplete?: number;
+}
+
+export interface BulkStandIn {
+    url: string;
+    /** Auth provider that hands out a session pointing at the stand-in */
+    authProvider: AuthProvider;
+    /** The states each job has moved through, in order */
+    stateHistory: Map<string, BulkJobState[]>;
+    close(): Promise<void>;
+}
+
+interface StandInJob extends BulkJobInfo {
+    kind: 'ingest' | 'query';
+    query?: string;
+    rows: Record<string, string>[];
+    successful: Record<string, string>[];
+    failed: Record<string, string>[];
+    polls: number;
+}
+
+const ID_PREFIXES: Record<string, string> = { Account: '001', Contact: '003', Opportunity: '006' };
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function sendCsv(res: ServerResponse, rows: Record<string, unknown>[], columns: string[], headers: Record<string, string> = {}): void {
+    res.writeHead(200, { 'Content-Type': 'text/csv', ...headers });
+    res.end(toCsv(rows, columns));
+}
+
+function jobInfo(job: StandInJob): BulkJobInfo {
+    return {
+        id: job.id,
+        object: job.object,
+        operation: job.operation,
+        state: job.state,
+        numberRecordsProcessed: job.successful.length + job.failed.length,
+        numberRecordsFailed: job.failed.length,
+        ...(job.errorMessage && { errorMessage: job.errorMessage }),
+    };
+}
+
+export async function startBulkStandIn(options: BulkStandInOptions = {}): Promise<BulkStandIn> {
+    const objects = options.objects ?? Object.keys(ID_PREFIXES);
+    const pollsUntilComplete = options.pollsUntilComplete ?? 1;
+    const jobs = new Map<string, StandInJob>();
+    const stateHistory = new Map<string, BulkJobState[]>();
+    let recordCounter = 0;
+    let url = '';
+
+    const setState = (job: StandInJob, state: BulkJobState) => {
+        job.state = state;
+        stateHistory.get(job.id)!.push(state);
+    };
+
+    const processIngest = (job: StandInJob) => {
+        const required = job.operation === 'insert' || job.operation === 'upsert'
+            ? options.requiredFields?.[job.object] ?? []
+            : [];
+        for (const row of job.rows) {
+            const missing = required.filter(field => !row[field]);
+            if (missing.length) {
+                job.failed.push({
+                    sf__Id: '',
+                    sf__Error: `REQUIRED_FIELD_MISSING:Required fields are missing: [${missing.join(', ')}]:${missing.join(' ')} --`,
+                    ...row,
+                });
+            } else {
+                const id = row.Id || `${ID_PREFIXES[job.object] ?? 'a00'}${String(++recordCounter).padStart(15, '0')}`;
+                job.successful.push({ sf__Id: id, sf__Created: String(job.operation === 'insert'), ...row });
+            }
+        }
+    };
+
+    const advance = (job: StandInJob) => {
+        if (job.state === 'UploadComplete') {
+            setState(job, 'InProgress');
+        } else if (job.state === 'InProgress' && ++job.polls >= pollsUntilComplete) {
+            if (job.kind === 'ingest') processIngest(job);
+            setState(job, 'JobComplete');
+        }
+    };
+
+    const createJob = (kind: 'ingest' | 'query', body: Record<string, string>): StandInJob | string => {
+        const object = kind === 'query' ? (body.query?.match(/\bFROM\s+(\w+)/i)?.[1] ?? '') : body.object;
+        if (!objects.includes(object)) return `InvalidJob : Invalid object: ${object}`;
+
+        const job: StandInJob = {
+            id: `750${String(jobs.size + 1).padStart(15, '0')}`,
+            kind,
+            object,
+            operation: body.operation as StandInJob['operation'],
+            state: kind === 'ingest' ? 'Open' : 'UploadComplete',
+            query: body.query,
+            rows: [],
+            successful: [],
+            failed: [],
+            polls: 0,
+        };
+        jobs.set(job.id, job);
+        stateHistory.set(job.id, [job.state]);
+        return job;
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const requestUrl = new URL(req.url || '/', url);
+        const path = requestUrl.pathname.replace(/^\/services\/data\/v[\d.]+/, '');
+        const method = req.method || 'GET';
+        const body = await readBody(req);
+
+        const create = path.match(/^\/jobs\/(ingest|query)$/);
+        if (create && method === 'POST') {
+            const job = createJob(create[1] as 'ingest' | 'query', JSON.parse(body));
+            return typeof job === 'string'
+                ? sendJson(res, 400, [{ errorCode: 'INVALIDJOB', message: job }])
+                : sendJson(res, 200, jobInfo(job));
+        }
+
+        const match = path.match(/^\/jobs\/(ingest|query)\/(\w+)(?:\/(\w+))?$/);
+        const job = match && jobs.get(match[2]);
+        if (!match || !job) {
+            return sendJson(res, 404, [{ errorCode: 'NOT_FOUND', message: 'The requested resource does not exist' }]);
+        }
+        const resource = match[3];
+
+        if (resource === 'batches' && method === 'PUT') {
+            if (job.state !== 'Open') {
+                return sendJson(res, 400, [{ errorCode: 'INVALIDJOBSTATE', message: `Job is ${job.state}` }]);
+            }
+            job.rows = parseCsv(body);
+            res.writeHead(201);
+            return res.end();
+        }
+
+        if (!resource && method === 'PATCH') {
+            const { state } = JSON.parse(body) as { state: BulkJobState };
+            setState(job, state);
+            return sendJson(res, 200, jobInfo(job));
+        }
+
+        if (!resource && method === 'GET') {
+            advance(job);
+            return sendJson(res, 200, jobInfo(job));
+        }
+
+        const columns = Object.keys(job.rows[0] ?? {});
+        if (resource === 'successfulResults') {
+            return sendCsv(res, job.successful, ['sf__Id', 'sf__Created', ...columns]);
+        }
+        if (resource === 'failedResults') {
+            return sendCsv(res, job.failed, ['sf__Id', 'sf__Error', ...columns]);
+        }
+        if (resource === 'unprocessedrecords') {
+            return sendCsv(res, job.state === 'JobComplete' ? [] : job.rows, columns);
+        }
+
+        if (resource === 'results' && job.kind === 'query') {
+            const rows = options.queryRows ?? [];
+            const offset = Number(requestUrl.searchParams.get('locator') || 0);
+            const maxRecords = Number(requestUrl.searchParams.get('maxRecords') || rows.length || 1);
+            const page = rows.slice(offset, offset + maxRecords);
+            const next = offset + page.length;
+            return sendCsv(res, page, Object.keys(rows[0] ?? { Id: '' }), {
+                'Sforce-Locator': next < rows.length ? String(next) : 'null',
+                'Sforce-NumberOfRecords': String(page.length),
+            });
+        }
+
+        sendJson(res, 404, [{ errorCode: 'NOT_FOUND', message: 'The requested resource does not exist' }]);
+    };
+
+    const server: Server = createServer((req, res) => {
+        handle(req, res).catch(error => sendJson(res, 500, [{ errorCode: 'UNKNOWN_EXCEPTION', message: String(error) }]));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        authProvider: {
+            name: 'Bulk API stand-in',
+            cacheKey: `bulk-stand-in:${url}`,
+            authenticate: async () => ({ accessToken: '00D000000000001!bulk-stand-in', instanceUrl: url }),
+        },
+        stateHistory,
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+    };
+}
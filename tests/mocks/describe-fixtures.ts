@@ -0,0 +1,130 @@
+import { DescribeField, SObjectDescribe } from '../utils/describe-cache';
+
+/**
+ * Trimmed /sobjects/{name}/describe responses for the objects the scenarios use,
+ * with the labels, types and picklist values of a default Developer Edition org
+ */
+
+function field(name: string, label: string, type: string, overrides: Partial<DescribeField> = {}): DescribeField {
+    return {
+        name,
+        label,
+        type,
+        picklistValues: [],
+        referenceTo: [],
+        relationshipName: null,
+        nameField: false,
+        nillable: true,
+        createable: true,
+        updateable: true,
+        defaultedOnCreate: false,
+        calculated: false,
+        ...overrides,
+    };
+}
+
+function picklist(name: string, label: string, values: string[], overrides: Partial<DescribeField> = {}): DescribeField {
+    return field(name, label, 'picklist', {
+        picklistValues: values.map(value => ({ value, label: value, active: true, defaultValue: false })),
+        ...overrides,
+    });
+}
+
+function lookup(name: string, label: string, referenceTo: string, overrides: Partial<DescribeField> = {}): DescribeField {
+    return field(name, label, 'reference', { referenceTo: [referenceTo], relationshipName: name.replace(/Id$/, ''), ...overrides });
+}
+
+const systemFields = [
+    field('Id', 'Opportunity ID', 'id', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+    lookup('OwnerId', 'Owner ID', 'User', { nillable: false, defaultedOnCreate: true }),
+    field('CreatedDate', 'Created Date', 'datetime', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+    lookup('CreatedById', 'Created By ID', 'User', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+    field('LastModifiedDate', 'Last Modified Date', 'datetime', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+    lookup('LastModifiedById', 'Last Modified By ID', 'User', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+    field('SystemModstamp', 'System Modstamp', 'datetime', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+    field('IsDeleted', 'Deleted', 'boolean', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+];
+
+export const OPPORTUNITY_STAGES = [
+    'Prospecting', 'Qualification', 'Needs Analysis', 'Value Proposition', 'Id. Decision Makers',
+    'Perception Analysis', 'Proposal/Price Quote', 'Negotiation/Review', 'Closed Won', 'Closed Lost',
+];
+
+export const opportunityDescribe: SObjectDescribe = {
+    name: 'Opportunity',
+    label: 'Opportunity',
+    keyPrefix: '006',
+    createable: true,
+    updateable: true,
+    deletable: true,
+    fields: [
+        ...systemFields,
+        field('IsPrivate', 'Private', 'boolean', { nillable: false, defaultedOnCreate: true }),
+        field('Name', 'Name', 'string', { nillable: false, nameField: true }),
+        field('Description', 'Description', 'textarea'),
+        picklist('StageName', 'Stage', OPPORTUNITY_STAGES, { nillable: false }),
+        field('Amount', 'Amount', 'currency'),
+        field('Probability', 'Probability (%)', 'percent'),
+        field('TotalOpportunityQuantity', 'Quantity', 'double'),
+        field('CloseDate', 'Close Date', 'date', { nillable: false }),
+        picklist('Type', 'Opportunity Type', ['New Customer', 'Existing Customer - Upgrade', 'Existing Customer - Replacement', 'Existing Customer - Downgrade']),
+        field('NextStep', 'Next Step', 'string'),
+        picklist('LeadSource', 'Lead Source', ['Web', 'Phone Inquiry', 'Partner Referral', 'Purchased List', 'Other']),
+        picklist('ForecastCategoryName', 'Forecast Category', ['Omitted', 'Pipeline', 'Best Case', 'Commit', 'Closed'], { nillable: false, defaultedOnCreate: true }),
+        lookup('AccountId', 'Account ID', 'Account'),
+        lookup('CampaignId', 'Campaign ID', 'Campaign'),
+        lookup('ContractId', 'Contract ID', 'Contract'),
+        lookup('Pricebook2Id', 'Price Book ID', 'Pricebook2'),
+        field('ExpectedRevenue', 'Expected Amount', 'currency', { createable: false, updateable: false, calculated: true }),
+        field('IqScore', 'Score', 'int', { createable: false, updateable: false }),
+        field('Quantity__c', 'Quantity', 'double'),
+    ],
+    childRelationships: [
+        { childSObject: 'OpportunityContactRole', field: 'OpportunityId', relationshipName: 'OpportunityContactRoles' },
+        { childSObject: 'OpportunityLineItem', field: 'OpportunityId', relationshipName: 'OpportunityLineItems' },
+    ],
+};
+
+export const accountDescribe: SObjectDescribe = {
+    name: 'Account',
+    label: 'Account',
+    keyPrefix: '001',
+    createable: true,
+    updateable: true,
+    deletable: true,
+    fields: [
+        field('Id', 'Account ID', 'id', { nillable: false, createable: false, updateable: false, defaultedOnCreate: true }),
+        lookup('OwnerId', 'Owner ID', 'User', { nillable: false, defaultedOnCreate: true }),
+        field('Name', 'Account Name', 'string', { nillable: false, nameField: true }),
+        picklist('Type', 'Account Type', ['Prospect', 'Customer - Direct', 'Customer - Channel', 'Channel Partner / Reseller', 'Installation Partner', 'Technology Partner', 'Other']),
+        lookup('ParentId', 'Parent Account ID', 'Account'),
+        field('Phone', 'Account Phone', 'phone'),
+        field('Website', 'Website', 'url'),
+        picklist('Industry', 'Industry', ['Agriculture', 'Banking', 'Energy', 'Media', 'Technology', 'Other']),
+        field('AnnualRevenue', 'Annual Revenue', 'currency'),
+        field('Description', 'Account Description', 'textarea'),
+        picklist('Rating', 'Account Rating', [], {
+            picklistValues: [
+                { value: 'Hot', label: 'Hot', active: true, defaultValue: false },
+                { value: 'Warm', label: 'Lukewarm', active: true, defaultValue: false },
+                { value: 'Cold', label: 'Cold', active: false, defaultValue: false },
+            ],
+        }),
+        field('Territory__c', 'Territory', 'combobox', {
+            picklistValues: ['North', 'South'].map(value => ({ value, label: value, active: true, defaultValue: false })),
+        }),
+        field('Follow_Up_At__c', 'Follow-up At', 'datetime'),
+        field('Regions__c', 'Regions', 'multipicklist'),
+    ],
+    childRelationships: [
+        { childSObject: 'Account', field: 'ParentId', relationshipName: 'ChildAccounts' },
+        { childSObject: 'Contact', field: 'AccountId', relationshipName: 'Contacts' },
+        { childSObject: 'Opportunity', field: 'AccountId', relationshipName: 'Opportunities' },
+        { childSObject: 'Task', field: 'WhatId', relationshipName: null },
+    ],
+};
+
+export const describeFixtures: Record<string, SObjectDescribe> = {
+    Opportunity: opportunityDescribe,
+    Account: accountDescribe,
+};
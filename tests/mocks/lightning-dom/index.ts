@@ -0,0 +1,33 @@
+import { join } from 'path';
+
+/**
+ * Captured Lightning markup for the SalesforceUtils selector fallbacks
+ * Each HTML file holds one <template> per fallback; lightning-dom.js renders the one named by ?c__variant=
+ * Keep this list in sync with the templates (tests/framework/lightning-dom-fixtures.spec.ts checks it).
+ */
+export const LIGHTNING_DOM_DIR = __dirname;
+
+export const LIGHTNING_DOM_FIXTURES = {
+    'text-input': ['lightning-input', 'input-field-name', 'input-name', 'label-following-input', 'lightning-textarea', 'label-click'],
+    combobox: ['lightning-combobox', 'lightning-picklist', 'label-ancestor', 'span-ancestor', 'form-element-base-combobox'],
+    datetime: ['lightning-input', 'fieldset-legend'],
+    lookup: ['lightning-lookup', 'input-field-lookup', 'force-lookup', 'grouped-combobox', 'label-following-input'],
+    'record-layout': [
+        'output-field-text', 'output-field-number', 'output-field-link', 'output-field-url', 'layout-item-text',
+        'layout-item-number', 'static-text', 'editable-output-field', 'editable-layout-item', 'editable-input', 'read-only',
+    ],
+    'inline-edit': ['record-layout', 'save-error'],
+    'list-view': ['datatable', 'lazy-load', 'save-error'],
+    'related-list': ['datatable', 'tiles'],
+    toast: ['success', 'error', 'warning', 'stacked'],
+    spinner: ['spinner-container', 'slds-spinner', 'aura-rendered-spinner', 'force-spinner-container', 'loading-spinner', 'lightning-spinner', 'several-spinners'],
+    button: ['button', 'lightning-button', 'anchor-button', 'input-button', 'title'],
+} as const;
+
+export type LightningDomFixture = keyof typeof LIGHTNING_DOM_FIXTURES;
+
+export type LightningDomVariant<F extends LightningDomFixture> = (typeof LIGHTNING_DOM_FIXTURES)[F][number];
+
+export function lightningDomFile(fixture: LightningDomFixture): string {
+    return join(LIGHTNING_DOM_DIR, `${fixture}.html`);
+}
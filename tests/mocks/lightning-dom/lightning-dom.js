@@ -0,0 +1,248 @@
+/*
+ * Minimal behaviour for the captured Lightning markup, just enough for SalesforceUtils to drive it:
+ * - renders the <template> named by ?c__variant= into #app
+ * - comboboxes open their listbox on click and take the clicked option's value
+ * - lookups show matching results a moment after typing
+ * - inline-edit pencils switch their layout to edit mode; Save copies the inputs back (or shows data-save-error), Cancel does not
+ * - list views switch on picker options, sort on header clicks, filter on search and open a cell editor from a cell's pencil;
+ *   Enter keeps the edit for the status bar's Save (or data-save-error), and scrolling to the bottom loads data-page-size more rows
+ * - record pages show their related lists when the Related tab is clicked; row action menus open on click and close on an item
+ * - toast close buttons remove their toast, and the container with the last one; [data-hide-after] elements disappear after that many ms
+ * - every click on an element with data-testid is recorded in window.__clicks
+ */
+(function () {
+    const variant = new URLSearchParams(location.search).get('c__variant');
+    const template = document.getElementById(variant);
+    if (!template) throw new Error(`Unknown fixture variant "${variant}"`);
+    document.getElementById('app').appendChild(template.content.cloneNode(true));
+
+    window.__clicks = [];
+
+    document.addEventListener('click', event => {
+        const recorded = event.target.closest('[data-testid]');
+        if (recorded) window.__clicks.push(recorded.dataset.testid);
+
+        const listView = event.target.closest('[data-widget="list-view"]');
+        if (listView) {
+            handleListViewClick(listView, event.target);
+            return;
+        }
+
+        const relatedList = event.target.closest('[data-widget="related-list"]');
+        if (relatedList) {
+            handleRelatedListClick(relatedList, event.target);
+            return;
+        }
+
+        const option = event.target.closest('[role="option"]');
+        if (option) {
+            const widget = option.closest('[data-widget]');
+            const value = option.dataset.value || option.textContent.trim();
+            const trigger = widget.querySelector('[role="combobox"]');
+            if (trigger.tagName === 'INPUT') trigger.value = value;
+            else trigger.textContent = value;
+            widget.dataset.selectedValue = value;
+            widget.querySelector('[role="listbox"]').hidden = true;
+            return;
+        }
+
+        const trigger = event.target.closest('[data-widget="combobox"] [role="combobox"], [data-widget="combobox"] button');
+        if (trigger) {
+            const listbox = trigger.closest('[data-widget]').querySelector('[role="listbox"]');
+            listbox.hidden = !listbox.hidden;
+            return;
+        }
+
+        const inlineEdit = event.target.closest('[data-widget="inline-edit"]');
+        if (inlineEdit) {
+            const showMode = mode => {
+                for (const section of inlineEdit.querySelectorAll('[data-mode]')) section.hidden = section.dataset.mode !== mode;
+            };
+            if (event.target.closest('[data-mode="view"] button')) showMode('edit');
+            if (event.target.closest('button[name="CancelEdit"]')) showMode('view');
+            if (event.target.closest('button[name="SaveEdit"]')) {
+                const error = inlineEdit.querySelector('records-record-edit-error-header');
+                if (inlineEdit.dataset.saveError) {
+                    error.textContent = inlineEdit.dataset.saveError;
+                    error.hidden = false;
+                    return;
+                }
+                for (const input of inlineEdit.querySelectorAll('[data-mode="edit"] [field-label]')) {
+                    const label = input.getAttribute('field-label');
+                    const output = [...inlineEdit.querySelectorAll('[data-mode="view"] lightning-formatted-text')]
+                        .find(text => text.parentElement.textContent.includes(label));
+                    output.textContent = input.querySelector('input').value;
+                }
+                showMode('view');
+            }
+            return;
+        }
+
+        if (event.target.closest('.slds-notify__close, .toastClose')) {
+            const container = event.target.closest('.toastContainer');
+            event.target.closest('.slds-notify').remove();
+            if (!container.querySelector('.slds-notify')) container.remove();
+        }
+    });
+
+    function handleListViewClick(listView, target) {
+        const picker = listView.querySelector('force-list-view-manager-header [role="listbox"]');
+        if (target.closest('[title^="Select a List View"]')) {
+            picker.hidden = !picker.hidden;
+            return;
+        }
+        const option = target.closest('[role="option"]');
+        if (option) {
+            listView.querySelector('.triggerLinkText').textContent = option.textContent.trim();
+            picker.hidden = true;
+            return;
+        }
+
+        const menuButton = target.closest('lightning-button-menu > button');
+        if (menuButton) {
+            const menu = menuButton.parentElement.querySelector('[role="menu"]');
+            menu.hidden = !menu.hidden;
+            return;
+        }
+
+        const sortToggle = target.closest('thead .slds-th__action');
+        if (sortToggle) {
+            const header = sortToggle.closest('th');
+            const direction = header.getAttribute('aria-sort') === 'ascending' ? 'descending' : 'ascending';
+            for (const other of listView.querySelectorAll('thead th[aria-sort]')) other.setAttribute('aria-sort', 'none');
+            header.setAttribute('aria-sort', direction);
+            const column = Array.from(header.parentElement.children).indexOf(header);
+            const tbody = listView.querySelector('tbody');
+            const value = row => {
+                const text = row.children[column].textContent.trim();
+                const number = Number(text.replace(/[$,]/g, ''));
+                return Number.isNaN(number) || text === '' ? text : number;
+            };
+            const rows = Array.from(tbody.children).sort((a, b) => value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0);
+            if (direction === 'descending') rows.reverse();
+            tbody.replaceChildren(...rows);
+            return;
+        }
+
+        const pencil = target.closest('.slds-cell-edit__button');
+        if (pencil) {
+            const cell = pencil.closest('td');
+            const editor = listView.querySelector('.slds-popover_edit');
+            listView.editingCell = cell;
+            editor.querySelector('input').value = cell.querySelector('.slds-truncate').textContent;
+            editor.hidden = false;
+            editor.querySelector('input').focus();
+            return;
+        }
+
+        const statusBar = listView.querySelector('lightning-primitive-datatable-status-bar');
+        const edited = Array.from(listView.querySelectorAll('td.slds-is-edited'));
+        if (target.closest('lightning-primitive-datatable-status-bar button')) {
+            if (target.closest('button').textContent.trim() === 'Save' && listView.dataset.saveError) {
+                const error = statusBar.querySelector('.slds-popover_error');
+                error.textContent = listView.dataset.saveError;
+                error.hidden = false;
+                return;
+            }
+            for (const cell of edited) {
+                if (target.closest('button').textContent.trim() === 'Cancel') cell.querySelector('.slds-truncate').textContent = cell.dataset.original;
+                cell.classList.remove('slds-is-edited');
+            }
+            statusBar.hidden = true;
+        }
+    }
+
+    function handleRelatedListClick(recordPage, target) {
+        if (target.closest('a[data-label="Related"]')) {
+            recordPage.querySelector('[data-tab="related"]').hidden = false;
+            return;
+        }
+
+        const menuButton = target.closest('lightning-button-menu > button');
+        if (menuButton) {
+            const menu = menuButton.parentElement.querySelector('[role="menu"]');
+            menu.hidden = !menu.hidden;
+            return;
+        }
+
+        const item = target.closest('lightning-menu-item');
+        if (item) item.closest('[role="menu"]').hidden = true;
+    }
+
+    document.addEventListener('keydown', event => {
+        const editor = event.target.closest('[data-widget="list-view"] .slds-popover_edit');
+        if (editor && event.key === 'Enter') {
+            const listView = editor.closest('[data-widget="list-view"]');
+            const cell = listView.editingCell;
+            const text = cell.querySelector('.slds-truncate');
+            if (!cell.classList.contains('slds-is-edited')) cell.dataset.original = text.textContent;
+            text.textContent = event.target.value;
+            cell.classList.add('slds-is-edited');
+            editor.hidden = true;
+            listView.querySelector('lightning-primitive-datatable-status-bar').hidden = false;
+            return;
+        }
+
+        const search = event.target.closest('[data-widget="list-view"] force-list-view-manager-search-bar input');
+        if (search && event.key === 'Enter') {
+            const listView = search.closest('[data-widget="list-view"]');
+            const tbody = listView.querySelector('tbody');
+            listView.allRows = listView.allRows || Array.from(tbody.children);
+            const term = search.value.toLowerCase();
+            const rows = listView.allRows.filter(row => row.textContent.toLowerCase().includes(term));
+            tbody.replaceChildren(...rows);
+            listView.querySelector('force-list-view-manager-status-info').textContent = `${rows.length} items • Sorted by Opportunity Name`;
+        }
+    });
+
+    // Scroll events do not bubble, so listen in the capture phase
+    document.addEventListener('scroll', event => {
+        const scroller = event.target;
+        const listView = scroller.closest && scroller.closest('[data-widget="list-view"][data-total-rows]');
+        if (!listView || listView.loading || scroller.scrollTop + scroller.clientHeight < scroller.scrollHeight - 20) return;
+        const tbody = listView.querySelector('tbody');
+        const total = Number(listView.dataset.totalRows);
+        if (tbody.children.length >= total) return;
+        listView.loading = true;
+        // The next page arrives asynchronously, like the real list view's server round trip
+        setTimeout(() => {
+            const next = Math.min(tbody.children.length + Number(listView.dataset.pageSize), total);
+            for (let number = tbody.children.length + 1; number <= next; number++) {
+                const template = tbody.children[0].cloneNode(true);
+                const link = template.querySelector('a');
+                template.children[0].textContent = String(number);
+                link.textContent = link.title = `Lazy Deal ${number}`;
+                link.href = `/lightning/r/Opportunity/00600000000000${number}AAA/view`;
+                tbody.appendChild(template);
+            }
+            listView.querySelector('force-list-view-manager-status-info').textContent =
+                `${next}${next < total ? '+' : ''} items • Sorted by Opportunity Name`;
+            listView.loading = false;
+        }, 100);
+    }, true);
+
+    document.addEventListener('input', event => {
+        const widget = event.target.closest('[data-widget="lookup"]');
+        if (!widget) return;
+        const listbox = widget.querySelector('[role="listbox"]');
+        const term = event.target.value.toLowerCase();
+        listbox.replaceChildren();
+        listbox.hidden = true;
+        // Results arrive asynchronously, like the real lookup's server round trip
+        setTimeout(() => {
+            for (const name of (widget.dataset.results || '').split('|')) {
+                if (!term || !name.toLowerCase().includes(term)) continue;
+                const item = document.createElement('lightning-base-combobox-item');
+                item.setAttribute('role', 'option');
+                item.dataset.value = name;
+                item.innerHTML = `<span class="slds-media__body"><span class="slds-listbox__option-text">${name}</span></span>`;
+                listbox.appendChild(item);
+            }
+            listbox.hidden = !listbox.children.length;
+        }, 200);
+    });
+
+    for (const element of document.querySelectorAll('[data-hide-after]')) {
+        setTimeout(() => { element.style.display = 'none'; }, Number(element.dataset.hideAfter));
+    }
+})();
@@ -0,0 +1,264 @@
+/**
+ * The SOQL subset the mock Salesforce server understands:
+ *
+ *   SELECT Id, Name, Account.Name FROM Opportunity
+ *   WHERE (StageName = 'Prospecting' OR Amount > 1000) AND Name LIKE 'TestOpp\_%' AND Id IN ('006...')
+ *   ORDER BY CreatedDate DESC NULLS LAST LIMIT 10 OFFSET 5
+ *
+ * Subqueries, aggregates, GROUP BY and date literals (TODAY, LAST_N_DAYS:7) are rejected as MALFORMED_QUERY.
+ */
+
+export type MockRecord = Record<string, unknown>;
+
+export type SoqlLiteralValue = string | number | boolean | null;
+
+export type Condition =
+    | { kind: 'and' | 'or'; conditions: Condition[] }
+    | { kind: 'compare'; field: string; operator: string; value: SoqlLiteralValue | SoqlLiteralValue[]; isDateTime: boolean };
+
+export interface ParsedQuery {
+    sObjectType: string;
+    fields: string[];
+    where?: Condition;
+    orderBy: { field: string; descending: boolean; nullsLast: boolean }[];
+    limit?: number;
+    offset?: number;
+}
+
+export class SoqlParseError extends Error { }
+
+const TOKEN_PATTERN = /\s*(?:('(?:[^'\\]|\\.)*')|(!=|<=|>=|[=<>(),])|([\w.:+-]+))/y;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2}))?$/;
+const OPERATORS = ['=', '!=', '<', '<=', '>', '>=', 'LIKE', 'IN', 'NOT IN'];
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', f: '\f', b: '\b' };
+
+interface Token {
+    text: string;
+    quoted: boolean;
+}
+
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < query.trimEnd().length) {
+        const match = TOKEN_PATTERN.exec(query);
+        if (!match) throw new SoqlParseError(`unexpected token at position ${TOKEN_PATTERN.lastIndex}`);
+        if (match[1]) {
+            const text = match[1].slice(1, -1).replace(/\\(.)/g, (_, char: string) => ESCAPES[char] ?? char);
+            tokens.push({ text, quoted: true });
+        } else {
+            tokens.push({ text: match[2] ?? match[3], quoted: false });
+        }
+    }
+    return tokens;
+}
+
+class Parser {
+    private position = 0;
+
+    constructor(private tokens: Token[]) { }
+
+    parse(): ParsedQuery {
+        this.expectKeyword('SELECT');
+        const fields = [this.identifier()];
+        while (this.accept(',')) fields.push(this.identifier());
+
+        this.expectKeyword('FROM');
+        const query: ParsedQuery = { sObjectType: this.identifier(), fields, orderBy: [] };
+
+        if (this.acceptKeyword('WHERE')) query.where = this.orExpression();
+        if (this.acceptKeyword('ORDER')) {
+            this.expectKeyword('BY');
+            do {
+                const field = this.identifier();
+                const descending = this.acceptKeyword('DESC');
+                if (!descending) this.acceptKeyword('ASC');
+                // Salesforce sorts nulls first ascending and last descending unless told otherwise
+                let nullsLast = descending;
+                if (this.acceptKeyword('NULLS')) {
+                    nullsLast = this.acceptKeyword('LAST');
+                    if (!nullsLast) this.expectKeyword('FIRST');
+                }
+                query.orderBy.push({ field, descending, nullsLast });
+            } while (this.accept(','));
+        }
+        if (this.acceptKeyword('LIMIT')) query.limit = this.integer();
+        if (this.acceptKeyword('OFFSET')) query.offset = this.integer();
+
+        if (this.position < this.tokens.length) {
+            throw new SoqlParseError(`unexpected token '${this.tokens[this.position].text}'`);
+        }
+        return query;
+    }
+
+    private orExpression(): Condition {
+        const conditions = [this.andExpression()];
+        while (this.acceptKeyword('OR')) conditions.push(this.andExpression());
+        return conditions.length === 1 ? conditions[0] : { kind: 'or', conditions };
+    }
+
+    private andExpression(): Condition {
+        const conditions = [this.factor()];
+        while (this.acceptKeyword('AND')) conditions.push(this.factor());
+        return conditions.length === 1 ? conditions[0] : { kind: 'and', conditions };
+    }
+
+    private factor(): Condition {
+        if (this.accept('(')) {
+            const condition = this.orExpression();
+            this.expect(')');
+            return condition;
+        }
+
+        const field = this.identifier();
+        let operator = this.next().text.toUpperCase();
+        if (operator === 'NOT') operator = `NOT ${this.next().text.toUpperCase()}`;
+        if (!OPERATORS.includes(operator)) throw new SoqlParseError(`unsupported operator '${operator}'`);
+
+        if (operator === 'IN' || operator === 'NOT IN') {
+            this.expect('(');
+            const values = [this.literal()];
+            while (this.accept(',')) values.push(this.literal());
+            this.expect(')');
+            return { kind: 'compare', field, operator, value: values.map(v => v.value), isDateTime: false };
+        }
+        const { value, isDateTime } = this.literal();
+        return { kind: 'compare', field, operator, value, isDateTime };
+    }
+
+    private literal(): { value: SoqlLiteralValue; isDateTime: boolean } {
+        const token = this.next();
+        if (token.quoted) return { value: token.text, isDateTime: false };
+        if (/^(true|false)$/i.test(token.text)) return { value: token.text.toLowerCase() === 'true', isDateTime: false };
+        if (/^null$/i.test(token.text)) return { value: null, isDateTime: false };
+        if (/^-?\d+(\.\d+)?$/.test(token.text)) return { value: Number(token.text), isDateTime: false };
+        if (DATE_PATTERN.test(token.text)) return { value: token.text, isDateTime: true };
+        throw new SoqlParseError(`unsupported value '${token.text}'`);
+    }
+
+    private identifier(): string {
+        const token = this.next();
+        if (token.quoted || !/^[A-Za-z][\w.]*$/.test(token.text)) {
+            if (token.text === '(') throw new SoqlParseError('subqueries are not supported');
+            throw new SoqlParseError(`expected a field or object name, got '${token.text}'`);
+        }
+        return token.text;
+    }
+
+    private integer(): number {
+        const value = Number(this.next().text);
+        if (!Number.isInteger(value) || value < 0) throw new SoqlParseError('expected a non-negative integer');
+        return value;
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) throw new SoqlParseError('unexpected end of query');
+        return token;
+    }
+
+    private accept(text: string): boolean {
+        const token = this.tokens[this.position];
+        if (token && !token.quoted && token.text === text) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string): void {
+        if (!this.accept(text)) throw new SoqlParseError(`expected '${text}'`);
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        const token = this.tokens[this.position];
+        if (token && !token.quoted && token.text.toUpperCase() === keyword) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectKeyword(keyword: string): void {
+        if (!this.acceptKeyword(keyword)) throw new SoqlParseError(`expected ${keyword}`);
+    }
+}
+
+export function parseSoql(query: string): ParsedQuery {
+    return new Parser(tokenize(query)).parse();
+}
+
+/**
+ * Reads a possibly dotted field path from a record; resolve() follows relationship names to related records
+ */
+export type FieldResolver = (record: MockRecord, path: string) => unknown;
+
+function likeToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        else if (char === '%') source += '.*';
+        else if (char === '_') source += '.';
+        else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`, 'is');
+}
+
+function compareValues(a: unknown, b: unknown, asDates: boolean): number {
+    if (asDates) return Date.parse(String(a)) - Date.parse(String(b));
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+}
+
+function matches(record: MockRecord, condition: Condition, resolve: FieldResolver): boolean {
+    if (condition.kind !== 'compare') {
+        return condition.kind === 'and'
+            ? condition.conditions.every(c => matches(record, c, resolve))
+            : condition.conditions.some(c => matches(record, c, resolve));
+    }
+
+    const actual = resolve(record, condition.field) ?? null;
+    const { operator, value, isDateTime } = condition;
+    const equals = (expected: SoqlLiteralValue) => expected === null
+        ? actual === null
+        : actual !== null && compareValues(actual, expected, isDateTime) === 0;
+
+    switch (operator) {
+        case '=': return equals(value as SoqlLiteralValue);
+        case '!=': return !equals(value as SoqlLiteralValue);
+        case 'IN': return (value as SoqlLiteralValue[]).some(equals);
+        case 'NOT IN': return !(value as SoqlLiteralValue[]).some(equals);
+        case 'LIKE': return actual !== null && likeToRegExp(String(value)).test(String(actual));
+        default: {
+            if (actual === null || value === null) return false;
+            const difference = compareValues(actual, value, isDateTime);
+            return operator === '<' ? difference < 0
+                : operator === '<=' ? difference <= 0
+                    : operator === '>' ? difference > 0
+                        : difference >= 0;
+        }
+    }
+}
+
+/**
+ * Filters, sorts and slices the records of the queried object
+ */
+export function runQuery(query: ParsedQuery, records: MockRecord[], resolve: FieldResolver): MockRecord[] {
+    const filtered = query.where ? records.filter(record => matches(record, query.where!, resolve)) : [...records];
+
+    filtered.sort((a, b) => {
+        for (const { field, descending, nullsLast } of query.orderBy) {
+            const left = resolve(a, field) ?? null;
+            const right = resolve(b, field) ?? null;
+            if (left === right) continue;
+            if (left === null || right === null) return (left === null) === nullsLast ? 1 : -1;
+            const difference = compareValues(left, right, false);
+            if (difference !== 0) return descending ? -difference : difference;
+        }
+        return 0;
+    });
+
+    const offset = query.offset ?? 0;
+    return filtered.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+}
@@ -0,0 +1,141 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createVerify, KeyObject } from 'crypto';
+
+/**
+ * Local stand-in for the Salesforce OAuth token endpoint
+ * Issues tokens for the jwt-bearer, refresh_token and client_credentials grants
+ * and accepts them on /services/data/* so restCall can be exercised end to end
+ */
+export interface OAuthStandInOptions {
+    clientId: string;
+    clientSecret?: string;
+    username?: string;
+    refreshToken?: string;
+    publicKey?: KeyObject | string;
+}
+
+export interface OAuthStandIn {
+    url: string;
+    tokenRequests: Record<string, string>[];
+    issuedTokens: string[];
+    dataRequests: { method: string; path: string }[];
+    revokeAll(): void;
+    /** Makes the next /services/data call fail with the given status and body */
+    queueFailure(status: number, body: unknown): void;
+    close(): Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function verifyAssertion(assertion: string, options: OAuthStandInOptions): string | null {
+    const [header, claims, signature] = assertion.split('.');
+    if (!header || !claims || !signature || !options.publicKey) return 'malformed assertion';
+
+    const validSignature = createVerify('RSA-SHA256')
+        .update(`${header}.${claims}`)
+        .verify(options.publicKey, signature, 'base64url');
+    if (!validSignature) return 'invalid assertion signature';
+
+    const payload = JSON.parse(Buffer.from(claims, 'base64url').toString('utf-8'));
+    if (payload.iss !== options.clientId) return 'invalid client identifier';
+    if (payload.sub !== options.username) return 'user hasn\'t approved this consumer';
+    if (payload.exp * 1000 < Date.now()) return 'expired assertion';
+    return null;
+}
+
+export async function startOAuthStandIn(options: OAuthStandInOptions): Promise<OAuthStandIn> {
+    const tokenRequests: Record<string, string>[] = [];
+    const issuedTokens: string[] = [];
+    const dataRequests: { method: string; path: string }[] = [];
+    const queuedFailures: { status: number; body: unknown }[] = [];
+    let url = '';
+
+    const issueToken = (res: ServerResponse) => {
+        const token = `00D000000000001!stand-in-${issuedTokens.length + 1}`;
+        issuedTokens.push(token);
+        sendJson(res, 200, {
+            access_token: token,
+            instance_url: url,
+            id: `${url}/id/00D000000000001/005000000000001`,
+            token_type: 'Bearer',
+            issued_at: String(Date.now()),
+        });
+    };
+
+    const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+        const form = Object.fromEntries(new URLSearchParams(await readBody(req)));
+        tokenRequests.push(form);
+
+        switch (form.grant_type) {
+            case 'urn:ietf:params:oauth:grant-type:jwt-bearer': {
+                const error = verifyAssertion(form.assertion || '', options);
+                return error ? sendJson(res, 400, { error: 'invalid_grant', error_description: error }) : issueToken(res);
+            }
+            case 'refresh_token':
+                if (form.client_id !== options.clientId) {
+                    return sendJson(res, 400, { error: 'invalid_client_id', error_description: 'client identifier invalid' });
+                }
+                if (form.refresh_token !== options.refreshToken) {
+                    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'expired access/refresh token' });
+                }
+                return issueToken(res);
+            case 'client_credentials':
+                if (form.client_id !== options.clientId || form.client_secret !== options.clientSecret) {
+                    return sendJson(res, 400, { error: 'invalid_client', error_description: 'invalid client credentials' });
+                }
+                return issueToken(res);
+            default:
+                return sendJson(res, 400, { error: 'unsupported_grant_type', error_description: 'grant type not supported' });
+        }
+    };
+
+    const handleData = (req: IncomingMessage, res: ServerResponse) => {
+        dataRequests.push({ method: req.method || 'GET', path: req.url || '' });
+        const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+        if (!issuedTokens.includes(token)) {
+            return sendJson(res, 401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+        }
+        const failure = queuedFailures.shift();
+        if (failure) {
+            return sendJson(res, failure.status, failure.body);
+        }
+        sendJson(res, 200, { DailyApiRequests: { Max: 15000, Remaining: 14999 } });
+    };
+
+    const server: Server = createServer((req, res) => {
+        const path = (req.url || '').split('?')[0];
+        if (req.method === 'POST' && path === '/services/oauth2/token') {
+            handleToken(req, res).catch(error => sendJson(res, 500, { error: 'server_error', error_description: String(error) }));
+        } else if (path.startsWith('/services/data/')) {
+            handleData(req, res);
+        } else {
+            sendJson(res, 404, [{ message: 'The requested resource does not exist', errorCode: 'NOT_FOUND' }]);
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        tokenRequests,
+        issuedTokens,
+        dataRequests,
+        revokeAll: () => { issuedTokens.length = 0; },
+        queueFailure: (status, body) => { queuedFailures.push({ status, body }); },
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+    };
+}
@@ -0,0 +1,626 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AuthProvider } from '../utils/auth-providers';
+import { DescribeField, RecordLayout, SObjectDescribe, toFieldMetadata } from '../utils/describe-cache';
+import { describeFixtures } from './describe-fixtures';
+import { MockRecord, parseSoql, runQuery, SoqlParseError } from './mock-soql';
+
+/**
+ * In-process mock of the Salesforce REST API backed by an in-memory sObject store
+ * Serves OAuth client_credentials tokens, /query (SOQL subset, nextRecordsUrl paging),
+ * /sobjects CRUD with describe-based validation, sObject Collections (upsert included), Composite
+ * and Composite Graph with @{ref.field} references, describe, UI API layouts and User passwords,
+ * answering with Salesforce-shaped error bodies
+ */
+export interface SalesforceMockOptions {
+    /** Records to seed, by sObject type; Ids are generated when missing */
+    records?: Record<string, MockRecord[]>;
+    /** Describes used for /describe and for field validation (default: tests/mocks/describe-fixtures) */
+    describes?: Record<string, SObjectDescribe>;
+    /** UI API layouts served from /ui-api/layout/{type} */
+    layouts?: Record<string, RecordLayout>;
+    /** Records per /query page before a nextRecordsUrl is returned (Salesforce default: 2000) */
+    queryPageSize?: number;
+}
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    body?: unknown;
+}
+
+export interface SalesforceMock {
+    url: string;
+    /** Auth provider that hands out a session pointing at the mock */
+    authProvider: AuthProvider;
+    /** Client credentials the mock's token endpoint accepts */
+    clientId: string;
+    clientSecret: string;
+    /** Id of the user every session runs as (CreatedById of created records) */
+    userId: string;
+    store: MockStore;
+    /** Passwords set through /sobjects/User/{id}/password, by user Id */
+    passwords: Map<string, string>;
+    requests: MockRequest[];
+    /** Makes the next /services/data call fail with the given status and body, or the one after afterRequests more */
+    queueFailure(status: number, body: unknown, afterRequests?: number): void;
+    close(): Promise<void>;
+}
+
+const ID_PREFIXES: Record<string, string> = {
+    Account: '001',
+    Contact: '003',
+    Opportunity: '006',
+    User: '005',
+    Profile: '00e',
+    Organization: '00D',
+    Lead: '00Q',
+    Case: '500',
+    PermissionSet: '0PS',
+    PermissionSetAssignment: '0Pa',
+};
+
+/** Objects the mock accepts even without a describe */
+const DEFAULT_OBJECTS = Object.keys(ID_PREFIXES);
+
+export const MOCK_USER_ID = '005000000000001AAA';
+const MOCK_ORG_ID = '00D000000000001AAA';
+const MOCK_CLIENT_ID = 'mock-client-id';
+const MOCK_CLIENT_SECRET = 'mock-client-secret';
+const SYSTEM_FIELDS = ['Id', 'CreatedDate', 'CreatedById', 'LastModifiedDate', 'LastModifiedById', 'SystemModstamp', 'IsDeleted'];
+
+type SalesforceError = { errorCode: string; message: string; fields: string[] };
+
+type MockSubrequest = { method: string; url: string; referenceId: string; body?: MockRecord };
+type MockSubresponse = { referenceId: string; httpStatusCode: number; httpHeaders: Record<string, string>; body: unknown };
+
+const PROCESSING_HALTED: SalesforceError = {
+    errorCode: 'PROCESSING_HALTED',
+    message: 'The transaction was rolled back since another operation in the same transaction failed.',
+    fields: [],
+};
+
+class MockHttpError extends Error {
+    constructor(readonly status: number, readonly errors: SalesforceError[]) {
+        super(errors[0]?.message);
+    }
+}
+
+function notFound(): MockHttpError {
+    return new MockHttpError(404, [{ errorCode: 'NOT_FOUND', message: 'The requested resource does not exist', fields: [] }]);
+}
+
+/**
+ * The mock's sObject store; tests can seed and inspect it directly
+ */
+export class MockStore {
+    private readonly records = new Map<string, Map<string, MockRecord>>();
+    private counter = 0;
+
+    constructor(private describes: Record<string, SObjectDescribe>) { }
+
+    newId(sObjectType: string): string {
+        const prefix = this.describes[sObjectType]?.keyPrefix ?? ID_PREFIXES[sObjectType] ?? 'a00';
+        return `${prefix}${String(++this.counter).padStart(12, '0')}AAA`;
+    }
+
+    insert(sObjectType: string, fields: MockRecord): MockRecord {
+        const now = new Date().toISOString().replace('Z', '+0000');
+        const record: MockRecord = {
+            CreatedDate: now,
+            CreatedById: MOCK_USER_ID,
+            LastModifiedDate: now,
+            LastModifiedById: MOCK_USER_ID,
+            ...(sObjectType === 'User' && { IsActive: true }),
+            ...fields,
+            Id: (fields.Id as string | undefined) ?? this.newId(sObjectType),
+        };
+        this.table(sObjectType).set(record.Id as string, record);
+        return record;
+    }
+
+    update(id: string, fields: MockRecord): MockRecord {
+        const record = this.get(id);
+        if (!record) throw notFound();
+        Object.assign(record.fields, fields, { LastModifiedDate: new Date().toISOString().replace('Z', '+0000') });
+        return record.fields;
+    }
+
+    delete(id: string): boolean {
+        const record = this.get(id);
+        return !!record && this.table(record.sObjectType).delete(id);
+    }
+
+    get(id: string): { sObjectType: string; fields: MockRecord } | undefined {
+        for (const [sObjectType, table] of this.records) {
+            const fields = table.get(id);
+            if (fields) return { sObjectType, fields };
+        }
+        return undefined;
+    }
+
+    all(sObjectType: string): MockRecord[] {
+        return [...this.table(sObjectType).values()];
+    }
+
+    types(): string[] {
+        return [...this.records.keys()];
+    }
+
+    private table(sObjectType: string): Map<string, MockRecord> {
+        let table = this.records.get(sObjectType);
+        if (!table) {
+            table = new Map();
+            this.records.set(sObjectType, table);
+        }
+        return table;
+    }
+}
+
+function findKey(record: MockRecord, name: string): string | undefined {
+    const lower = name.toLowerCase();
+    return Object.keys(record).find(key => key.toLowerCase() === lower);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function sendNoContent(res: ServerResponse): void {
+    res.writeHead(204);
+    res.end();
+}
+
+export async function startSalesforceMock(options: SalesforceMockOptions = {}): Promise<SalesforceMock> {
+    const describes = options.describes ?? describeFixtures;
+    const pageSize = options.queryPageSize ?? 2000;
+    const store = new MockStore(describes);
+    const passwords = new Map<string, string>();
+    const requests: MockRequest[] = [];
+    const queuedFailures: { status: number; body: unknown; afterRequests: number }[] = [];
+    const cursors = new Map<string, { sObjectType: string; records: MockRecord[]; fields: string[] }>();
+    const issuedTokens = new Set<string>(['00D000000000001!mock-static']);
+    let url = '';
+    let apiPath = '/services/data/v60.0';
+
+    store.insert('Organization', { Id: MOCK_ORG_ID, Name: 'Mock Org' });
+    store.insert('User', { Id: MOCK_USER_ID, Username: 'automation@mock.salesforce.test', FirstName: 'Automation', LastName: 'User', Name: 'Automation User' });
+    for (const name of ['System Administrator', 'Standard User', 'Standard Platform User']) {
+        store.insert('Profile', { Name: name });
+    }
+    store.insert('PermissionSet', { Name: 'OpportunityReadOnly', Label: 'Opportunity Read Only', IsOwnedByProfile: false });
+    for (const [sObjectType, records] of Object.entries(options.records ?? {})) {
+        records.forEach(record => store.insert(sObjectType, record));
+    }
+
+    const knownType = (sObjectType: string) =>
+        !!describes[sObjectType] || DEFAULT_OBJECTS.includes(sObjectType) || store.types().includes(sObjectType);
+
+    const recordUrl = (sObjectType: string, id: string) => `${apiPath}/sobjects/${sObjectType}/${id}`;
+
+    /**
+     * Reads Field, Relationship.Field or Custom__r.Field from a record, following lookups through the store
+     */
+    const resolveField = (record: MockRecord, path: string): unknown => {
+        const [head, ...rest] = path.split('.');
+        if (!rest.length) {
+            const key = findKey(record, head);
+            return key ? record[key] : undefined;
+        }
+        const idKey = findKey(record, head.endsWith('__r') ? head.replace(/__r$/, '__c') : `${head}Id`);
+        const related = idKey ? store.get(record[idKey] as string) : undefined;
+        return related ? resolveField(related.fields, rest.join('.')) : undefined;
+    };
+
+    const shapeRecord = (sObjectType: string, record: MockRecord, fields?: string[]): MockRecord => {
+        const shaped: MockRecord = { attributes: { type: sObjectType, url: recordUrl(sObjectType, record.Id as string) } };
+        for (const field of fields ?? Object.keys(record)) {
+            const [head, ...rest] = field.split('.');
+            if (!rest.length) {
+                const key = findKey(record, field) ?? field;
+                shaped[key] = record[key] ?? null;
+                continue;
+            }
+            // Relationship fields come back nested: { Account: { attributes, Name } }
+            const related = resolveRelated(record, head);
+            const nested = (shaped[head] as MockRecord | null | undefined)
+                ?? (related ? { attributes: { type: related.sObjectType, url: recordUrl(related.sObjectType, related.fields.Id as string) } } : null);
+            if (nested && related) nested[rest.join('.')] = resolveField(related.fields, rest.join('.')) ?? null;
+            shaped[head] = nested;
+        }
+        return shaped;
+    };
+
+    const resolveRelated = (record: MockRecord, relationship: string) => {
+        const idKey = findKey(record, relationship.endsWith('__r') ? relationship.replace(/__r$/, '__c') : `${relationship}Id`);
+        return idKey ? store.get(record[idKey] as string) : undefined;
+    };
+
+    /**
+     * Field validation against the describe, as Salesforce does on insert and update
+     */
+    const validate = (sObjectType: string, fields: MockRecord, operation: 'create' | 'update', existing?: MockRecord): SalesforceError[] => {
+        if (sObjectType === 'User' && typeof fields.Username === 'string') {
+            const duplicate = store.all('User').find(user => user.Username === fields.Username && user.Id !== existing?.Id);
+            if (duplicate) {
+                return [{ errorCode: 'DUPLICATE_USERNAME', message: `Duplicate Username.<br>The username already exists in this or another Salesforce organization. Usernames must be unique across all Salesforce organizations.`, fields: ['Username'] }];
+            }
+        }
+
+        const describe = describes[sObjectType];
+        if (!describe) return [];
+        const byName = new Map<string, DescribeField>(describe.fields.map(field => [field.name.toLowerCase(), field]));
+
+        for (const name of Object.keys(fields)) {
+            const field = byName.get(name.toLowerCase());
+            if (!field) {
+                return [{ errorCode: 'INVALID_FIELD', message: `No such column '${name}' on sobject of type ${sObjectType}`, fields: [] }];
+            }
+            if (operation === 'create' ? !field.createable : !field.updateable) {
+                return [{ errorCode: 'INVALID_FIELD_FOR_INSERT_UPDATE', message: `Unable to ${operation} fields: ${field.name}. Please check the security settings of this field and verify that it is read/write for your profile or permission set.`, fields: [field.name] }];
+            }
+            const metadata = toFieldMetadata(field);
+            const value = fields[name];
+            // Every picklist is treated as restricted; combobox fields take free text
+            if (metadata.dataType === 'picklist' && value !== null && !metadata.picklistValues.includes(String(value))) {
+                return [{ errorCode: 'INVALID_OR_NULL_FOR_RESTRICTED_PICKLIST', message: `${field.label}: bad value for restricted picklist field: ${value}`, fields: [field.name] }];
+            }
+        }
+
+        const merged = { ...existing, ...fields };
+        const missing = describe.fields
+            .filter(field => toFieldMetadata(field).required)
+            .filter(field => {
+                const key = findKey(merged, field.name);
+                return !key || merged[key] === null || merged[key] === '';
+            })
+            .map(field => field.name);
+        return missing.length
+            ? [{ errorCode: 'REQUIRED_FIELD_MISSING', message: `Required fields are missing: [${missing.join(', ')}]`, fields: missing }]
+            : [];
+    };
+
+    const createRecord = (sObjectType: string, body: MockRecord): MockRecord => {
+        const { attributes: _attributes, ...fields } = body;
+        if (!knownType(sObjectType)) throw notFound();
+        const errors = validate(sObjectType, fields, 'create');
+        if (errors.length) throw new MockHttpError(400, errors);
+        return store.insert(sObjectType, fields);
+    };
+
+    const updateRecord = (id: string, body: MockRecord, expectedType?: string): void => {
+        const { attributes: _attributes, Id: _id, ...fields } = body;
+        const existing = store.get(id);
+        if (!existing || (expectedType && existing.sObjectType !== expectedType)) throw notFound();
+        const errors = validate(existing.sObjectType, fields, 'update', existing.fields);
+        if (errors.length) throw new MockHttpError(400, errors);
+        store.update(id, fields);
+    };
+
+    const queryPage = (locator: string, offset: number) => {
+        const cursor = cursors.get(locator);
+        if (!cursor) {
+            throw new MockHttpError(400, [{ errorCode: 'INVALID_QUERY_LOCATOR', message: 'invalid query locator', fields: [] }]);
+        }
+        const records = cursor.records.slice(offset, offset + pageSize);
+        const next = offset + records.length;
+        return {
+            totalSize: cursor.records.length,
+            done: next >= cursor.records.length,
+            ...(next < cursor.records.length && { nextRecordsUrl: `${apiPath}/query/${locator}-${next}` }),
+            records: records.map(record => shapeRecord(cursor.sObjectType, record, cursor.fields)),
+        };
+    };
+
+    const runSoql = (soql: string) => {
+        let parsed;
+        try {
+            parsed = parseSoql(soql);
+        } catch (error) {
+            if (!(error instanceof SoqlParseError)) throw error;
+            throw new MockHttpError(400, [{ errorCode: 'MALFORMED_QUERY', message: `${soql}\n${error.message}`, fields: [] }]);
+        }
+        if (!knownType(parsed.sObjectType)) {
+            throw new MockHttpError(400, [{ errorCode: 'INVALID_TYPE', message: `sObject type '${parsed.sObjectType}' is not supported.`, fields: [] }]);
+        }
+        const describe = describes[parsed.sObjectType];
+        const unknown = describe && parsed.fields.find(field =>
+            !field.includes('.') && !describe.fields.some(f => f.name.toLowerCase() === field.toLowerCase()) && !SYSTEM_FIELDS.includes(field));
+        if (unknown) {
+            throw new MockHttpError(400, [{ errorCode: 'INVALID_FIELD', message: `No such column '${unknown}' on entity '${parsed.sObjectType}'.`, fields: [] }]);
+        }
+
+        const locator = `01gMOCK${String(cursors.size + 1).padStart(11, '0')}`;
+        cursors.set(locator, {
+            sObjectType: parsed.sObjectType,
+            records: runQuery(parsed, store.all(parsed.sObjectType), resolveField),
+            fields: parsed.fields,
+        });
+        return queryPage(locator, 0);
+    };
+
+    /**
+     * Upsert matched on externalIdField: updates the record with the same value, inserts otherwise
+     */
+    const upsertRecord = (sObjectType: string, externalIdField: string, record: MockRecord) => {
+        const value = record[findKey(record, externalIdField) ?? externalIdField];
+        const existing = value === undefined || value === null
+            ? undefined
+            : store.all(sObjectType).find(candidate => candidate[findKey(candidate, externalIdField) ?? externalIdField] === value);
+        if (existing) {
+            updateRecord(existing.Id as string, record, sObjectType);
+            return { id: existing.Id as string, success: true, created: false, errors: [] };
+        }
+        return { id: createRecord(sObjectType, record).Id as string, success: true, created: true, errors: [] };
+    };
+
+    const handleCollections = (
+        method: string,
+        requestUrl: URL,
+        body: { allOrNone?: boolean; records?: MockRecord[] },
+        upsert?: { sObjectType: string; externalIdField: string }
+    ) => {
+        if (method === 'DELETE') {
+            const ids = (requestUrl.searchParams.get('ids') ?? '').split(',').filter(Boolean);
+            return ids.map(id => store.delete(id)
+                ? { id, success: true, errors: [] }
+                : { id, success: false, errors: [{ statusCode: 'ENTITY_IS_DELETED', message: 'entity is deleted', fields: [] }] });
+        }
+
+        const records = body.records ?? [];
+        const results = records.map(record => {
+            try {
+                if (upsert) return upsertRecord(upsert.sObjectType, upsert.externalIdField, record);
+                const sObjectType = (record.attributes as { type?: string } | undefined)?.type ?? '';
+                if (method === 'POST') return { id: createRecord(sObjectType, record).Id as string, success: true, errors: [] };
+                updateRecord(record.Id as string, record, sObjectType || undefined);
+                return { id: record.Id as string, success: true, errors: [] };
+            } catch (error) {
+                if (!(error instanceof MockHttpError)) throw error;
+                return { id: null, success: false, errors: error.errors.map(e => ({ statusCode: e.errorCode, message: e.message, fields: e.fields })) };
+            }
+        });
+        if (body.allOrNone && results.some(result => !result.success)) {
+            // Undo the successful inserts so nothing from the batch is kept
+            results.filter(result => result.success && (method === 'POST' || 'created' in result && result.created))
+                .forEach(result => store.delete(result.id as string));
+            return results.map(result => result.success
+                ? { id: null, success: false, errors: [{ statusCode: 'ALL_OR_NONE_OPERATION_ROLLED_BACK', message: 'Record rolled back because not all records were valid and the request was using AllOrNone header', fields: [] }] }
+                : result);
+        }
+        return results;
+    };
+
+    /**
+     * /sobjects/{type} and /sobjects/{type}/{id}, for direct calls and composite subrequests alike
+     */
+    const handleSObject = (
+        method: string,
+        sObjectType: string,
+        id: string | undefined,
+        body: MockRecord | undefined,
+        fieldsParam?: string | null
+    ): { status: number; body?: unknown } => {
+        if (!id && method === 'POST') {
+            const record = createRecord(sObjectType, body ?? {});
+            return { status: 201, body: { id: record.Id, success: true, errors: [] } };
+        }
+        if (id && method === 'GET') {
+            const record = store.get(id);
+            if (!record || record.sObjectType !== sObjectType) throw notFound();
+            const fields = fieldsParam?.split(',');
+            return { status: 200, body: shapeRecord(sObjectType, record.fields, fields && ['Id', ...fields.filter(f => f !== 'Id')]) };
+        }
+        if (id && method === 'PATCH') {
+            updateRecord(id, body ?? {}, sObjectType);
+            return { status: 204 };
+        }
+        if (id && method === 'DELETE') {
+            if (store.get(id)?.sObjectType !== sObjectType) throw notFound();
+            store.delete(id);
+            return { status: 204 };
+        }
+        if (!knownType(sObjectType)) throw notFound();
+        const allowed = id ? 'GET,PATCH,DELETE' : 'POST';
+        throw new MockHttpError(405, [{ errorCode: 'METHOD_NOT_ALLOWED', message: `HTTP Method '${method}' not allowed. Allowed are ${allowed}`, fields: [] }]);
+    };
+
+    /**
+     * Composite subrequests in order, each able to reference an earlier result as @{refId.field}.
+     * With allOrNone, the first failure halts the rest and rolls back the inserts before it.
+     */
+    const runComposite = (subrequests: MockSubrequest[], allOrNone: boolean): MockSubresponse[] => {
+        const results: Record<string, MockRecord> = {};
+        const inserted: string[] = [];
+        const responses: MockSubresponse[] = [];
+        const respond = (referenceId: string, httpStatusCode: number, body: unknown) =>
+            responses.push({ referenceId, httpStatusCode, httpHeaders: {}, body: body ?? null });
+        const resolve = <V>(value: V): V => value === undefined ? value : JSON.parse(JSON.stringify(value).replace(
+            /@\{(\w+)\.(\w+)\}/g,
+            (reference: string, referenceId: string, field: string) => {
+                const resolved = results[referenceId]?.[field];
+                if (resolved === undefined || resolved === null) {
+                    throw new MockHttpError(400, [{ ...PROCESSING_HALTED, message: `Invalid reference specified. No value for ${referenceId}.${field} found in ${referenceId}.` }]);
+                }
+                return String(resolved);
+            }
+        ));
+
+        let failed = false;
+        for (const subrequest of subrequests) {
+            if (failed && allOrNone) {
+                respond(subrequest.referenceId, 400, [PROCESSING_HALTED]);
+                continue;
+            }
+            try {
+                const path = resolve(subrequest.url).replace(/^\/services\/data\/v[\d.]+/, '');
+                const [pathname, search = ''] = path.split('?');
+                const sObject = pathname.match(/^\/sobjects\/(\w+)(?:\/(\w+))?$/);
+                if (!sObject) throw notFound();
+                const result = handleSObject(subrequest.method, sObject[1], sObject[2], resolve(subrequest.body), new URLSearchParams(search).get('fields'));
+                if (result.status === 201) inserted.push((result.body as { id: string }).id);
+                results[subrequest.referenceId] = (result.body ?? {}) as MockRecord;
+                respond(subrequest.referenceId, result.status, result.body);
+            } catch (error) {
+                if (!(error instanceof MockHttpError)) throw error;
+                failed = true;
+                respond(subrequest.referenceId, error.status, error.errors);
+            }
+        }
+        if (!failed || !allOrNone) return responses;
+
+        inserted.forEach(id => store.delete(id));
+        return responses.map(response => response.httpStatusCode < 400
+            ? { ...response, httpStatusCode: 400, body: [PROCESSING_HALTED] }
+            : response);
+    };
+
+    const handleData = async (req: IncomingMessage, res: ServerResponse) => {
+        const requestUrl = new URL(req.url || '/', url);
+        const method = req.method || 'GET';
+        const text = await readBody(req);
+        const body = text ? JSON.parse(text) : undefined;
+        // Answer with URLs under whichever API version the caller used
+        apiPath = requestUrl.pathname.match(/^\/services\/data\/v[\d.]+/)?.[0] ?? apiPath;
+        const path = requestUrl.pathname.slice(apiPath.length);
+        requests.push({ method, path: `${path}${requestUrl.search}`, body });
+
+        const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+        if (!issuedTokens.has(token)) {
+            return sendJson(res, 401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+        }
+        if (queuedFailures[0]?.afterRequests) {
+            queuedFailures[0].afterRequests--;
+        } else {
+            const failure = queuedFailures.shift();
+            if (failure) return sendJson(res, failure.status, failure.body);
+        }
+
+        if (path === '/query' && method === 'GET') {
+            return sendJson(res, 200, runSoql(requestUrl.searchParams.get('q') ?? ''));
+        }
+        const nextPage = path.match(/^\/query\/(\w+)-(\d+)$/);
+        if (nextPage && method === 'GET') {
+            return sendJson(res, 200, queryPage(nextPage[1], Number(nextPage[2])));
+        }
+        if (path === '/composite/sobjects' && ['POST', 'PATCH', 'DELETE'].includes(method)) {
+            return sendJson(res, 200, handleCollections(method, requestUrl, body ?? {}));
+        }
+        const upsert = path.match(/^\/composite\/sobjects\/(\w+)\/(\w+)$/);
+        if (upsert && method === 'PATCH') {
+            return sendJson(res, 200, handleCollections(method, requestUrl, body ?? {}, { sObjectType: upsert[1], externalIdField: upsert[2] }));
+        }
+        if (path === '/composite' && method === 'POST') {
+            return sendJson(res, 200, { compositeResponse: runComposite(body?.compositeRequest ?? [], !!body?.allOrNone) });
+        }
+        if (path === '/composite/graph' && method === 'POST') {
+            // Every graph is all-or-none on its own
+            const graphs = (body?.graphs ?? []) as { graphId: string; compositeRequest: MockSubrequest[] }[];
+            return sendJson(res, 200, {
+                graphs: graphs.map(graph => {
+                    const compositeResponse = runComposite(graph.compositeRequest, true);
+                    return {
+                        graphId: graph.graphId,
+                        isSuccessful: compositeResponse.every(response => response.httpStatusCode < 400),
+                        graphResponse: { compositeResponse },
+                    };
+                }),
+            });
+        }
+        if (path === '/chatter/users/me' && method === 'GET') {
+            return sendJson(res, 200, { id: MOCK_USER_ID, username: store.get(MOCK_USER_ID)?.fields.Username });
+        }
+        if (path === '/limits' && method === 'GET') {
+            return sendJson(res, 200, { DailyApiRequests: { Max: 15000, Remaining: 15000 - requests.length } });
+        }
+
+        const layout = path.match(/^\/ui-api\/layout\/(\w+)$/);
+        if (layout && method === 'GET') {
+            const found = options.layouts?.[layout[1]];
+            return found ? sendJson(res, 200, found) : sendJson(res, 404, notFound().errors);
+        }
+
+        const password = path.match(/^\/sobjects\/User\/(\w+)\/password$/);
+        if (password) {
+            if (store.get(password[1])?.sObjectType !== 'User') throw notFound();
+            if (method === 'GET') return sendJson(res, 200, { isExpired: !passwords.has(password[1]) });
+            if (method !== 'POST') throw new MockHttpError(405, [{ errorCode: 'METHOD_NOT_ALLOWED', message: `HTTP Method '${method}' not allowed. Allowed are GET,POST`, fields: [] }]);
+            const newPassword = String(body?.NewPassword ?? '');
+            if (newPassword.length < 8 || !/[A-Za-z]/.test(newPassword) || !/\d/.test(newPassword)) {
+                throw new MockHttpError(400, [{ errorCode: 'INVALID_NEW_PASSWORD', message: 'Your password must be at least 8 characters long and have a mix of letters and numbers.', fields: [] }]);
+            }
+            passwords.set(password[1], newPassword);
+            return sendNoContent(res);
+        }
+
+        const describe = path.match(/^\/sobjects\/(\w+)\/describe$/);
+        if (describe && method === 'GET') {
+            const found = describes[describe[1]];
+            return found ? sendJson(res, 200, found) : sendJson(res, 404, notFound().errors);
+        }
+
+        const sObject = path.match(/^\/sobjects\/(\w+)(?:\/(\w+))?$/);
+        if (sObject) {
+            const result = handleSObject(method, sObject[1], sObject[2], body, requestUrl.searchParams.get('fields'));
+            return result.status === 204 ? sendNoContent(res) : sendJson(res, result.status, result.body);
+        }
+
+        throw notFound();
+    };
+
+    const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+        const form = Object.fromEntries(new URLSearchParams(await readBody(req)));
+        if (form.grant_type !== 'client_credentials') {
+            return sendJson(res, 400, { error: 'unsupported_grant_type', error_description: 'grant type not supported' });
+        }
+        if (form.client_id !== MOCK_CLIENT_ID || form.client_secret !== MOCK_CLIENT_SECRET) {
+            return sendJson(res, 400, { error: 'invalid_client', error_description: 'invalid client credentials' });
+        }
+        const token = `00D000000000001!mock-${issuedTokens.size}`;
+        issuedTokens.add(token);
+        sendJson(res, 200, { access_token: token, instance_url: url, token_type: 'Bearer', issued_at: String(Date.now()) });
+    };
+
+    const server: Server = createServer((req, res) => {
+        const path = (req.url || '').split('?')[0];
+        const handler = req.method === 'POST' && path === '/services/oauth2/token'
+            ? handleToken(req, res)
+            : path.startsWith('/services/data/')
+                ? handleData(req, res)
+                : Promise.reject(notFound());
+
+        handler.catch(error => error instanceof MockHttpError
+            ? sendJson(res, error.status, error.errors)
+            : sendJson(res, 500, [{ errorCode: 'UNKNOWN_EXCEPTION', message: String(error) }]));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        authProvider: {
+            name: 'Salesforce mock',
+            cacheKey: `salesforce-mock:${url}`,
+            authenticate: async () => ({ accessToken: '00D000000000001!mock-static', instanceUrl: url }),
+        },
+        clientId: MOCK_CLIENT_ID,
+        clientSecret: MOCK_CLIENT_SECRET,
+        userId: MOCK_USER_ID,
+        store,
+        passwords,
+        requests,
+        queueFailure: (status, body, afterRequests = 0) => { queuedFailures.push({ status, body, afterRequests }); },
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+    };
+}
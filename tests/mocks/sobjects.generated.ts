@@ -0,0 +1,154 @@
+/**
+ * Test fixture for the framework specs, not the types of any org: generated by scripts/generate-sobject-types.ts
+ * from force-app/main/default/objects and the mock describes in tests/mocks/describe-fixtures.ts.
+ * Do not import it outside tests/framework; run `npm run generate:types -- --mock-describes` after changing the mock describes.
+ */
+
+/** Opportunity.ForecastCategoryName active values */
+export type OpportunityForecastCategoryName =
+    | 'Omitted'
+    | 'Pipeline'
+    | 'Best Case'
+    | 'Commit'
+    | 'Closed';
+
+/** Opportunity.LeadSource active values */
+export type OpportunityLeadSource =
+    | 'Web'
+    | 'Phone Inquiry'
+    | 'Partner Referral'
+    | 'Purchased List'
+    | 'Other';
+
+/** Opportunity.StageName active values */
+export type OpportunityStageName =
+    | 'Prospecting'
+    | 'Qualification'
+    | 'Needs Analysis'
+    | 'Value Proposition'
+    | 'Id. Decision Makers'
+    | 'Perception Analysis'
+    | 'Proposal/Price Quote'
+    | 'Negotiation/Review'
+    | 'Closed Won'
+    | 'Closed Lost';
+
+/** Opportunity.Type active values */
+export type OpportunityType =
+    | 'New Customer'
+    | 'Existing Customer - Upgrade'
+    | 'Existing Customer - Replacement'
+    | 'Existing Customer - Downgrade';
+
+/** Opportunity */
+export interface Opportunity {
+    /** Opportunity ID */
+    readonly Id?: string;
+    /** Account ID */
+    AccountId?: string | null;
+    readonly Account?: SObjectReference | null;
+    /** Amount */
+    Amount?: number | null;
+    /** Campaign ID */
+    CampaignId?: string | null;
+    readonly Campaign?: SObjectReference | null;
+    /** Close Date */
+    CloseDate?: string;
+    /** Contract ID */
+    ContractId?: string | null;
+    readonly Contract?: SObjectReference | null;
+    /** Created By ID */
+    readonly CreatedById?: string;
+    readonly CreatedBy?: SObjectReference;
+    /** Created Date */
+    readonly CreatedDate?: string;
+    /** Description */
+    Description?: string | null;
+    /** Expected Amount */
+    readonly ExpectedRevenue?: number | null;
+    /** Forecast Category */
+    ForecastCategoryName?: OpportunityForecastCategoryName;
+    /** Score */
+    readonly IqScore?: number | null;
+    /** Deleted */
+    readonly IsDeleted?: boolean;
+    /** Private */
+    IsPrivate?: boolean;
+    /** Last Modified By ID */
+    readonly LastModifiedById?: string;
+    readonly LastModifiedBy?: SObjectReference;
+    /** Last Modified Date */
+    readonly LastModifiedDate?: string;
+    /** Lead Source */
+    LeadSource?: OpportunityLeadSource | null;
+    /** Name */
+    Name?: string;
+    /** Next Step */
+    NextStep?: string | null;
+    /** Owner ID */
+    OwnerId?: string;
+    readonly Owner?: SObjectReference;
+    /** Price Book ID */
+    Pricebook2Id?: string | null;
+    readonly Pricebook2?: SObjectReference | null;
+    /** Probability (%) */
+    Probability?: number | null;
+    /** Quantity */
+    Quantity__c?: number | null;
+    /** Stage */
+    StageName?: OpportunityStageName;
+    /** System Modstamp */
+    readonly SystemModstamp?: string;
+    /** Quantity */
+    TotalOpportunityQuantity?: number | null;
+    /** Opportunity Type */
+    Type?: OpportunityType | null;
+}
+
+export const OpportunityFields = {
+    Id: 'Id',
+    AccountId: 'AccountId',
+    Amount: 'Amount',
+    CampaignId: 'CampaignId',
+    CloseDate: 'CloseDate',
+    ContractId: 'ContractId',
+    CreatedById: 'CreatedById',
+    CreatedDate: 'CreatedDate',
+    Description: 'Description',
+    ExpectedRevenue: 'ExpectedRevenue',
+    ForecastCategoryName: 'ForecastCategoryName',
+    IqScore: 'IqScore',
+    IsDeleted: 'IsDeleted',
+    IsPrivate: 'IsPrivate',
+    LastModifiedById: 'LastModifiedById',
+    LastModifiedDate: 'LastModifiedDate',
+    LeadSource: 'LeadSource',
+    Name: 'Name',
+    NextStep: 'NextStep',
+    OwnerId: 'OwnerId',
+    Pricebook2Id: 'Pricebook2Id',
+    Probability: 'Probability',
+    Quantity__c: 'Quantity__c',
+    StageName: 'StageName',
+    SystemModstamp: 'SystemModstamp',
+    TotalOpportunityQuantity: 'TotalOpportunityQuantity',
+    Type: 'Type',
+} as const;
+
+export type OpportunityField = keyof typeof OpportunityFields;
+
+/** A lookup to an object without generated types */
+export interface SObjectReference {
+    readonly Id?: string;
+    readonly Name?: string;
+}
+
+export interface SObjectTypeMap {
+    Opportunity: Opportunity;
+}
+
+export interface SObjectFieldMap {
+    Opportunity: OpportunityField;
+}
+
+export type SObjectName = keyof SObjectTypeMap;
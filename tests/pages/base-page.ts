@@ -1,24 +1,32 @@
 import { Page } from '@playwright/test';
 import { SalesforceUtils } from '../utils/salesforce-utils';
 import { SalesforceApiUtils } from '../utils/salesforce-api';
+import { DescribeCache } from '../utils/describe-cache';
+import { locators } from '../utils/locators';
+import { config } from '../../config/environment';
 
 export abstract class BasePage {
     public sfUtils: SalesforceUtils;
     public sfApi: SalesforceApiUtils;
+    public describe: DescribeCache;
 
     constructor(protected page: Page) {
-        this.sfUtils = new SalesforceUtils(page);
         this.sfApi = new SalesforceApiUtils(page);
+        this.describe = new DescribeCache(this.sfApi);
+        this.sfUtils = new SalesforceUtils(page, this.describe);
     }
 
     abstract navigate(): Promise<void>;
 
+    /**
+     * Open Lightning home; logs in through frontdoor only if the cached session has gone stale
+     */
     async login(): Promise<void> {
-        await this.sfApi.loginViaFrontdoor();
+        await this.sfApi.ensureLoggedIn();
     }
 
-    async navigateToObjectList(objectName: string): Promise<void> {
-        await this.sfUtils.navigateToObject(objectName);
+    async navigateToObjectList(objectName: string, listViewName?: string): Promise<void> {
+        await this.sfUtils.navigateToObject(objectName, listViewName);
     }
 
     async navigateToRecord(objectName: string, recordId: string): Promise<void> {
@@ -27,14 +35,16 @@ export abstract class BasePage {
 
     async getPageTitle(): Promise<string> {
         await this.sfUtils.waitForSpinners();
-        const title = this.page.locator('h1.slds-page-header__title, .entityNameTitle, records-entity-label');
-        return await title.first().textContent() || '';
+        const title = await locators.find(this.page, 'page.title', {}, { timeout: config.timeouts.action });
+        return await title?.textContent() || '';
     }
 
     async globalSearch(searchTerm: string): Promise<void> {
-        const searchButton = this.page.locator('button.slds-global-actions__item[data-aura-class="forceSearchDesktopSearchButton"], button[aria-label="Search"]');
+        const searchButton = await locators.find(this.page, 'globalSearch.button', {}, { timeout: config.timeouts.action });
+        if (!searchButton) throw new Error('Global search button not found');
         await searchButton.click();
-        const searchInput = this.page.locator('input[type="search"], input.slds-input[placeholder*="Search"]');
+        const searchInput = await locators.find(this.page, 'globalSearch.input', {}, { timeout: config.timeouts.action });
+        if (!searchInput) throw new Error('Global search input not found');
         await searchInput.fill(searchTerm);
         await this.page.keyboard.press('Enter');
         await this.sfUtils.waitForPageLoad();
@@ -53,8 +63,12 @@ export abstract class BasePage {
     }
 
     async logout(): Promise<void> {
-        await this.page.locator('.branding-user-profile, span.uiImage[data-aura-class="uiImage"]').first().click();
-        await this.page.locator('a[href*="logout"]').click();
+        const userMenu = await locators.find(this.page, 'userMenu.button', {}, { timeout: config.timeouts.action });
+        if (!userMenu) throw new Error('User menu not found');
+        await userMenu.click();
+        const logoutLink = await locators.find(this.page, 'userMenu.logoutLink', {}, { timeout: config.timeouts.action });
+        if (!logoutLink) throw new Error('Log Out link not found in the user menu');
+        await logoutLink.click();
         await this.page.waitForURL('**/login*');
     }
 }
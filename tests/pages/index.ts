@@ -1,4 +1,10 @@
 export { BasePage } from './base-page';
+export { RecordPage } from './record-page';
+export type { RecordFieldValues } from './record-page';
 export { AccountPage } from './account-page';
 export { OpportunityPage } from './opportunity-page';
 export { UserPage } from './user-page';
+export { ListView, parseItemCount } from './list-view';
+export type { ListViewRow, ListViewInlineEditOptions, ReadRowsOptions, SortDirection } from './list-view';
+export { RelatedList, compareRelatedListRows, parseRelatedListCount } from './related-list';
+export type { RelatedListComparison } from './related-list';
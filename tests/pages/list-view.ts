@@ -0,0 +1,357 @@
+import { Locator, Page } from '@playwright/test';
+import { BasePage } from './base-page';
+import type { RecordFieldValues } from './record-page';
+import { locators } from '../utils/locators';
+import { parseRecordHref } from '../utils/toast-watcher';
+import { ListInfo, ListViewDefinition } from '../utils/list-view-api';
+import type { DescribeCache } from '../utils/describe-cache';
+import { config } from '../../config/environment';
+
+/** A list view row keyed by field API name, with the Id of the record it links */
+export type ListViewRow<T> = RecordFieldValues<T> & { Id?: string };
+
+export type SortDirection = 'ascending' | 'descending';
+
+export interface ReadRowsOptions {
+    /** Scroll until every row is loaded first (default: only the rows loaded so far) */
+    all?: boolean;
+}
+
+export interface ListViewInlineEditOptions {
+    /** Save once the cells are filled (default true); false leaves the grid with unsaved edits */
+    save?: boolean;
+}
+
+/** Rows lazy loading stops at, so an unfiltered list view cannot scroll forever */
+const MAX_LOADED_ROWS = 2000;
+
+/** A row as the page shows it: cell text by column label, and the record the row links */
+export interface GridRow {
+    cells: Record<string, string>;
+    recordId?: string;
+    href?: string;
+}
+
+/**
+ * Item count of a list view's status line: '50+ items • Sorted by Name • Filtered by All opportunities'
+ * is { count: 50, more: true }, more meaning scrolling loads further rows
+ */
+export function parseItemCount(status: string): { count: number; more: boolean } | null {
+    const match = status.replace(/,/g, '').match(/(\d+)(\+?)\s+items?\b/i);
+    return match ? { count: Number(match[1]), more: match[2] === '+' } : null;
+}
+
+/**
+ * Runs in the page: every row of a list view table as { column label: cell text }, with the record
+ * the row links. Header and cells are matched by position; the row number and checkbox columns have
+ * no label and are left out.
+ */
+export function readGrid(table: Element): GridRow[] {
+    const text = (element: Element) => {
+        const copy = element.cloneNode(true) as Element;
+        copy.querySelectorAll('.slds-assistive-text, button').forEach(hidden => hidden.remove());
+        return (copy.textContent ?? '').replace(/\s+/g, ' ').trim();
+    };
+    const columns = Array.from(table.querySelectorAll('thead tr:last-child th')).map(header =>
+        header.getAttribute('aria-label') || header.getAttribute('title')
+        || header.querySelector('.slds-truncate[title]')?.getAttribute('title') || text(header));
+
+    return Array.from(table.querySelectorAll('tbody tr')).map(row => {
+        const cells: Record<string, string> = {};
+        Array.from(row.children).forEach((cell, index) => {
+            if (columns[index]) cells[columns[index]] = text(cell);
+        });
+        const link = row.querySelector('a[data-recordid]') ?? row.querySelector('a[href*="/lightning/r/"]');
+        return { cells, recordId: link?.getAttribute('data-recordid') ?? undefined, href: link?.getAttribute('href') ?? undefined };
+    });
+}
+
+/**
+ * Rows keyed by field API name, for the columns the describe knows; each carries the Id of the
+ * record its name links. Columns of related objects are keyed by their lookup, e.g. AccountId.
+ */
+export async function toFieldRows<T>(describe: DescribeCache, objectName: string, rows: GridRow[]): Promise<ListViewRow<T>[]> {
+    const fields = new Map<string, string>();
+    for (const column of rows.length ? Object.keys(rows[0].cells) : []) {
+        const field = await describe.findField(objectName, column);
+        if (field) fields.set(column, field.apiName);
+    }
+
+    return rows.map(row => {
+        const values: Record<string, string> = {};
+        for (const [column, value] of Object.entries(row.cells)) {
+            const apiName = fields.get(column);
+            if (apiName) values[apiName] = value;
+        }
+        const recordId = row.recordId ?? (row.href ? parseRecordHref(row.href)?.recordId : undefined);
+        return { ...values, ...(recordId && { Id: recordId }) } as ListViewRow<T>;
+    });
+}
+
+/**
+ * List View Page Object for any sObject: opens a list view by developer name or switches to one by
+ * label, then searches, sorts, reads rows (scrolling through lazy-loaded ones), selects rows for
+ * mass actions and edits cells in place. List views a test needs can be created through the API:
+ *
+ *   const pipeline = new ListView<Opportunity>(page, 'Opportunity', 'Default_Opportunity_Pipeline');
+ *   await pipeline.navigate();
+ *   await pipeline.sortBy('Close Date', 'descending');
+ *   const rows = await pipeline.readRows({ all: true });   // [{ Id, Name, StageName, ... }]
+ *   await pipeline.runMassAction('Change Owner', [rows[0].Name!]);
+ */
+export class ListView<T extends object = Record<string, unknown>> extends BasePage {
+    constructor(page: Page, readonly objectName: string, private listViewName = 'Recent') {
+        super(page);
+    }
+
+    async navigate(): Promise<void> {
+        await this.open(this.listViewName);
+    }
+
+    /**
+     * Open a list view by developer name (or Id, or 'Recent') and wait for its table
+     */
+    async open(listViewName: string): Promise<void> {
+        this.listViewName = listViewName;
+        await this.page.goto(`/lightning/o/${this.objectName}/list?filterName=${encodeURIComponent(listViewName)}`);
+        await this.sfUtils.waitForPageLoad();
+        await this.grid();
+    }
+
+    /**
+     * Switch to another list view through the header's list view picker, by label
+     */
+    async switchTo(label: string): Promise<void> {
+        const picker = await locators.find(this.page, 'listView.picker', {}, { timeout: config.timeouts.action });
+        if (!picker) throw new Error(`List view picker not found on the ${this.objectName} list`);
+        await picker.click();
+        const option = await locators.find(this.page, 'listView.pickerOption', { label }, { timeout: config.timeouts.action });
+        if (!option) throw new Error(`No list view "${label}" in the ${this.objectName} list view picker`);
+        await option.click();
+        await this.sfUtils.waitForSpinners();
+        await this.grid();
+    }
+
+    /**
+     * Label of the list view that is open
+     */
+    async currentName(): Promise<string> {
+        const name = await locators.find(this.page, 'listView.currentName', {}, { timeout: config.timeouts.action });
+        return (await name?.textContent())?.trim() ?? '';
+    }
+
+    /**
+     * Filter the list view by its search box; an empty term clears the search
+     */
+    async search(term: string): Promise<void> {
+        const input = await locators.find(this.page, 'listView.search', {}, { timeout: config.timeouts.action });
+        if (!input) throw new Error(`Search box not found on the ${this.objectName} list view`);
+        await input.fill(term);
+        await input.press('Enter');
+        await this.sfUtils.waitForSpinners();
+    }
+
+    /**
+     * Rows the list view reports in its status line; more is true while scrolling can load further rows
+     */
+    async itemCount(): Promise<{ count: number; more: boolean } | null> {
+        const status = await locators.find(this.page, 'listView.itemCount', {}, { timeout: config.timeouts.action });
+        return status ? parseItemCount(await status.textContent() ?? '') : null;
+    }
+
+    /**
+     * Sort by a column through its header, clicking until the header reports the direction
+     */
+    async sortBy(column: string, direction: SortDirection = 'ascending'): Promise<void> {
+        const header = await locators.find(this.page, 'listView.columnHeader', { label: column }, { timeout: config.timeouts.action });
+        if (!header) throw new Error(`No column "${column}" in the ${this.objectName} list view`);
+
+        // Each click flips the direction, so two are enough from any starting state
+        for (let clicks = 0; clicks < 2 && await header.getAttribute('aria-sort') !== direction; clicks++) {
+            const toggle = await locators.find(header, 'listView.sortToggle', {});
+            if (!toggle) throw new Error(`Column "${column}" of the ${this.objectName} list view is not sortable`);
+            await toggle.click();
+            await this.sfUtils.waitForSpinners();
+        }
+        const sorted = await header.getAttribute('aria-sort');
+        if (sorted !== direction) throw new Error(`Column "${column}" is sorted ${sorted ?? 'no way'}, not ${direction}`);
+    }
+
+    /**
+     * Column labels in display order
+     */
+    async columns(): Promise<string[]> {
+        const rows = await (await this.grid()).evaluate(readGrid);
+        return rows.length ? Object.keys(rows[0].cells) : [];
+    }
+
+    /**
+     * Rows loaded so far; lazy loading adds more as the table is scrolled
+     */
+    async rowCount(): Promise<number> {
+        return (await this.grid()).locator('tbody tr').count();
+    }
+
+    /**
+     * Scroll to the last row until the list view has loaded every row (at most maxRows) and return the count
+     */
+    async loadAllRows(maxRows = MAX_LOADED_ROWS): Promise<number> {
+        const rows = (await this.grid()).locator('tbody tr');
+        let count = await rows.count();
+        while (count > 0 && count < maxRows) {
+            const status = await this.itemCount();
+            if (status && !status.more && count >= status.count) break;
+
+            await rows.nth(count - 1).scrollIntoViewIfNeeded();
+            await this.sfUtils.waitForSpinners();
+            const loaded = await rows.count();
+            if (loaded === count) break;
+            count = loaded;
+        }
+        return count;
+    }
+
+    /**
+     * Rows keyed by field API name, for the columns the describe knows; each carries the Id of the
+     * record its name links. Columns of related objects are keyed by their lookup, e.g. AccountId.
+     */
+    async readRows(options: ReadRowsOptions = {}): Promise<ListViewRow<T>[]> {
+        return toFieldRows<T>(this.describe, this.objectName, await this.readGrid(options));
+    }
+
+    /**
+     * Rows keyed by column label, as the table shows them
+     */
+    async readRowsByLabel(options: ReadRowsOptions = {}): Promise<Record<string, string>[]> {
+        return (await this.readGrid(options)).map(row => row.cells);
+    }
+
+    /**
+     * The row linking the named record, or null when it is not loaded
+     */
+    async findRow(name: string): Promise<Locator | null> {
+        return locators.find(await this.grid(), 'listView.row', { name });
+    }
+
+    /**
+     * Tick the selection checkbox of each named row; rows already selected stay selected
+     */
+    async selectRows(names: string[]): Promise<void> {
+        for (const name of names) {
+            const row = await this.getRow(name);
+            const checkbox = await locators.find(row, 'listView.rowCheckbox', {});
+            if (!checkbox) throw new Error(`Row "${name}" of the ${this.objectName} list view cannot be selected`);
+            if (await checkbox.isChecked()) continue;
+
+            const box = await locators.find(row, 'listView.rowCheckboxLabel', {});
+            await (box ?? checkbox).click();
+        }
+    }
+
+    /**
+     * Run a list view button or overflow menu action (Change Owner, Delete, Add to Campaign, ...) on
+     * the selected rows, selecting the named rows first; dialogs the action opens are left to the caller
+     */
+    async runMassAction(action: string, rows: string[] = []): Promise<void> {
+        await this.selectRows(rows);
+
+        let button = await locators.find(this.page, 'listView.action', { action });
+        if (!button) {
+            const menu = await locators.find(this.page, 'listView.actionMenu', {}, { timeout: config.timeouts.action });
+            if (!menu) throw new Error(`No "${action}" action on the ${this.objectName} list view`);
+            await menu.click();
+            button = await locators.find(this.page, 'listView.actionMenuItem', { action }, { timeout: config.timeouts.action });
+            if (!button) throw new Error(`No "${action}" action on the ${this.objectName} list view`);
+        }
+        await button.click();
+        await this.sfUtils.waitForSpinners();
+    }
+
+    /**
+     * Edit cells of one row in place, by column label, and save the grid. A column without a pencil
+     * is read-only for the user, or the list view spans more than one record type or owner scope
+     * that Lightning does not inline edit.
+     */
+    async inlineEditRow(name: string, values: Record<string, string>, options: ListViewInlineEditOptions = {}): Promise<void> {
+        const row = await this.getRow(name);
+        for (const [column, value] of Object.entries(values)) {
+            const pencil = await locators.find(row, 'listView.cellEditButton', { label: column });
+            if (!pencil) throw new Error(`No inline-edit pencil for "${column}" in row "${name}" of the ${this.objectName} list view`);
+            await pencil.click();
+            await this.fillCellEditor(column, value);
+        }
+        if (options.save ?? true) await this.saveInlineEdit();
+    }
+
+    async inlineEditCell(name: string, column: string, value: string, options: ListViewInlineEditOptions = {}): Promise<void> {
+        await this.inlineEditRow(name, { [column]: value }, options);
+    }
+
+    /**
+     * Save the grid's pending cell edits; throws with the grid's error when the save is rejected
+     */
+    async saveInlineEdit(): Promise<void> {
+        await this.sfUtils.saveInlineEdit();
+    }
+
+    async cancelInlineEdit(): Promise<void> {
+        await this.sfUtils.cancelInlineEdit();
+    }
+
+    /**
+     * Create a list view of this object through the UI API (tracked for cleanup), e.g. to test
+     * against a known set of columns and filters; open it with open(definition.developerName)
+     */
+    async createViaApi(definition: ListViewDefinition): Promise<ListInfo> {
+        return await this.sfApi.createListView(this.objectName, definition);
+    }
+
+    async deleteViaApi(developerName: string): Promise<void> {
+        await this.sfApi.deleteListView(this.objectName, developerName);
+    }
+
+    private async grid(): Promise<Locator> {
+        const grid = await locators.find(this.page, 'listView.grid', {}, { timeout: config.timeouts.navigation });
+        if (!grid) throw new Error(`No list view table on the ${this.objectName} list "${this.listViewName}"`);
+        return grid;
+    }
+
+    private async readGrid(options: ReadRowsOptions): Promise<GridRow[]> {
+        await this.sfUtils.waitForSpinners();
+        if (options.all) await this.loadAllRows();
+        return (await this.grid()).evaluate(readGrid);
+    }
+
+    private async getRow(name: string): Promise<Locator> {
+        const row = await this.findRow(name);
+        if (!row) throw new Error(`No row for "${name}" in the ${this.objectName} list view`);
+        return row;
+    }
+
+    /**
+     * Fill the open cell editor: a picklist takes the option, a text input the value; either way the
+     * edit is committed to the grid as a pending change
+     */
+    private async fillCellEditor(column: string, value: string): Promise<void> {
+        const editor = await locators.find(this.page, 'listView.cellEditor', {}, { timeout: config.timeouts.action });
+        if (!editor) throw new Error(`The cell editor for "${column}" did not open`);
+
+        const combobox = await locators.find(editor, 'listView.cellEditCombobox', {});
+        if (combobox) {
+            await combobox.click();
+            const option = await locators.find(this.page, 'combobox.option', { value }, { timeout: config.timeouts.action });
+            if (!option) throw new Error(`Option "${value}" not found for "${column}"`);
+            await option.click();
+            // Leaving the editor commits a picklist choice
+            await this.page.keyboard.press('Tab');
+        } else {
+            const input = await locators.find(editor, 'listView.cellEditInput', {});
+            if (!input) throw new Error(`The cell editor for "${column}" has no input`);
+            await input.fill(value);
+            await input.press('Enter');
+        }
+        await editor.waitFor({ state: 'hidden', timeout: config.timeouts.action });
+    }
+}
+
+export default ListView;
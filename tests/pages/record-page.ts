@@ -0,0 +1,298 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './base-page';
+import { ListView } from './list-view';
+import { RelatedList } from './related-list';
+import { soql } from '../utils/soql-builder';
+import { locators } from '../utils/locators';
+import { InlineEditOptions, InlineEditReport } from '../utils/salesforce-utils';
+import { config } from '../../config/environment';
+
+/** Field values read from a record page, keyed by API name */
+export type RecordFieldValues<T> = { [K in keyof T]?: string };
+
+/**
+ * Runs in the page: the displayed value of each label's field, looked up in the order of the
+ * field.outputValue strategies. Labels without a visible value (not on the page, hidden by
+ * field-level security) are left out.
+ */
+export function readLayoutValues(root: Element, labels: string[]): Record<string, string> {
+    const normalize = (text: string | null) => (text ?? '').replace(/\s+/g, ' ').trim();
+    const visible = (element: Element) => element.getClientRects().length > 0;
+    const within = (containers: Element[], selector: string) =>
+        containers.flatMap(container => Array.from(container.querySelectorAll(selector))).find(visible);
+    const outputFields = Array.from(root.querySelectorAll('force-record-output-field'));
+    const layoutItems = Array.from(root.querySelectorAll('records-record-layout-item'));
+    const formElements = Array.from(root.querySelectorAll('div.slds-form-element'));
+    const spans = (element: Element) => Array.from(element.querySelectorAll('span')).map(span => normalize(span.textContent));
+
+    const values: Record<string, string> = {};
+    for (const label of labels) {
+        const output = outputFields.filter(field => spans(field).includes(label));
+        const items = layoutItems.filter(item => item.getAttribute('field-label') === label);
+        const forms = formElements.filter(element => spans(element).some(text => text.toLowerCase().includes(label.toLowerCase())));
+        const value = within(output, 'lightning-formatted-text')
+            ?? within(output, 'lightning-formatted-number')
+            ?? within(output, 'a')
+            ?? within(output, 'lightning-formatted-url')
+            ?? within(items, 'lightning-formatted-text')
+            ?? within(items, 'lightning-formatted-number')
+            ?? within(forms, '.slds-form-element__static');
+        if (value) values[label] = value.textContent ?? '';
+    }
+    return values;
+}
+
+/**
+ * Record Page Object for any sObject
+ * URLs, field labels, widget types and the name field all come from the object's
+ * describe and page layout, so Contact, Lead, Case or a custom object need no code:
+ *
+ *   const contacts = new RecordPage<{ Id: string; LastName: string; Email: string }>(page, 'Contact');
+ *   const contactId = await contacts.createViaUi({ 'Last Name': 'Smith', Email: 'smith@example.com' });
+ *   const values = await contacts.readFields(); // { LastName: 'Smith', Email: 'smith@example.com', ... }
+ */
+export class RecordPage<T extends object = Record<string, unknown>> extends BasePage {
+    constructor(page: Page, readonly objectName: string) {
+        super(page);
+    }
+
+    protected get listViewUrl(): string {
+        return `/lightning/o/${this.objectName}/list?filterName=Recent`;
+    }
+
+    protected get newRecordUrl(): string {
+        return `/lightning/o/${this.objectName}/new`;
+    }
+
+    async navigate(): Promise<void> {
+        await this.page.goto(this.listViewUrl);
+        await this.sfUtils.waitForPageLoad();
+    }
+
+    /**
+     * A list view of the object by developer name (default: recently viewed); call navigate() to open it
+     */
+    listView(listViewName = 'Recent'): ListView<T> {
+        return new ListView<T>(this.page, this.objectName, listViewName);
+    }
+
+    /**
+     * A related list of the open record by card title or relationship name, e.g. 'Contacts';
+     * call open() to bring it into view
+     */
+    relatedList<C extends object = Record<string, unknown>>(name: string): RelatedList<C> {
+        return new RelatedList<C>(this.page, this.objectName, name);
+    }
+
+    /**
+     * Navigate straight to the new record form
+     */
+    async navigateToNew(): Promise<void> {
+        await this.page.goto(this.newRecordUrl);
+        await this.sfUtils.waitForPageLoad();
+    }
+
+    /**
+     * Open the New record modal from the list view
+     */
+    async openNewRecordModal(): Promise<void> {
+        await this.navigate();
+        await this.sfUtils.clickNewButton();
+        await locators.any(this.page, 'modal.container', {}).first().waitFor({ state: 'visible' });
+    }
+
+    /**
+     * Fill the open New/Edit form. Keys are layout labels or API names; widgets are inferred from the describe.
+     */
+    async fillForm(values: Record<string, string>, mode: 'Create' | 'Edit' = 'Create'): Promise<void> {
+        await this.sfUtils.waitForSpinners();
+        for (const [field, value] of Object.entries(values)) {
+            await this.sfUtils.fillField(await this.describe.getLayoutLabel(this.objectName, field, mode), value, undefined, this.objectName);
+        }
+    }
+
+    /**
+     * Create a record through the New modal
+     * Returns the created record ID
+     */
+    async createViaUi(values: Record<string, string>): Promise<string> {
+        await this.openNewRecordModal();
+        await this.fillForm(values);
+        await this.sfUtils.saveRecord();
+        // Matched on type only: the toast text depends on the org's language and customizations
+        const created = await this.sfUtils.toasts.waitFor({ type: 'success' });
+        await this.sfUtils.toasts.dismiss(created);
+
+        // The toast links the new record; the record page's URL is only a fallback for toasts without the link
+        const recordId = created.recordId ?? await this.waitForCreatedRecordUrl();
+        if (!recordId) throw new Error(`The ${this.objectName} created from the New modal was neither linked by its toast nor opened`);
+        this.sfApi.trackRecord(this.objectName, recordId);
+        return recordId;
+    }
+
+    /**
+     * Create a record via API
+     * Returns the record ID
+     */
+    async createViaApi(record: Partial<T>): Promise<string> {
+        return await this.sfApi.createRecord(this.objectName, record as Record<string, unknown>);
+    }
+
+    async getViaApi(recordId: string, fields?: (keyof T & string)[]): Promise<T> {
+        return await this.sfApi.getRecord<T>(this.objectName, recordId, fields);
+    }
+
+    /**
+     * Get the record ID by its name field (Name, CaseNumber, ...)
+     */
+    async findIdByName(name: string): Promise<string | null> {
+        const nameField = await this.describe.getNameField(this.objectName);
+        const records = await this.sfApi.query(
+            soql<{ Id: string }>(this.objectName).select('Id').where(nameField, '=', name).limit(1)
+        );
+        return records.length > 0 ? records[0].Id : null;
+    }
+
+    async navigateById(recordId: string): Promise<void> {
+        await this.sfUtils.navigateToRecord(this.objectName, recordId);
+    }
+
+    async navigateByName(name: string): Promise<void> {
+        const recordId = await this.findIdByName(name);
+        if (!recordId) {
+            throw new Error(`${this.objectName} with name "${name}" not found`);
+        }
+        await this.navigateById(recordId);
+    }
+
+    /**
+     * Read every layout field shown on the open record page, keyed by API name.
+     * Fields that are empty or hidden by field-level security are left out.
+     */
+    async readFields(): Promise<RecordFieldValues<T>> {
+        const values: Record<string, string> = {};
+        const layoutFields = await this.describe.getLayoutFields(this.objectName);
+        const byLabel = await this.readFieldsByLabel();
+        for (const field of layoutFields) {
+            if (field.label in byLabel) values[field.apiName] = byLabel[field.label];
+        }
+        return values as RecordFieldValues<T>;
+    }
+
+    /**
+     * Read every layout field shown on the open record page in one pass, keyed by its label on the page
+     */
+    async readFieldsByLabel(): Promise<Record<string, string>> {
+        const labels = (await this.describe.getLayoutFields(this.objectName)).map(field => field.label);
+        await this.sfUtils.waitForSpinners();
+        return await this.page.locator('body').evaluate(readLayoutValues, labels);
+    }
+
+    /**
+     * Click Edit button on the record
+     */
+    async clickEdit(): Promise<void> {
+        const editButton = await locators.find(this.page, 'record.editButton', {}, { timeout: config.timeouts.action });
+        if (!editButton) throw new Error(`Edit button not found on the ${this.objectName} record page`);
+
+        await editButton.click();
+        await this.sfUtils.waitForSpinners();
+    }
+
+    /**
+     * Edit the open record through the Edit modal and save
+     */
+    async edit(values: Record<string, string>): Promise<void> {
+        await this.clickEdit();
+        await this.fillForm(values, 'Edit');
+        await this.sfUtils.saveRecord();
+        await this.sfUtils.waitForToast('success');
+    }
+
+    /**
+     * Edit fields in place on the open record page and save. Keys are layout labels or API names;
+     * widgets come from the describe. Throws for fields without a pencil unless requireAll is false.
+     */
+    async inlineEditMany(values: Record<string, string>, options: Omit<InlineEditOptions, 'objectName'> = {}): Promise<InlineEditReport> {
+        const byLabel: Record<string, string> = {};
+        for (const [field, value] of Object.entries(values)) {
+            byLabel[await this.describe.getLayoutLabel(this.objectName, field)] = value;
+        }
+        return await this.sfUtils.inlineEditMany(byLabel, { ...options, objectName: this.objectName });
+    }
+
+    async inlineEdit(field: string, value: string, options: Omit<InlineEditOptions, 'objectName'> = {}): Promise<InlineEditReport> {
+        return await this.inlineEditMany({ [field]: value }, options);
+    }
+
+    async saveInlineEdit(): Promise<void> {
+        await this.sfUtils.saveInlineEdit();
+    }
+
+    async cancelInlineEdit(): Promise<void> {
+        await this.sfUtils.cancelInlineEdit();
+    }
+
+    /**
+     * Which layout fields (default: all of them) show an inline-edit pencil on the open record page,
+     * by label; the noPencil list is what field-level security and the layout leave read-only
+     */
+    async findInlineEditable(fields?: string[]): Promise<InlineEditReport> {
+        const labels = fields
+            ? await Promise.all(fields.map(field => this.describe.getLayoutLabel(this.objectName, field)))
+            : (await this.describe.getLayoutFields(this.objectName)).map(field => field.label);
+        return await this.sfUtils.findInlineEditable(labels);
+    }
+
+    /**
+     * Delete the open record through the Delete action and confirmation dialog
+     */
+    async deleteViaUi(): Promise<void> {
+        const recordId = await this.sfUtils.getCurrentRecordId();
+        const deleteButton = await locators.find(this.page, 'record.deleteButton', {});
+        if (deleteButton) {
+            await deleteButton.click();
+        } else {
+            await this.sfUtils.clickRecordAction('Delete');
+        }
+
+        const confirm = await locators.find(this.page, 'modal.deleteConfirm', {}, { timeout: config.timeouts.action });
+        if (!confirm) throw new Error('Delete confirmation dialog not found');
+        await this.sfUtils.toasts.watch();
+        await confirm.click();
+        await this.sfUtils.waitForToast('success');
+        this.sfApi.untrackRecord(recordId);
+    }
+
+    /**
+     * Delete record by ID (cleanup)
+     */
+    async deleteViaApi(recordId: string): Promise<void> {
+        await this.sfApi.deleteRecord(this.objectName, recordId);
+    }
+
+    /**
+     * Check if the Edit button is visible/accessible
+     */
+    async canEdit(): Promise<boolean> {
+        return await this.sfUtils.canEditRecord();
+    }
+
+    /**
+     * Check if a specific field is editable
+     */
+    async isFieldEditable(fieldLabel: string): Promise<boolean> {
+        return await this.sfUtils.isFieldEditable(fieldLabel);
+    }
+
+    /**
+     * The Id in the URL once the page has moved on to the new record, or '' when it never does
+     */
+    private async waitForCreatedRecordUrl(): Promise<string> {
+        const recordUrl = new RegExp(`/lightning/r/${this.objectName}/([a-zA-Z0-9]{15,18})/`);
+        await this.page.waitForURL(recordUrl, { timeout: config.timeouts.navigation }).catch(() => { });
+        return this.page.url().match(recordUrl)?.[1] ?? '';
+    }
+}
+
+export default RecordPage;
@@ -0,0 +1,309 @@
+import { Locator, Page } from '@playwright/test';
+import { BasePage } from './base-page';
+import { GridRow, ListView, ListViewRow, readGrid, toFieldRows } from './list-view';
+import { RelatedListMetadata } from '../utils/describe-cache';
+import { soql } from '../utils/soql-builder';
+import { locators } from '../utils/locators';
+import { parseRecordHref } from '../utils/toast-watcher';
+import { config } from '../../config/environment';
+
+/** How the rows a related list shows line up with the parent's child records in SOQL */
+export interface RelatedListComparison {
+    /** Rows the card shows */
+    shown: number;
+    /** Child records the query returned */
+    queried: number;
+    /** The count has no +, so the card should show every child record and missing is meaningful */
+    complete: boolean;
+    /** The header count agrees with the query; a count like 6+ is a lower bound */
+    countMatches: boolean;
+    /** Ids shown that are not children of the parent */
+    unexpected: string[];
+    /** Child Ids the card leaves out although its count says it shows every record */
+    missing: string[];
+}
+
+/**
+ * Record count in a related list title: 'Opportunities (6+)' is { count: 6, more: true }, more
+ * meaning the card shows only the first rows and View All has the rest
+ */
+export function parseRelatedListCount(title: string): { count: number; more: boolean } | null {
+    const match = title.replace(/,/g, '').match(/\((\d+)(\+?)\)\s*$/);
+    return match ? { count: Number(match[1]), more: match[2] === '+' } : null;
+}
+
+/**
+ * Cross-check the Ids a related list shows against its parent's child records from SOQL.
+ * Ids compare on their first 15 characters, so 15- and 18-character Ids match.
+ */
+export function compareRelatedListRows(
+    shownIds: string[],
+    queriedIds: string[],
+    count: { count: number; more: boolean } | null
+): RelatedListComparison {
+    const key = (id: string) => id.slice(0, 15);
+    const shown = new Set(shownIds.map(key));
+    const queried = new Set(queriedIds.map(key));
+    const complete = count !== null && !count.more;
+
+    return {
+        shown: shownIds.length,
+        queried: queriedIds.length,
+        complete,
+        countMatches: count
+            ? count.more ? queriedIds.length >= count.count : queriedIds.length === count.count
+            : shownIds.length === queriedIds.length,
+        unexpected: shownIds.filter(id => !queried.has(key(id))),
+        missing: complete ? queriedIds.filter(id => !shown.has(key(id))) : [],
+    };
+}
+
+/**
+ * Runs in the page: every tile of a related list shown as tiles, as { label: value } from its
+ * dt/dd pairs. The tile title shows the record name without a label; it is keyed Name.
+ */
+function readTiles(card: Element): GridRow[] {
+    const text = (element: Element) => {
+        const copy = element.cloneNode(true) as Element;
+        copy.querySelectorAll('.slds-assistive-text, button').forEach(hidden => hidden.remove());
+        return (copy.textContent ?? '').replace(/\s+/g, ' ').trim();
+    };
+
+    return Array.from(card.querySelectorAll('.slds-tile')).map(tile => {
+        const link = tile.querySelector('.slds-tile__title a') ?? tile.querySelector('a[href*="/lightning/r/"]');
+        const cells: Record<string, string> = link ? { Name: text(link) } : {};
+        tile.querySelectorAll('dt').forEach(label => {
+            const value = label.nextElementSibling;
+            if (value?.tagName === 'DD') cells[text(label).replace(/:$/, '')] = text(value);
+        });
+        return { cells, recordId: link?.getAttribute('data-recordid') ?? undefined, href: link?.getAttribute('href') ?? undefined };
+    });
+}
+
+/**
+ * Related list on the open record page, found by its card title or relationship name. Reads the
+ * rows the card shows (table or tiles), runs row actions and the card's New action, and checks the
+ * rows against the parent's child records. Child object and lookup field come from the describe:
+ *
+ *   const opportunities = new RelatedList<Opportunity>(page, 'Account', 'Opportunities');
+ *   await opportunities.open();
+ *   const rows = await opportunities.readRows();   // [{ Id, Name, StageName, ... }]
+ *   await opportunities.editRow(rows[0].Name!, { Stage: 'Qualification' });
+ *   const opportunityId = await opportunities.createViaNew({ Name: 'Renewal', Stage: 'Prospecting', CloseDate: '12/31/2026' });
+ *   expect((await opportunities.compareWithSoql()).unexpected).toEqual([]);
+ */
+export class RelatedList<C extends object = Record<string, unknown>> extends BasePage {
+    constructor(page: Page, readonly parentObject: string, readonly name: string) {
+        super(page);
+    }
+
+    /**
+     * Bring the related list into view on the record page that is open
+     */
+    async navigate(): Promise<void> {
+        await this.open();
+    }
+
+    /**
+     * Switch to the Related tab if the page has one and scroll the card into view
+     */
+    async open(): Promise<void> {
+        await this.sfUtils.waitForSpinners();
+        const relatedTab = await locators.find(this.page, 'record.relatedTab', {});
+        if (relatedTab) {
+            await relatedTab.click();
+            await this.sfUtils.waitForSpinners();
+        }
+        await (await this.card()).scrollIntoViewIfNeeded();
+        await this.sfUtils.waitForSpinners();
+    }
+
+    /**
+     * Child object, lookup field and card label of the list, from the describe and the parent's layout
+     */
+    async metadata(): Promise<RelatedListMetadata> {
+        return await this.describe.getRelatedList(this.parentObject, this.name);
+    }
+
+    /**
+     * Record count in the card title; more is true when the card shows only the first rows
+     */
+    async count(): Promise<{ count: number; more: boolean } | null> {
+        const title = await locators.find(await this.card(), 'relatedList.title', {}, { timeout: config.timeouts.action });
+        return title ? parseRelatedListCount(await title.textContent() ?? '') : null;
+    }
+
+    /**
+     * Rows the card shows
+     */
+    async rowCount(): Promise<number> {
+        return (await this.readCard()).length;
+    }
+
+    /**
+     * Rows keyed by field API name of the child object, each with the Id of the record it links
+     */
+    async readRows(): Promise<ListViewRow<C>[]> {
+        const { childObject } = await this.metadata();
+        return toFieldRows<C>(this.describe, childObject, await this.readCard());
+    }
+
+    /**
+     * Rows keyed by column label, as the card shows them; tiles carry the record name under Name
+     */
+    async readRowsByLabel(): Promise<Record<string, string>[]> {
+        return (await this.readCard()).map(row => row.cells);
+    }
+
+    /**
+     * The row or tile linking the named record, or null when the card does not show it
+     */
+    async findRow(name: string): Promise<Locator | null> {
+        return locators.find(await this.card(), 'relatedList.row', { name });
+    }
+
+    /**
+     * Open the named record from the list
+     */
+    async clickRecord(name: string): Promise<void> {
+        const link = await locators.find(await this.getRow(name), 'relatedList.recordLink', { name });
+        if (!link) throw new Error(`Row "${name}" of the ${this.name} related list links no record`);
+        await link.click();
+        await this.sfUtils.waitForPageLoad();
+    }
+
+    /**
+     * Open View All and return the child list view it shows, for sorting and reading every row;
+     * the list view is already open, so do not navigate() it
+     */
+    async viewAll(): Promise<ListView<C>> {
+        const { childObject, relationshipName } = await this.metadata();
+        const link = await locators.find(await this.card(), 'relatedList.viewAll', {});
+        if (!link) throw new Error(`The ${this.name} related list has no View All link`);
+        await link.click();
+        await this.sfUtils.waitForPageLoad();
+        return new ListView<C>(this.page, childObject, relationshipName);
+    }
+
+    /**
+     * Run an action from a row's menu (Edit, Delete, Change Owner, ...); dialogs it opens are left to the caller
+     */
+    async rowAction(name: string, action: string): Promise<void> {
+        const menu = await locators.find(await this.getRow(name), 'relatedList.rowActionMenu', {});
+        if (!menu) throw new Error(`Row "${name}" of the ${this.name} related list has no action menu`);
+        await menu.click();
+        const item = await locators.find(this.page, 'relatedList.rowAction', { action }, { timeout: config.timeouts.action });
+        if (!item) throw new Error(`No "${action}" action for row "${name}" of the ${this.name} related list`);
+        await item.click();
+        await this.sfUtils.waitForSpinners();
+    }
+
+    /**
+     * Edit a row's record through its Edit action and save. Keys are layout labels or API names of the child.
+     */
+    async editRow(name: string, values: Record<string, string>): Promise<void> {
+        const { childObject } = await this.metadata();
+        await this.rowAction(name, 'Edit');
+        await this.fillModal(childObject, values, 'Edit');
+        await this.sfUtils.saveRecord();
+        await this.sfUtils.waitForToast('success');
+    }
+
+    /**
+     * Delete a row's record through its Delete action and the confirmation dialog
+     */
+    async deleteRow(name: string): Promise<void> {
+        const recordId = await this.rowRecordId(name);
+        await this.rowAction(name, 'Delete');
+
+        const confirm = await locators.find(this.page, 'modal.deleteConfirm', {}, { timeout: config.timeouts.action });
+        if (!confirm) throw new Error('Delete confirmation dialog not found');
+        await this.sfUtils.toasts.watch();
+        await confirm.click();
+        await this.sfUtils.waitForToast('success');
+        if (recordId) this.sfApi.untrackRecord(recordId);
+    }
+
+    /**
+     * Create a child record through the card's New action and return its Id (tracked for cleanup).
+     * The form opens with the parent lookup filled in; throws when the saved record is not a child
+     * of the parent.
+     */
+    async createViaNew(values: Record<string, string>): Promise<string> {
+        const { childObject, field } = await this.metadata();
+        const parentId = await this.parentId();
+        const newButton = await locators.find(await this.card(), 'listView.newButtonExact', {});
+        if (!newButton) throw new Error(`The ${this.name} related list has no New action`);
+        await newButton.click();
+        await this.fillModal(childObject, values, 'Create');
+        await this.sfUtils.saveRecord();
+
+        const created = await this.sfUtils.toasts.waitFor({ type: 'success' });
+        await this.sfUtils.toasts.dismiss(created);
+        // The page stays on the parent, so the toast link is the only place the new Id shows
+        if (!created.recordId) throw new Error(`The ${childObject} created from the ${this.name} related list was not linked by its toast`);
+        this.sfApi.trackRecord(childObject, created.recordId);
+
+        const record = await this.sfApi.getRecord<Record<string, unknown>>(childObject, created.recordId, [field]);
+        const lookup = record[field];
+        if (typeof lookup !== 'string' || lookup.slice(0, 15) !== parentId.slice(0, 15)) {
+            throw new Error(`${childObject} ${created.recordId} was created from the ${this.name} related list `
+                + `with ${field} ${lookup ?? 'empty'}, not the ${this.parentObject} ${parentId}`);
+        }
+        return created.recordId;
+    }
+
+    /**
+     * Compare the rows the card shows, and its count, with the parent's child records in SOQL
+     */
+    async compareWithSoql(): Promise<RelatedListComparison> {
+        const { childObject, field } = await this.metadata();
+        const parentId = await this.parentId();
+        const rows = await this.readRows();
+        const count = await this.count();
+        const children = await this.sfApi.query(soql<{ Id: string }>(childObject).select('Id').where(field, '=', parentId));
+        return compareRelatedListRows(rows.flatMap(row => row.Id ? [row.Id] : []), children.map(child => child.Id), count);
+    }
+
+    private async card(): Promise<Locator> {
+        const card = await locators.find(this.page, 'relatedList.card', { list: this.name }, { timeout: config.timeouts.navigation });
+        if (!card) throw new Error(`No "${this.name}" related list on the ${this.parentObject} record page`);
+        return card;
+    }
+
+    private async readCard(): Promise<GridRow[]> {
+        await this.sfUtils.waitForSpinners();
+        const card = await this.card();
+        const table = await locators.find(card, 'listView.grid', {});
+        return table ? table.evaluate(readGrid) : card.evaluate(readTiles);
+    }
+
+    private async getRow(name: string): Promise<Locator> {
+        const row = await this.findRow(name);
+        if (!row) throw new Error(`No row for "${name}" in the ${this.name} related list`);
+        return row;
+    }
+
+    private async rowRecordId(name: string): Promise<string | undefined> {
+        const link = await locators.find(await this.getRow(name), 'relatedList.recordLink', { name });
+        const recordId = await link?.getAttribute('data-recordid');
+        const href = await link?.getAttribute('href');
+        return recordId ?? (href ? parseRecordHref(href)?.recordId : undefined);
+    }
+
+    private async parentId(): Promise<string> {
+        const parentId = await this.sfUtils.getCurrentRecordId();
+        if (!parentId) throw new Error(`The ${this.name} related list needs an open ${this.parentObject} record page`);
+        return parentId;
+    }
+
+    private async fillModal(childObject: string, values: Record<string, string>, mode: 'Create' | 'Edit'): Promise<void> {
+        await locators.any(this.page, 'modal.container', {}).first().waitFor({ state: 'visible' });
+        await this.sfUtils.waitForSpinners();
+        for (const [field, value] of Object.entries(values)) {
+            await this.sfUtils.fillField(await this.describe.getLayoutLabel(childObject, field, mode), value, undefined, childObject);
+        }
+    }
+}
+
+export default RelatedList;
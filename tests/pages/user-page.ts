@@ -1,21 +1,32 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './base-page';
+import { RecordPage } from './record-page';
+import { soql } from '../utils/soql-builder';
+
+export interface UserRecord {
+    Id: string;
+    Username: string;
+    FirstName?: string;
+    LastName: string;
+    Email: string;
+    ProfileId: string;
+    IsActive: boolean;
+}
 
 /**
  * User Management Page Object
  * Handles user creation and permission management
  */
-export class UserPage extends BasePage {
-    private readonly usersListUrl = '/lightning/setup/ManageUsers/home';
-    private readonly newUserUrl = '/lightning/setup/ManageUsers/page?address=%2F005%2Fe';
-
+export class UserPage extends RecordPage<UserRecord> {
     constructor(page: Page) {
-        super(page);
+        super(page, 'User');
     }
 
-    async navigate(): Promise<void> {
-        await this.page.goto(this.usersListUrl);
-        await this.sfUtils.waitForPageLoad();
+    protected get listViewUrl(): string {
+        return '/lightning/setup/ManageUsers/home';
+    }
+
+    protected get newRecordUrl(): string {
+        return '/lightning/setup/ManageUsers/page?address=%2F005%2Fe';
     }
 
     /**
@@ -65,8 +76,7 @@ export class UserPage extends BasePage {
      * Set password for a user via API
      */
     async setUserPassword(userId: string, password: string): Promise<void> {
-        const endpoint = `/sobjects/User/${userId}/password`;
-        await this.sfApi.restCall('POST', endpoint, { NewPassword: password });
+        await this.sfApi.setUserPassword(userId, password);
     }
 
     /**
@@ -75,8 +85,8 @@ export class UserPage extends BasePage {
      */
     async loginAsUser(username: string): Promise<void> {
         // Get user ID
-        const users = await this.sfApi.query<{ Id: string }>(
-            `SELECT Id FROM User WHERE Username = '${username}' LIMIT 1`
+        const users = await this.sfApi.query(
+            soql<{ Id: string }>('User').select('Id').where('Username', '=', username).limit(1)
         );
 
         if (users.length === 0) {
@@ -94,8 +104,8 @@ export class UserPage extends BasePage {
      * Get the current org ID
      */
     private async getOrgId(): Promise<string> {
-        const orgInfo = await this.sfApi.query<{ Id: string }>(
-            'SELECT Id FROM Organization LIMIT 1'
+        const orgInfo = await this.sfApi.query(
+            soql<{ Id: string }>('Organization').select('Id').limit(1)
         );
         return orgInfo[0]?.Id || '';
     }
@@ -111,10 +121,11 @@ export class UserPage extends BasePage {
      * Check if a user has a specific permission set
      */
     async userHasPermissionSet(userId: string, permissionSetName: string): Promise<boolean> {
-        const assignments = await this.sfApi.query<{ Id: string }>(
-            `SELECT Id FROM PermissionSetAssignment 
-       WHERE AssigneeId = '${userId}' 
-       AND PermissionSet.Name = '${permissionSetName}'`
+        const assignments = await this.sfApi.query(
+            soql<{ Id: string }>('PermissionSetAssignment')
+                .select('Id')
+                .where('AssigneeId', '=', userId)
+                .where('PermissionSet.Name', '=', permissionSetName)
         );
         return assignments.length > 0;
     }
@@ -122,8 +133,8 @@ export class UserPage extends BasePage {
     /**
      * Get user details via API
      */
-    async getUserDetails(userId: string): Promise<Record<string, unknown>> {
-        return await this.sfApi.getRecord('User', userId, [
+    async getUserDetails(userId: string): Promise<UserRecord> {
+        return await this.getViaApi(userId, [
             'Id', 'Username', 'FirstName', 'LastName', 'Email', 'ProfileId', 'IsActive'
         ]);
     }
@@ -139,10 +150,7 @@ export class UserPage extends BasePage {
      * Get user by username
      */
     async getUserIdByUsername(username: string): Promise<string | null> {
-        const users = await this.sfApi.query<{ Id: string }>(
-            `SELECT Id FROM User WHERE Username = '${username}' LIMIT 1`
-        );
-        return users.length > 0 ? users[0].Id : null;
+        return await this.sfApi.getUserIdByUsername(username);
     }
 
     /**
@@ -0,0 +1,42 @@
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { formatLocatorReport, LOCATOR_ANNOTATION } from '../utils/locator-registry';
+import { locators } from '../utils/locators';
+
+export interface LocatorReporterOptions {
+    /** JSON copy of the report, for tracking selector health across runs */
+    outputFile?: string;
+}
+
+/**
+ * Collects the 'locator' annotations LocatorRegistry.find() leaves on each test and, after the
+ * run, prints the dead selectors and deep fallbacks and writes the full report as JSON.
+ * Runs that resolve no registered locator (e.g. the framework project) print nothing.
+ */
+export default class LocatorReporter implements Reporter {
+    private readonly annotations: TestResult['annotations'][] = [];
+    private readonly outputFile: string;
+
+    constructor(options: LocatorReporterOptions = {}) {
+        this.outputFile = options.outputFile ?? 'test-results/locator-report.json';
+    }
+
+    onTestEnd(_test: TestCase, result: TestResult): void {
+        const resolved = result.annotations.filter(annotation => annotation.type === LOCATOR_ANNOTATION);
+        if (resolved.length) this.annotations.push(resolved);
+    }
+
+    onEnd(): void {
+        const report = locators.report(this.annotations);
+        if (!report.keys.some(key => key.tests)) return;
+
+        mkdirSync(dirname(this.outputFile), { recursive: true });
+        writeFileSync(this.outputFile, JSON.stringify(report, null, 2));
+        console.log(`\n${formatLocatorReport(report)}\n\nLocator report written to ${this.outputFile}`);
+    }
+
+    printsToStdio(): boolean {
+        return false;
+    }
+}
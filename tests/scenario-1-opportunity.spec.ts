@@ -9,8 +9,12 @@ import { AccountPage } from './pages/account-page';
  * 2. Creating a new Opportunity with custom Quantity field
  * 3. Validating Opportunity details on the detail page
  * 4. Validating Opportunity appears in Account's related list
+ * 5. Finding the Opportunity in the Opportunity Pipeline list view from force-app
  */
 
+// Later steps open the Account and Opportunity earlier steps created, so keep them until the worker finishes
+test.use({ retainDataForWorker: true });
+
 test.describe('Scenario 1: Opportunity Creation and Validation', () => {
     // Shared test data - using fixed names for predictability
     const accountName = 'A1';
@@ -56,13 +60,13 @@ test.describe('Scenario 1: Opportunity Creation and Validation', () => {
         // Save the Opportunity
         await opportunityPage.sfUtils.saveRecord();
 
-        // Wait for success toast
-        const toastMessage = await opportunityPage.sfUtils.waitForToast('success');
-        expect(toastMessage).toContain('was created');
-
-        // Get the created Opportunity ID
-        const opportunityId = await opportunityPage.sfUtils.getCurrentRecordId();
+        // Wait for the success toast; its record link carries the new Opportunity's ID
+        const toast = await opportunityPage.sfUtils.toasts.waitFor({ type: 'success' });
+        await opportunityPage.sfUtils.toasts.expectNoErrorToast();
+        expect(toast.links.map(link => link.text)).toContain(opportunityName);
+        const opportunityId = toast.recordId!;
         expect(opportunityId).toBeTruthy();
+        opportunityPage.sfApi.trackRecord('Opportunity', opportunityId);
 
         console.log(`Created Opportunity: ${opportunityName} (ID: ${opportunityId})`);
     });
@@ -95,10 +99,35 @@ test.describe('Scenario 1: Opportunity Creation and Validation', () => {
         // Navigate to Account A1
         await accountPage.navigateToAccountByName(accountName);
 
-        // Verify Opportunity appears in related list
-        const isVisible = await accountPage.verifyOpportunityInRelatedList(opportunityName);
-        expect(isVisible).toBe(true);
+        // Verify Opportunity appears in related list, and that the list shows only the Account's Opportunities
+        const opportunities = accountPage.opportunities();
+        await opportunities.open();
+        const rows = await opportunities.readRows();
+        expect(rows.map(row => row.Name), `Opportunities related list of ${accountName}`).toContain(opportunityName);
+
+        const comparison = await opportunities.compareWithSoql();
+        expect(comparison.unexpected).toEqual([]);
+        expect(comparison.missing).toEqual([]);
+        expect(comparison.countMatches).toBe(true);
 
         console.log(`Verified Opportunity "${opportunityName}" appears in Account "${accountName}" related list`);
     });
+
+    test('1.5 - Validate Opportunity appears in the Opportunity Pipeline list view', async ({
+        opportunityPage
+    }) => {
+        await opportunityPage.login();
+
+        // Default_Opportunity_Pipeline: my Opportunities closing from three months ago on
+        const pipeline = opportunityPage.listView('Default_Opportunity_Pipeline');
+        await pipeline.navigate();
+        await pipeline.search(opportunityName);
+
+        const rows = await pipeline.readRows();
+        const row = rows.find(candidate => candidate.Name === opportunityName);
+        expect(row, `${opportunityName} in ${rows.length} pipeline row(s)`).toBeDefined();
+        expect(row!.Id).toBe(await opportunityPage.getOpportunityIdByName(opportunityName));
+
+        console.log(`Verified Opportunity "${opportunityName}" appears in the Opportunity Pipeline list view`);
+    });
 });
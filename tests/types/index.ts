@@ -0,0 +1,30 @@
+export * from './sobjects.generated';
+import type { SObjectName, SObjectTypeMap } from './sobjects.generated';
+
+/**
+ * An object name without generated types. Names in SObjectTypeMap resolve to never here, so calls
+ * with them have to match the typed overloads and a misspelt field fails at compile time.
+ */
+export type UntypedSObjectName<N extends string> = N extends SObjectName ? never : N;
+
+/**
+ * A generated object's name typed as a plain string, so the call takes the untyped overload, e.g. to
+ * send a field the generated types reject: sfApi.createRecord(untyped('Opportunity'), { Colour__c: 'Blue' })
+ */
+export function untyped(objectName: SObjectName): string {
+    return objectName;
+}
+
+/** Field values accepted by create/update for a generated sObject */
+export type SObjectInput<N extends SObjectName> = Partial<SObjectTypeMap[N]>;
+
+type Shallower = [never, 0, 1, 2];
+
+/**
+ * Field and relationship paths of a generated sObject for SOQL: 'Name', 'AccountId', 'Account.Name', ...
+ */
+export type SoqlFieldPath<T, Depth extends number = 2> = {
+    [K in keyof T & string]-?: unknown extends T[K] ? K
+        : NonNullable<T[K]> extends string | number | boolean ? K
+        : Depth extends 0 ? never : `${K}.${SoqlFieldPath<NonNullable<T[K]>, Shallower[Depth]>}`;
+}[keyof T & string];
@@ -0,0 +1,89 @@
+/**
+ * Generated by scripts/generate-sobject-types.ts from force-app/main/default/objects alone; standard fields without a <type> are unknown.
+ * Do not edit by hand; run `npm run generate:types -- --metadata-only` after changing fields.
+ */
+
+/** Opportunity */
+export interface Opportunity {
+    /** Opportunity ID (force-app only) */
+    readonly Id?: string | null;
+    /** AccountId (force-app only) */
+    AccountId?: string | null;
+    /** Amount (force-app only) */
+    Amount?: unknown | null;
+    /** CampaignId (force-app only) */
+    CampaignId?: string | null;
+    /** CloseDate (force-app only) */
+    CloseDate?: unknown | null;
+    /** ContractId (force-app only) */
+    ContractId?: string | null;
+    /** Description (force-app only) */
+    Description?: unknown | null;
+    /** ExpectedRevenue (force-app only) */
+    ExpectedRevenue?: unknown | null;
+    /** IqScore (force-app only) */
+    IqScore?: unknown | null;
+    /** IsPrivate (force-app only) */
+    IsPrivate?: unknown | null;
+    /** LeadSource (force-app only) */
+    LeadSource?: string | null;
+    /** Name (force-app only) */
+    Name?: unknown | null;
+    /** NextStep (force-app only) */
+    NextStep?: unknown | null;
+    /** OwnerId (force-app only) */
+    OwnerId?: string | null;
+    /** Pricebook2Id (force-app only) */
+    Pricebook2Id?: string | null;
+    /** Probability (force-app only) */
+    Probability?: unknown | null;
+    /** Quantity (force-app only) */
+    Quantity__c?: number | null;
+    /** StageName (force-app only) */
+    StageName?: string | null;
+    /** TotalOpportunityQuantity (force-app only) */
+    TotalOpportunityQuantity?: unknown | null;
+    /** Type (force-app only) */
+    Type?: string | null;
+}
+
+export const OpportunityFields = {
+    Id: 'Id',
+    AccountId: 'AccountId',
+    Amount: 'Amount',
+    CampaignId: 'CampaignId',
+    CloseDate: 'CloseDate',
+    ContractId: 'ContractId',
+    Description: 'Description',
+    ExpectedRevenue: 'ExpectedRevenue',
+    IqScore: 'IqScore',
+    IsPrivate: 'IsPrivate',
+    LeadSource: 'LeadSource',
+    Name: 'Name',
+    NextStep: 'NextStep',
+    OwnerId: 'OwnerId',
+    Pricebook2Id: 'Pricebook2Id',
+    Probability: 'Probability',
+    Quantity__c: 'Quantity__c',
+    StageName: 'StageName',
+    TotalOpportunityQuantity: 'TotalOpportunityQuantity',
+    Type: 'Type',
+} as const;
+
+export type OpportunityField = keyof typeof OpportunityFields;
+
+/** A lookup to an object without generated types */
+export interface SObjectReference {
+    readonly Id?: string;
+    readonly Name?: string;
+}
+
+export interface SObjectTypeMap {
+    Opportunity: Opportunity;
+}
+
+export interface SObjectFieldMap {
+    Opportunity: OpportunityField;
+}
+
+export type SObjectName = keyof SObjectTypeMap;
@@ -0,0 +1,39 @@
+import { test } from '@playwright/test';
+import { ApiRetryConfig } from '../../config/environment';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Methods that can be replayed without risking duplicate writes.
+ * POST is only retried when the caller opts in (e.g. a query sent as POST).
+ */
+export const IDEMPOTENT_METHODS: readonly HttpMethod[] = ['GET', 'PUT', 'PATCH', 'DELETE'];
+
+export function isRetryableFailure(status: number, errorCodes: string[], policy: ApiRetryConfig): boolean {
+    return policy.retryableStatuses.includes(status)
+        || errorCodes.some(code => policy.retryableErrorCodes.includes(code));
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and min(maxDelay, base * 2^(attempt - 1))
+ */
+export function backoffDelay(attempt: number, policy: ApiRetryConfig, random: () => number = Math.random): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(random() * ceiling);
+}
+
+/**
+ * Logs a retry and, inside a running test, adds it to the report as an `api-retry` annotation
+ */
+export function recordApiRetry(message: string): void {
+    console.log(`[api-retry] ${message}`);
+    try {
+        test.info().annotations.push({ type: 'api-retry', description: message });
+    } catch {
+        // Not inside a test (e.g. global setup or a standalone script)
+    }
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
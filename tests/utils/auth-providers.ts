@@ -0,0 +1,272 @@
+import { APIRequestContext, BrowserContext } from '@playwright/test';
+import { execSync } from 'child_process';
+import { createSign } from 'crypto';
+import { readFileSync } from 'fs';
+import { AuthConfig, config } from '../../config/environment';
+
+export interface SalesforceSession {
+    accessToken: string;
+    instanceUrl: string;
+}
+
+/**
+ * A way of obtaining a Salesforce access token.
+ * `cacheKey` identifies the org/user pair so sessions can be shared between callers.
+ */
+export interface AuthProvider {
+    readonly name: string;
+    readonly cacheKey: string;
+    authenticate(request: APIRequestContext): Promise<SalesforceSession>;
+}
+
+interface OAuthTokenResponse {
+    access_token?: string;
+    instance_url?: string;
+    error?: string;
+    error_description?: string;
+}
+
+function requireSetting(value: string, envName: string, strategy: string): string {
+    if (!value) {
+        throw new Error(`${envName} is required for the "${strategy}" auth strategy`);
+    }
+    return value;
+}
+
+export function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+}
+
+/**
+ * Existing behaviour: reuse the session of an org the sf CLI is logged in to
+ */
+export class CliAuthProvider implements AuthProvider {
+    readonly name = 'SF CLI';
+
+    constructor(private authConfig: AuthConfig = config.auth) { }
+
+    get cacheKey(): string {
+        return `cli:${this.authConfig.targetOrg || 'default'}`;
+    }
+
+    async authenticate(): Promise<SalesforceSession> {
+        const targetOrg = this.authConfig.targetOrg ? ` --target-org "${this.authConfig.targetOrg}"` : '';
+        const result = execSync(`sf org display --json${targetOrg}`, {
+            encoding: 'utf-8',
+            cwd: process.cwd(),
+            env: { ...process.env, SF_SKIP_UPDATE_CHECK: 'true', FORCE_COLOR: '0' },
+        });
+
+        const cleanResult = result.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, '');
+        const jsonStart = cleanResult.indexOf('{');
+        if (jsonStart === -1) {
+            throw new Error('No JSON found in SF CLI output');
+        }
+
+        const orgInfo = JSON.parse(cleanResult.substring(jsonStart));
+        if (!orgInfo.result?.accessToken) {
+            throw new Error('No access token in SF CLI response');
+        }
+
+        return {
+            accessToken: orgInfo.result.accessToken,
+            instanceUrl: orgInfo.result.instanceUrl || config.salesforce.instanceUrl,
+        };
+    }
+}
+
+/**
+ * Base for the flows that exchange credentials at /services/oauth2/token
+ */
+abstract class OAuthTokenProvider implements AuthProvider {
+    abstract readonly name: string;
+    abstract get cacheKey(): string;
+
+    constructor(protected authConfig: AuthConfig) { }
+
+    protected abstract tokenRequestForm(): Record<string, string>;
+
+    async authenticate(request: APIRequestContext): Promise<SalesforceSession> {
+        const response = await request.post(`${trimTrailingSlash(this.authConfig.loginUrl)}/services/oauth2/token`, {
+            form: this.tokenRequestForm(),
+        });
+
+        const text = await response.text();
+        let body: OAuthTokenResponse = {};
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Non-JSON error pages are reported as raw text below
+        }
+
+        if (!response.ok() || !body.access_token) {
+            const reason = body.error_description || body.error || text;
+            throw new Error(`${this.name} authentication failed: ${response.status()} - ${reason}`);
+        }
+
+        return {
+            accessToken: body.access_token,
+            instanceUrl: body.instance_url || config.salesforce.instanceUrl,
+        };
+    }
+}
+
+/**
+ * OAuth 2.0 JWT bearer flow for a connected app with an uploaded certificate
+ */
+export class JwtBearerAuthProvider extends OAuthTokenProvider {
+    readonly name = 'JWT bearer';
+
+    constructor(authConfig: AuthConfig = config.auth) {
+        super(authConfig);
+    }
+
+    get cacheKey(): string {
+        return `jwt:${trimTrailingSlash(this.authConfig.loginUrl)}:${this.authConfig.username}`;
+    }
+
+    protected tokenRequestForm(): Record<string, string> {
+        return {
+            grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+            assertion: this.createAssertion(),
+        };
+    }
+
+    createAssertion(): string {
+        const clientId = requireSetting(this.authConfig.clientId, 'SF_CLIENT_ID', 'jwt');
+        const username = requireSetting(this.authConfig.username, 'SF_USERNAME', 'jwt');
+        const keyPath = requireSetting(this.authConfig.privateKeyPath, 'SF_JWT_KEY_FILE', 'jwt');
+
+        const header = Buffer.from(JSON.stringify({ alg: 'RS256' })).toString('base64url');
+        const claims = Buffer.from(JSON.stringify({
+            iss: clientId,
+            sub: username,
+            aud: trimTrailingSlash(this.authConfig.loginUrl),
+            exp: Math.floor(Date.now() / 1000) + 180,
+        })).toString('base64url');
+
+        const signature = createSign('RSA-SHA256')
+            .update(`${header}.${claims}`)
+            .sign(readFileSync(keyPath, 'utf-8'), 'base64url');
+
+        return `${header}.${claims}.${signature}`;
+    }
+}
+
+/**
+ * OAuth 2.0 refresh token flow, e.g. with a token issued to a CI integration user
+ */
+export class RefreshTokenAuthProvider extends OAuthTokenProvider {
+    readonly name = 'Refresh token';
+
+    constructor(authConfig: AuthConfig = config.auth) {
+        super(authConfig);
+    }
+
+    get cacheKey(): string {
+        return `refreshToken:${trimTrailingSlash(this.authConfig.loginUrl)}:${this.authConfig.clientId}:${this.authConfig.username}`;
+    }
+
+    protected tokenRequestForm(): Record<string, string> {
+        const form: Record<string, string> = {
+            grant_type: 'refresh_token',
+            client_id: requireSetting(this.authConfig.clientId, 'SF_CLIENT_ID', 'refreshToken'),
+            refresh_token: requireSetting(this.authConfig.refreshToken, 'SF_REFRESH_TOKEN', 'refreshToken'),
+        };
+        if (this.authConfig.clientSecret) {
+            form.client_secret = this.authConfig.clientSecret;
+        }
+        return form;
+    }
+}
+
+/**
+ * OAuth 2.0 client credentials flow; loginUrl must be the org's My Domain URL
+ */
+export class ClientCredentialsAuthProvider extends OAuthTokenProvider {
+    readonly name = 'Client credentials';
+
+    constructor(authConfig: AuthConfig = config.auth) {
+        super(authConfig);
+    }
+
+    get cacheKey(): string {
+        return `clientCredentials:${trimTrailingSlash(this.authConfig.loginUrl)}:${this.authConfig.clientId}`;
+    }
+
+    protected tokenRequestForm(): Record<string, string> {
+        return {
+            grant_type: 'client_credentials',
+            client_id: requireSetting(this.authConfig.clientId, 'SF_CLIENT_ID', 'clientCredentials'),
+            client_secret: requireSetting(this.authConfig.clientSecret, 'SF_CLIENT_SECRET', 'clientCredentials'),
+        };
+    }
+}
+
+/**
+ * Reuses the session of a browser context that has logged in to the org, e.g. as a persona with
+ * a password: the REST API accepts the sid cookie Salesforce sets on the My Domain host
+ */
+export class BrowserSessionAuthProvider implements AuthProvider {
+    readonly name = 'Browser session';
+
+    constructor(
+        private context: BrowserContext,
+        private username: string,
+        private instanceUrl: string = config.salesforce.instanceUrl
+    ) { }
+
+    get cacheKey(): string {
+        return `browser:${trimTrailingSlash(this.instanceUrl)}:${this.username}`;
+    }
+
+    async authenticate(): Promise<SalesforceSession> {
+        const instanceUrl = trimTrailingSlash(this.instanceUrl);
+        const sid = (await this.context.cookies(instanceUrl)).find(cookie => cookie.name === 'sid');
+        if (!sid) {
+            throw new Error(`${this.name} authentication failed: no sid cookie for ${instanceUrl}; log ${this.username} in first`);
+        }
+        return { accessToken: sid.value, instanceUrl };
+    }
+}
+
+export function createAuthProvider(authConfig: AuthConfig = config.auth): AuthProvider {
+    switch (authConfig.strategy) {
+        case 'cli':
+            return new CliAuthProvider(authConfig);
+        case 'jwt':
+            return new JwtBearerAuthProvider(authConfig);
+        case 'refreshToken':
+            return new RefreshTokenAuthProvider(authConfig);
+        case 'clientCredentials':
+            return new ClientCredentialsAuthProvider(authConfig);
+        default:
+            throw new Error(`Unknown auth strategy "${authConfig.strategy}"`);
+    }
+}
+
+const sessionCache = new Map<string, Promise<SalesforceSession>>();
+
+/**
+ * Returns the cached session for the provider's org/user, authenticating on first use.
+ * Concurrent callers share the same in-flight token request.
+ */
+export function getCachedSession(provider: AuthProvider, request: APIRequestContext): Promise<SalesforceSession> {
+    const cached = sessionCache.get(provider.cacheKey);
+    if (cached) return cached;
+
+    const session = provider.authenticate(request);
+    sessionCache.set(provider.cacheKey, session);
+    session.catch(() => {
+        if (sessionCache.get(provider.cacheKey) === session) sessionCache.delete(provider.cacheKey);
+    });
+    return session;
+}
+
+export function invalidateCachedSession(provider: AuthProvider): void {
+    sessionCache.delete(provider.cacheKey);
+}
+
+export function clearSessionCache(): void {
+    sessionCache.clear();
+}
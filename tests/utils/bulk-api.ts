@@ -0,0 +1,207 @@
+import { config } from '../../config/environment';
+import { SalesforceApiUtils } from './salesforce-api';
+import { SoqlBuilder } from './soql-builder';
+import { parseCsv, toCsv } from './csv';
+import { sleep } from './api-retry';
+
+export type BulkIngestOperation = 'insert' | 'update' | 'upsert' | 'delete' | 'hardDelete';
+export type BulkQueryOperation = 'query' | 'queryAll';
+export type BulkJobState = 'Open' | 'UploadComplete' | 'InProgress' | 'JobComplete' | 'Failed' | 'Aborted';
+
+export interface BulkJobInfo {
+    id: string;
+    object: string;
+    operation: BulkIngestOperation | BulkQueryOperation;
+    state: BulkJobState;
+    numberRecordsProcessed?: number;
+    numberRecordsFailed?: number;
+    errorMessage?: string;
+}
+
+export type BulkSuccessfulRecord = Record<string, string> & { sf__Id: string; sf__Created: string };
+export type BulkFailedRecord = Record<string, string> & { sf__Id: string; sf__Error: string };
+
+export interface BulkIngestResult {
+    job: BulkJobInfo;
+    successful: BulkSuccessfulRecord[];
+    failed: BulkFailedRecord[];
+    unprocessed: Record<string, string>[];
+}
+
+export interface BulkPollOptions {
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+}
+
+const FINAL_STATES: BulkJobState[] = ['JobComplete', 'Failed', 'Aborted'];
+
+/**
+ * Bulk API 2.0 client for large-volume test data.
+ * Shares authentication, retries and error handling with the SalesforceApiUtils it wraps.
+ *
+ *   const bulk = new BulkApiClient(sfApi);
+ *   const { successful, failed } = await bulk.ingest('Opportunity', 'insert', opportunities);
+ *   const rows = await bulk.query(soql('Opportunity').select('Id', 'Name'));
+ */
+export class BulkApiClient {
+    private readonly pollIntervalMs: number;
+    private readonly timeoutMs: number;
+
+    constructor(private sfApi: SalesforceApiUtils, options: BulkPollOptions = {}) {
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+        this.timeoutMs = options.timeoutMs ?? config.timeouts.bulkJob;
+    }
+
+    /**
+     * Runs a complete ingest job: create, upload, close, wait, then fetch all three result sets
+     */
+    async ingest(
+        object: string,
+        operation: BulkIngestOperation,
+        data: Record<string, unknown>[] | string,
+        options: { externalIdFieldName?: string } = {}
+    ): Promise<BulkIngestResult> {
+        const job = await this.createIngestJob(object, operation, options);
+        try {
+            await this.uploadJobData(job.id, typeof data === 'string' ? data : toCsv(data));
+            await this.closeJob(job.id);
+        } catch (error) {
+            await this.abortJob(job.id).catch(() => { });
+            throw error;
+        }
+
+        const finished = await this.waitForJob(job.id, 'ingest');
+        const results = await this.getIngestResults(job.id);
+        for (const record of results.successful.filter(r => r.sf__Created === 'true')) {
+            this.sfApi.trackRecord(object, record.sf__Id);
+        }
+        return { job: finished, ...results };
+    }
+
+    async createIngestJob(
+        object: string,
+        operation: BulkIngestOperation,
+        options: { externalIdFieldName?: string } = {}
+    ): Promise<BulkJobInfo> {
+        if (operation === 'upsert' && !options.externalIdFieldName) {
+            throw new Error('Bulk upsert jobs need an externalIdFieldName');
+        }
+        return this.sfApi.restCall<BulkJobInfo>('POST', '/jobs/ingest', {
+            object,
+            operation,
+            contentType: 'CSV',
+            lineEnding: 'LF',
+            columnDelimiter: 'COMMA',
+            ...(options.externalIdFieldName && { externalIdFieldName: options.externalIdFieldName }),
+        });
+    }
+
+    async uploadJobData(jobId: string, csv: string): Promise<void> {
+        await this.sfApi.rawCall('PUT', `/jobs/ingest/${jobId}/batches`, {
+            data: csv,
+            headers: { 'Content-Type': 'text/csv' },
+        });
+    }
+
+    async closeJob(jobId: string): Promise<BulkJobInfo> {
+        return this.sfApi.restCall<BulkJobInfo>('PATCH', `/jobs/ingest/${jobId}`, { state: 'UploadComplete' });
+    }
+
+    async abortJob(jobId: string, kind: 'ingest' | 'query' = 'ingest'): Promise<BulkJobInfo> {
+        return this.sfApi.restCall<BulkJobInfo>('PATCH', `/jobs/${kind}/${jobId}`, { state: 'Aborted' });
+    }
+
+    async getJob(jobId: string, kind: 'ingest' | 'query' = 'ingest'): Promise<BulkJobInfo> {
+        return this.sfApi.restCall<BulkJobInfo>('GET', `/jobs/${kind}/${jobId}`);
+    }
+
+    /**
+     * Polls until the job reaches JobComplete, Failed or Aborted
+     */
+    async waitForJob(jobId: string, kind: 'ingest' | 'query' = 'ingest'): Promise<BulkJobInfo> {
+        const deadline = Date.now() + this.timeoutMs;
+        let job = await this.getJob(jobId, kind);
+
+        while (!FINAL_STATES.includes(job.state)) {
+            if (Date.now() >= deadline) {
+                throw new Error(`Bulk ${kind} job ${jobId} still ${job.state} after ${this.timeoutMs}ms`);
+            }
+            await sleep(this.pollIntervalMs);
+            job = await this.getJob(jobId, kind);
+        }
+
+        console.log(`Bulk ${kind} job ${jobId} ${job.state}: ${job.numberRecordsProcessed ?? 0} processed, ${job.numberRecordsFailed ?? 0} failed`);
+        return job;
+    }
+
+    async getIngestResults(jobId: string): Promise<Omit<BulkIngestResult, 'job'>> {
+        const [successful, failed, unprocessed] = await Promise.all([
+            this.getCsv(`/jobs/ingest/${jobId}/successfulResults`),
+            this.getCsv(`/jobs/ingest/${jobId}/failedResults`),
+            this.getCsv(`/jobs/ingest/${jobId}/unprocessedrecords`),
+        ]);
+        return {
+            successful: successful as BulkSuccessfulRecord[],
+            failed: failed as BulkFailedRecord[],
+            unprocessed,
+        };
+    }
+
+    async createQueryJob(query: string | SoqlBuilder<unknown>, operation: BulkQueryOperation = 'query'): Promise<BulkJobInfo> {
+        return this.sfApi.restCall<BulkJobInfo>('POST', '/jobs/query', {
+            operation,
+            query: query.toString(),
+            contentType: 'CSV',
+            lineEnding: 'LF',
+            columnDelimiter: 'COMMA',
+        });
+    }
+
+    /**
+     * Yields result pages of a completed query job, following the Sforce-Locator header
+     */
+    async *queryResultPages(jobId: string, maxRecords?: number): AsyncGenerator<Record<string, string>[]> {
+        let locator: string | null = null;
+        do {
+            const params = new URLSearchParams();
+            if (locator) params.set('locator', locator);
+            if (maxRecords) params.set('maxRecords', String(maxRecords));
+            const query = params.toString();
+
+            const response = await this.sfApi.rawCall('GET', `/jobs/query/${jobId}/results${query ? `?${query}` : ''}`, {
+                headers: { 'Accept': 'text/csv' },
+            });
+            yield parseCsv(await response.text());
+
+            const next = response.headers()['sforce-locator'];
+            locator = next && next !== 'null' ? next : null;
+        } while (locator);
+    }
+
+    /**
+     * Runs a bulk query job to completion and returns every row
+     */
+    async query(
+        query: string | SoqlBuilder<unknown>,
+        options: { operation?: BulkQueryOperation; maxRecordsPerPage?: number } = {}
+    ): Promise<Record<string, string>[]> {
+        const job = await this.createQueryJob(query, options.operation);
+        const finished = await this.waitForJob(job.id, 'query');
+        if (finished.state !== 'JobComplete') {
+            throw new Error(`Bulk query job ${job.id} ${finished.state}: ${finished.errorMessage ?? 'no error message'}`);
+        }
+
+        const rows: Record<string, string>[] = [];
+        for await (const page of this.queryResultPages(job.id, options.maxRecordsPerPage)) {
+            rows.push(...page);
+        }
+        return rows;
+    }
+
+    private async getCsv(endpoint: string): Promise<Record<string, string>[]> {
+        const response = await this.sfApi.rawCall('GET', endpoint, { headers: { 'Accept': 'text/csv' } });
+        return parseCsv(await response.text());
+    }
+}
+
+export default BulkApiClient;
@@ -0,0 +1,123 @@
+import { config } from '../../config/environment';
+import { HttpMethod } from './api-retry';
+import { SalesforceErrorDetail } from './salesforce-errors';
+
+/** sObject Collections accept at most 200 records per request */
+export const COLLECTION_BATCH_SIZE = 200;
+
+/** The Composite API accepts at most 25 subrequests per call */
+export const COMPOSITE_MAX_SUBREQUESTS = 25;
+
+export interface CollectionOptions {
+    /** Roll back every record if any one fails (default: partial success); at most 200 records */
+    allOrNone?: boolean;
+}
+
+export interface RecordSaveResult<T> {
+    /** The input record (or Id, for deletes) this result belongs to */
+    record: T;
+    id: string | null;
+    success: boolean;
+    /** Upserts only: true when the record was inserted rather than updated */
+    created?: boolean;
+    errors: SalesforceErrorDetail[];
+}
+
+export interface CollectionResponseItem {
+    id?: string | null;
+    success: boolean;
+    created?: boolean;
+    errors: { statusCode: string; message: string; fields?: string[] }[];
+}
+
+export interface CompositeSubrequest {
+    method: HttpMethod;
+    /** Endpoint relative to /services/data/vXX.X (e.g. '/sobjects/Account') or a full /services/data path */
+    url: string;
+    referenceId: string;
+    body?: Record<string, unknown>;
+    httpHeaders?: Record<string, string>;
+}
+
+export interface CompositeSubresponse<T = unknown> {
+    referenceId: string;
+    httpStatusCode: number;
+    httpHeaders: Record<string, string>;
+    body: T;
+}
+
+export interface CompositeGraph {
+    graphId: string;
+    compositeRequest: CompositeSubrequest[];
+}
+
+export interface CompositeGraphResult {
+    graphId: string;
+    isSuccessful: boolean;
+    compositeResponse: CompositeSubresponse[];
+}
+
+/**
+ * Reference to an earlier subrequest's result, e.g. compositeRef('newAccount') -> '@{newAccount.id}'
+ */
+export function compositeRef(referenceId: string, field = 'id'): string {
+    return `@{${referenceId}.${field}}`;
+}
+
+export function toCompositeSubrequest(subrequest: CompositeSubrequest): CompositeSubrequest {
+    const url = subrequest.url.startsWith('/services/')
+        ? subrequest.url
+        : `/services/data/v${config.salesforce.apiVersion}${subrequest.url}`;
+    return { ...subrequest, url };
+}
+
+/**
+ * Each collection request commits on its own, so all-or-none only holds for a single batch
+ */
+export function assertAllOrNoneFits(recordCount: number, options: CollectionOptions): void {
+    if (options.allOrNone && recordCount > COLLECTION_BATCH_SIZE) {
+        throw new Error(`allOrNone cannot span batches: got ${recordCount} records, at most ${COLLECTION_BATCH_SIZE} fit in one request`);
+    }
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+export function toSaveResults<T>(inputs: T[], response: CollectionResponseItem[]): RecordSaveResult<T>[] {
+    return inputs.map((record, index) => {
+        const item = response[index];
+        return {
+            record,
+            id: item?.id ?? null,
+            success: !!item?.success,
+            ...(item?.created !== undefined && { created: item.created }),
+            errors: (item?.errors ?? []).map(error => ({
+                errorCode: error.statusCode,
+                message: error.message,
+                fields: error.fields ?? [],
+            })),
+        };
+    });
+}
+
+/**
+ * Records inserted by a composite call: successful POSTs to /sobjects/{type}
+ */
+export function createdBySubrequests(
+    subrequests: CompositeSubrequest[],
+    responses: CompositeSubresponse[]
+): { sObjectType: string; id: string }[] {
+    return subrequests.flatMap(subrequest => {
+        const sObjectType = subrequest.url.match(/\/sobjects\/(\w+)\/?$/)?.[1];
+        const response = responses.find(r => r.referenceId === subrequest.referenceId);
+        const id = (response?.body as { id?: string } | undefined)?.id;
+        return subrequest.method === 'POST' && sObjectType && response?.httpStatusCode === 201 && id
+            ? [{ sObjectType, id }]
+            : [];
+    });
+}
@@ -0,0 +1,72 @@
+/**
+ * Minimal RFC 4180 CSV support for Bulk API 2.0 payloads (comma delimiter, LF line endings)
+ */
+
+/** Bulk API 2.0 sets a field to null only when it is given this value; an empty cell leaves it unchanged */
+export const BULK_NULL_VALUE = '#N/A';
+
+function formatCell(value: unknown): string {
+    if (value === null) return BULK_NULL_VALUE;
+    if (value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises records to CSV. Columns default to the union of keys, in first-seen order.
+ */
+export function toCsv(records: Record<string, unknown>[], columns?: string[]): string {
+    const header = columns ?? [...new Set(records.flatMap(record => Object.keys(record)))];
+    const lines = [
+        header.map(formatCell).join(','),
+        ...records.map(record => header.map(column => formatCell(record[column])).join(',')),
+    ];
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Parses CSV with a header row into records keyed by column name
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    const [header, ...data] = rows;
+    if (!header) return [];
+    return data
+        .filter(values => values.some(value => value !== ''))
+        .map(values => Object.fromEntries(header.map((column, index) => [column, values[index] ?? ''])));
+}
@@ -0,0 +1,328 @@
+import type { SalesforceApiUtils } from './salesforce-api';
+
+/** The input widgets SalesforceUtils.fillField knows how to drive */
+export type FieldType = 'text' | 'combobox' | 'lookup' | 'date' | 'datetime' | 'currency' | 'checkbox';
+
+export interface PicklistEntry {
+    value: string;
+    label: string;
+    active: boolean;
+    defaultValue: boolean;
+}
+
+/** The parts of a /sobjects/{name}/describe field the framework uses */
+export interface DescribeField {
+    name: string;
+    label: string;
+    type: string;
+    picklistValues: PicklistEntry[];
+    referenceTo: string[];
+    relationshipName: string | null;
+    /** The record's display name field (Name, CaseNumber, Subject, ...) */
+    nameField: boolean;
+    nillable: boolean;
+    createable: boolean;
+    updateable: boolean;
+    defaultedOnCreate: boolean;
+    calculated: boolean;
+}
+
+/** A lookup from another object to this one, as listed in the describe's childRelationships */
+export interface ChildRelationship {
+    childSObject: string;
+    /** Lookup field on the child, e.g. AccountId */
+    field: string;
+    /** e.g. Opportunities; null for lookups without a related list */
+    relationshipName: string | null;
+}
+
+export interface SObjectDescribe {
+    name: string;
+    label: string;
+    keyPrefix: string | null;
+    createable: boolean;
+    updateable: boolean;
+    deletable: boolean;
+    fields: DescribeField[];
+    childRelationships: ChildRelationship[];
+}
+
+export interface FieldMetadata {
+    apiName: string;
+    label: string;
+    /** Describe data type: string, picklist, reference, date, currency, ... */
+    dataType: string;
+    /** Input widget used for this field on Lightning record forms; null when fillField cannot drive it (multipicklist, address, ...) */
+    fieldType: FieldType | null;
+    /** Active picklist values (API names) */
+    picklistValues: string[];
+    /** Labels of the active picklist values, in the same order; the UI shows and picks these */
+    picklistLabels: string[];
+    /** Objects a lookup can point to */
+    referenceTo: string[];
+    /** Must be given on create: not nillable and not defaulted by Salesforce */
+    required: boolean;
+    createable: boolean;
+    updateable: boolean;
+}
+
+/** A field placed on the page layout, from /ui-api/layout/{name} */
+export interface LayoutField {
+    label: string;
+    apiName: string;
+    section: string;
+    required: boolean;
+    editableForNew: boolean;
+    editableForUpdate: boolean;
+}
+
+export type LayoutMode = 'Create' | 'Edit' | 'View';
+
+/** A related list on the parent's page layout, from /ui-api/related-list-info/{name} */
+export interface RelatedListSummary {
+    /** Relationship name for lists of child records, e.g. Opportunities */
+    relatedListId: string;
+    label: string;
+    objectApiName: string;
+}
+
+/** A related list on the layout with the child relationship behind it */
+export interface RelatedListMetadata {
+    /** Card title, e.g. Opportunities or Contact Roles */
+    label: string;
+    relationshipName: string;
+    childObject: string;
+    /** Lookup field on the child pointing at the parent */
+    field: string;
+}
+
+/** The parts of a UI API layout response the framework uses */
+export interface RecordLayout {
+    sections: {
+        heading: string;
+        layoutRows: {
+            layoutItems: {
+                label: string;
+                required: boolean;
+                editableForNew: boolean;
+                editableForUpdate: boolean;
+                layoutComponents: { apiName: string | null; componentType: string }[];
+            }[];
+        }[];
+    }[];
+}
+
+/** Describe types by the widget Lightning renders for them; types not listed have none fillField supports */
+const FIELD_TYPES: Record<string, FieldType> = {
+    string: 'text',
+    textarea: 'text',
+    email: 'text',
+    phone: 'text',
+    url: 'text',
+    double: 'text',
+    int: 'text',
+    long: 'text',
+    percent: 'text',
+    encryptedstring: 'text',
+    picklist: 'combobox',
+    combobox: 'combobox',
+    reference: 'lookup',
+    date: 'date',
+    datetime: 'datetime',
+    currency: 'currency',
+    boolean: 'checkbox',
+};
+
+/**
+ * Shared across every DescribeCache in the worker, since describes do not change during a run
+ */
+const describeCache = new Map<string, Promise<SObjectDescribe>>();
+const layoutCache = new Map<string, Promise<LayoutField[]>>();
+const relatedListCache = new Map<string, Promise<RelatedListMetadata[]>>();
+
+export function clearDescribeCache(): void {
+    describeCache.clear();
+    layoutCache.clear();
+    relatedListCache.clear();
+}
+
+/**
+ * Caches a metadata promise, dropping it again if it rejects (e.g. an expired session)
+ */
+function cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+    let value = cache.get(key);
+    if (!value) {
+        value = load();
+        cache.set(key, value);
+        value.catch(() => cache.delete(key));
+    }
+    return value;
+}
+
+/**
+ * Fields on a layout in display order; blank spaces and compound sub-components are skipped
+ */
+export function toLayoutFields(layout: RecordLayout): LayoutField[] {
+    return layout.sections.flatMap(section => section.layoutRows.flatMap(row => row.layoutItems.flatMap(item => {
+        const field = item.layoutComponents.find(component => component.componentType === 'Field' && component.apiName);
+        return field ? [{
+            label: item.label,
+            apiName: field.apiName as string,
+            section: section.heading,
+            required: item.required,
+            editableForNew: item.editableForNew,
+            editableForUpdate: item.editableForUpdate,
+        }] : [];
+    })));
+}
+
+export function toFieldMetadata(field: DescribeField): FieldMetadata {
+    return {
+        apiName: field.name,
+        label: field.label,
+        dataType: field.type,
+        fieldType: FIELD_TYPES[field.type] ?? null,
+        picklistValues: field.picklistValues.filter(entry => entry.active).map(entry => entry.value),
+        picklistLabels: field.picklistValues.filter(entry => entry.active).map(entry => entry.label),
+        referenceTo: field.referenceTo,
+        required: field.createable && !field.nillable && !field.defaultedOnCreate,
+        createable: field.createable,
+        updateable: field.updateable,
+    };
+}
+
+/**
+ * Labels a field is shown with on record pages. Layouts label the Name field "<Object> Name",
+ * lookups by their relationship ("Account Name" rather than "Account ID"), and drop the object
+ * prefix ("Type" rather than "Opportunity Type") and unit suffixes ("Probability" rather than "Probability (%)").
+ */
+function uiLabels(field: DescribeField, objectLabel: string): string[] {
+    const labels = [field.label, field.name, field.label.replace(/\s*\([^)]*\)$/, '')];
+    if (field.label.startsWith(`${objectLabel} `)) labels.push(field.label.slice(objectLabel.length + 1));
+    if (field.name === 'Name') labels.push(`${objectLabel} Name`);
+    if (field.type === 'reference' && field.label.endsWith(' ID')) {
+        const relationship = field.label.slice(0, -' ID'.length);
+        labels.push(relationship, `${relationship} Name`);
+    }
+    return labels.map(label => label.toLowerCase());
+}
+
+/**
+ * sObject describe metadata, fetched once per object and mapped from the labels shown in the UI
+ *
+ *   const describe = new DescribeCache(sfApi);
+ *   const stage = await describe.getField('Opportunity', 'Stage');
+ *   // { apiName: 'StageName', fieldType: 'combobox', picklistValues: ['Prospecting', ...], required: true, ... }
+ */
+export class DescribeCache {
+    constructor(private sfApi: SalesforceApiUtils) { }
+
+    async describe(sObjectType: string): Promise<SObjectDescribe> {
+        return cached(describeCache, sObjectType, () => this.sfApi.describeSObject(sObjectType));
+    }
+
+    /**
+     * Fields on the running user's default page layout for the object
+     */
+    async getLayoutFields(sObjectType: string, mode: LayoutMode = 'View'): Promise<LayoutField[]> {
+        return cached(layoutCache, `${sObjectType}:${mode}`, async () =>
+            toLayoutFields(await this.sfApi.getRecordLayout(sObjectType, mode)));
+    }
+
+    /**
+     * The label a field is shown with on the layout, so callers can pass API names; fields that are
+     * not on the layout keep the name they were given
+     */
+    async getLayoutLabel(sObjectType: string, labelOrApiName: string, mode: LayoutMode = 'View'): Promise<string> {
+        const metadata = await this.findField(sObjectType, labelOrApiName);
+        if (!metadata) return labelOrApiName;
+        const layoutFields = await this.getLayoutFields(sObjectType, mode);
+        return layoutFields.find(layoutField => layoutField.apiName === metadata.apiName)?.label ?? labelOrApiName;
+    }
+
+    /**
+     * Related lists of child records on the running user's layout for the object, in layout order.
+     * Lists that are not backed by a child relationship (Files, Activity History, ...) are left out.
+     */
+    async getRelatedLists(sObjectType: string): Promise<RelatedListMetadata[]> {
+        return cached(relatedListCache, sObjectType, async () => {
+            const [describe, summaries] = await Promise.all([this.describe(sObjectType), this.sfApi.getRelatedListInfo(sObjectType)]);
+            return summaries.flatMap(summary => {
+                const relationship = describe.childRelationships.find(child => child.relationshipName === summary.relatedListId);
+                return relationship ? [{
+                    label: summary.label,
+                    relationshipName: summary.relatedListId,
+                    childObject: relationship.childSObject,
+                    field: relationship.field,
+                }] : [];
+            });
+        });
+    }
+
+    /**
+     * Finds a related list by its card label or relationship name (case-insensitive)
+     */
+    async getRelatedList(sObjectType: string, labelOrRelationshipName: string): Promise<RelatedListMetadata> {
+        const wanted = labelOrRelationshipName.toLowerCase();
+        const relatedLists = await this.getRelatedLists(sObjectType);
+        const relatedList = relatedLists.find(list => list.label.toLowerCase() === wanted || list.relationshipName.toLowerCase() === wanted);
+        if (!relatedList) {
+            throw new Error(`${sObjectType} has no related list labelled or named "${labelOrRelationshipName}" on its layout. `
+                + `Related lists: ${relatedLists.map(list => `${list.label} (${list.relationshipName})`).join(', ') || 'none'}`);
+        }
+        return relatedList;
+    }
+
+    /**
+     * API name of the record's display name field (Name for most objects, CaseNumber for Case)
+     */
+    async getNameField(sObjectType: string): Promise<string> {
+        const describe = await this.describe(sObjectType);
+        return describe.fields.find(field => field.nameField)?.name ?? 'Name';
+    }
+
+    async getFields(sObjectType: string): Promise<FieldMetadata[]> {
+        const describe = await this.describe(sObjectType);
+        return describe.fields.map(toFieldMetadata);
+    }
+
+    /**
+     * Finds a field by its UI label or API name (case-insensitive); null when the object has no such field
+     */
+    async findField(sObjectType: string, labelOrApiName: string): Promise<FieldMetadata | null> {
+        const describe = await this.describe(sObjectType);
+        const wanted = labelOrApiName.toLowerCase();
+        const field = describe.fields.find(f => f.label.toLowerCase() === wanted || f.name.toLowerCase() === wanted)
+            ?? describe.fields.find(f => uiLabels(f, describe.label).includes(wanted));
+        return field ? toFieldMetadata(field) : null;
+    }
+
+    async getField(sObjectType: string, labelOrApiName: string): Promise<FieldMetadata> {
+        const field = await this.findField(sObjectType, labelOrApiName);
+        if (!field) throw new Error(`${sObjectType} has no field labelled or named "${labelOrApiName}"`);
+        return field;
+    }
+
+    async getRequiredFields(sObjectType: string): Promise<FieldMetadata[]> {
+        return (await this.getFields(sObjectType)).filter(field => field.required);
+    }
+}
+
+/**
+ * Throws when a picklist or multi-select picklist is given a value that is neither the API name nor
+ * the label of one of its active values. Combobox fields take free text, so any value goes.
+ */
+export function assertValidPicklistValue(sObjectType: string, field: FieldMetadata, value: string): void {
+    if (field.dataType !== 'picklist' && field.dataType !== 'multipicklist') return;
+    const values = field.dataType === 'multipicklist' ? value.split(';').map(part => part.trim()) : [value];
+    const invalid = values.filter(part => !field.picklistValues.includes(part) && !field.picklistLabels.includes(part));
+    if (!invalid.length) return;
+
+    const active = field.picklistValues.map((apiName, index) =>
+        field.picklistLabels[index] && field.picklistLabels[index] !== apiName ? `${apiName} (${field.picklistLabels[index]})` : apiName);
+    throw new Error(
+        `"${invalid.join(';')}" is not a valid ${sObjectType}.${field.apiName} value. Active values: ${active.join(', ')}`
+    );
+}
+
+export default DescribeCache;
@@ -1,2 +1,56 @@
 export { SalesforceUtils } from './salesforce-utils';
+export type { InlineEditOptions, InlineEditReport } from './salesforce-utils';
 export { SalesforceApiUtils } from './salesforce-api';
+export { DescribeCache, clearDescribeCache } from './describe-cache';
+export type { ChildRelationship, FieldMetadata, FieldType, RelatedListMetadata, SObjectDescribe } from './describe-cache';
+export {
+    createAuthProvider,
+    CliAuthProvider,
+    JwtBearerAuthProvider,
+    BrowserSessionAuthProvider,
+    RefreshTokenAuthProvider,
+    ClientCredentialsAuthProvider,
+} from './auth-providers';
+export type { AuthProvider, SalesforceSession } from './auth-providers';
+export {
+    SalesforceApiError,
+    SalesforceAuthError,
+    SalesforcePermissionError,
+    SalesforceNotFoundError,
+    SalesforceValidationError,
+    SalesforceLimitError,
+    SalesforceServerError,
+} from './salesforce-errors';
+export type { SalesforceErrorDetail } from './salesforce-errors';
+export { soql, SoqlBuilder, dateLiteral, dateOnly, escapeSoqlLiteral, likePattern } from './soql-builder';
+export { compositeRef } from './composite-api';
+export { toListInfoInput } from './list-view-api';
+export type { ListInfo, ListViewDefinition, ListViewFilter, ListViewFilterOperator } from './list-view-api';
+export type { CompositeSubrequest, CompositeGraph, RecordSaveResult, CollectionOptions } from './composite-api';
+export { BulkApiClient } from './bulk-api';
+export type { BulkIngestResult, BulkJobInfo, BulkJobState } from './bulk-api';
+export { toCsv, parseCsv } from './csv';
+export { TestDataRegistry } from './test-data-registry';
+export type { TrackedRecord, CleanupReport } from './test-data-registry';
+export { TestDataSweeper, formatSweepTable } from './test-data-sweeper';
+export type { OrphanedRecord, SweepOptions } from './test-data-sweeper';
+export { PermissionMatrixVerifier, describePermissionCheck, failedChecks, formatPermissionGrid } from './permission-matrix';
+export type { Permission, PermissionCheck, PermissionSource, ApiVerifyOptions } from './permission-matrix';
+export { MetadataDriftDetector, MetadataDriftError, formatDriftReport, readMetadataSource } from './metadata-drift';
+export type { MetadataDrift, MetadataSource, DriftKind } from './metadata-drift';
+export { PersonaProvisioner, PersonaPool } from './persona-provisioner';
+export type { ProvisionedPersona } from './persona-provisioner';
+export { PersonaSessions, generatePassword } from './persona-sessions';
+export type { PersonaSession } from './persona-sessions';
+export { SessionStateCache, sessionStatePath, ADMIN_STATE_USER } from './session-state';
+export type { SessionStateStatus } from './session-state';
+export { LocatorRegistry, formatLocatorReport, DEEP_FALLBACK } from './locator-registry';
+export type { LocatorDefinition, LocatorStrategy, LocatorReport, LocatorKeyUsage, FindOptions } from './locator-registry';
+export { locators } from './locators';
+export type { LocatorKey } from './locators';
+export { LightningNetwork, isLightningRequest, parseAuraActions } from './lightning-network';
+export type { AuraAction, IdleOptions, NetworkWaitOptions } from './lightning-network';
+export { NetworkRecorder, AuraActionError, parseAuraResponse } from './network-recorder';
+export type { AuraActionState, RecordedAuraAction, RecordedExchange } from './network-recorder';
+export { ToastWatcher, matchesToast, parseToastLink, describeToast } from './toast-watcher';
+export type { Toast, ToastLink, ToastMatch, ToastType, ToastWaitOptions } from './toast-watcher';
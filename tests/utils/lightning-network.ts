@@ -0,0 +1,231 @@
+import { Page, Request, Response } from '@playwright/test';
+import { config } from '../../config/environment';
+import { sleep } from './api-retry';
+
+/** One action of an Aura request; Apex calls are named apex://Class/ACTION$method */
+export interface AuraAction {
+    id: string;
+    descriptor: string;
+    params: Record<string, unknown>;
+}
+
+export interface IdleOptions {
+    /** How long no Lightning request may be in flight or finish before the page counts as idle */
+    idleTime?: number;
+    timeout?: number;
+}
+
+export interface NetworkWaitOptions {
+    timeout?: number;
+}
+
+type RequestListener = (request: Request, outcome: 'finished' | 'failed') => void;
+
+/**
+ * Aura (/aura?r=), UI API (/ui-api/) and LWC Apex (/webruntime/api/apex/) requests; long-polling
+ * such as CometD is not Lightning traffic by this definition and never holds up an idle wait
+ */
+export function isLightningRequest(url: string): boolean {
+    const { pathname } = new URL(url);
+    return pathname.endsWith('/aura') || pathname.includes('/ui-api/') || pathname.includes('/webruntime/api/apex/');
+}
+
+/**
+ * The actions in an Aura request body (message={"actions":[...]})
+ */
+export function parseAuraActions(postData: string | null): AuraAction[] {
+    const message = postData ? new URLSearchParams(postData).get('message') : null;
+    if (!message) return [];
+    try {
+        const { actions = [] } = JSON.parse(message) as { actions?: { id: string; descriptor: string; params?: Record<string, unknown> }[] };
+        return actions.map(action => {
+            const params = action.params ?? {};
+            const descriptor = action.descriptor === 'aura://ApexActionController/ACTION$execute'
+                ? `apex://${params.namespace ? `${params.namespace}.` : ''}${params.classname}/ACTION$${params.method}`
+                : action.descriptor;
+            return { id: action.id, descriptor, params };
+        });
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Watches a page's Lightning requests so waits last exactly as long as Lightning is busy.
+ * One instance per page, created by the first SalesforceUtils for it; requests the page made
+ * before that are not seen.
+ *
+ *   const network = LightningNetwork.for(page);
+ *   const saved = network.waitForAuraAction('RecordUiController/ACTION$updateRecord');
+ *   await page.getByRole('button', { name: 'Save' }).click();
+ *   await saved;
+ *   await network.waitForLightningIdle();
+ */
+export class LightningNetwork {
+    private static readonly networks = new WeakMap<Page, LightningNetwork>();
+
+    private readonly inFlight = new Map<Request, number>();
+    private readonly listeners = new Set<RequestListener>();
+    private readonly failureListeners = new Set<(error: Error) => void>();
+    private lastActivity = 0;
+    private serverError?: Error;
+
+    static for(page: Page): LightningNetwork {
+        let network = LightningNetwork.networks.get(page);
+        if (!network) {
+            network = new LightningNetwork(page);
+            LightningNetwork.networks.set(page, network);
+        }
+        return network;
+    }
+
+    private constructor(page: Page) {
+        page.on('request', request => {
+            if (!isLightningRequest(request.url())) return;
+            this.pruneStale();
+            this.inFlight.set(request, Date.now());
+            this.lastActivity = Date.now();
+        });
+        const settle = (outcome: 'finished' | 'failed') => (request: Request) => {
+            // Requests pruned as stale still settle for the waits listening for them
+            if (!this.inFlight.delete(request) && !isLightningRequest(request.url())) return;
+            this.lastActivity = Date.now();
+            for (const listener of [...this.listeners]) listener(request, outcome);
+        };
+        page.on('requestfinished', settle('finished'));
+        page.on('requestfailed', settle('failed'));
+    }
+
+    /**
+     * Fail every current and later wait on this page with a server error, e.g. an Aura action in
+     * ERROR state the network recorder saw; the first error reported wins
+     */
+    fail(error: Error): void {
+        if (this.serverError) return;
+        this.serverError = error;
+        for (const listener of [...this.failureListeners]) listener(error);
+    }
+
+    /**
+     * The error passed to fail(), if any
+     */
+    get failure(): Error | undefined {
+        return this.serverError;
+    }
+
+    /**
+     * Settle like the given promise, or reject as soon as a server error is reported for the page
+     */
+    async untilFailure<T>(promise: Promise<T>): Promise<T> {
+        if (this.serverError) throw this.serverError;
+        let onFailure!: (error: Error) => void;
+        const failed = new Promise<never>((_, reject) => {
+            onFailure = reject;
+            this.failureListeners.add(onFailure);
+        });
+        try {
+            return await Promise.race([promise, failed]);
+        } finally {
+            this.failureListeners.delete(onFailure);
+        }
+    }
+
+    /**
+     * Lightning requests still waiting for a response. Requests open longer than the action
+     * timeout are dropped: they are not holding the UI up, only a connection.
+     */
+    get pending(): Request[] {
+        this.pruneStale();
+        return [...this.inFlight.keys()];
+    }
+
+    /**
+     * Forget requests open longer than the action timeout, so long-polls do not pile up for the life of the page
+     */
+    private pruneStale(): void {
+        const since = Date.now() - config.timeouts.action;
+        for (const [request, startedAt] of this.inFlight) {
+            if (startedAt < since) this.inFlight.delete(request);
+        }
+    }
+
+    /**
+     * Resolve once no Lightning request has been in flight or finished for idleTime, counted from
+     * the call at the earliest so a request the last click is about to send still gets the chance
+     */
+    async waitForLightningIdle(options: IdleOptions = {}): Promise<void> {
+        const idleTime = options.idleTime ?? config.timeouts.lightningIdle;
+        const timeout = options.timeout ?? config.timeouts.spinnerWait;
+        const calledAt = Date.now();
+        const deadline = calledAt + timeout;
+
+        for (;;) {
+            if (this.serverError) throw this.serverError;
+            const pending = this.pending;
+            const quietFor = Date.now() - Math.max(this.lastActivity, calledAt);
+            if (!pending.length && quietFor >= idleTime) return;
+            if (Date.now() >= deadline) {
+                throw new Error(`Lightning still busy after ${timeout}ms: ${pending.map(request => describeRequest(request)).join(', ') || 'requests kept finishing'}`);
+            }
+            await sleep(Math.min(50, pending.length ? 50 : idleTime - quietFor));
+        }
+    }
+
+    /**
+     * Resolve with the response of the next Aura request carrying an action whose descriptor contains
+     * the given text, e.g. 'RecordUiController/ACTION$updateRecord' or 'apex://OpportunityController'.
+     * Start waiting before the click that sends it.
+     */
+    waitForAuraAction(descriptor: string, options: NetworkWaitOptions = {}): Promise<Response> {
+        return this.waitForRequest(
+            request => parseAuraActions(request.postData()).some(action => action.descriptor.includes(descriptor)),
+            `Aura action "${descriptor}"`,
+            options
+        );
+    }
+
+    /**
+     * Resolve with the response of the next request that loads or saves the record: a UI API call
+     * with the Id in its URL, or an Aura record action with it in its params
+     */
+    waitForUiApiRecord(recordId: string, options: NetworkWaitOptions = {}): Promise<Response> {
+        const id = recordId.slice(0, 15);
+        return this.waitForRequest(request => {
+            if (new URL(request.url()).pathname.includes('/ui-api/')) return request.url().includes(id);
+            return parseAuraActions(request.postData())
+                .some(action => /record/i.test(action.descriptor) && JSON.stringify(action.params).includes(id));
+        }, `record ${recordId} from the UI API`, options);
+    }
+
+    private waitForRequest(matches: (request: Request) => boolean, what: string, options: NetworkWaitOptions): Promise<Response> {
+        const timeout = options.timeout ?? config.timeouts.action;
+        return this.untilFailure(new Promise<Response>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.listeners.delete(listener);
+                reject(new Error(`No request for ${what} completed within ${timeout}ms`));
+            }, timeout);
+            const listener: RequestListener = (request, outcome) => {
+                if (!matches(request)) return;
+                clearTimeout(timer);
+                this.listeners.delete(listener);
+                if (outcome === 'failed') {
+                    reject(new Error(`Request for ${what} failed: ${request.failure()?.errorText ?? 'no response'}`));
+                    return;
+                }
+                request.response().then(
+                    response => response ? resolve(response) : reject(new Error(`Request for ${what} has no response`)),
+                    reject
+                );
+            };
+            this.listeners.add(listener);
+        }));
+    }
+}
+
+function describeRequest(request: Request): string {
+    const actions = parseAuraActions(request.postData()).map(action => action.descriptor.replace(/^.*\//, ''));
+    const { pathname } = new URL(request.url());
+    return actions.length ? `aura ${actions.join('+')}` : `${request.method()} ${pathname}`;
+}
+
+export default LightningNetwork;
@@ -0,0 +1,62 @@
+/** Filter operators of the UI API list-info resource */
+export type ListViewFilterOperator =
+    | 'Equals'
+    | 'NotEqual'
+    | 'LessThan'
+    | 'GreaterThan'
+    | 'LessOrEqual'
+    | 'GreaterOrEqual'
+    | 'Contains'
+    | 'NotContain'
+    | 'StartsWith'
+    | 'Includes'
+    | 'Excludes';
+
+export interface ListViewFilter {
+    field: string;
+    operator: ListViewFilterOperator;
+    /** Values as Setup shows them, e.g. 'Prospecting' or 'LAST_N_MONTHS:3' */
+    values: string[];
+}
+
+/** A list view to create for a test; only developerName and label are required */
+export interface ListViewDefinition {
+    /** DeveloperName, also what ?filterName= accepts */
+    developerName: string;
+    label: string;
+    /** Field API names in column order (default: the object's default columns) */
+    columns?: string[];
+    filters?: ListViewFilter[];
+    /** e.g. '1 AND (2 OR 3)'; filters are ANDed without it */
+    filterLogic?: string;
+    /** 'everything' (default) or 'mine' */
+    scope?: 'everything' | 'mine' | 'team' | 'queue';
+    /** Private (default) or visible to all users */
+    visibility?: 'Private' | 'Public';
+}
+
+/** The parts of a UI API ListInfo the framework reads */
+export interface ListInfo {
+    label: string;
+    listReference: { id: string; listViewApiName: string; objectApiName: string };
+    displayColumns: { fieldApiName: string; label: string; sortable: boolean }[];
+}
+
+/**
+ * Request body for POST /ui-api/list-info/{objectApiName}
+ */
+export function toListInfoInput(definition: ListViewDefinition): Record<string, unknown> {
+    return {
+        listViewApiName: definition.developerName,
+        label: definition.label,
+        ...(definition.columns && { displayColumns: definition.columns }),
+        filteredByInfo: (definition.filters ?? []).map(filter => ({
+            fieldApiName: filter.field,
+            operator: filter.operator,
+            operandLabels: filter.values,
+        })),
+        ...(definition.filterLogic && { filterLogicString: definition.filterLogic }),
+        scope: { apiName: definition.scope ?? 'everything' },
+        visibility: definition.visibility ?? 'Private',
+    };
+}
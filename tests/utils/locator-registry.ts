@@ -0,0 +1,230 @@
+import { Locator, Page, test } from '@playwright/test';
+
+/** One way of finding an element, tried in the order the definition lists them */
+export interface LocatorStrategy<P> {
+    /** CSS, XPath or Playwright selector; a function when it depends on a label or value */
+    selector: string | ((params: P) => string);
+    /** Salesforce release the markup was captured from, e.g. "Spring '24", so dead fallbacks can be retired */
+    release?: string;
+}
+
+export interface LocatorDefinition<P = Record<string, never>> {
+    description: string;
+    strategies: LocatorStrategy<P>[];
+}
+
+type ParamsOf<D> = D extends LocatorDefinition<infer P> ? P : never;
+
+export interface FindOptions {
+    /** How long to wait for any strategy to show up when none is visible straight away (default 0) */
+    timeout?: number;
+}
+
+/** How often each strategy of a key matched over a run, counted in tests */
+export interface LocatorKeyUsage {
+    key: string;
+    /** Tests that resolved the key */
+    tests: number;
+    /** Tests in which no strategy matched */
+    misses: number;
+    /** Per strategy, in definition order; tried counts the tests in which find() got as far as it */
+    strategies: { selector: string; release?: string; tests: number; tried: number }[];
+}
+
+export interface LocatorReport {
+    keys: LocatorKeyUsage[];
+    /** Strategies that were tried and never matched */
+    dead: { key: string; strategy: number; selector: string; release?: string }[];
+    /** Strategies of resolved keys never tried because an earlier one always matched */
+    unreached: { key: string; strategy: number; selector: string; release?: string }[];
+    /** Keys that only ever matched through strategy DEEP_FALLBACK or later */
+    deep: { key: string; strategy: number; selector: string; tests: number }[];
+    /** Registered keys no test resolved */
+    unused: string[];
+}
+
+/** 1-based strategy number from which a match counts as a deep fallback */
+export const DEEP_FALLBACK = 3;
+
+/** Annotation type recording which strategy matched, once per key and strategy per test */
+export const LOCATOR_ANNOTATION = 'locator';
+
+const ANNOTATION_PATTERN = /^(\S+): (?:strategy (\d+) of \d+|no strategy matched)/;
+
+/**
+ * Semantic locators with ordered fallbacks, e.g. 'record.editButton' or 'toast.container'.
+ * find() returns the first strategy with a visible match and records which one it was as a
+ * 'locator' annotation on the running test; the locator reporter turns those into a report of
+ * dead selectors and deep fallbacks after the run.
+ *
+ *   const editButton = await locators.find(page, 'record.editButton', {}, { timeout: config.timeouts.action });
+ *   const value = await locators.find(page, 'field.outputValue', { label: 'Amount' });
+ */
+export class LocatorRegistry<D extends Record<string, LocatorDefinition<never>>> {
+    constructor(readonly definitions: D) { }
+
+    get keys(): (keyof D & string)[] {
+        return Object.keys(this.definitions);
+    }
+
+    /**
+     * The selectors of a key in fallback order, with the parameters filled in
+     */
+    selectors<K extends keyof D & string>(key: K, params: ParamsOf<D[K]>): string[] {
+        return this.definitions[key].strategies.map(strategy =>
+            typeof strategy.selector === 'function'
+                // Definitions are only checked against LocatorDefinition<never>; ParamsOf recovers what this key takes
+                ? (strategy.selector as (params: ParamsOf<D[K]>) => string)(params)
+                : strategy.selector);
+    }
+
+    /**
+     * Selectors with their parameters shown as {name}, as the report lists them
+     */
+    templates<K extends keyof D & string>(key: K): string[] {
+        const placeholders = new Proxy({}, { get: (_, name) => `{${String(name)}}` });
+        return this.selectors(key, placeholders as ParamsOf<D[K]>);
+    }
+
+    /**
+     * Any strategy's match, for waiting on an element without caring which markup it has
+     */
+    any<K extends keyof D & string>(root: Page | Locator, key: K, params: ParamsOf<D[K]>): Locator {
+        return this.selectors(key, params)
+            .map(selector => root.locator(selector))
+            .reduce((union, locator) => union.or(locator));
+    }
+
+    /**
+     * The first visible element of the first strategy that has one, or null when none does
+     */
+    async find<K extends keyof D & string>(
+        root: Page | Locator,
+        key: K,
+        params: ParamsOf<D[K]>,
+        options: FindOptions = {}
+    ): Promise<Locator | null> {
+        const selectors = this.selectors(key, params);
+        const probe = async (): Promise<number> => {
+            for (const [index, selector] of selectors.entries()) {
+                if (await root.locator(selector).filter({ visible: true }).first().isVisible().catch(() => false)) return index;
+            }
+            return -1;
+        };
+
+        let index = await probe();
+        if (index === -1 && options.timeout) {
+            await this.any(root, key, params).filter({ visible: true }).first()
+                .waitFor({ state: 'visible', timeout: options.timeout })
+                .then(async () => { index = await probe(); })
+                .catch(() => { });
+        }
+
+        recordLocatorMatch(key, index === -1 ? null : index, selectors);
+        return index === -1 ? null : root.locator(selectors[index]).filter({ visible: true }).first();
+    }
+
+    /**
+     * Count, per key and strategy, the 'locator' annotations of every test in a run
+     */
+    report(testAnnotations: { type: string; description?: string }[][]): LocatorReport {
+        const usage = new Map<string, LocatorKeyUsage>(this.keys.map(key => [key, {
+            key,
+            tests: 0,
+            misses: 0,
+            strategies: this.templates(key).map((selector, index) => ({
+                selector,
+                release: this.definitions[key].strategies[index].release,
+                tests: 0,
+                tried: 0,
+            })),
+        }]));
+
+        for (const annotations of testAnnotations) {
+            // Strategies are probed in order, so a match at N means 1..N-1 were tried and missed
+            const tried = new Map<string, number>();
+            for (const annotation of annotations) {
+                if (annotation.type !== LOCATOR_ANNOTATION) continue;
+                const [, key, strategy] = annotation.description?.match(ANNOTATION_PATTERN) ?? [];
+                const keyUsage = usage.get(key);
+                if (!keyUsage) continue;
+
+                if (!tried.has(key)) keyUsage.tests++;
+                if (strategy) keyUsage.strategies[Number(strategy) - 1].tests++;
+                else keyUsage.misses++;
+                tried.set(key, Math.max(tried.get(key) ?? 0, strategy ? Number(strategy) : keyUsage.strategies.length));
+            }
+            for (const [key, count] of tried) {
+                usage.get(key)!.strategies.slice(0, count).forEach(strategy => strategy.tried++);
+            }
+        }
+
+        const keys = [...usage.values()];
+        const resolvedKeys = keys.filter(key => key.tests > 0);
+        const strategiesWhere = (predicate: (strategy: LocatorKeyUsage['strategies'][number]) => boolean) =>
+            resolvedKeys.flatMap(key => key.strategies.flatMap((strategy, index) => predicate(strategy)
+                ? [{ key: key.key, strategy: index + 1, selector: strategy.selector, release: strategy.release }]
+                : []));
+        return {
+            keys,
+            dead: strategiesWhere(strategy => strategy.tried > 0 && strategy.tests === 0),
+            unreached: strategiesWhere(strategy => strategy.tried === 0),
+            deep: resolvedKeys.flatMap(key => {
+                const first = key.strategies.findIndex(strategy => strategy.tests > 0);
+                return first + 1 >= DEEP_FALLBACK
+                    ? [{ key: key.key, strategy: first + 1, selector: key.strategies[first].selector, tests: key.strategies[first].tests }]
+                    : [];
+            }),
+            unused: keys.filter(key => key.tests === 0).map(key => key.key),
+        };
+    }
+}
+
+/**
+ * Note on the running test which strategy of a key matched (null: none did)
+ */
+function recordLocatorMatch(key: string, index: number | null, selectors: string[]): void {
+    const description = index === null
+        ? `${key}: no strategy matched`
+        : `${key}: strategy ${index + 1} of ${selectors.length} (${selectors[index]})`;
+    try {
+        const { annotations } = test.info();
+        const summary = description.replace(/ \(.*$/, '');
+        if (!annotations.some(annotation => annotation.type === LOCATOR_ANNOTATION && annotation.description?.startsWith(summary))) {
+            annotations.push({ type: LOCATOR_ANNOTATION, description });
+        }
+    } catch {
+        // Not inside a test (e.g. global setup or a standalone script)
+    }
+}
+
+/**
+ * The report as text: dead selectors and deep fallbacks, then how often each key resolved
+ */
+export function formatLocatorReport(report: LocatorReport): string {
+    const resolved = report.keys.filter(key => key.tests > 0);
+    if (!resolved.length) return 'No registered locators were resolved';
+
+    const lines = [`Locators: ${resolved.length} of ${report.keys.length} keys resolved`];
+    if (report.dead.length) {
+        lines.push('', `Dead selectors (tried and never matched this run): ${report.dead.length}`);
+        lines.push(...report.dead.map(dead =>
+            `  ${dead.key} #${dead.strategy} ${dead.selector}${dead.release ? ` [${dead.release}]` : ''}`));
+    }
+    if (report.deep.length) {
+        lines.push('', `Deep fallbacks (first match at strategy ${DEEP_FALLBACK} or later): ${report.deep.length}`);
+        lines.push(...report.deep.map(deep => `  ${deep.key} #${deep.strategy} ${deep.selector} (${deep.tests} tests)`));
+    }
+    if (report.unreached.length) {
+        lines.push('', `Fallbacks not reached (an earlier strategy always matched): ${report.unreached.length}`);
+    }
+
+    const header = ['Key', 'Tests', 'Misses', 'Matches by strategy'];
+    const rows = resolved.map(key => [key.key, String(key.tests), String(key.misses), key.strategies.map(strategy => strategy.tests).join(' / ')]);
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+    lines.push('', line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line));
+    return lines.join('\n');
+}
+
+export default LocatorRegistry;
@@ -0,0 +1,510 @@
+import { LocatorDefinition, LocatorRegistry } from './locator-registry';
+
+type Label = { label: string };
+type Value = { value: string };
+
+/**
+ * Every selector the page objects and SalesforceUtils use, by semantic name, most specific first.
+ * Later strategies cover older or alternative markup (Aura record forms, classic-styled buttons);
+ * tests/lightning-dom has a captured variant for each fallback of the field, toast and button keys.
+ * Tag a strategy with the release its markup comes from when adding one for new markup, so the
+ * locator report can show which fallbacks are left over from earlier releases.
+ */
+const definitions = {
+    'page.spinner': {
+        description: 'Loading spinners; waitForSpinners waits for every strategy to be hidden',
+        strategies: [
+            { selector: '.slds-spinner_container' },
+            { selector: '.slds-spinner' },
+            { selector: '[data-aura-rendered-by] .slds-spinner' },
+            { selector: '.forceSpinnerContainer' },
+            { selector: '.loadingSpinner' },
+            { selector: 'lightning-spinner' },
+        ],
+    },
+    'page.content': {
+        description: 'Main content area of a loaded Lightning page',
+        strategies: [
+            { selector: '.oneContent' },
+            { selector: '.desktop' },
+        ],
+    },
+    'page.title': {
+        description: 'Page header title on list views and record pages',
+        strategies: [
+            { selector: 'h1.slds-page-header__title' },
+            { selector: '.entityNameTitle' },
+            { selector: 'records-entity-label' },
+        ],
+    },
+    'globalSearch.button': {
+        description: 'Search button in the global header',
+        strategies: [
+            { selector: 'button.slds-global-actions__item[data-aura-class="forceSearchDesktopSearchButton"]' },
+            { selector: 'button[aria-label="Search"]' },
+        ],
+    },
+    'globalSearch.input': {
+        description: 'Search box opened by the global search button',
+        strategies: [
+            { selector: 'input[type="search"]' },
+            { selector: 'input.slds-input[placeholder*="Search"]' },
+        ],
+    },
+    'userMenu.button': {
+        description: 'User profile avatar that opens the user menu',
+        strategies: [
+            { selector: '.branding-user-profile' },
+            { selector: 'span.uiImage[data-aura-class="uiImage"]' },
+        ],
+    },
+    'userMenu.logoutLink': {
+        description: 'Log Out link in the user menu',
+        strategies: [
+            { selector: 'a[href*="logout"]' },
+        ],
+    },
+    'toast.container': {
+        description: 'Toast shown after a save, delete or error',
+        strategies: [
+            { selector: 'div.toastContainer' },
+        ],
+    },
+    'toast.message': {
+        description: 'Message text inside a toast',
+        strategies: [
+            { selector: '.toastMessage' },
+            { selector: '.slds-notify__content' },
+        ],
+    },
+    'toast.title': {
+        description: 'Title line of a toast, e.g. "Error" above the message',
+        strategies: [
+            { selector: '.toastTitle' },
+            { selector: '.slds-notify__content h2' },
+        ],
+    },
+    'toast.theme': {
+        description: 'Toast element carrying the slds-notify--<type> class; one per toast when several are stacked',
+        strategies: [
+            { selector: '.slds-notify' },
+            { selector: '.forceToastMessage' },
+        ],
+    },
+    'toast.closeButton': {
+        description: 'Close button of a sticky toast',
+        strategies: [
+            { selector: 'button.slds-notify__close' },
+            { selector: 'lightning-button-icon' },
+        ],
+    },
+    'button.byLabel': {
+        description: 'Any button by its label',
+        strategies: [
+            { selector: ({ label }: Label) => `button:has-text("${label}")` },
+            { selector: ({ label }: Label) => `lightning-button:has-text("${label}")` },
+            { selector: ({ label }: Label) => `a.slds-button:has-text("${label}")` },
+            { selector: ({ label }: Label) => `input[value="${label}"]` },
+            { selector: ({ label }: Label) => `[title="${label}"]` },
+        ],
+    },
+    'field.textInput': {
+        description: 'Text input or textarea of a form field',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-input[field-label="${label}"] input` },
+            { selector: ({ label }: Label) => `lightning-input-field[field-name*="${label}"] input` },
+            { selector: ({ label }: Label) => `input[name="${label}"]` },
+            { selector: ({ label }: Label) => `//label[contains(text(),"${label}")]/following::input[1]` },
+            { selector: ({ label }: Label) => `lightning-textarea[field-label="${label}"] textarea` },
+        ],
+    },
+    'field.label': {
+        description: 'Label of a form field, clicked to focus inputs no input strategy finds',
+        strategies: [
+            { selector: ({ label }: Label) => `label:has-text("${label}")` },
+            { selector: ({ label }: Label) => `span.slds-form-element__label:has-text("${label}")` },
+        ],
+    },
+    'field.combobox': {
+        description: 'Picklist combobox of a form field',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-combobox[label="${label}"]` },
+            { selector: ({ label }: Label) => `lightning-picklist[data-field="${label}"]` },
+            { selector: ({ label }: Label) => `//label[contains(text(),"${label}")]/ancestor::lightning-combobox` },
+            { selector: ({ label }: Label) => `//span[contains(text(),"${label}")]/ancestor::lightning-combobox` },
+            { selector: ({ label }: Label) => `div.slds-form-element:has(label:has-text("${label}")) lightning-base-combobox` },
+        ],
+    },
+    'combobox.trigger': {
+        description: 'Element inside a combobox that opens its dropdown',
+        strategies: [
+            { selector: 'button' },
+            { selector: 'input[role="combobox"]' },
+            { selector: '[role="combobox"]' },
+        ],
+    },
+    'combobox.option': {
+        description: 'Option in an open combobox dropdown',
+        strategies: [
+            { selector: ({ value }: Value) => `lightning-base-combobox-item[data-value="${value}"]` },
+            { selector: ({ value }: Value) => `[role="option"]:has-text("${value}")` },
+        ],
+    },
+    'field.lookup': {
+        description: 'Search input of a lookup field',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-lookup[label="${label}"] input` },
+            { selector: ({ label }: Label) => `lightning-input-field[data-field="${label}"] lightning-lookup input` },
+            { selector: ({ label }: Label) => `force-lookup:has(label:has-text("${label}")) input` },
+            { selector: ({ label }: Label) => `//label[contains(text(),"${label}")]/ancestor::lightning-grouped-combobox//input` },
+            { selector: ({ label }: Label) => `label:has-text("${label}") >> xpath=following::input[1]` },
+        ],
+    },
+    'lookup.result': {
+        description: 'Search result in an open lookup dropdown',
+        strategies: [
+            { selector: ({ value }: Value) => `lightning-base-combobox-item:has-text("${value}")` },
+            { selector: ({ value }: Value) => `[role="option"]:has-text("${value}")` },
+        ],
+    },
+    'field.dateInput': {
+        description: 'Date input of a form field; text input strategies are used when none matches',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-input[label="${label}"] input` },
+            { selector: ({ label }: Label) => `lightning-datepicker[label="${label}"] input` },
+            { selector: ({ label }: Label) => `lightning-datepicker:has(label:has-text("${label}")) input` },
+        ],
+    },
+    'field.datetimeDate': {
+        description: 'Date half of a date/time form field',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-input[field-label="${label}"] lightning-datepicker input` },
+            { selector: ({ label }: Label) => `fieldset:has(legend:has-text("${label}")) lightning-datepicker input` },
+        ],
+    },
+    'field.datetimeTime': {
+        description: 'Time half of a date/time form field',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-input[field-label="${label}"] lightning-timepicker input` },
+            { selector: ({ label }: Label) => `fieldset:has(legend:has-text("${label}")) lightning-timepicker input` },
+        ],
+    },
+    'field.checkbox': {
+        description: 'Checkbox of a form field',
+        strategies: [
+            { selector: ({ label }: Label) => `lightning-input[field-label="${label}"] input[type="checkbox"]` },
+            { selector: ({ label }: Label) => `lightning-input:has(label:has-text("${label}")) input[type="checkbox"]` },
+        ],
+    },
+    'field.outputValue': {
+        description: 'Displayed value of a field on a record page',
+        strategies: [
+            { selector: ({ label }: Label) => `force-record-output-field:has(span:text-is("${label}")) lightning-formatted-text` },
+            { selector: ({ label }: Label) => `force-record-output-field:has(span:text-is("${label}")) lightning-formatted-number` },
+            { selector: ({ label }: Label) => `force-record-output-field:has(span:text-is("${label}")) a` },
+            { selector: ({ label }: Label) => `force-record-output-field:has(span:text-is("${label}")) lightning-formatted-url` },
+            { selector: ({ label }: Label) => `records-record-layout-item[field-label="${label}"] lightning-formatted-text` },
+            { selector: ({ label }: Label) => `records-record-layout-item[field-label="${label}"] lightning-formatted-number` },
+            { selector: ({ label }: Label) => `div.slds-form-element:has(span:has-text("${label}")) .slds-form-element__static` },
+        ],
+    },
+    'field.editPencil': {
+        description: 'Inline-edit pencil of a field on a record page, or an enabled input in edit mode',
+        strategies: [
+            { selector: ({ label }: Label) => `force-record-output-field:has(span:text-is("${label}")) button[title="Edit"]` },
+            { selector: ({ label }: Label) => `records-record-layout-item[field-label="${label}"] button` },
+            { selector: ({ label }: Label) => `lightning-input[label="${label}"]:not([disabled])` },
+        ],
+    },
+    'inlineEdit.pencil': {
+        description: 'Inline-edit pencil of a field on a record page; absent when the user cannot edit the field',
+        strategies: [
+            { selector: ({ label }: Label) => `records-record-layout-item[field-label="${label}"] button.inline-edit-trigger` },
+            { selector: ({ label }: Label) => `button[title="Edit ${label}"]` },
+            { selector: ({ label }: Label) => `force-record-output-field:has(span:text-is("${label}")) button[title="Edit"]` },
+        ],
+    },
+    'inlineEdit.saveButton': {
+        description: 'Save button of the docked footer a record page or list view shows while editing inline',
+        strategies: [
+            { selector: '.slds-docked-form-footer button[name="SaveEdit"]' },
+            { selector: 'records-record-edit-footer button[name="SaveEdit"]' },
+            { selector: 'lightning-primitive-datatable-status-bar button:text-is("Save")' },
+        ],
+    },
+    'inlineEdit.cancelButton': {
+        description: 'Cancel button of the inline edit footer',
+        strategies: [
+            { selector: '.slds-docked-form-footer button[name="CancelEdit"]' },
+            { selector: 'records-record-edit-footer button[name="CancelEdit"]' },
+            { selector: 'lightning-primitive-datatable-status-bar button:text-is("Cancel")' },
+        ],
+    },
+    'inlineEdit.error': {
+        description: 'Error summary shown when an inline edit cannot be saved',
+        strategies: [
+            { selector: 'records-record-edit-error-header' },
+            { selector: '.slds-docked-form-footer .slds-popover_error' },
+            { selector: 'records-record-layout-item .slds-form-element__help' },
+        ],
+    },
+    'listView.newButton': {
+        description: 'New button on a list view, related list or object home',
+        strategies: [
+            { selector: 'button:has-text("New")' },
+            { selector: 'a[title="New"]' },
+            { selector: 'lightning-button:has-text("New")' },
+        ],
+    },
+    'listView.newButtonExact': {
+        description: 'New button labelled exactly "New", so "New Note" and the like do not count as create access',
+        strategies: [
+            { selector: 'a[title="New"]' },
+            { selector: 'button[name="New"]' },
+            { selector: 'lightning-button:has(button:text-is("New"))' },
+        ],
+    },
+    'listView.picker': {
+        description: 'List view switcher in the list view header',
+        strategies: [
+            { selector: 'button[title^="Select a List View"]' },
+            { selector: 'force-list-view-manager-header a.triggerLink' },
+        ],
+    },
+    'listView.pickerOption': {
+        description: 'List view in the open switcher, by label',
+        strategies: [
+            { selector: ({ label }: Label) => `[role="option"]:has(span:text-is("${label}"))` },
+            { selector: ({ label }: Label) => `li.forceVirtualAutocompleteMenuOption a[title="${label}"]` },
+        ],
+    },
+    'listView.currentName': {
+        description: 'Label of the list view that is open',
+        strategies: [
+            { selector: 'force-list-view-manager-header .triggerLinkText' },
+            { selector: 'lst-list-view-manager-header h1 span[title]' },
+        ],
+    },
+    'listView.search': {
+        description: 'Search box of a list view',
+        strategies: [
+            { selector: 'force-list-view-manager-search-bar input[type="search"]' },
+            { selector: 'input[name$="-search-input"]' },
+        ],
+    },
+    'listView.itemCount': {
+        description: 'Status line under the list view title, e.g. "50+ items • Sorted by Name"',
+        strategies: [
+            { selector: 'force-list-view-manager-status-info' },
+            { selector: '.countSortedByFilteredBy' },
+        ],
+    },
+    'listView.grid': {
+        description: 'Table of a list view',
+        strategies: [
+            { selector: 'lightning-datatable table' },
+            { selector: 'table.slds-table' },
+        ],
+    },
+    'listView.row': {
+        description: 'Row of a list view by the record name it links',
+        strategies: [
+            { selector: ({ name }: { name: string }) => `tbody tr:has(a[title="${name}"])` },
+            { selector: ({ name }: { name: string }) => `tbody tr:has(a:text-is("${name}"))` },
+        ],
+    },
+    'listView.columnHeader': {
+        description: 'Column header of a list view by its label',
+        strategies: [
+            { selector: ({ label }: Label) => `thead th[aria-label="${label}"]` },
+            { selector: ({ label }: Label) => `thead th[title="${label}"]` },
+            { selector: ({ label }: Label) => `thead th:has(span.slds-truncate[title="${label}"])` },
+        ],
+    },
+    'listView.sortToggle': {
+        description: 'Link in a column header that sorts by the column',
+        strategies: [
+            { selector: 'a.slds-th__action' },
+            { selector: 'a.toggle' },
+        ],
+    },
+    'listView.rowCheckbox': {
+        description: 'Selection checkbox of a list view row',
+        strategies: [
+            { selector: 'input[type="checkbox"]' },
+        ],
+    },
+    'listView.rowCheckboxLabel': {
+        description: 'Visible box of the row checkbox; the input itself is styled away',
+        strategies: [
+            { selector: '.slds-checkbox_faux' },
+            { selector: 'label.slds-checkbox' },
+        ],
+    },
+    'listView.action': {
+        description: 'List view button for the selected rows, e.g. Change Owner',
+        strategies: [
+            { selector: ({ action }: { action: string }) => `force-list-view-manager-button-bar button:text-is("${action}")` },
+            { selector: ({ action }: { action: string }) => `force-list-view-manager-button-bar a[title="${action}"]` },
+        ],
+    },
+    'listView.actionMenu': {
+        description: 'Overflow menu of the list view buttons',
+        strategies: [
+            { selector: 'force-list-view-manager-button-bar lightning-button-menu button' },
+        ],
+    },
+    'listView.actionMenuItem': {
+        description: 'List view action in the open overflow menu',
+        strategies: [
+            { selector: ({ action }: { action: string }) => `lightning-menu-item[title="${action}"]` },
+            { selector: ({ action }: { action: string }) => `[role="menuitem"]:has-text("${action}")` },
+        ],
+    },
+    'listView.cellEditButton': {
+        description: 'Inline-edit pencil of a list view cell, by column label; absent when the user cannot edit the field',
+        strategies: [
+            { selector: ({ label }: Label) => `td[data-label="${label}"] button.slds-cell-edit__button` },
+            { selector: ({ label }: Label) => `td[data-label="${label}"] button[title^="Edit"]` },
+        ],
+    },
+    'listView.cellEditor': {
+        description: 'Popover editing one list view cell',
+        strategies: [
+            { selector: 'section.slds-popover_edit' },
+            { selector: 'lightning-primitive-datatable-iedit-panel' },
+        ],
+    },
+    'listView.cellEditCombobox': {
+        description: 'Picklist in the cell editor',
+        strategies: [
+            { selector: 'lightning-combobox' },
+            { selector: '[role="combobox"]' },
+        ],
+    },
+    'listView.cellEditInput': {
+        description: 'Text input in the cell editor',
+        strategies: [
+            { selector: 'input:not([type="checkbox"])' },
+            { selector: 'textarea' },
+        ],
+    },
+    'modal.container': {
+        description: 'New/Edit record modal',
+        strategies: [
+            { selector: '.modal-container' },
+            { selector: 'records-record-layout-event-broker' },
+            { selector: '.slds-modal' },
+        ],
+    },
+    'modal.deleteConfirm': {
+        description: 'Delete button of the delete confirmation dialog',
+        strategies: [
+            { selector: '.modal-container button:has-text("Delete")' },
+            { selector: '.slds-modal button[title="Delete"]' },
+        ],
+    },
+    'form.saveButton': {
+        description: 'Save button of a record form, not Save & New',
+        strategies: [
+            { selector: 'button[name="SaveEdit"]:has-text("Save")' },
+            { selector: 'button.slds-button:has-text("Save"):not(:has-text("Save &"))' },
+            { selector: 'lightning-button:has-text("Save"):not(:has-text("Save &"))' },
+        ],
+    },
+    'record.editButton': {
+        description: 'Edit button in the record page highlights panel',
+        strategies: [
+            { selector: 'button[name="Edit"]' },
+            { selector: 'lightning-button:has-text("Edit")' },
+            { selector: 'a[title="Edit"]' },
+            { selector: 'a[data-target-reveals*="Edit"]' },
+        ],
+    },
+    'record.deleteButton': {
+        description: 'Delete button in the record page highlights panel, when it is not in the overflow menu',
+        strategies: [
+            { selector: 'runtime_platform_actions-actions-ribbon button[name="Delete"]' },
+        ],
+    },
+    'record.actionMenu': {
+        description: 'Overflow menu of the record page highlights panel',
+        strategies: [
+            { selector: 'runtime_platform_actions-actions-ribbon lightning-button-menu button' },
+            { selector: '[data-target-reveals*="action"]' },
+        ],
+    },
+    'record.actionMenuItem': {
+        description: 'Action in the open overflow menu',
+        strategies: [
+            { selector: ({ action }: { action: string }) => `runtime_platform_actions-action-renderer a[title="${action}"]` },
+            { selector: ({ action }: { action: string }) => `lightning-menu-item[title="${action}"]` },
+        ],
+    },
+    'record.relatedTab': {
+        description: 'Related tab of a record page',
+        strategies: [
+            { selector: 'a[data-label="Related"]' },
+            { selector: 'li.uiTabBar__item:has-text("Related")' },
+        ],
+    },
+    'relatedList.card': {
+        description: 'Related list card on a record page, by its title or relationship name (the View All link names it)',
+        strategies: [
+            { selector: ({ list }: { list: string }) => `lst-related-list-single-container:has(h2 span[title="${list}"])` },
+            { selector: ({ list }: { list: string }) => `lst-related-list-single-container:has(a[href*="/related/${list}/view"])` },
+            { selector: ({ list }: { list: string }) => `article.slds-card:has(h2 span[title="${list}"])` },
+        ],
+    },
+    'relatedList.title': {
+        description: 'Title of a related list card with its count, e.g. "Opportunities (3)"',
+        strategies: [
+            { selector: 'h2.slds-card__header-title' },
+            { selector: '.slds-card__header h2' },
+        ],
+    },
+    'relatedList.row': {
+        description: 'Row or tile of a related list by the record name it links',
+        strategies: [
+            { selector: ({ name }: { name: string }) => `tbody tr:has(a[title="${name}"])` },
+            { selector: ({ name }: { name: string }) => `tbody tr:has(a:text-is("${name}"))` },
+            { selector: ({ name }: { name: string }) => `.slds-tile:has(.slds-tile__title a:text-is("${name}"))` },
+        ],
+    },
+    'relatedList.recordLink': {
+        description: 'Link to the record of a related list row, by its name',
+        strategies: [
+            { selector: ({ name }: { name: string }) => `a[title="${name}"]` },
+            { selector: ({ name }: { name: string }) => `a:text-is("${name}")` },
+        ],
+    },
+    'relatedList.rowActionMenu': {
+        description: 'Row action menu of a related list row or tile',
+        strategies: [
+            { selector: 'lightning-primitive-cell-actions button' },
+            { selector: 'lightning-button-menu button' },
+            { selector: 'a.rowActionsPlaceHolder' },
+        ],
+    },
+    'relatedList.rowAction': {
+        description: 'Row action in the open row action menu, e.g. Edit or Delete',
+        strategies: [
+            { selector: ({ action }: { action: string }) => `lightning-menu-item:has(span[title="${action}"])` },
+            { selector: ({ action }: { action: string }) => `[role="menuitem"]:text-is("${action}")` },
+            { selector: ({ action }: { action: string }) => `a.forceActionLink[title="${action}"]` },
+        ],
+    },
+    'relatedList.viewAll': {
+        description: 'View All link in the footer of a related list card',
+        strategies: [
+            { selector: 'a:has(span.view-all-label)' },
+            { selector: 'a.slds-card__footer' },
+        ],
+    },
+} satisfies Record<string, LocatorDefinition<never>>;
+
+export type LocatorKey = keyof typeof definitions;
+
+export const locators = new LocatorRegistry(definitions);
+
+export default locators;
@@ -0,0 +1,453 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join, relative } from 'path';
+import { SalesforceApiUtils } from './salesforce-api';
+import { decodeXml, xmlBlocks, xmlValue } from './metadata-xml';
+import { soql } from './soql-builder';
+
+/** An <objectPermissions> entry of a permission set */
+export interface SourceObjectPermission {
+    object: string;
+    allowCreate: boolean;
+    allowRead: boolean;
+    allowEdit: boolean;
+    allowDelete: boolean;
+    viewAllRecords: boolean;
+    modifyAllRecords: boolean;
+}
+
+/** A <fieldPermissions> entry of a permission set; field is Object.Field */
+export interface SourceFieldPermission {
+    field: string;
+    readable: boolean;
+    editable: boolean;
+}
+
+export interface SourcePermissionSet {
+    name: string;
+    label: string;
+    description: string | null;
+    objectPermissions: SourceObjectPermission[];
+    fieldPermissions: SourceFieldPermission[];
+    file: string;
+}
+
+/** A *.field-meta.xml; type and label are only set for custom fields and retrieved standard lookups/picklists */
+export interface SourceField {
+    object: string;
+    name: string;
+    label?: string;
+    /** Metadata API type: Number, Text, Picklist, Lookup, ... */
+    type?: string;
+    length?: number;
+    precision?: number;
+    scale?: number;
+    referenceTo?: string;
+    file: string;
+}
+
+export interface SourceLayout {
+    name: string;
+    object: string;
+    /** API names of the fields placed on the layout */
+    fields: string[];
+    file: string;
+}
+
+export interface MetadataSource {
+    permissionSets: SourcePermissionSet[];
+    fields: SourceField[];
+    layouts: SourceLayout[];
+}
+
+export type DriftKind = 'missing' | 'changed' | 'unexpected';
+
+/**
+ * One difference between force-app and the org:
+ * - missing: declared in force-app, not in the org
+ * - changed: in both, with a different value for `property`
+ * - unexpected: granted in the org, not declared in force-app
+ */
+export interface MetadataDrift {
+    type: 'PermissionSet' | 'ObjectPermissions' | 'FieldPermissions' | 'CustomField' | 'LayoutItem';
+    /** The component the difference is in: a permission set, Object.Field or layout name */
+    component: string;
+    /** What in the component differs: the object or field a permission is for */
+    member?: string;
+    kind: DriftKind;
+    /** The org record field that differs, e.g. PermissionsEdit or DataType */
+    property?: string;
+    expected?: string | boolean | null;
+    actual?: string | boolean | null;
+    /** force-app file the expectation comes from, relative to the project root */
+    file: string;
+}
+
+interface OrgPermissionSet {
+    Id: string;
+    Name: string;
+    Label: string;
+    Description: string | null;
+}
+
+interface OrgObjectPermission {
+    ParentId: string;
+    SobjectType: string;
+    PermissionsCreate: boolean;
+    PermissionsRead: boolean;
+    PermissionsEdit: boolean;
+    PermissionsDelete: boolean;
+    PermissionsViewAllRecords: boolean;
+    PermissionsModifyAllRecords: boolean;
+}
+
+interface OrgFieldPermission {
+    ParentId: string;
+    Field: string;
+    PermissionsRead: boolean;
+    PermissionsEdit: boolean;
+}
+
+interface OrgFieldDefinition {
+    QualifiedApiName: string;
+    Label: string;
+    DataType: string;
+}
+
+const ROOT = join(__dirname, '../..');
+const DEFAULT_SOURCE_DIR = join(ROOT, 'force-app/main/default');
+
+const OBJECT_PERMISSIONS: [keyof SourceObjectPermission, keyof OrgObjectPermission][] = [
+    ['allowCreate', 'PermissionsCreate'],
+    ['allowRead', 'PermissionsRead'],
+    ['allowEdit', 'PermissionsEdit'],
+    ['allowDelete', 'PermissionsDelete'],
+    ['viewAllRecords', 'PermissionsViewAllRecords'],
+    ['modifyAllRecords', 'PermissionsModifyAllRecords'],
+];
+
+/** Metadata API field types as FieldDefinition.DataType names them, before any (length) suffix */
+const DATA_TYPES: Record<string, string> = {
+    AutoNumber: 'Auto Number',
+    Checkbox: 'Checkbox',
+    Currency: 'Currency',
+    Date: 'Date',
+    DateTime: 'Date/Time',
+    Email: 'Email',
+    EncryptedText: 'Text (Encrypted)',
+    Html: 'Rich Text Area',
+    Lookup: 'Lookup',
+    LongTextArea: 'Long Text Area',
+    MasterDetail: 'Master-Detail',
+    MultiselectPicklist: 'Picklist (Multi-Select)',
+    Number: 'Number',
+    Percent: 'Percent',
+    Phone: 'Phone',
+    Picklist: 'Picklist',
+    Text: 'Text',
+    TextArea: 'Text Area',
+    Time: 'Time',
+    Url: 'URL',
+};
+
+function bool(xml: string, tag: string): boolean {
+    return xmlValue(xml, tag) === 'true';
+}
+
+function number(xml: string, tag: string): number | undefined {
+    const value = xmlValue(xml, tag);
+    return value === undefined ? undefined : Number(value);
+}
+
+export function parsePermissionSet(xml: string, name: string, file = ''): SourcePermissionSet {
+    const description = xmlValue(xml, 'description');
+    return {
+        name,
+        label: decodeXml(xmlValue(xml, 'label') ?? name),
+        description: description === undefined ? null : decodeXml(description),
+        objectPermissions: xmlBlocks(xml, 'objectPermissions').map(block => ({
+            object: xmlValue(block, 'object') ?? '',
+            allowCreate: bool(block, 'allowCreate'),
+            allowRead: bool(block, 'allowRead'),
+            allowEdit: bool(block, 'allowEdit'),
+            allowDelete: bool(block, 'allowDelete'),
+            viewAllRecords: bool(block, 'viewAllRecords'),
+            modifyAllRecords: bool(block, 'modifyAllRecords'),
+        })),
+        fieldPermissions: xmlBlocks(xml, 'fieldPermissions').map(block => ({
+            field: xmlValue(block, 'field') ?? '',
+            readable: bool(block, 'readable'),
+            editable: bool(block, 'editable'),
+        })),
+        file,
+    };
+}
+
+export function parseSourceField(xml: string, object: string, file = ''): SourceField {
+    const name = xmlValue(xml, 'fullName');
+    if (!name) throw new Error(`${file || 'field-meta.xml'} has no <fullName>`);
+    const label = xmlValue(xml, 'label');
+    const type = xmlValue(xml, 'type');
+    const length = number(xml, 'length');
+    const precision = number(xml, 'precision');
+    const scale = number(xml, 'scale');
+    const referenceTo = xmlValue(xml, 'referenceTo');
+    return {
+        object,
+        name,
+        ...(label && { label: decodeXml(label) }),
+        ...(type && { type }),
+        ...(length !== undefined && { length }),
+        ...(precision !== undefined && { precision }),
+        ...(scale !== undefined && { scale }),
+        ...(referenceTo && { referenceTo }),
+        file,
+    };
+}
+
+/**
+ * Layout file names are <Object>-<Layout Name>, with special characters percent-encoded
+ */
+export function parseLayout(xml: string, fileName: string, file = ''): SourceLayout {
+    const fullName = decodeURIComponent(fileName);
+    const separator = fullName.indexOf('-');
+    return {
+        name: fullName,
+        object: fullName.slice(0, separator),
+        fields: xmlBlocks(xml, 'layoutItems').map(item => xmlValue(item, 'field')).filter((field): field is string => !!field),
+        file,
+    };
+}
+
+function metadataFiles(dir: string, suffix: string): string[] {
+    return existsSync(dir) ? readdirSync(dir).filter(file => file.endsWith(suffix)).sort() : [];
+}
+
+/**
+ * Read permission sets, object fields and layouts from a force-app/main/default directory
+ */
+export function readMetadataSource(sourceDir: string = DEFAULT_SOURCE_DIR): MetadataSource {
+    const read = (path: string) => ({ xml: readFileSync(path, 'utf8'), file: relative(ROOT, path) });
+    const permissionSetsDir = join(sourceDir, 'permissionsets');
+    const objectsDir = join(sourceDir, 'objects');
+    const layoutsDir = join(sourceDir, 'layouts');
+
+    const permissionSets = metadataFiles(permissionSetsDir, '.permissionset-meta.xml').map(fileName => {
+        const { xml, file } = read(join(permissionSetsDir, fileName));
+        return parsePermissionSet(xml, basename(fileName, '.permissionset-meta.xml'), file);
+    });
+
+    const fields = (existsSync(objectsDir) ? readdirSync(objectsDir).sort() : []).flatMap(object => {
+        const fieldsDir = join(objectsDir, object, 'fields');
+        return metadataFiles(fieldsDir, '.field-meta.xml').map(fileName => {
+            const { xml, file } = read(join(fieldsDir, fileName));
+            return parseSourceField(xml, object, file);
+        });
+    });
+
+    const layouts = metadataFiles(layoutsDir, '.layout-meta.xml').map(fileName => {
+        const { xml, file } = read(join(layoutsDir, fileName));
+        return parseLayout(xml, basename(fileName, '.layout-meta.xml'), file);
+    });
+
+    return { permissionSets, fields, layouts };
+}
+
+/**
+ * FieldDefinition.DataType a custom field should have, e.g. Number(18, 0) or Lookup(Account).
+ * Only the type name is returned when the source does not give the size.
+ */
+export function expectedDataType(field: SourceField): string | undefined {
+    const base = field.type && DATA_TYPES[field.type];
+    if (!base) return undefined;
+    if (field.precision !== undefined && ['Number', 'Currency', 'Percent'].includes(field.type!)) {
+        const scale = field.scale ?? 0;
+        return `${base}(${field.precision - scale}, ${scale})`;
+    }
+    if (field.length !== undefined && ['Text', 'TextArea', 'LongTextArea', 'Html', 'EncryptedText'].includes(field.type!)) {
+        return `${base}(${field.length})`;
+    }
+    if (field.referenceTo && ['Lookup', 'MasterDetail'].includes(field.type!)) {
+        return `${base}(${field.referenceTo})`;
+    }
+    return base;
+}
+
+function dataTypeMatches(expected: string, actual: string): boolean {
+    return expected.includes('(') ? expected === actual : actual === expected || actual.startsWith(`${expected}(`);
+}
+
+/**
+ * Compares force-app metadata with what is deployed: permission sets and their object and field
+ * permissions, custom fields (label and type), and the fields page layouts place. Run it after
+ * scripts/deploy-config.sh, or as a gate before the suite (see tests/metadata-drift.setup.ts).
+ *
+ *   const drift = await new MetadataDriftDetector(sfApi).detect();
+ *   if (drift.length) console.log(formatDriftReport(drift));
+ */
+export class MetadataDriftDetector {
+    private readonly source: MetadataSource;
+
+    constructor(private sfApi: SalesforceApiUtils, source: MetadataSource | string = DEFAULT_SOURCE_DIR) {
+        this.source = typeof source === 'string' ? readMetadataSource(source) : source;
+    }
+
+    async detect(): Promise<MetadataDrift[]> {
+        return [...await this.permissionSetDrift(), ...await this.fieldDrift()];
+    }
+
+    private async permissionSetDrift(): Promise<MetadataDrift[]> {
+        const drift: MetadataDrift[] = [];
+        if (!this.source.permissionSets.length) return drift;
+
+        const orgSets = await this.sfApi.query(
+            soql<OrgPermissionSet>('PermissionSet')
+                .select('Id', 'Name', 'Label', 'Description')
+                .where('Name', 'IN', this.source.permissionSets.map(set => set.name))
+        );
+        const ids = orgSets.map(set => set.Id);
+        const objectRows = ids.length ? await this.sfApi.query(
+            soql<OrgObjectPermission>('ObjectPermissions')
+                .select('ParentId', 'SobjectType', ...OBJECT_PERMISSIONS.map(([, column]) => column))
+                .where('ParentId', 'IN', ids)
+        ) : [];
+        const fieldRows = ids.length ? await this.sfApi.query(
+            soql<OrgFieldPermission>('FieldPermissions')
+                .select('ParentId', 'Field', 'PermissionsRead', 'PermissionsEdit')
+                .where('ParentId', 'IN', ids)
+        ) : [];
+
+        for (const set of this.source.permissionSets) {
+            const base = { component: set.name, file: set.file };
+            const orgSet = orgSets.find(candidate => candidate.Name === set.name);
+            if (!orgSet) {
+                drift.push({ ...base, type: 'PermissionSet', kind: 'missing' });
+                continue;
+            }
+            if (orgSet.Label !== set.label) {
+                drift.push({ ...base, type: 'PermissionSet', kind: 'changed', property: 'Label', expected: set.label, actual: orgSet.Label });
+            }
+            if ((orgSet.Description ?? null) !== set.description) {
+                drift.push({ ...base, type: 'PermissionSet', kind: 'changed', property: 'Description', expected: set.description, actual: orgSet.Description ?? null });
+            }
+
+            const objects = objectRows.filter(row => row.ParentId === orgSet.Id);
+            for (const permission of set.objectPermissions) {
+                const row = objects.find(candidate => candidate.SobjectType === permission.object);
+                for (const [property, column] of OBJECT_PERMISSIONS) {
+                    const expected = permission[property] as boolean;
+                    const actual = !!row?.[column];
+                    if (expected !== actual) {
+                        drift.push({ ...base, type: 'ObjectPermissions', member: permission.object, kind: 'changed', property: column, expected, actual });
+                    }
+                }
+            }
+            for (const row of objects) {
+                if (set.objectPermissions.some(permission => permission.object === row.SobjectType)) continue;
+                for (const [, column] of OBJECT_PERMISSIONS) {
+                    if (row[column]) drift.push({ ...base, type: 'ObjectPermissions', member: row.SobjectType, kind: 'unexpected', property: column, expected: false, actual: true });
+                }
+            }
+
+            const fields = fieldRows.filter(row => row.ParentId === orgSet.Id);
+            for (const permission of set.fieldPermissions) {
+                const row = fields.find(candidate => candidate.Field === permission.field);
+                for (const [expected, actual, property] of [
+                    [permission.readable, !!row?.PermissionsRead, 'PermissionsRead'],
+                    [permission.editable, !!row?.PermissionsEdit, 'PermissionsEdit'],
+                ] as const) {
+                    if (expected !== actual) {
+                        drift.push({ ...base, type: 'FieldPermissions', member: permission.field, kind: 'changed', property, expected, actual });
+                    }
+                }
+            }
+            for (const row of fields) {
+                if (set.fieldPermissions.some(permission => permission.field === row.Field)) continue;
+                if (row.PermissionsRead) drift.push({ ...base, type: 'FieldPermissions', member: row.Field, kind: 'unexpected', property: 'PermissionsRead', expected: false, actual: true });
+                if (row.PermissionsEdit) drift.push({ ...base, type: 'FieldPermissions', member: row.Field, kind: 'unexpected', property: 'PermissionsEdit', expected: false, actual: true });
+            }
+        }
+        return drift;
+    }
+
+    private async fieldDrift(): Promise<MetadataDrift[]> {
+        const drift: MetadataDrift[] = [];
+        const objects = [...new Set([
+            ...this.source.fields.map(field => field.object),
+            ...this.source.layouts.map(layout => layout.object),
+        ])].sort();
+
+        for (const object of objects) {
+            // FieldDefinition has to be filtered on a single object
+            const definitions = await this.sfApi.query(
+                soql<OrgFieldDefinition>('FieldDefinition')
+                    .select('QualifiedApiName', 'Label', 'DataType')
+                    .where('EntityDefinition.QualifiedApiName', '=', object)
+            );
+            const definition = (name: string) => definitions.find(candidate => candidate.QualifiedApiName.toLowerCase() === name.toLowerCase());
+
+            for (const field of this.source.fields.filter(candidate => candidate.object === object)) {
+                const base = { type: 'CustomField' as const, component: `${object}.${field.name}`, file: field.file };
+                const orgField = definition(field.name);
+                if (!orgField) {
+                    drift.push({ ...base, kind: 'missing' });
+                    continue;
+                }
+                // Standard fields' XML carries tracking settings only; their label and type belong to Salesforce
+                if (!field.name.endsWith('__c')) continue;
+                if (field.label && field.label !== orgField.Label) {
+                    drift.push({ ...base, kind: 'changed', property: 'Label', expected: field.label, actual: orgField.Label });
+                }
+                const dataType = expectedDataType(field);
+                if (dataType && !dataTypeMatches(dataType, orgField.DataType)) {
+                    drift.push({ ...base, kind: 'changed', property: 'DataType', expected: dataType, actual: orgField.DataType });
+                }
+            }
+
+            for (const layout of this.source.layouts.filter(candidate => candidate.object === object)) {
+                for (const field of layout.fields) {
+                    if (definition(field)) continue;
+                    drift.push({ type: 'LayoutItem', component: layout.name, member: `${object}.${field}`, kind: 'missing', file: layout.file });
+                }
+            }
+        }
+        return drift;
+    }
+}
+
+function formatValue(value: string | boolean | null | undefined): string {
+    return value === null || value === undefined ? '(none)' : typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+/**
+ * One line per difference, grouped by the force-app file it comes from
+ */
+export function formatDriftReport(drift: MetadataDrift[]): string {
+    if (!drift.length) return 'force-app metadata matches the org';
+
+    const lines = [`${drift.length} difference${drift.length === 1 ? '' : 's'} between force-app and the org:`];
+    for (const file of [...new Set(drift.map(entry => entry.file))]) {
+        lines.push('', file);
+        for (const entry of drift.filter(candidate => candidate.file === file)) {
+            const subject = [entry.type, entry.component, entry.member].filter(Boolean).join(' ');
+            if (entry.kind === 'missing') {
+                lines.push(`  missing     ${subject}: not in the org`);
+            } else {
+                lines.push(`  ${entry.kind.padEnd(10)}  ${subject} ${entry.property}: ` +
+                    `force-app ${formatValue(entry.expected)}, org ${formatValue(entry.actual)}`);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Thrown by the drift gate so the run stops before any test uses the drifted org
+ */
+export class MetadataDriftError extends Error {
+    constructor(readonly drift: MetadataDrift[]) {
+        super(`${formatDriftReport(drift)}\n\nDeploy with npm run deploy, or set SF_FAIL_ON_DRIFT=false to run anyway.`);
+        this.name = 'MetadataDriftError';
+    }
+}
+
+export default MetadataDriftDetector;
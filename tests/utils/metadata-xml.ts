@@ -0,0 +1,23 @@
+/**
+ * Just enough XML reading for the flat Metadata API files under force-app
+ * (*.field-meta.xml, *.permissionset-meta.xml, *.layout-meta.xml)
+ */
+
+/** Trimmed text of the first <tag> element, undefined when there is none */
+export function xmlValue(xml: string, tag: string): string | undefined {
+    return xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1]?.trim();
+}
+
+/** Inner XML of every <tag> element, e.g. each <fieldPermissions> of a permission set */
+export function xmlBlocks(xml: string, tag: string): string[] {
+    return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map(match => match[1]);
+}
+
+export function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,304 @@
+import { Page, Request } from '@playwright/test';
+import { config } from '../../config/environment';
+import { isLightningRequest, LightningNetwork, parseAuraActions } from './lightning-network';
+import { isSensitiveKey, parseSalesforceErrors } from './salesforce-errors';
+
+export type AuraActionState = 'SUCCESS' | 'ERROR' | 'INCOMPLETE' | 'ABORTED';
+
+/** An Aura action with the state the server returned for it */
+export interface RecordedAuraAction {
+    descriptor: string;
+    state: AuraActionState;
+    /** Server error messages, empty unless state is ERROR */
+    errors: string[];
+    /** Page the action came from: 'admin' or a persona name */
+    source: string;
+}
+
+/** One Aura or UI API request with its response, as recorded for the HAR */
+export interface RecordedExchange {
+    source: string;
+    startedAt: number;
+    duration: number;
+    method: string;
+    url: string;
+    requestHeaders: Record<string, string>;
+    postData: string | null;
+    status: number;
+    statusText: string;
+    responseHeaders: Record<string, string>;
+    responseBody: string;
+    actions: RecordedAuraAction[];
+}
+
+export interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+/** One request/response pair of a HAR 1.2 log, with the recorder's _source and _auraActions extensions */
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        queryString: HarNameValue[];
+        postData?: { mimeType: string; text: string };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        content: { size: number; mimeType: string; text: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: { send: number; wait: number; receive: number };
+    _source: string;
+    _auraActions: Omit<RecordedAuraAction, 'source'>[];
+}
+
+export interface Har {
+    log: {
+        version: '1.2';
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+}
+
+/**
+ * An Aura action came back in ERROR state, or a UI API write failed, and the test did not expect it
+ */
+export class AuraActionError extends Error {
+    constructor(readonly action: RecordedAuraAction) {
+        super(`${action.descriptor} failed on the server (${action.source}): ${action.errors.join('; ') || 'no message'}`);
+        this.name = 'AuraActionError';
+    }
+}
+
+const SENSITIVE_HEADER = /^(cookie|set-cookie|authorization|x-sfdc-session)$/i;
+const MAX_BODY_LENGTH = 100_000;
+
+/**
+ * Actions of an Aura response body in request order. The body is plain JSON, may carry a
+ * while(1); guard, or is an exception event in Aura's ERROR wrapper, which fails every action.
+ */
+export function parseAuraResponse(body: string, descriptors: string[]): Omit<RecordedAuraAction, 'source'>[] {
+    const exception = body.match(/^\s*\*\/([\s\S]*)\/\*ERROR\*\/\s*$/);
+    const json = (exception ? exception[1] : body).replace(/^\s*while\(1\);/, '');
+    let parsed: { actions?: { state?: string; error?: unknown[] }[]; message?: string; event?: { descriptor?: string } };
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        return [];
+    }
+
+    if (exception || !parsed.actions) {
+        const message = parsed.message || parsed.event?.descriptor?.replace('markup://', '') || 'Aura exception';
+        return descriptors.map(descriptor => ({ descriptor, state: 'ERROR', errors: [message] }));
+    }
+    return parsed.actions.map((action, index) => ({
+        descriptor: descriptors[index] ?? `action ${index + 1}`,
+        state: (action.state ?? 'SUCCESS') as AuraActionState,
+        errors: action.state === 'ERROR' ? (action.error ?? []).flatMap(auraErrorMessages) : [],
+    }));
+}
+
+/**
+ * Messages of one Aura error entry: the message itself, record UI output errors and field errors
+ */
+function auraErrorMessages(error: unknown): string[] {
+    if (!error || typeof error !== 'object') return [];
+    const entry = error as {
+        message?: string;
+        data?: { message?: string; output?: { errors?: { message?: string }[]; fieldErrors?: Record<string, { message?: string }[]> } };
+    };
+    const output = entry.data?.output;
+    const messages = [
+        entry.message,
+        entry.data?.message,
+        ...(output?.errors ?? []).map(outputError => outputError.message),
+        ...Object.entries(output?.fieldErrors ?? {}).flatMap(([field, fieldErrors]) =>
+            fieldErrors.map(fieldError => `${field}: ${fieldError.message}`)),
+    ];
+    return [...new Set(messages.filter((message): message is string => !!message))];
+}
+
+/**
+ * Records the Aura (/aura) and UI API (/ui-api/) traffic of the pages a test uses. An action in
+ * ERROR state that the test did not allow fails every Lightning wait on that page straight away
+ * (SalesforceUtils.waitForSpinners, waitForToast, ...) and fails the test at teardown if no wait
+ * was running; the traffic is attached to the report as a HAR.
+ *
+ *   networkRecorder.allowActionErrors('RecordUiController/ACTION$updateRecord'); // a validation rule test
+ */
+export class NetworkRecorder {
+    readonly exchanges: RecordedExchange[] = [];
+    readonly unexpectedErrors: AuraActionError[] = [];
+    private readonly allowed: (string | RegExp)[];
+    private readonly reads = new Set<Promise<void>>();
+
+    constructor(ignoredActionErrors: string[] = config.network.ignoredActionErrors) {
+        this.allowed = [...ignoredActionErrors];
+    }
+
+    /**
+     * Start recording a page's Lightning traffic; source names the page in errors and the HAR
+     */
+    record(page: Page, source: string): void {
+        const network = LightningNetwork.for(page);
+        const onDone = (request: Request) => {
+            if (!isLightningRequest(request.url())) return;
+            const read = this.capture(request, source, network).catch(() => { });
+            this.reads.add(read);
+            read.finally(() => this.reads.delete(read));
+        };
+        page.on('requestfinished', onDone);
+        page.on('requestfailed', onDone);
+    }
+
+    /**
+     * Expect ERROR states from actions matching the descriptor (substring or pattern) for the rest of the test
+     */
+    allowActionErrors(descriptor: string | RegExp): void {
+        this.allowed.push(descriptor);
+    }
+
+    get actions(): RecordedAuraAction[] {
+        return this.exchanges.flatMap(exchange => exchange.actions);
+    }
+
+    /**
+     * Wait for response bodies still being read
+     */
+    async settle(): Promise<void> {
+        await Promise.all([...this.reads]);
+    }
+
+    /**
+     * The recorded traffic as a HAR 1.2 log, with cookies, authorization headers and the Aura token masked
+     */
+    toHar(): Har {
+        return {
+            log: {
+                version: '1.2',
+                creator: { name: 'salesforce-playwright-network-recorder', version: '1.0' },
+                entries: [...this.exchanges].sort((a, b) => a.startedAt - b.startedAt).map(exchange => harEntry(exchange)),
+            },
+        };
+    }
+
+    private async capture(request: Request, source: string, network: LightningNetwork): Promise<void> {
+        const response = await request.response().catch(() => null);
+        const timing = request.timing();
+        const responseBody = response ? await response.text().catch(() => '') : '';
+        const postData = request.postData();
+
+        const exchange: RecordedExchange = {
+            source,
+            startedAt: timing.startTime > 0 ? timing.startTime : Date.now(),
+            duration: Math.max(timing.responseEnd, 0),
+            method: request.method(),
+            url: request.url(),
+            requestHeaders: request.headers(),
+            postData,
+            status: response?.status() ?? 0,
+            statusText: response?.statusText() ?? request.failure()?.errorText ?? '',
+            responseHeaders: response?.headers() ?? {},
+            responseBody,
+            actions: [],
+        };
+
+        const descriptors = parseAuraActions(postData).map(action => action.descriptor);
+        if (descriptors.length) {
+            exchange.actions = response
+                ? parseAuraResponse(responseBody, descriptors).map(action => ({ ...action, source }))
+                : descriptors.map(descriptor => ({ descriptor, state: 'INCOMPLETE', errors: [], source }));
+        } else if (response && exchange.method !== 'GET' && exchange.status >= 400) {
+            // A failed UI API write is a failed save just like an Aura action in ERROR state
+            exchange.actions = [{
+                descriptor: `${exchange.method} ${new URL(exchange.url).pathname}`,
+                state: 'ERROR',
+                errors: parseSalesforceErrors(responseBody).map(error => `${error.errorCode}: ${error.message}`),
+                source,
+            }];
+        }
+        this.exchanges.push(exchange);
+
+        for (const action of exchange.actions) {
+            if (action.state !== 'ERROR' || this.isAllowed(action.descriptor)) continue;
+            const error = new AuraActionError(action);
+            this.unexpectedErrors.push(error);
+            network.fail(error);
+        }
+    }
+
+    private isAllowed(descriptor: string): boolean {
+        return this.allowed.some(allowed => typeof allowed === 'string' ? descriptor.includes(allowed) : allowed.test(descriptor));
+    }
+}
+
+function harEntry(exchange: RecordedExchange): HarEntry {
+    const url = new URL(exchange.url);
+    const headers = (values: Record<string, string>) => Object.entries(values)
+        .map(([name, value]) => ({ name, value: SENSITIVE_HEADER.test(name) ? '[REDACTED]' : value }));
+    const postData = exchange.postData === null ? undefined : redactForm(exchange.postData);
+    const body = exchange.responseBody.length > MAX_BODY_LENGTH
+        ? `${exchange.responseBody.slice(0, MAX_BODY_LENGTH)}... [truncated ${exchange.responseBody.length - MAX_BODY_LENGTH} characters]`
+        : exchange.responseBody;
+
+    return {
+        startedDateTime: new Date(exchange.startedAt).toISOString(),
+        time: exchange.duration,
+        request: {
+            method: exchange.method,
+            url: exchange.url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: headers(exchange.requestHeaders),
+            queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+            postData: postData === undefined ? undefined : { mimeType: exchange.requestHeaders['content-type'] ?? '', text: postData },
+            headersSize: -1,
+            bodySize: postData?.length ?? 0,
+        },
+        response: {
+            status: exchange.status,
+            statusText: exchange.statusText,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: headers(exchange.responseHeaders),
+            content: { size: exchange.responseBody.length, mimeType: exchange.responseHeaders['content-type'] ?? '', text: body },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: exchange.responseBody.length,
+        },
+        cache: {},
+        timings: { send: 0, wait: exchange.duration, receive: 0 },
+        _source: exchange.source,
+        _auraActions: exchange.actions.map(action => ({ descriptor: action.descriptor, state: action.state, errors: action.errors })),
+    };
+}
+
+/**
+ * A form-encoded body with the Aura token and other credential-like parameters masked
+ */
+function redactForm(postData: string): string {
+    if (!postData.includes('=') || postData.trimStart().startsWith('{')) return postData;
+    const params = new URLSearchParams(postData);
+    for (const name of [...params.keys()]) {
+        if (isSensitiveKey(name)) params.set(name, '[REDACTED]');
+    }
+    return params.toString();
+}
+
+export default NetworkRecorder;
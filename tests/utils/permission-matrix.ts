@@ -0,0 +1,322 @@
+import { Page } from '@playwright/test';
+import { FieldAccess, PermissionMatrix, permissionMatrix, PersonaPermissions } from '../../config/permission-matrix';
+import { DescribeCache, SObjectDescribe } from './describe-cache';
+import { SalesforceApiUtils } from './salesforce-api';
+import { SalesforceNotFoundError, SalesforcePermissionError } from './salesforce-errors';
+import { SalesforceUtils } from './salesforce-utils';
+import { soql } from './soql-builder';
+
+export type Permission = 'create' | 'read' | 'edit' | 'delete';
+
+/**
+ * Where an actual permission was read: the user's ObjectPermissions/FieldPermissions,
+ * UserRecordAccess on a sample record, a describe made as the user, or the Lightning UI
+ */
+export type PermissionSource = 'permissions' | 'record' | 'describe' | 'ui';
+
+export interface PermissionCheck {
+    persona: string;
+    sObject: string;
+    /** Set for field-level security checks */
+    field?: string;
+    permission: Permission;
+    via: PermissionSource;
+    /** The exact permission that was read, e.g. FieldPermissions.PermissionsEdit */
+    source: string;
+    expected: boolean;
+    actual: boolean;
+    /** Permission sets and profiles that grant the permission (via 'permissions' only) */
+    grantedBy: string[];
+    pass: boolean;
+}
+
+export interface ApiVerifyOptions {
+    /** A record per sObject whose UserRecordAccess is checked against read/edit/delete */
+    records?: Record<string, string>;
+    /** An API client logged in as the persona, for describe-as-user checks */
+    asUser?: SalesforceApiUtils;
+}
+
+interface GrantingPermissionSet {
+    Id: string;
+    Name: string;
+    IsOwnedByProfile: boolean;
+    Profile: { Name: string } | null;
+}
+
+interface ObjectPermissionsRow {
+    ParentId: string;
+    SobjectType: string;
+    PermissionsCreate: boolean;
+    PermissionsRead: boolean;
+    PermissionsEdit: boolean;
+    PermissionsDelete: boolean;
+}
+
+interface FieldPermissionsRow {
+    ParentId: string;
+    SobjectType: string;
+    Field: string;
+    PermissionsRead: boolean;
+    PermissionsEdit: boolean;
+}
+
+interface UserRecordAccessRow {
+    RecordId: string;
+    HasReadAccess: boolean;
+    HasEditAccess: boolean;
+    HasDeleteAccess: boolean;
+}
+
+const OBJECT_PERMISSION_FIELDS: Record<Permission, keyof ObjectPermissionsRow> = {
+    create: 'PermissionsCreate',
+    read: 'PermissionsRead',
+    edit: 'PermissionsEdit',
+    delete: 'PermissionsDelete',
+};
+
+const RECORD_ACCESS_FIELDS: Partial<Record<Permission, keyof UserRecordAccessRow>> = {
+    read: 'HasReadAccess',
+    edit: 'HasEditAccess',
+    delete: 'HasDeleteAccess',
+};
+
+const DESCRIBE_FLAGS: Partial<Record<Permission, 'createable' | 'updateable' | 'deletable'>> = {
+    create: 'createable',
+    edit: 'updateable',
+    delete: 'deletable',
+};
+
+const PERMISSIONS: Permission[] = ['create', 'read', 'edit', 'delete'];
+
+function fieldExpectation(access: FieldAccess): Partial<Record<Permission, boolean>> {
+    return { read: access !== 'none', edit: access === 'edit' };
+}
+
+/**
+ * Checks a persona's actual access against the declarative matrix in config/permission-matrix.ts.
+ * Every expectation becomes one PermissionCheck per place it can be observed, so a failure names
+ * the exact permission (and the permission set granting it) that differs.
+ *
+ *   const verifier = new PermissionMatrixVerifier(sfApi);
+ *   const checks = await verifier.verifyApi('readOnlyPlatform', userId, { records: { Opportunity: oppId } });
+ *   expect(failedChecks(checks), formatPermissionGrid(checks)).toEqual([]);
+ */
+export class PermissionMatrixVerifier {
+    private readonly describe: DescribeCache;
+
+    constructor(private sfApi: SalesforceApiUtils, private matrix: PermissionMatrix = permissionMatrix) {
+        this.describe = new DescribeCache(sfApi);
+    }
+
+    expectationsFor(persona: string): PersonaPermissions {
+        const expectations = this.matrix[persona];
+        if (!expectations) {
+            throw new Error(`Persona "${persona}" is not in the permission matrix. Known personas: ${Object.keys(this.matrix).join(', ')}`);
+        }
+        return expectations;
+    }
+
+    /**
+     * Check the user's object and field permissions, record access and (with options.asUser) describe
+     */
+    async verifyApi(persona: string, userId: string, options: ApiVerifyOptions = {}): Promise<PermissionCheck[]> {
+        const expectations = this.expectationsFor(persona);
+        const checks: PermissionCheck[] = [];
+        const check = (partial: Omit<PermissionCheck, 'persona' | 'pass' | 'grantedBy'> & { grantedBy?: string[] }) =>
+            checks.push({ persona, grantedBy: [], ...partial, pass: partial.expected === partial.actual });
+
+        const permissionSets = await this.assignedPermissionSets(userId);
+        const parentIds = [...permissionSets.keys()];
+        const sObjects = Object.keys(expectations);
+        const objectRows = parentIds.length ? await this.sfApi.query(
+            soql<ObjectPermissionsRow>('ObjectPermissions')
+                .select('ParentId', 'SobjectType', 'PermissionsCreate', 'PermissionsRead', 'PermissionsEdit', 'PermissionsDelete')
+                .where('ParentId', 'IN', parentIds)
+                .where('SobjectType', 'IN', sObjects)
+        ) : [];
+        const withFields = sObjects.filter(sObject => expectations[sObject].fields);
+        const fieldRows = parentIds.length && withFields.length ? await this.sfApi.query(
+            soql<FieldPermissionsRow>('FieldPermissions')
+                .select('ParentId', 'SobjectType', 'Field', 'PermissionsRead', 'PermissionsEdit')
+                .where('ParentId', 'IN', parentIds)
+                .where('SobjectType', 'IN', withFields)
+        ) : [];
+        const granting = (rows: { ParentId: string }[]) => rows.map(row => permissionSets.get(row.ParentId) ?? row.ParentId);
+
+        for (const [sObject, access] of Object.entries(expectations)) {
+            const rows = objectRows.filter(row => row.SobjectType === sObject);
+            for (const permission of PERMISSIONS) {
+                const expected = access[permission];
+                if (expected === undefined) continue;
+                const column = OBJECT_PERMISSION_FIELDS[permission];
+                const grantedBy = granting(rows.filter(row => row[column]));
+                check({ sObject, permission, via: 'permissions', source: `ObjectPermissions.${column}`, expected, actual: grantedBy.length > 0, grantedBy });
+            }
+
+            for (const [field, fieldAccess] of Object.entries(access.fields ?? {})) {
+                const rowsForField = fieldRows.filter(row => row.Field === `${sObject}.${field}`);
+                for (const [permission, expected] of Object.entries(fieldExpectation(fieldAccess)) as [Permission, boolean][]) {
+                    const column = permission === 'read' ? 'PermissionsRead' : 'PermissionsEdit';
+                    const grantedBy = granting(rowsForField.filter(row => row[column]));
+                    check({ sObject, field, permission, via: 'permissions', source: `FieldPermissions.${column}`, expected, actual: grantedBy.length > 0, grantedBy });
+                }
+            }
+
+            const recordId = options.records?.[sObject];
+            if (recordId) {
+                const [recordAccess] = await this.sfApi.query(
+                    soql<UserRecordAccessRow>('UserRecordAccess')
+                        .select('RecordId', 'HasReadAccess', 'HasEditAccess', 'HasDeleteAccess')
+                        .where('UserId', '=', userId)
+                        .where('RecordId', '=', recordId)
+                );
+                for (const permission of PERMISSIONS) {
+                    const column = RECORD_ACCESS_FIELDS[permission];
+                    const expected = access[permission];
+                    if (!column || expected === undefined) continue;
+                    check({ sObject, permission, via: 'record', source: `UserRecordAccess.${column} on ${recordId}`, expected, actual: !!recordAccess?.[column] });
+                }
+            }
+
+            if (options.asUser) {
+                const describe = await this.describeAsUser(options.asUser, sObject);
+                for (const permission of PERMISSIONS) {
+                    const expected = access[permission];
+                    if (expected === undefined) continue;
+                    // A describe the user is allowed to make at all means read access
+                    const flag = DESCRIBE_FLAGS[permission];
+                    check({
+                        sObject, permission, via: 'describe', source: flag ? `describe(${sObject}).${flag}` : `describe(${sObject})`, expected,
+                        actual: !!describe && (!flag || describe[flag]),
+                    });
+                }
+                for (const [field, fieldAccess] of Object.entries(access.fields ?? {})) {
+                    // Fields hidden by field-level security are left out of the user's describe
+                    const described = describe?.fields.find(f => f.name.toLowerCase() === field.toLowerCase());
+                    const { read, edit } = fieldExpectation(fieldAccess);
+                    check({ sObject, field, permission: 'read', via: 'describe', source: `describe(${sObject}).fields.${field}`, expected: !!read, actual: !!described });
+                    check({ sObject, field, permission: 'edit', via: 'describe', source: `describe(${sObject}).fields.${field}.updateable`, expected: !!edit, actual: !!described?.updateable });
+                }
+            }
+        }
+        return checks;
+    }
+
+    /**
+     * Check what the UI offers the user the page is logged in as: the New button on each object's
+     * list view, and the Edit button and inline-edit pencils on the given records
+     */
+    async verifyUi(persona: string, page: Page, records: Record<string, string> = {}): Promise<PermissionCheck[]> {
+        const expectations = this.expectationsFor(persona);
+        const sfUtils = new SalesforceUtils(page, this.describe);
+        const checks: PermissionCheck[] = [];
+        const check = (partial: Omit<PermissionCheck, 'persona' | 'pass' | 'grantedBy' | 'via'>) =>
+            checks.push({ persona, via: 'ui', grantedBy: [], ...partial, pass: partial.expected === partial.actual });
+
+        for (const [sObject, access] of Object.entries(expectations)) {
+            if (access.create !== undefined) {
+                await sfUtils.navigateToObject(sObject);
+                check({ sObject, permission: 'create', source: 'New button on the list view', expected: access.create, actual: await sfUtils.canCreateRecord() });
+            }
+
+            const recordId = records[sObject];
+            if (!recordId || (access.edit === undefined && !access.fields)) continue;
+            await sfUtils.navigateToRecord(sObject, recordId);
+            if (access.edit !== undefined) {
+                check({ sObject, permission: 'edit', source: 'Edit button on the record page', expected: access.edit, actual: await sfUtils.canEditRecord() });
+            }
+            for (const [field, fieldAccess] of Object.entries(access.fields ?? {})) {
+                const label = await this.layoutLabel(sObject, field);
+                // Without edit access on the record no field shows a pencil, whatever its field-level security
+                const expected = access.edit !== false && fieldAccess === 'edit';
+                check({ sObject, field, permission: 'edit', source: `inline edit on "${label}"`, expected, actual: await sfUtils.isFieldEditable(label) });
+            }
+        }
+        return checks;
+    }
+
+    /**
+     * Every permission set assigned to the user, the profile's own one included, by Id
+     */
+    private async assignedPermissionSets(userId: string): Promise<Map<string, string>> {
+        const assignments = await this.sfApi.query(
+            soql<{ PermissionSetId: string }>('PermissionSetAssignment').select('PermissionSetId').where('AssigneeId', '=', userId)
+        );
+        if (!assignments.length) return new Map();
+
+        const permissionSets = await this.sfApi.query(
+            soql<GrantingPermissionSet>('PermissionSet')
+                .select('Id', 'Name', 'IsOwnedByProfile', 'Profile.Name')
+                .where('Id', 'IN', assignments.map(assignment => assignment.PermissionSetId))
+        );
+        return new Map(permissionSets.map(set => [
+            set.Id,
+            set.IsOwnedByProfile && set.Profile ? `Profile: ${set.Profile.Name}` : set.Name,
+        ]));
+    }
+
+    private async describeAsUser(asUser: SalesforceApiUtils, sObject: string): Promise<SObjectDescribe | null> {
+        try {
+            return await asUser.describeSObject(sObject);
+        } catch (error) {
+            // Objects the user cannot see do not exist as far as their describe is concerned
+            if (error instanceof SalesforceNotFoundError || error instanceof SalesforcePermissionError) return null;
+            throw error;
+        }
+    }
+
+    private async layoutLabel(sObject: string, field: string): Promise<string> {
+        const layoutFields = await this.describe.getLayoutFields(sObject);
+        return layoutFields.find(layoutField => layoutField.apiName === field)?.label
+            ?? (await this.describe.getField(sObject, field)).label;
+    }
+}
+
+export function failedChecks(checks: PermissionCheck[]): string[] {
+    return checks.filter(check => !check.pass).map(describePermissionCheck);
+}
+
+/**
+ * One line per check, naming the permission read and, when it is granted, what grants it:
+ *   readOnlyPlatform Opportunity.Amount edit: expected no, FieldPermissions.PermissionsEdit is yes (granted by OpportunityReadOnly)
+ */
+export function describePermissionCheck(check: PermissionCheck): string {
+    const target = check.field ? `${check.sObject}.${check.field}` : check.sObject;
+    const grantedBy = check.grantedBy.length ? ` (granted by ${check.grantedBy.join(', ')})` : '';
+    return `${check.persona} ${target} ${check.permission}: expected ${yesNo(check.expected)}, ` +
+        `${check.source} is ${yesNo(check.actual)}${grantedBy}`;
+}
+
+function yesNo(value: boolean): string {
+    return value ? 'yes' : 'no';
+}
+
+/**
+ * Plain-text pass/fail grid: a row per persona, object or field and source, a column per permission.
+ * Cells hold the actual access; mismatches are marked ✗ and listed under the grid.
+ */
+export function formatPermissionGrid(checks: PermissionCheck[]): string {
+    if (!checks.length) return 'No permission checks run';
+
+    const rows = new Map<string, string[]>();
+    for (const check of checks) {
+        const key = [check.persona, check.sObject, check.field ?? '', check.via].join('\u0000');
+        const row = rows.get(key) ?? [check.persona, check.sObject, check.field ?? '', check.via, '', '', '', ''];
+        row[4 + PERMISSIONS.indexOf(check.permission)] = `${yesNo(check.actual)}${check.pass ? '' : ' ✗'}`;
+        rows.set(key, row);
+    }
+
+    const header = ['Persona', 'Object', 'Field', 'Via', 'Create', 'Read', 'Edit', 'Delete'];
+    const body = [...rows.values()];
+    const widths = header.map((title, column) => Math.max(title.length, ...body.map(row => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    const failures = failedChecks(checks);
+    const summary = failures.length
+        ? [`${failures.length} of ${checks.length} permission checks failed:`, ...failures.map(failure => `  ✗ ${failure}`)]
+        : [`All ${checks.length} permission checks passed`];
+    return [line(header), line(widths.map(width => '-'.repeat(width))), ...body.map(line), '', ...summary].join('\n');
+}
+
+export default PermissionMatrixVerifier;
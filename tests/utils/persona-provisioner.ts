@@ -0,0 +1,197 @@
+import { PersonaDefinition, personas as configuredPersonas, personaUsernameDomain } from '../../config/personas';
+import { SalesforceApiUtils } from './salesforce-api';
+import { soql } from './soql-builder';
+
+/** A persona's user, ready to log in as */
+export interface ProvisionedPersona {
+    persona: string;
+    /** Pool slot the user fills, 0-based */
+    slot: number;
+    userId: string;
+    username: string;
+    /** What provisioning had to do: 'created', 'reactivated', 'ProfileId changed', 'assigned X', ... */
+    changes: string[];
+}
+
+interface PersonaUser {
+    Id: string;
+    Username: string;
+    FirstName: string | null;
+    LastName: string;
+    ProfileId: string;
+    UserRoleId: string | null;
+    LocaleSidKey: string;
+    LanguageLocaleKey: string;
+    TimeZoneSidKey: string;
+    IsActive: boolean;
+}
+
+interface Assignment {
+    Id: string;
+    PermissionSetId: string;
+    PermissionSet: { Name: string };
+}
+
+/**
+ * Creates persona users from config/personas.ts, or brings existing ones back in line with it:
+ * profile, role, locale and name are updated, deactivated users are reactivated, and permission
+ * set assignments are made to match exactly. Users are never deleted or deactivated afterwards,
+ * so each run reuses the same licences.
+ *
+ *   const provisioner = new PersonaProvisioner(sfApi);
+ *   const { userId, username } = await provisioner.provision('readOnlyPlatform');
+ */
+export class PersonaProvisioner {
+    private orgId?: Promise<string>;
+
+    constructor(private sfApi: SalesforceApiUtils, private personas: Record<string, PersonaDefinition> = configuredPersonas) { }
+
+    definition(persona: string): PersonaDefinition {
+        const definition = this.personas[persona];
+        if (!definition) {
+            throw new Error(`Persona "${persona}" is not defined in config/personas.ts. Known personas: ${Object.keys(this.personas).join(', ')}`);
+        }
+        return definition;
+    }
+
+    /**
+     * Username of the user in a pool slot, unique to this org
+     */
+    async username(persona: string, slot = 0): Promise<string> {
+        this.orgId ??= this.sfApi.query(soql<{ Id: string }>('Organization').select('Id').limit(1))
+            .then(([organization]) => organization.Id.slice(0, 15));
+        return `${persona}.${slot + 1}.${await this.orgId}@${personaUsernameDomain}`.toLowerCase();
+    }
+
+    async provision(persona: string, slot = 0): Promise<ProvisionedPersona> {
+        const definition = this.definition(persona);
+        if (slot >= definition.poolSize) {
+            throw new Error(`Persona "${persona}" has a pool of ${definition.poolSize} users; slot ${slot} does not exist`);
+        }
+
+        const username = await this.username(persona, slot);
+        const desired = await this.desiredFields(definition);
+        const changes: string[] = [];
+
+        const [existing] = await this.sfApi.query(
+            soql<PersonaUser>('User')
+                .select('Id', 'Username', 'FirstName', 'LastName', 'ProfileId', 'UserRoleId', 'LocaleSidKey', 'LanguageLocaleKey', 'TimeZoneSidKey', 'IsActive')
+                .where('Username', '=', username)
+                .limit(1)
+        );
+
+        let userId: string;
+        if (!existing) {
+            userId = await this.sfApi.createRecord('User', {
+                ...desired,
+                Username: username,
+                Email: username,
+                Alias: `${persona.slice(0, 8 - String(slot + 1).length)}${slot + 1}`,
+                EmailEncodingKey: 'UTF-8',
+            });
+            // Persona users outlive the run; the registry would deactivate them at teardown
+            this.sfApi.untrackRecord(userId);
+            changes.push('created');
+        } else {
+            userId = existing.Id;
+            const updates = Object.fromEntries(Object.entries(desired)
+                .filter(([field, value]) => existing[field as keyof PersonaUser] !== value));
+            if (Object.keys(updates).length) {
+                await this.sfApi.updateRecord('User', userId, updates);
+                changes.push(...Object.keys(updates).map(field => field === 'IsActive' ? 'reactivated' : `${field} changed`));
+            }
+        }
+
+        changes.push(...await this.reconcilePermissionSets(userId, definition.permissionSets));
+        return { persona, slot, userId, username, changes };
+    }
+
+    /**
+     * Assign the permission sets the persona lists and remove any other, leaving the profile's own alone
+     */
+    private async reconcilePermissionSets(userId: string, permissionSets: string[]): Promise<string[]> {
+        const changes: string[] = [];
+        const assignments = await this.sfApi.query(
+            soql<Assignment>('PermissionSetAssignment')
+                .select('Id', 'PermissionSetId', 'PermissionSet.Name')
+                .where('AssigneeId', '=', userId)
+                .where('PermissionSet.IsOwnedByProfile', '=', false)
+        );
+        const assigned = new Set(assignments.map(assignment => assignment.PermissionSet.Name));
+
+        const missing = permissionSets.filter(name => !assigned.has(name));
+        if (missing.length) {
+            const found = await this.sfApi.query(
+                soql<{ Id: string; Name: string }>('PermissionSet').select('Id', 'Name').where('Name', 'IN', missing)
+            );
+            for (const name of missing) {
+                const permissionSet = found.find(candidate => candidate.Name === name);
+                if (!permissionSet) throw new Error(`Permission set "${name}" not found; deploy force-app first`);
+                const assignmentId = await this.sfApi.createRecord('PermissionSetAssignment', { AssigneeId: userId, PermissionSetId: permissionSet.Id });
+                this.sfApi.untrackRecord(assignmentId);
+                changes.push(`assigned ${name}`);
+            }
+        }
+
+        for (const assignment of assignments.filter(candidate => !permissionSets.includes(candidate.PermissionSet.Name))) {
+            await this.sfApi.deleteRecord('PermissionSetAssignment', assignment.Id);
+            changes.push(`unassigned ${assignment.PermissionSet.Name}`);
+        }
+        return changes;
+    }
+
+    private async desiredFields(definition: PersonaDefinition): Promise<Partial<PersonaUser>> {
+        const profileId = await this.sfApi.getProfileIdByName(definition.profile);
+        if (!profileId) throw new Error(`Profile "${definition.profile}" not found`);
+
+        const fields: Partial<PersonaUser> = {
+            FirstName: definition.firstName,
+            LastName: definition.lastName,
+            ProfileId: profileId,
+            LocaleSidKey: definition.localeSidKey,
+            LanguageLocaleKey: definition.languageLocaleKey,
+            TimeZoneSidKey: definition.timeZoneSidKey,
+            IsActive: true,
+        };
+        if (definition.role) {
+            const [role] = await this.sfApi.query(
+                soql<{ Id: string }>('UserRole').select('Id').where('Name', '=', definition.role).limit(1)
+            );
+            if (!role) throw new Error(`Role "${definition.role}" not found`);
+            fields.UserRoleId = role.Id;
+        }
+        return fields;
+    }
+}
+
+/**
+ * Hands each worker its own persona users. A worker leases the pool slot matching its
+ * parallelIndex, so workers running at the same time never share a user, and keeps it for its
+ * lifetime; provisioning runs once per persona per worker.
+ */
+export class PersonaPool {
+    private readonly leases = new Map<string, Promise<ProvisionedPersona>>();
+
+    constructor(private provisioner: PersonaProvisioner, private slot: number) { }
+
+    lease(persona: string): Promise<ProvisionedPersona> {
+        const { poolSize } = this.provisioner.definition(persona);
+        if (this.slot >= poolSize) {
+            return Promise.reject(new Error(
+                `Persona "${persona}" has a pool of ${poolSize} users but worker ${this.slot + 1} needs one; ` +
+                'raise poolSize in config/personas.ts or run fewer workers'
+            ));
+        }
+
+        let lease = this.leases.get(persona);
+        if (!lease) {
+            lease = this.provisioner.provision(persona, this.slot);
+            // A failed provisioning is retried by the next test rather than cached
+            lease.catch(() => this.leases.delete(persona));
+            this.leases.set(persona, lease);
+        }
+        return lease;
+    }
+}
+
+export default PersonaProvisioner;
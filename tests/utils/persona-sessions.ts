@@ -0,0 +1,122 @@
+import { Browser, BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
+import { randomBytes } from 'crypto';
+import { PersonaLoginMethod, personaLoginMethod } from '../../config/personas';
+import { config } from '../../config/environment';
+import { AuthProvider, BrowserSessionAuthProvider, invalidateCachedSession, JwtBearerAuthProvider, trimTrailingSlash } from './auth-providers';
+import { ProvisionedPersona } from './persona-provisioner';
+import { SalesforceApiUtils } from './salesforce-api';
+import { SalesforceUtils } from './salesforce-utils';
+import { SessionStateCache } from './session-state';
+
+/** A persona logged in to its own browser context, alongside any other session in the test */
+export interface PersonaSession {
+    persona: ProvisionedPersona;
+    context: BrowserContext;
+    page: Page;
+    /** REST API calls made as the persona, e.g. for describe-as-user checks */
+    sfApi: SalesforceApiUtils;
+}
+
+/**
+ * A password that satisfies the default password policy (letters, digits, 8+ characters)
+ */
+export function generatePassword(): string {
+    return `${randomBytes(12).toString('base64url')}Aa1`;
+}
+
+/**
+ * Opens persona sessions in separate browser contexts, so an admin page and any number of
+ * personas can be driven at the same time, and logs them all out at the end of the test.
+ * Unlike UserPage.loginAsUser, the admin's own page is never taken over.
+ * With a SessionStateCache, a persona's saved session is reused while it is fresh and every new
+ * login is saved; those sessions are closed but not logged out, so the saved state stays valid.
+ *
+ *   const sessions = new PersonaSessions(browser, adminApi, { viewport });
+ *   const viewer = await sessions.open(await pool.lease('readOnlyPlatform'));
+ *   await new OpportunityPage(viewer.page).navigateById(opportunityId);
+ *   await sessions.closeAll();
+ */
+export class PersonaSessions {
+    private readonly sessions: (PersonaSession & { authProvider: AuthProvider })[] = [];
+    private readonly instanceUrl = trimTrailingSlash(config.salesforce.instanceUrl);
+
+    constructor(
+        private browser: Browser,
+        private adminApi: SalesforceApiUtils,
+        private contextOptions: BrowserContextOptions = {},
+        private method: PersonaLoginMethod = personaLoginMethod,
+        private stateCache?: SessionStateCache
+    ) { }
+
+    async open(persona: ProvisionedPersona, method: PersonaLoginMethod = this.method): Promise<PersonaSession> {
+        const storageState = await this.stateCache?.load(persona.username);
+        const context = await this.browser.newContext({ baseURL: this.instanceUrl, ignoreHTTPSErrors: true, ...this.contextOptions, storageState });
+        try {
+            const page = await context.newPage();
+            let authProvider: AuthProvider;
+            if (storageState) {
+                await page.goto(`${this.instanceUrl}/lightning/page/home`);
+                await new SalesforceUtils(page).waitForPageLoad();
+                authProvider = new BrowserSessionAuthProvider(context, persona.username, this.instanceUrl);
+            } else if (method === 'jwt') {
+                authProvider = new JwtBearerAuthProvider({ ...config.auth, username: persona.username });
+                await new SalesforceApiUtils(page, authProvider).loginViaFrontdoor();
+            } else {
+                const password = generatePassword();
+                await this.adminApi.setUserPassword(persona.userId, password);
+                await this.loginWithPassword(page, persona.username, password);
+                authProvider = new BrowserSessionAuthProvider(context, persona.username, this.instanceUrl);
+            }
+            if (!storageState) await this.stateCache?.save(persona.username, context);
+
+            const session = { persona, context, page, sfApi: new SalesforceApiUtils(page, authProvider), authProvider };
+            this.sessions.push(session);
+            return session;
+        } catch (error) {
+            await context.close();
+            throw error;
+        }
+    }
+
+    /**
+     * Log every session out, unless its state is saved for reuse, and close its context;
+     * one failing logout does not stop the others
+     */
+    async closeAll(): Promise<void> {
+        const sessions = this.sessions.splice(0);
+        for (const session of sessions.reverse()) {
+            invalidateCachedSession(session.authProvider);
+            if (!this.stateCache) {
+                await session.page.goto(`${this.instanceUrl}/secur/logout.jsp`, { timeout: config.timeouts.action }).catch(() => { });
+            }
+            await session.context.close().catch(() => { });
+        }
+    }
+
+    private async loginWithPassword(page: Page, username: string, password: string): Promise<void> {
+        await page.goto(this.instanceUrl);
+        await page.locator('#username').fill(username);
+        await page.locator('#password').fill(password);
+        await page.locator('#Login').click();
+
+        // The login page either moves on or shows why it did not
+        const error = page.locator('#error');
+        await Promise.race([
+            page.waitForURL(url => url.pathname !== '/' && !url.pathname.startsWith('/login'), { timeout: config.timeouts.navigation }),
+            error.waitFor({ state: 'visible', timeout: config.timeouts.navigation }),
+        ]).catch(() => { });
+
+        if (await error.isVisible().catch(() => false)) {
+            throw new Error(`Password login as ${username} failed: ${(await error.textContent())?.trim()}`);
+        }
+        if (page.url().includes('/_ui/identity/verification')) {
+            throw new Error(
+                `Password login as ${username} stopped at identity verification. Add the runner's IP to the ` +
+                'profile\'s login IP ranges or the org\'s trusted IP ranges, or use SF_PERSONA_LOGIN=jwt'
+            );
+        }
+        await new SalesforceUtils(page).waitForPageLoad();
+    }
+}
+
+export default PersonaSessions;
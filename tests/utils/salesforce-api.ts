@@ -1,95 +1,464 @@
-import { Page } from '@playwright/test';
+import { APIRequestContext, APIResponse, Page } from '@playwright/test';
 import { config } from '../../config/environment';
 import { SalesforceUtils } from './salesforce-utils';
-import { execSync } from 'child_process';
+import { AuthProvider, createAuthProvider, getCachedSession, invalidateCachedSession, trimTrailingSlash } from './auth-providers';
+import {
+    backoffDelay,
+    HttpMethod,
+    IDEMPOTENT_METHODS,
+    isRetryableFailure,
+    recordApiRetry,
+    sleep,
+} from './api-retry';
+import { SalesforceApiError } from './salesforce-errors';
+import { soql, SoqlBuilder } from './soql-builder';
+import {
+    assertAllOrNoneFits,
+    chunk,
+    COLLECTION_BATCH_SIZE,
+    CollectionOptions,
+    CollectionResponseItem,
+    COMPOSITE_MAX_SUBREQUESTS,
+    CompositeGraph,
+    CompositeGraphResult,
+    CompositeSubrequest,
+    CompositeSubresponse,
+    createdBySubrequests,
+    RecordSaveResult,
+    toCompositeSubrequest,
+    toSaveResults,
+} from './composite-api';
+import { getActiveRegistry } from './test-data-registry';
+import { ListInfo, ListViewDefinition, toListInfoInput } from './list-view-api';
+import type { SObjectFieldMap, SObjectInput, SObjectName, SObjectTypeMap, UntypedSObjectName } from '../types';
+import type { LayoutMode, RecordLayout, RelatedListSummary, SObjectDescribe } from './describe-cache';
+
+export interface QueryResult<T> {
+    totalSize: number;
+    done: boolean;
+    nextRecordsUrl?: string;
+    records: T[];
+}
+
+export interface RestCallOptions {
+    /** Allow retrying a POST that is safe to replay */
+    idempotent?: boolean;
+}
+
+export interface RawCallOptions extends RestCallOptions {
+    /** JSON-serialisable object or a pre-encoded body such as CSV */
+    data?: string | Record<string, unknown>;
+    /** Extra headers, e.g. { 'Content-Type': 'text/csv', 'Accept': 'text/csv' } */
+    headers?: Record<string, string>;
+}
 
 export class SalesforceApiUtils {
     private accessToken = '';
     private instanceUrl = '';
-    private sfUtils: SalesforceUtils;
-
-    constructor(private page: Page) {
-        this.sfUtils = new SalesforceUtils(page);
-    }
-
-    async authenticate(): Promise<{ accessToken: string; instanceUrl: string }> {
-        const result = execSync('sf org display --json', {
-            encoding: 'utf-8',
-            cwd: process.cwd(),
-            env: { ...process.env, SF_SKIP_UPDATE_CHECK: 'true', FORCE_COLOR: '0' },
-        });
+    private readonly page?: Page;
+    private readonly request: APIRequestContext;
+    private sfUtils?: SalesforceUtils;
 
-        const cleanResult = result.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, '');
-        const jsonStart = cleanResult.indexOf('{');
-        if (jsonStart === -1) {
-            throw new Error('No JSON found in SF CLI output');
+    /**
+     * Accepts a Page for browser work (frontdoor login) or a bare APIRequestContext for API-only use
+     */
+    constructor(target: Page | APIRequestContext, private authProvider: AuthProvider = createAuthProvider()) {
+        if ('goto' in target) {
+            this.page = target;
+            this.request = target.request;
+            this.sfUtils = new SalesforceUtils(target);
+        } else {
+            this.request = target;
         }
+    }
 
-        const orgInfo = JSON.parse(cleanResult.substring(jsonStart));
-        if (!orgInfo.result?.accessToken) {
-            throw new Error('No access token in SF CLI response');
-        }
+    /**
+     * Pass forceRefresh to drop the cached token for this org/user and request a new one
+     */
+    async authenticate(forceRefresh = false): Promise<{ accessToken: string; instanceUrl: string }> {
+        if (forceRefresh) invalidateCachedSession(this.authProvider);
+        const session = await getCachedSession(this.authProvider, this.request);
 
-        this.accessToken = orgInfo.result.accessToken;
-        this.instanceUrl = orgInfo.result.instanceUrl || config.salesforce.instanceUrl;
-        console.log(`Authenticated via SF CLI. Instance: ${this.instanceUrl}`);
+        this.accessToken = session.accessToken;
+        this.instanceUrl = session.instanceUrl;
+        console.log(`Authenticated via ${this.authProvider.name}. Instance: ${this.instanceUrl}`);
 
         return { accessToken: this.accessToken, instanceUrl: this.instanceUrl };
     }
 
     async loginViaFrontdoor(): Promise<void> {
+        if (!this.page || !this.sfUtils) {
+            throw new Error('loginViaFrontdoor requires SalesforceApiUtils to be created with a Page');
+        }
         const { accessToken, instanceUrl } = await this.authenticate();
         await this.page.goto(`${instanceUrl}/secur/frontdoor.jsp?sid=${accessToken}`);
         await this.sfUtils.waitForPageLoad();
     }
 
+    /**
+     * Open Lightning home, logging in through frontdoor only when the page has no working session.
+     * Pages started from the cached storageState are already logged in, so this costs one navigation.
+     * Returns true when a login was needed.
+     */
+    async ensureLoggedIn(): Promise<boolean> {
+        if (!this.page || !this.sfUtils) {
+            throw new Error('ensureLoggedIn requires SalesforceApiUtils to be created with a Page');
+        }
+        await this.page.goto(`${trimTrailingSlash(config.salesforce.instanceUrl)}/lightning/page/home`);
+        // Without a session Salesforce redirects to the login page (/?ec=302&startURL=...)
+        if (this.page.url().includes('/lightning/')) {
+            await this.sfUtils.waitForPageLoad();
+            return false;
+        }
+        await this.loginViaFrontdoor();
+        return true;
+    }
+
+    /**
+     * Calls the REST API, refreshing the session once on 401 and retrying idempotent
+     * calls with jittered exponential backoff on transient failures (config.retries.api).
+     * Failures are thrown as SalesforceApiError subclasses.
+     */
     async restCall<T>(
-        method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+        method: HttpMethod,
         endpoint: string,
-        data?: Record<string, unknown>
+        data?: Record<string, unknown>,
+        options: RestCallOptions = {}
     ): Promise<T> {
+        const response = await this.rawCall(method, endpoint, { ...options, data });
+        return response.status() === 204 ? ({} as T) : response.json();
+    }
+
+    /**
+     * restCall without the JSON handling: same auth, retry and error behaviour,
+     * but the caller chooses the body/headers and reads the successful response itself
+     */
+    async rawCall(method: HttpMethod, endpoint: string, options: RawCallOptions = {}): Promise<APIResponse> {
         if (!this.accessToken) await this.authenticate();
 
-        const url = `${this.instanceUrl}/services/data/v${config.salesforce.apiVersion}${endpoint}`;
-        const response = await this.page.request.fetch(url, {
-            method,
-            headers: {
-                'Authorization': `Bearer ${this.accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            data,
-        });
+        const policy = config.retries.api;
+        const canRetry = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+        let sessionRefreshed = false;
+        let attempt = 1;
+
+        while (true) {
+            const url = `${this.instanceUrl}/services/data/v${config.salesforce.apiVersion}${endpoint}`;
+            const response = await this.request.fetch(url, {
+                method,
+                headers: {
+                    'Authorization': `Bearer ${this.accessToken}`,
+                    'Content-Type': 'application/json',
+                    ...options.headers,
+                },
+                data: options.data,
+            });
+
+            if (response.ok()) {
+                if (attempt > 1 || sessionRefreshed) {
+                    recordApiRetry(`${method} ${endpoint} succeeded after ${attempt} attempt(s)${sessionRefreshed ? ' and a session refresh' : ''}`);
+                }
+                return response;
+            }
+
+            const status = response.status();
+            const error = SalesforceApiError.fromResponse(status, await response.text(), { method, endpoint, payload: options.data });
+            const reason = [status, ...error.errorCodes].join(' ');
+
+            // An expired session was rejected before any work was done, so any method may be replayed
+            if (status === 401 && !sessionRefreshed) {
+                sessionRefreshed = true;
+                recordApiRetry(`${method} ${endpoint} failed with ${reason}; refreshing session`);
+                await this.authenticate(true);
+                continue;
+            }
 
-        if (!response.ok()) {
-            throw new Error(`Salesforce API error: ${response.status()} - ${await response.text()}`);
+            if (canRetry && attempt < policy.maxAttempts && isRetryableFailure(status, error.errorCodes, policy)) {
+                const delay = backoffDelay(attempt, policy);
+                recordApiRetry(`${method} ${endpoint} attempt ${attempt}/${policy.maxAttempts} failed with ${reason}; retrying in ${delay}ms`);
+                await sleep(delay);
+                attempt++;
+                continue;
+            }
+
+            throw error;
         }
+    }
 
-        return response.status() === 204 ? ({} as T) : response.json();
+    /**
+     * Runs a query and follows nextRecordsUrl until every batch has been read
+     */
+    async query<T>(query: string | SoqlBuilder<T>): Promise<T[]> {
+        const records: T[] = [];
+        for await (const record of this.queryIterator<T>(query)) {
+            records.push(record);
+        }
+        return records;
     }
 
-    async query<T>(soql: string): Promise<T[]> {
-        const result = await this.restCall<{ records: T[] }>('GET', `/query?q=${encodeURIComponent(soql)}`);
-        return result.records;
+    /**
+     * Streams query results batch by batch, fetching the next batch only when the current one is consumed
+     */
+    async *queryIterator<T>(query: string | SoqlBuilder<T>): AsyncGenerator<T> {
+        let result = await this.restCall<QueryResult<T>>('GET', `/query?q=${encodeURIComponent(query.toString())}`);
+        yield* result.records;
+
+        while (!result.done && result.nextRecordsUrl) {
+            const endpoint = result.nextRecordsUrl.replace(/^\/services\/data\/v[\d.]+/, '');
+            result = await this.restCall<QueryResult<T>>('GET', endpoint);
+            yield* result.records;
+        }
+    }
+
+    /**
+     * Reports a record created outside this class (e.g. through the UI) to the active test data registry
+     */
+    trackRecord(objectName: string, recordId: string): void {
+        getActiveRegistry()?.track(objectName, recordId);
+    }
+
+    /**
+     * Stop tracking a record that was deleted some other way (e.g. through the UI)
+     */
+    untrackRecord(recordId: string): void {
+        getActiveRegistry()?.untrack(recordId);
     }
 
+    /**
+     * Objects with generated types (tests/types) check field names and picklist values at compile time
+     */
+    async createRecord<N extends SObjectName>(objectName: N, data: SObjectInput<N>): Promise<string>;
+    async createRecord<N extends string>(objectName: UntypedSObjectName<N>, data: Record<string, unknown>): Promise<string>;
     async createRecord(objectName: string, data: Record<string, unknown>): Promise<string> {
         const result = await this.restCall<{ id: string }>('POST', `/sobjects/${objectName}`, data);
+        this.trackRecord(objectName, result.id);
         return result.id;
     }
 
+    async updateRecord<N extends SObjectName>(objectName: N, recordId: string, data: SObjectInput<N>): Promise<void>;
+    async updateRecord<N extends string>(objectName: UntypedSObjectName<N>, recordId: string, data: Record<string, unknown>): Promise<void>;
     async updateRecord(objectName: string, recordId: string, data: Record<string, unknown>): Promise<void> {
         await this.restCall('PATCH', `/sobjects/${objectName}/${recordId}`, data);
     }
 
     async deleteRecord(objectName: string, recordId: string): Promise<void> {
         await this.restCall('DELETE', `/sobjects/${objectName}/${recordId}`);
+        this.untrackRecord(recordId);
     }
 
+    async getRecord<N extends SObjectName>(objectName: N, recordId: string, fields?: SObjectFieldMap[N][]): Promise<SObjectTypeMap[N]>;
+    async getRecord<T, N extends string = string>(objectName: UntypedSObjectName<N>, recordId: string, fields?: string[]): Promise<T>;
     async getRecord<T>(objectName: string, recordId: string, fields?: string[]): Promise<T> {
         const fieldParam = fields ? `?fields=${fields.join(',')}` : '';
         return this.restCall<T>('GET', `/sobjects/${objectName}/${recordId}${fieldParam}`);
     }
 
+    /**
+     * Uncached describe; use DescribeCache to share results across a run
+     */
+    async describeSObject(objectName: string): Promise<SObjectDescribe> {
+        return this.restCall<SObjectDescribe>('GET', `/sobjects/${objectName}/describe`);
+    }
+
+    /**
+     * Uncached UI API page layout for the running user's default record type
+     */
+    async getRecordLayout(objectName: string, mode: LayoutMode = 'View'): Promise<RecordLayout> {
+        return this.restCall<RecordLayout>('GET', `/ui-api/layout/${objectName}?mode=${mode}`);
+    }
+
+    /**
+     * Uncached UI API related lists on the running user's layout for the object
+     */
+    async getRelatedListInfo(objectName: string): Promise<RelatedListSummary[]> {
+        const result = await this.restCall<{ relatedLists: RelatedListSummary[] }>('GET', `/ui-api/related-list-info/${objectName}`);
+        return result.relatedLists;
+    }
+
+    /**
+     * UI API list view as the running user sees it: label, Id and columns (label and field API name)
+     */
+    async getListInfo(objectName: string, listViewApiName: string): Promise<ListInfo> {
+        return this.restCall<ListInfo>('GET', `/ui-api/list-info/${objectName}/${listViewApiName}`);
+    }
+
+    /**
+     * Create a list view through the UI API for a test; it is tracked for cleanup like a created record
+     */
+    async createListView(objectName: string, definition: ListViewDefinition): Promise<ListInfo> {
+        const listInfo = await this.restCall<ListInfo>('POST', `/ui-api/list-info/${objectName}`, toListInfoInput(definition));
+        this.trackRecord('ListView', listInfo.listReference.id);
+        return listInfo;
+    }
+
+    async deleteListView(objectName: string, listViewApiName: string): Promise<void> {
+        const listViews = await this.query(soql<{ Id: string }>('ListView').select('Id')
+            .where('SobjectType', '=', objectName).where('DeveloperName', '=', listViewApiName).limit(1));
+        await this.restCall('DELETE', `/ui-api/list-info/${objectName}/${listViewApiName}`);
+        if (listViews.length) this.untrackRecord(listViews[0].Id);
+    }
+
+    /**
+     * Delete list views by Id, one UI API call each since the ListView sObject cannot be deleted;
+     * an Id that no longer exists fails with NOT_FOUND
+     */
+    async deleteListViews(listViewIds: string[]): Promise<RecordSaveResult<string>[]> {
+        const listViews = listViewIds.length
+            ? await this.query(soql<{ Id: string; SobjectType: string; DeveloperName: string }>('ListView')
+                .select('Id', 'SobjectType', 'DeveloperName').where('Id', 'IN', listViewIds))
+            : [];
+
+        const results: RecordSaveResult<string>[] = [];
+        for (const id of listViewIds) {
+            const listView = listViews.find(view => view.Id.slice(0, 15) === id.slice(0, 15));
+            if (!listView) {
+                results.push({ record: id, id: null, success: false, errors: [{ errorCode: 'NOT_FOUND', message: 'List view not found', fields: [] }] });
+                continue;
+            }
+            try {
+                await this.restCall('DELETE', `/ui-api/list-info/${listView.SobjectType}/${listView.DeveloperName}`);
+                this.untrackRecord(id);
+                results.push({ record: id, id, success: true, errors: [] });
+            } catch (error) {
+                if (!(error instanceof SalesforceApiError)) throw error;
+                results.push({ record: id, id: null, success: false, errors: error.errors });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Composite API: up to 25 subrequests in one round trip; later subrequests can
+     * reference earlier results with compositeRef('refId') -> '@{refId.id}'
+     */
+    async composite(
+        subrequests: CompositeSubrequest[],
+        options: CollectionOptions & { collateSubrequests?: boolean } = {}
+    ): Promise<CompositeSubresponse[]> {
+        if (subrequests.length > COMPOSITE_MAX_SUBREQUESTS) {
+            throw new Error(`Composite requests are limited to ${COMPOSITE_MAX_SUBREQUESTS} subrequests, got ${subrequests.length}`);
+        }
+        const result = await this.restCall<{ compositeResponse: CompositeSubresponse[] }>('POST', '/composite', {
+            allOrNone: options.allOrNone ?? false,
+            collateSubrequests: options.collateSubrequests ?? false,
+            compositeRequest: subrequests.map(toCompositeSubrequest),
+        });
+        for (const record of createdBySubrequests(subrequests, result.compositeResponse)) {
+            this.trackRecord(record.sObjectType, record.id);
+        }
+        return result.compositeResponse;
+    }
+
+    /**
+     * Composite Graph API: each graph is applied all-or-none, independently of the others
+     */
+    async compositeGraph(graphs: CompositeGraph[]): Promise<CompositeGraphResult[]> {
+        const result = await this.restCall<{
+            graphs: { graphId: string; isSuccessful: boolean; graphResponse: { compositeResponse: CompositeSubresponse[] } }[];
+        }>('POST', '/composite/graph', {
+            graphs: graphs.map(graph => ({
+                graphId: graph.graphId,
+                compositeRequest: graph.compositeRequest.map(toCompositeSubrequest),
+            })),
+        });
+        for (const [index, graph] of result.graphs.entries()) {
+            for (const record of createdBySubrequests(graphs[index].compositeRequest, graph.graphResponse.compositeResponse)) {
+                this.trackRecord(record.sObjectType, record.id);
+            }
+        }
+        return result.graphs.map(graph => ({
+            graphId: graph.graphId,
+            isSuccessful: graph.isSuccessful,
+            compositeResponse: graph.graphResponse.compositeResponse,
+        }));
+    }
+
+    /**
+     * sObject Collections create, sent in batches of 200. allOrNone needs the records to fit in one
+     * batch, since a later batch cannot roll back an earlier one.
+     */
+    async createRecords<T extends Record<string, unknown>>(
+        objectName: string,
+        records: T[],
+        options: CollectionOptions = {}
+    ): Promise<RecordSaveResult<T>[]> {
+        assertAllOrNoneFits(records.length, options);
+        const results: RecordSaveResult<T>[] = [];
+        for (const batch of chunk(records, COLLECTION_BATCH_SIZE)) {
+            const response = await this.restCall<CollectionResponseItem[]>('POST', '/composite/sobjects', {
+                allOrNone: options.allOrNone ?? false,
+                records: batch.map(record => ({ attributes: { type: objectName }, ...record })),
+            });
+            const saved = toSaveResults(batch, response);
+            // Track as each batch commits, so a failing later batch does not leak these
+            for (const result of saved.filter(r => r.success && r.id)) {
+                this.trackRecord(objectName, result.id as string);
+            }
+            results.push(...saved);
+        }
+        return results;
+    }
+
+    async updateRecords<T extends { Id: string }>(
+        objectName: string,
+        records: T[],
+        options: CollectionOptions = {}
+    ): Promise<RecordSaveResult<T>[]> {
+        assertAllOrNoneFits(records.length, options);
+        const results: RecordSaveResult<T>[] = [];
+        for (const batch of chunk(records, COLLECTION_BATCH_SIZE)) {
+            const response = await this.restCall<CollectionResponseItem[]>('PATCH', '/composite/sobjects', {
+                allOrNone: options.allOrNone ?? false,
+                records: batch.map(record => ({ attributes: { type: objectName }, ...record })),
+            });
+            results.push(...toSaveResults(batch, response));
+        }
+        return results;
+    }
+
+    /**
+     * Upsert matched on an external Id field; results report created: true for inserts
+     */
+    async upsertRecords<T extends Record<string, unknown>>(
+        objectName: string,
+        externalIdField: keyof T & string,
+        records: T[],
+        options: CollectionOptions = {}
+    ): Promise<RecordSaveResult<T>[]> {
+        assertAllOrNoneFits(records.length, options);
+        const results: RecordSaveResult<T>[] = [];
+        for (const batch of chunk(records, COLLECTION_BATCH_SIZE)) {
+            const response = await this.restCall<CollectionResponseItem[]>(
+                'PATCH',
+                `/composite/sobjects/${objectName}/${externalIdField}`,
+                {
+                    allOrNone: options.allOrNone ?? false,
+                    records: batch.map(record => ({ attributes: { type: objectName }, ...record })),
+                }
+            );
+            const saved = toSaveResults(batch, response);
+            for (const result of saved.filter(r => r.success && r.created && r.id)) {
+                this.trackRecord(objectName, result.id as string);
+            }
+            results.push(...saved);
+        }
+        return results;
+    }
+
+    async deleteRecords(recordIds: string[], options: CollectionOptions = {}): Promise<RecordSaveResult<string>[]> {
+        assertAllOrNoneFits(recordIds.length, options);
+        const results: RecordSaveResult<string>[] = [];
+        for (const batch of chunk(recordIds, COLLECTION_BATCH_SIZE)) {
+            const params = new URLSearchParams({ ids: batch.join(','), allOrNone: String(options.allOrNone ?? false) });
+            const response = await this.restCall<CollectionResponseItem[]>('DELETE', `/composite/sobjects?${params}`);
+            const deleted = toSaveResults(batch, response);
+            for (const result of deleted.filter(r => r.success)) {
+                this.untrackRecord(result.record);
+            }
+            results.push(...deleted);
+        }
+        return results;
+    }
+
     async createUser(userData: {
         firstName: string;
         lastName: string;
@@ -113,12 +482,32 @@ export class SalesforceApiUtils {
     }
 
     async getProfileIdByName(profileName: string): Promise<string | null> {
-        const profiles = await this.query<{ Id: string }>(`SELECT Id FROM Profile WHERE Name = '${profileName}' LIMIT 1`);
+        const profiles = await this.query(soql<{ Id: string }>('Profile').select('Id').where('Name', '=', profileName).limit(1));
         return profiles[0]?.Id ?? null;
     }
 
+    async getUserIdByUsername(username: string): Promise<string | null> {
+        const users = await this.query(soql<{ Id: string }>('User').select('Id').where('Username', '=', username).limit(1));
+        return users[0]?.Id ?? null;
+    }
+
+    /**
+     * Id of the user the API session belongs to
+     */
+    async getCurrentUserId(): Promise<string> {
+        const me = await this.restCall<{ id: string }>('GET', '/chatter/users/me');
+        return me.id;
+    }
+
+    /**
+     * Set a user's password without requiring a change at next login
+     */
+    async setUserPassword(userId: string, password: string): Promise<void> {
+        await this.restCall('POST', `/sobjects/User/${userId}/password`, { NewPassword: password });
+    }
+
     async assignPermissionSet(userId: string, permissionSetName: string): Promise<void> {
-        const permSets = await this.query<{ Id: string }>(`SELECT Id FROM PermissionSet WHERE Name = '${permissionSetName}' LIMIT 1`);
+        const permSets = await this.query(soql<{ Id: string }>('PermissionSet').select('Id').where('Name', '=', permissionSetName).limit(1));
         if (!permSets.length) throw new Error(`Permission set "${permissionSetName}" not found`);
         await this.createRecord('PermissionSetAssignment', { AssigneeId: userId, PermissionSetId: permSets[0].Id });
     }
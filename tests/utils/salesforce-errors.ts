@@ -0,0 +1,135 @@
+export interface SalesforceErrorDetail {
+    errorCode: string;
+    message: string;
+    fields: string[];
+}
+
+export interface SalesforceRequestContext {
+    method: string;
+    endpoint: string;
+    payload?: unknown;
+}
+
+/** Credential words, matched as whole words of a key so Inside_Sales__c or Residence__c are left alone */
+const SENSITIVE_KEY = /(?:^|[^a-z0-9])(?:password|secret|token|sid|assertion)(?:[^a-z0-9]|$)/i;
+
+/**
+ * Whether a payload key, header or form parameter names a credential: NewPassword, access_token,
+ * client_secret, aura.token, sid. camelCase words count as separate words.
+ */
+export function isSensitiveKey(key: string): boolean {
+    return SENSITIVE_KEY.test(key.replace(/([a-z0-9])([A-Z])/g, '$1_$2'));
+}
+
+/**
+ * Deep copy of a request payload with credential-like values masked, safe to print in reports
+ */
+export function redactPayload(payload: unknown): unknown {
+    if (Array.isArray(payload)) return payload.map(redactPayload);
+    if (payload && typeof payload === 'object') {
+        return Object.fromEntries(Object.entries(payload).map(([key, value]) =>
+            [key, isSensitiveKey(key) ? '[REDACTED]' : redactPayload(value)]
+        ));
+    }
+    return payload;
+}
+
+/**
+ * Parses a Salesforce error body: the REST `[{ errorCode, message, fields }]` array,
+ * a single error object, or an OAuth `{ error, error_description }` response
+ */
+export function parseSalesforceErrors(body: string): SalesforceErrorDetail[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        return [];
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    return entries
+        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+        .map(entry => ({
+            errorCode: String(entry.errorCode ?? entry.statusCode ?? entry.error ?? ''),
+            message: String(entry.message ?? entry.error_description ?? ''),
+            fields: Array.isArray(entry.fields) ? entry.fields.map(String) : [],
+        }))
+        .filter(error => error.errorCode || error.message);
+}
+
+function describeErrors(errors: SalesforceErrorDetail[], responseBody: string): string {
+    if (!errors.length) return responseBody;
+    return errors
+        .map(error => `${error.errorCode}: ${error.message}${error.fields.length ? ` [${error.fields.join(', ')}]` : ''}`)
+        .join('; ');
+}
+
+/**
+ * Thrown by SalesforceApiUtils.restCall for any non-2xx response
+ */
+export class SalesforceApiError extends Error {
+    readonly method: string;
+    readonly endpoint: string;
+    readonly payload: unknown;
+
+    constructor(
+        readonly status: number,
+        readonly errors: SalesforceErrorDetail[],
+        context: SalesforceRequestContext,
+        readonly responseBody = ''
+    ) {
+        super(`Salesforce API error: ${status} ${context.method} ${context.endpoint} - ${describeErrors(errors, responseBody)}`);
+        this.name = new.target.name;
+        this.method = context.method;
+        this.endpoint = context.endpoint;
+        this.payload = redactPayload(context.payload);
+    }
+
+    get errorCodes(): string[] {
+        return this.errors.map(error => error.errorCode);
+    }
+
+    hasErrorCode(errorCode: string): boolean {
+        return this.errorCodes.includes(errorCode);
+    }
+
+    /**
+     * Fields named by the errors, optionally only those of one errorCode
+     */
+    fieldsFor(errorCode?: string): string[] {
+        return this.errors
+            .filter(error => !errorCode || error.errorCode === errorCode)
+            .flatMap(error => error.fields);
+    }
+
+    static fromResponse(status: number, responseBody: string, context: SalesforceRequestContext): SalesforceApiError {
+        const errors = parseSalesforceErrors(responseBody);
+        const codes = errors.map(error => error.errorCode);
+
+        if (codes.includes('REQUEST_LIMIT_EXCEEDED')) return new SalesforceLimitError(status, errors, context, responseBody);
+        if (status === 401) return new SalesforceAuthError(status, errors, context, responseBody);
+        if (status === 403) return new SalesforcePermissionError(status, errors, context, responseBody);
+        if (status === 404) return new SalesforceNotFoundError(status, errors, context, responseBody);
+        if (status === 400) return new SalesforceValidationError(status, errors, context, responseBody);
+        if (status >= 500) return new SalesforceServerError(status, errors, context, responseBody);
+        return new SalesforceApiError(status, errors, context, responseBody);
+    }
+}
+
+/** 401 - session missing, expired or revoked (INVALID_SESSION_ID) */
+export class SalesforceAuthError extends SalesforceApiError { }
+
+/** 403 - the running user lacks access (INSUFFICIENT_ACCESS_OR_READONLY, ...) */
+export class SalesforcePermissionError extends SalesforceApiError { }
+
+/** 404 - record or resource does not exist (NOT_FOUND) */
+export class SalesforceNotFoundError extends SalesforceApiError { }
+
+/** 400 - rejected request: validation rules, required fields, duplicates, malformed SOQL */
+export class SalesforceValidationError extends SalesforceApiError { }
+
+/** API request limits exhausted (REQUEST_LIMIT_EXCEEDED) */
+export class SalesforceLimitError extends SalesforceApiError { }
+
+/** 5xx - server side or maintenance failures */
+export class SalesforceServerError extends SalesforceApiError { }
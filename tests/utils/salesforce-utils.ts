@@ -1,63 +1,102 @@
-import { Page, Locator, expect } from '@playwright/test';
+import { Page, Response } from '@playwright/test';
 import { config } from '../../config/environment';
+import { assertValidPicklistValue, DescribeCache, FieldMetadata, FieldType } from './describe-cache';
+import { locators } from './locators';
+import { IdleOptions, LightningNetwork, NetworkWaitOptions } from './lightning-network';
+import { ToastType, ToastWatcher } from './toast-watcher';
+
+/** Which fields of the open record page show an inline-edit pencil */
+export interface InlineEditReport {
+    /** Fields with a pencil; for inlineEditMany, the fields it filled */
+    editable: string[];
+    /** Fields without one: read-only for the user (field-level security, layout, no edit access) or not on the layout */
+    noPencil: string[];
+}
+
+export interface InlineEditOptions {
+    /** Object whose describe picks the widgets (default: the object in the URL) */
+    objectName?: string;
+    /** Save once the fields are filled (default true); false leaves the page in edit mode */
+    save?: boolean;
+    /** Throw when a field has no pencil before touching any (default true); false edits the others and reports them */
+    requireAll?: boolean;
+}
 
 export class SalesforceUtils {
-    constructor(private page: Page) { }
+    private readonly network: LightningNetwork;
+    /** Every toast the page shows; saveRecord() starts a new watch before it clicks Save */
+    readonly toasts: ToastWatcher;
+
+    constructor(private page: Page, private describe?: DescribeCache) {
+        this.network = LightningNetwork.for(page);
+        this.toasts = new ToastWatcher(page);
+    }
+
+    /**
+     * Resolves once no Aura, UI API or Apex request has been in flight for config.timeouts.lightningIdle
+     */
+    async waitForLightningIdle(options?: IdleOptions): Promise<void> {
+        await this.network.waitForLightningIdle(options);
+    }
+
+    /**
+     * Response of the next Aura action matching the descriptor; start waiting before the click that sends it
+     */
+    waitForAuraAction(descriptor: string, options?: NetworkWaitOptions): Promise<Response> {
+        return this.network.waitForAuraAction(descriptor, options);
+    }
 
+    /**
+     * Response of the next UI API or Aura request that loads or saves the record
+     */
+    waitForUiApiRecord(recordId: string, options?: NetworkWaitOptions): Promise<Response> {
+        return this.network.waitForUiApiRecord(recordId, options);
+    }
+
+    /**
+     * Waits for Lightning to go idle and every spinner to hide. Timeouts are not fatal; an Aura
+     * action error the network recorder reports for the page is, as soon as it arrives.
+     */
     async waitForSpinners(): Promise<void> {
-        const spinnerSelectors = [
-            '.slds-spinner_container',
-            '.slds-spinner',
-            '[data-aura-rendered-by] .slds-spinner',
-            '.forceSpinnerContainer',
-            '.loadingSpinner',
-            'lightning-spinner',
-        ];
-
-        for (const selector of spinnerSelectors) {
-            await this.page.locator(selector).waitFor({
-                state: 'hidden',
-                timeout: config.timeouts.spinnerWait
-            }).catch(() => { });
-        }
+        await this.settleNetwork();
+        // Resolves once no spinner of any strategy is visible, however many the page shows at once
+        await this.network.untilFailure(locators.any(this.page, 'page.spinner', {}).filter({ visible: true }).first().waitFor({
+            state: 'hidden',
+            timeout: config.timeouts.spinnerWait
+        }).catch(() => { }));
+    }
+
+    /**
+     * The idle wait the UI helpers use between steps: steady background traffic only costs the idle
+     * timeout, since the locator waits after it decide whether the page is ready; server errors still fail
+     */
+    private async settleNetwork(): Promise<void> {
+        await this.network.waitForLightningIdle().catch(error => {
+            if (error === this.network.failure) throw error;
+        });
     }
 
     async waitForPageLoad(): Promise<void> {
         await this.page.waitForLoadState('domcontentloaded');
-        await this.page.waitForLoadState('networkidle').catch(() => { });
         await this.waitForSpinners();
-        await this.page.locator('.oneContent, .desktop').first().waitFor({
-            state: 'visible',
-            timeout: config.timeouts.navigation
-        }).catch(() => { });
+        await locators.find(this.page, 'page.content', {}, { timeout: config.timeouts.navigation });
     }
 
-    async waitForToast(expectedType?: 'success' | 'error' | 'warning' | 'info'): Promise<string> {
-        const toastContainer = this.page.locator('div.toastContainer');
-        await toastContainer.waitFor({ state: 'visible', timeout: config.timeouts.action });
-
-        const toastMessage = toastContainer.locator('.toastMessage, .slds-notify__content');
-        const messageText = await toastMessage.textContent() || '';
-
-        if (expectedType) {
-            const toastClass = await toastContainer.locator('.slds-notify, .forceToastMessage').getAttribute('class');
-            const typeMap = {
-                success: 'slds-notify--success',
-                error: 'slds-notify--error',
-                warning: 'slds-notify--warning',
-                info: 'slds-notify--info',
-            };
-            if (toastClass && expectedType in typeMap) {
-                expect(toastClass).toContain(typeMap[expectedType]);
-            }
-        }
-
-        await toastContainer.locator('button.slds-notify__close, lightning-button-icon').click().catch(() => { });
-        return messageText;
+    /**
+     * Waits for the next toast (of the given type) since the last toasts.watch(), closes it unless told
+     * not to and returns its message. An error toast fails the wait unless an error was expected; use
+     * toasts.waitFor() for the title, the linked record or a pattern.
+     */
+    async waitForToast(expectedType?: ToastType, options: { dismiss?: boolean } = {}): Promise<string> {
+        const toast = await this.toasts.waitFor(expectedType ?? {});
+        if (options.dismiss ?? true) await this.toasts.dismiss(toast);
+        // The next call waits for a toast shown after this one
+        await this.toasts.watch();
+        return toast.message;
     }
 
     async waitForToastDisappear(): Promise<void> {
-        await this.page.locator('div.toastContainer').waitFor({
+        await locators.any(this.page, 'toast.container', {}).first().waitFor({
             state: 'hidden',
             timeout: config.timeouts.action
         }).catch(() => { });
@@ -66,29 +105,30 @@ export class SalesforceUtils {
     async clickButton(label: string): Promise<void> {
         await this.waitForSpinners();
 
-        const buttonSelectors = [
-            `button:has-text("${label}")`,
-            `lightning-button:has-text("${label}")`,
-            `a.slds-button:has-text("${label}")`,
-            `input[value="${label}"]`,
-            `[title="${label}"]`,
-        ];
-
-        for (const selector of buttonSelectors) {
-            const button = this.page.locator(selector).first();
-            if (await button.isVisible({ timeout: 2000 }).catch(() => false)) {
-                await button.click();
-                await this.waitForSpinners();
-                return;
-            }
-        }
-        throw new Error(`Button with label "${label}" not found`);
+        const button = await locators.find(this.page, 'button.byLabel', { label });
+        if (!button) throw new Error(`Button with label "${label}" not found`);
+        await button.click();
+        await this.waitForSpinners();
     }
 
-    async fillField(label: string, value: string, fieldType: 'text' | 'combobox' | 'lookup' | 'date' | 'currency' = 'text'): Promise<void> {
+    /**
+     * Fills a field on the open record form. Without a fieldType the widget is taken from the describe
+     * of objectName (default: the object in the current /lightning/o|r/{Object}/ URL), and picklist
+     * values are checked against the field's active values before the UI is touched. Fields whose
+     * describe type has no supported widget (multipicklist, address, ...) are rejected unless a
+     * fieldType is passed. Date/time values are "<date> <time>" or ISO "<date>T<time>".
+     */
+    async fillField(label: string, value: string, fieldType?: FieldType, objectName?: string): Promise<void> {
+        const sObjectType = objectName ?? this.getCurrentObjectName();
+        const field = await this.findFieldMetadata(label, sObjectType);
+        if (!fieldType && field && !field.fieldType) {
+            throw new Error(`Field "${label}" on ${sObjectType} is a ${field.dataType} field, which fillField has no widget for; pass a fieldType`);
+        }
+        if (field && sObjectType) assertValidPicklistValue(sObjectType, field, value);
+
         await this.waitForSpinners();
 
-        switch (fieldType) {
+        switch (fieldType ?? field?.fieldType ?? 'text') {
             case 'text':
             case 'currency':
                 await this.fillTextInput(label, value);
@@ -102,29 +142,37 @@ export class SalesforceUtils {
             case 'date':
                 await this.fillDateInput(label, value);
                 break;
+            case 'datetime':
+                await this.fillDateTimeInput(label, value);
+                break;
+            case 'checkbox':
+                await this.setCheckbox(label, value === 'true');
+                break;
         }
     }
 
+    /**
+     * API name of the object in the current Lightning URL (list views, record pages, new/edit forms)
+     */
+    getCurrentObjectName(): string | null {
+        return this.page.url().match(/\/lightning\/[or]\/(\w+)\//)?.[1] ?? null;
+    }
+
+    private async findFieldMetadata(label: string, sObjectType: string | null): Promise<FieldMetadata | null> {
+        if (!this.describe || !sObjectType) return null;
+        return this.describe.findField(sObjectType, label);
+    }
+
     private async fillTextInput(label: string, value: string): Promise<void> {
-        const inputSelectors = [
-            `lightning-input[field-label="${label}"] input`,
-            `lightning-input-field[field-name*="${label}"] input`,
-            `input[name="${label}"]`,
-            `//label[contains(text(),"${label}")]/following::input[1]`,
-            `lightning-textarea[field-label="${label}"] textarea`,
-        ];
-
-        for (const selector of inputSelectors) {
-            const input = this.page.locator(selector);
-            if (await input.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-                await input.first().clear();
-                await input.first().fill(value);
-                return;
-            }
+        const input = await locators.find(this.page, 'field.textInput', { label });
+        if (input) {
+            await input.clear();
+            await input.fill(value);
+            return;
         }
 
-        const labelElement = this.page.locator(`label:has-text("${label}"), span.slds-form-element__label:has-text("${label}")`).first();
-        if (await labelElement.isVisible()) {
+        const labelElement = await locators.find(this.page, 'field.label', { label });
+        if (labelElement) {
             await labelElement.click();
             await this.page.keyboard.type(value);
             return;
@@ -133,103 +181,77 @@ export class SalesforceUtils {
     }
 
     private async fillCombobox(label: string, value: string): Promise<void> {
-        const comboboxSelectors = [
-            `lightning-combobox[label="${label}"]`,
-            `lightning-picklist[data-field="${label}"]`,
-            `//label[contains(text(),"${label}")]/ancestor::lightning-combobox`,
-            `//span[contains(text(),"${label}")]/ancestor::lightning-combobox`,
-        ];
-
-        let combobox: Locator | null = null;
-        for (const selector of comboboxSelectors) {
-            const element = this.page.locator(selector);
-            if (await element.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-                combobox = element.first();
-                break;
-            }
-        }
-
-        if (!combobox) {
-            const formElement = this.page.locator(`div.slds-form-element:has(label:has-text("${label}")) lightning-base-combobox`).first();
-            if (await formElement.isVisible({ timeout: 2000 }).catch(() => false)) {
-                combobox = formElement;
-            }
-        }
-
+        const combobox = await locators.find(this.page, 'field.combobox', { label });
         if (!combobox) throw new Error(`Combobox with label "${label}" not found`);
 
-        await combobox.locator('button, input[role="combobox"], [role="combobox"]').first().click();
-        await this.page.waitForTimeout(500);
-        await this.page.locator(`lightning-base-combobox-item[data-value="${value}"], [role="option"]:has-text("${value}")`).first().click();
+        await locators.any(combobox, 'combobox.trigger', {}).first().click();
+        await this.settleNetwork();
+        const option = await locators.find(this.page, 'combobox.option', { value }, { timeout: config.timeouts.action });
+        if (!option) throw new Error(`Option "${value}" not found in combobox "${label}"`);
+        await option.click();
         await this.waitForSpinners();
     }
 
     private async fillLookup(label: string, value: string): Promise<void> {
-        const lookupSelectors = [
-            `lightning-lookup[label="${label}"]`,
-            `lightning-input-field[data-field="${label}"] lightning-lookup`,
-            `force-lookup:has(label:has-text("${label}"))`,
-            `//label[contains(text(),"${label}")]/ancestor::lightning-grouped-combobox`,
-        ];
-
-        let lookupInput: Locator | null = null;
-        for (const selector of lookupSelectors) {
-            const element = this.page.locator(selector);
-            if (await element.first().isVisible({ timeout: 2000 }).catch(() => false)) {
-                lookupInput = element.first().locator('input').first();
-                break;
-            }
-        }
-
-        if (!lookupInput) {
-            const labelEl = this.page.locator(`label:has-text("${label}")`).first();
-            lookupInput = labelEl.locator('xpath=following::input[1]');
-        }
+        const lookupInput = await locators.find(this.page, 'field.lookup', { label }, { timeout: config.timeouts.action });
+        if (!lookupInput) throw new Error(`Lookup with label "${label}" not found`);
 
         await lookupInput.clear();
         await lookupInput.fill(value);
-        await this.page.waitForTimeout(1000);
-        const result = this.page.locator(`lightning-base-combobox-item:has-text("${value}"), [role="option"]:has-text("${value}")`).first();
-        await result.waitFor({ state: 'visible', timeout: config.timeouts.action });
+        await this.settleNetwork();
+        const result = await locators.find(this.page, 'lookup.result', { value }, { timeout: config.timeouts.action });
+        if (!result) throw new Error(`Lookup "${label}" shows no result for "${value}"`);
         await result.click();
         await this.waitForSpinners();
     }
 
     private async fillDateInput(label: string, value: string): Promise<void> {
-        const dateInput = this.page.locator(`lightning-input[label="${label}"] input, lightning-datepicker[label="${label}"] input`).first();
-        if (await dateInput.isVisible({ timeout: 2000 })) {
+        const dateInput = await locators.find(this.page, 'field.dateInput', { label });
+        if (dateInput) {
             await dateInput.clear();
             await dateInput.fill(value);
-            await this.page.keyboard.press('Escape');
+            // Blur rather than Escape: Escape also dismisses the New/Edit modal the picker sits in
+            await dateInput.blur();
         } else {
             await this.fillTextInput(label, value);
         }
     }
 
+    /**
+     * Date/time fields render separate Date and Time inputs under the field's legend
+     */
+    private async fillDateTimeInput(label: string, value: string): Promise<void> {
+        const [, date, time] = value.match(/^(\S+)[T ](.+)$/) ?? [];
+        if (!date) throw new Error(`Date/time value "${value}" for "${label}" needs a date and a time, e.g. "2026-03-31 14:30"`);
+
+        for (const [key, part] of [['field.datetimeDate', date], ['field.datetimeTime', time]] as const) {
+            const input = await locators.find(this.page, key, { label }, { timeout: config.timeouts.action });
+            if (!input) throw new Error(`Date/time field with label "${label}" not found`);
+            await input.clear();
+            await input.fill(part);
+            await input.blur();
+        }
+    }
+
+    private async setCheckbox(label: string, checked: boolean): Promise<void> {
+        const checkbox = await locators.find(this.page, 'field.checkbox', { label }, { timeout: config.timeouts.action });
+        if (!checkbox) throw new Error(`Checkbox with label "${label}" not found`);
+        await checkbox.setChecked(checked);
+    }
+
     async getFieldValue(fieldLabel: string): Promise<string> {
         await this.waitForSpinners();
 
-        const valueSelectors = [
-            `force-record-output-field:has(span:text-is("${fieldLabel}")) lightning-formatted-text`,
-            `force-record-output-field:has(span:text-is("${fieldLabel}")) lightning-formatted-number`,
-            `force-record-output-field:has(span:text-is("${fieldLabel}")) a`,
-            `force-record-output-field:has(span:text-is("${fieldLabel}")) lightning-formatted-url`,
-            `records-record-layout-item[field-label="${fieldLabel}"] lightning-formatted-text`,
-            `records-record-layout-item[field-label="${fieldLabel}"] lightning-formatted-number`,
-            `div.slds-form-element:has(span:has-text("${fieldLabel}")) .slds-form-element__static`,
-        ];
-
-        for (const selector of valueSelectors) {
-            const element = this.page.locator(selector).first();
-            if (await element.isVisible({ timeout: 2000 }).catch(() => false)) {
-                return await element.textContent() || '';
-            }
-        }
-        throw new Error(`Field value for "${fieldLabel}" not found`);
+        const element = await locators.find(this.page, 'field.outputValue', { label: fieldLabel });
+        if (!element) throw new Error(`Field value for "${fieldLabel}" not found`);
+        return await element.textContent() || '';
     }
 
-    async navigateToObject(objectName: string): Promise<void> {
-        await this.page.goto(`/lightning/o/${objectName}/list?filterName=Recent`);
+    /**
+     * Open a list view of the object by developer name (default: recently viewed); ListView reads and drives it
+     */
+    async navigateToObject(objectName: string, listViewName = 'Recent'): Promise<void> {
+        await this.page.goto(`/lightning/o/${objectName}/list?filterName=${encodeURIComponent(listViewName)}`);
         await this.waitForPageLoad();
     }
 
@@ -240,21 +262,18 @@ export class SalesforceUtils {
 
     async clickNewButton(): Promise<void> {
         await this.waitForSpinners();
-        const newButton = this.page.locator('button:has-text("New"), a[title="New"], lightning-button:has-text("New")').first();
+        const newButton = await locators.find(this.page, 'listView.newButton', {}, { timeout: config.timeouts.action });
+        if (!newButton) throw new Error('New button not found');
         await newButton.click();
         await this.waitForSpinners();
-        await this.page.locator('records-record-layout-event-broker, .modal-container, .slds-modal').first()
-            .waitFor({ state: 'visible', timeout: config.timeouts.action })
-            .catch(() => { });
+        await locators.find(this.page, 'modal.container', {}, { timeout: config.timeouts.action });
     }
 
     async saveRecord(): Promise<void> {
         await this.waitForSpinners();
-        const saveButton = this.page.locator(
-            'button[name="SaveEdit"]:has-text("Save"), ' +
-            'button.slds-button:has-text("Save"):not(:has-text("Save &")), ' +
-            'lightning-button:has-text("Save"):not(:has-text("Save &"))'
-        ).first();
+        const saveButton = await locators.find(this.page, 'form.saveButton', {}, { timeout: config.timeouts.action });
+        if (!saveButton) throw new Error('Save button not found');
+        await this.toasts.watch();
         await saveButton.click();
         await this.waitForSpinners();
     }
@@ -267,34 +286,110 @@ export class SalesforceUtils {
 
     async isFieldEditable(fieldLabel: string): Promise<boolean> {
         await this.waitForSpinners();
-        const editIndicators = [
-            `force-record-output-field:has(span:text-is("${fieldLabel}")) button[title="Edit"]`,
-            `records-record-layout-item[field-label="${fieldLabel}"] button`,
-            `lightning-input[label="${fieldLabel}"]:not([disabled])`,
-        ];
-
-        for (const selector of editIndicators) {
-            if (await this.page.locator(selector).first().isVisible({ timeout: 1000 }).catch(() => false)) {
-                return true;
-            }
-        }
-        return false;
+        return await locators.find(this.page, 'field.editPencil', { label: fieldLabel }) !== null;
     }
 
     async clickRecordAction(actionName: string): Promise<void> {
         await this.waitForSpinners();
-        await this.page.locator('runtime_platform_actions-actions-ribbon lightning-button-menu button, [data-target-reveals*="action"]').first().click();
-        await this.page.waitForTimeout(500);
-        await this.page.locator(`runtime_platform_actions-action-renderer a[title="${actionName}"], lightning-menu-item[title="${actionName}"]`).first().click();
+        const menu = await locators.find(this.page, 'record.actionMenu', {}, { timeout: config.timeouts.action });
+        if (!menu) throw new Error('Record actions menu not found');
+        await menu.click();
+        await this.settleNetwork();
+        const action = await locators.find(this.page, 'record.actionMenuItem', { action: actionName }, { timeout: config.timeouts.action });
+        if (!action) throw new Error(`Record action "${actionName}" not found`);
+        await action.click();
+        await this.waitForSpinners();
+    }
+
+    /**
+     * Whether the list view offers a New button, i.e. the user can create records of the object
+     */
+    async canCreateRecord(): Promise<boolean> {
         await this.waitForSpinners();
+        return await locators.find(this.page, 'listView.newButtonExact', {}) !== null;
     }
 
     async canEditRecord(): Promise<boolean> {
         await this.waitForSpinners();
-        const editButton = this.page.locator(
-            'button[name="Edit"]:visible, a[data-target-reveals*="Edit"]:visible, lightning-button:has-text("Edit"):visible'
-        ).first();
-        return await editButton.isVisible({ timeout: 2000 }).catch(() => false);
+        return await locators.find(this.page, 'record.editButton', {}) !== null;
+    }
+
+    /**
+     * Which of the fields show an inline-edit pencil on the open record page, without clicking any
+     */
+    async findInlineEditable(labels: string[]): Promise<InlineEditReport> {
+        await this.waitForSpinners();
+        const report: InlineEditReport = { editable: [], noPencil: [] };
+        for (const label of labels) {
+            const pencil = await locators.find(this.page, 'inlineEdit.pencil', { label });
+            (pencil ? report.editable : report.noPencil).push(label);
+        }
+        return report;
+    }
+
+    /**
+     * Edit fields in place on the open record page: one field's pencil switches the layout to edit
+     * mode, then each field is filled like fillField (widget and picklist values from the describe)
+     * and the edit is saved. Returns which fields had a pencil, so a read-only persona's page can be
+     * checked field by field.
+     */
+    async inlineEditMany(values: Record<string, string>, options: InlineEditOptions = {}): Promise<InlineEditReport> {
+        const report = await this.findInlineEditable(Object.keys(values));
+        if (report.noPencil.length && (options.requireAll ?? true)) {
+            throw new Error(`No inline-edit pencil for ${report.noPencil.map(label => `"${label}"`).join(', ')}: read-only for this user or not on the layout`);
+        }
+        if (!report.editable.length) return report;
+
+        const pencil = await locators.find(this.page, 'inlineEdit.pencil', { label: report.editable[0] });
+        await pencil?.click();
+        const saveButton = await locators.find(this.page, 'inlineEdit.saveButton', {}, { timeout: config.timeouts.action });
+        if (!saveButton) throw new Error(`Inline edit did not open from the pencil of "${report.editable[0]}"`);
+
+        for (const label of report.editable) {
+            await this.fillField(label, values[label], undefined, options.objectName);
+        }
+        if (options.save ?? true) await this.saveInlineEdit();
+        return report;
+    }
+
+    async inlineEdit(label: string, value: string, options: InlineEditOptions = {}): Promise<InlineEditReport> {
+        return this.inlineEditMany({ [label]: value }, options);
+    }
+
+    /**
+     * Save the open inline edit and wait for the page to leave edit mode; throws with the page's
+     * error text when it stays in edit mode instead
+     */
+    async saveInlineEdit(): Promise<void> {
+        const saveButton = await locators.find(this.page, 'inlineEdit.saveButton', {}, { timeout: config.timeouts.action });
+        if (!saveButton) throw new Error('No inline edit is open');
+        await this.toasts.watch();
+        await saveButton.click();
+        await this.waitForSpinners();
+        await this.waitForInlineEditToClose('Inline edit was not saved');
+    }
+
+    /**
+     * Discard the open inline edit
+     */
+    async cancelInlineEdit(): Promise<void> {
+        const cancelButton = await locators.find(this.page, 'inlineEdit.cancelButton', {}, { timeout: config.timeouts.action });
+        if (!cancelButton) throw new Error('No inline edit is open');
+        await cancelButton.click();
+        await this.waitForInlineEditToClose('Inline edit did not close');
+    }
+
+    private async waitForInlineEditToClose(failure: string): Promise<void> {
+        const timeout = config.timeouts.action;
+        const outcome = await this.network.untilFailure(Promise.race([
+            locators.any(this.page, 'inlineEdit.saveButton', {}).first().waitFor({ state: 'hidden', timeout }).then(() => 'closed'),
+            locators.any(this.page, 'inlineEdit.error', {}).filter({ visible: true }).first().waitFor({ state: 'visible', timeout }).then(() => 'error'),
+        ]).catch(() => 'timeout'));
+        if (outcome === 'closed') return;
+
+        const error = await locators.find(this.page, 'inlineEdit.error', {});
+        const message = (await error?.textContent())?.replace(/\s+/g, ' ').trim();
+        throw new Error(`${failure}${message ? `: ${message}` : ''}`);
     }
 }
 
@@ -0,0 +1,83 @@
+import { APIRequestContext, BrowserContext } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { config } from '../../config/environment';
+import { trimTrailingSlash } from './auth-providers';
+
+/** Why a saved session can or cannot be reused */
+export type SessionStateStatus = 'fresh' | 'missing' | 'expired' | 'rejected';
+
+interface StorageState {
+    cookies: { name: string; value: string; domain: string; expires: number }[];
+}
+
+/** The user the configured auth strategy logs in as; persona states are keyed by username */
+export const ADMIN_STATE_USER = config.auth.username || 'admin';
+
+/**
+ * Where the storageState of a user is saved: one folder per org, one file per user
+ */
+export function sessionStatePath(user: string, instanceUrl: string = config.salesforce.instanceUrl): string {
+    const org = new URL(instanceUrl).hostname;
+    return join(config.sessionState.dir, org, `${user.replace(/[^\w.@-]/g, '_')}.json`);
+}
+
+/**
+ * Playwright storageState files for logged-in users, reused across tests and runs until the
+ * session stops working. A saved session counts as fresh when it is younger than
+ * config.sessionState.maxAgeMinutes, its sid cookie has not expired, and the API still accepts it.
+ *
+ *   const cache = new SessionStateCache(request);
+ *   const state = await cache.load(username) ?? await cache.save(username, await logIn());
+ *   const context = await browser.newContext({ storageState: state });
+ */
+export class SessionStateCache {
+    constructor(
+        private request: APIRequestContext,
+        private instanceUrl: string = config.salesforce.instanceUrl,
+        private maxAgeMinutes: number = config.sessionState.maxAgeMinutes
+    ) { }
+
+    path(user: string): string {
+        return sessionStatePath(user, this.instanceUrl);
+    }
+
+    async check(user: string): Promise<SessionStateStatus> {
+        const path = this.path(user);
+        if (!existsSync(path)) return 'missing';
+        if (Date.now() - statSync(path).mtimeMs > this.maxAgeMinutes * 60_000) return 'expired';
+
+        const { hostname } = new URL(this.instanceUrl);
+        const state = JSON.parse(readFileSync(path, 'utf-8')) as StorageState;
+        const sid = state.cookies.find(cookie => cookie.name === 'sid' && hostname.endsWith(cookie.domain.replace(/^\./, '')));
+        if (!sid || (sid.expires > 0 && sid.expires * 1000 < Date.now())) return 'expired';
+
+        const response = await this.request.get(`${trimTrailingSlash(this.instanceUrl)}/services/data/v${config.salesforce.apiVersion}/limits`, {
+            headers: { Authorization: `Bearer ${sid.value}` },
+            failOnStatusCode: false,
+        });
+        return response.ok() ? 'fresh' : 'rejected';
+    }
+
+    /**
+     * Path of the user's saved state when it is fresh; a stale file is removed
+     */
+    async load(user: string): Promise<string | undefined> {
+        const status = await this.check(user);
+        if (status === 'fresh') return this.path(user);
+        if (status !== 'missing') rmSync(this.path(user), { force: true });
+        return undefined;
+    }
+
+    /**
+     * Save the context's cookies and storage as the user's state
+     */
+    async save(user: string, context: BrowserContext): Promise<string> {
+        const path = this.path(user);
+        mkdirSync(dirname(path), { recursive: true });
+        await context.storageState({ path });
+        return path;
+    }
+}
+
+export default SessionStateCache;
@@ -0,0 +1,239 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DescribeField, SObjectDescribe } from './describe-cache';
+import { decodeXml, xmlValue } from './metadata-xml';
+
+/**
+ * Builds TypeScript sObject types from force-app field metadata, optionally merged with org describes.
+ * The describe is authoritative for standard fields (their field-meta.xml rarely carries a type);
+ * fields only found in metadata, e.g. custom fields not yet deployed, come from the XML.
+ * Output: an interface, picklist union types and a field-name constant per sObject, plus the
+ * SObjectTypeMap SalesforceApiUtils uses to type createRecord/getRecord and soql().
+ */
+
+/** A field as described by its *.field-meta.xml */
+export interface MetadataField {
+    name: string;
+    label?: string;
+    /** Describe-style type (string, double, picklist, reference, ...) when the XML has a <type> */
+    type?: string;
+    picklistValues: string[];
+    referenceTo: string[];
+    relationshipName?: string;
+    required: boolean;
+}
+
+export interface GeneratedField {
+    name: string;
+    label: string;
+    type: string;
+    picklistValues: string[];
+    referenceTo: string[];
+    relationshipName: string | null;
+    nillable: boolean;
+    readOnly: boolean;
+    source: 'metadata' | 'describe' | 'both';
+}
+
+export interface GeneratedSObject {
+    name: string;
+    label: string;
+    fields: GeneratedField[];
+}
+
+/** Metadata API field types mapped to the describe type they come back as */
+const METADATA_TYPES: Record<string, string> = {
+    AutoNumber: 'string',
+    Checkbox: 'boolean',
+    Currency: 'currency',
+    Date: 'date',
+    DateTime: 'datetime',
+    Email: 'email',
+    EncryptedText: 'encryptedstring',
+    Html: 'textarea',
+    Lookup: 'reference',
+    LongTextArea: 'textarea',
+    MasterDetail: 'reference',
+    MultiselectPicklist: 'multipicklist',
+    Number: 'double',
+    Percent: 'percent',
+    Phone: 'phone',
+    Picklist: 'picklist',
+    Text: 'string',
+    TextArea: 'textarea',
+    Time: 'time',
+    Url: 'url',
+};
+
+const NUMBER_TYPES = ['double', 'currency', 'percent', 'int', 'long'];
+const BOOLEAN_TYPES = ['boolean'];
+
+/**
+ * Parse one *.field-meta.xml
+ */
+export function parseFieldMetadata(xml: string): MetadataField {
+    const name = xmlValue(xml, 'fullName');
+    if (!name) throw new Error('field-meta.xml has no <fullName>');
+
+    const metadataType = xmlValue(xml, 'type');
+    const valueSet = xmlValue(xml, 'valueSetDefinition') ?? '';
+    const picklistValues = [...valueSet.matchAll(/<value>[\s\S]*?<fullName>([\s\S]*?)<\/fullName>[\s\S]*?<\/value>/g)]
+        .map(match => decodeXml(match[1].trim()));
+    const referenceTo = xmlValue(xml, 'referenceTo');
+    const label = xmlValue(xml, 'label');
+
+    return {
+        name,
+        ...(label && { label: decodeXml(label) }),
+        ...(metadataType && { type: METADATA_TYPES[metadataType] ?? 'string' }),
+        picklistValues,
+        referenceTo: referenceTo ? [referenceTo] : [],
+        ...(xmlValue(xml, 'relationshipName') && { relationshipName: xmlValue(xml, 'relationshipName') }),
+        required: xmlValue(xml, 'required') === 'true' || metadataType === 'MasterDetail',
+    };
+}
+
+/**
+ * Read objects/<Object>/fields/*.field-meta.xml under a force-app objects directory, by sObject
+ */
+export function readObjectMetadata(objectsDir: string): Record<string, MetadataField[]> {
+    const objects: Record<string, MetadataField[]> = {};
+    if (!existsSync(objectsDir)) return objects;
+
+    for (const objectName of readdirSync(objectsDir).sort()) {
+        const fieldsDir = join(objectsDir, objectName, 'fields');
+        if (!existsSync(fieldsDir)) continue;
+        objects[objectName] = readdirSync(fieldsDir)
+            .filter(file => file.endsWith('.field-meta.xml'))
+            .sort()
+            .map(file => parseFieldMetadata(readFileSync(join(fieldsDir, file), 'utf8')));
+    }
+    return objects;
+}
+
+function fromDescribe(field: DescribeField): GeneratedField {
+    return {
+        name: field.name,
+        label: field.label,
+        type: field.type,
+        picklistValues: field.picklistValues.filter(entry => entry.active).map(entry => entry.value),
+        referenceTo: field.referenceTo,
+        relationshipName: field.relationshipName,
+        nillable: field.nillable,
+        readOnly: !field.createable && !field.updateable,
+        source: 'describe',
+    };
+}
+
+function fromMetadata(field: MetadataField): GeneratedField {
+    const custom = field.name.endsWith('__c');
+    return {
+        name: field.name,
+        label: field.label ?? field.name,
+        // Standard fields without a <type> in their XML cannot be typed without a describe
+        type: field.type ?? 'anyType',
+        picklistValues: field.picklistValues,
+        referenceTo: field.referenceTo,
+        relationshipName: field.relationshipName
+            ?? (field.type === 'reference' ? (custom ? field.name.replace(/__c$/, '__r') : field.name.replace(/Id$/, '')) : null),
+        nillable: !field.required,
+        readOnly: false,
+        source: 'metadata',
+    };
+}
+
+/**
+ * Merge metadata and describe fields for one sObject; Id comes first, the rest by API name
+ */
+export function mergeSObject(name: string, metadata: MetadataField[] = [], describe?: SObjectDescribe): GeneratedSObject {
+    const fields = new Map<string, GeneratedField>();
+    for (const field of describe?.fields ?? []) fields.set(field.name.toLowerCase(), fromDescribe(field));
+
+    for (const field of metadata) {
+        const described = fields.get(field.name.toLowerCase());
+        if (!described) {
+            fields.set(field.name.toLowerCase(), fromMetadata(field));
+            continue;
+        }
+        // Picklist values deployed from force-app win over whatever the org had before
+        described.source = 'both';
+        if (field.picklistValues.length) described.picklistValues = field.picklistValues;
+    }
+    if (!fields.has('id')) {
+        fields.set('id', { ...fromMetadata({ name: 'Id', label: `${name} ID`, type: 'id', picklistValues: [], referenceTo: [], required: false }), readOnly: true });
+    }
+
+    const sorted = [...fields.values()].sort((a, b) => a.name === 'Id' ? -1 : b.name === 'Id' ? 1 : a.name.localeCompare(b.name));
+    return { name, label: describe?.label ?? name, fields: sorted };
+}
+
+function quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+function picklistTypeName(sObject: string, field: string): string {
+    const pascal = (name: string) => name.replace(/__c$/, '').replace(/_/g, '');
+    return `${pascal(sObject)}${pascal(field)}`;
+}
+
+function tsType(sObject: string, field: GeneratedField): string {
+    if ((field.type === 'picklist' || field.type === 'combobox') && field.picklistValues.length) {
+        return picklistTypeName(sObject, field.name);
+    }
+    if (NUMBER_TYPES.includes(field.type)) return 'number';
+    if (BOOLEAN_TYPES.includes(field.type)) return 'boolean';
+    if (field.type === 'anyType') return 'unknown';
+    return 'string';
+}
+
+/**
+ * Render the generated module; `header` is written above the generated code
+ */
+export function renderSObjectTypes(objects: GeneratedSObject[], header: string): string {
+    const names = new Set(objects.map(object => object.name));
+    const out: string[] = [header, ''];
+
+    for (const object of objects) {
+        for (const field of object.fields) {
+            if (tsType(object.name, field) !== picklistTypeName(object.name, field.name)) continue;
+            out.push(`/** ${object.name}.${field.name} active values */`);
+            out.push(`export type ${picklistTypeName(object.name, field.name)} =`);
+            out.push(...field.picklistValues.map((value, i) =>
+                `    | ${quote(value)}${i === field.picklistValues.length - 1 ? ';' : ''}`));
+            out.push('');
+        }
+
+        out.push(`/** ${object.label} */`);
+        out.push(`export interface ${object.name} {`);
+        for (const field of object.fields) {
+            const nullable = field.nillable && field.type !== 'boolean' ? ' | null' : '';
+            out.push(`    /** ${field.label}${field.source === 'metadata' ? ' (force-app only)' : ''} */`);
+            out.push(`    ${field.readOnly ? 'readonly ' : ''}${field.name}?: ${tsType(object.name, field)}${nullable};`);
+            const [target] = field.referenceTo;
+            if (field.relationshipName && field.referenceTo.length === 1) {
+                const related = names.has(target) ? target : 'SObjectReference';
+                out.push(`    readonly ${field.relationshipName}?: ${related}${field.nillable ? ' | null' : ''};`);
+            }
+        }
+        out.push('}', '');
+
+        out.push(`export const ${object.name}Fields = {`);
+        out.push(...object.fields.map(field => `    ${field.name}: ${quote(field.name)},`));
+        out.push('} as const;', '');
+        out.push(`export type ${object.name}Field = keyof typeof ${object.name}Fields;`, '');
+    }
+
+    out.push('/** A lookup to an object without generated types */');
+    out.push('export interface SObjectReference {');
+    out.push('    readonly Id?: string;');
+    out.push('    readonly Name?: string;');
+    out.push('}', '');
+    out.push('export interface SObjectTypeMap {');
+    out.push(...objects.map(object => `    ${object.name}: ${object.name};`));
+    out.push('}', '');
+    out.push('export interface SObjectFieldMap {');
+    out.push(...objects.map(object => `    ${object.name}: ${object.name}Field;`));
+    out.push('}', '');
+    out.push('export type SObjectName = keyof SObjectTypeMap;', '');
+    return out.join('\n');
+}
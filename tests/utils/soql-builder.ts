@@ -0,0 +1,213 @@
+import type { SObjectName, SObjectTypeMap, SoqlFieldPath } from '../types';
+
+/**
+ * Fluent SOQL builder that escapes every literal it is given
+ * Objects with generated types (tests/types) type-check their field names and query results:
+ *
+ *   soql('Opportunity').select('Name', 'Account.Name').where('StageName', '=', 'Prospecting')
+ *
+ *   soql<{ Id: string }>('Account')
+ *       .select('Id', 'Owner.Name')
+ *       .where('Name', '=', "O'Brien & Sons")
+ *       .where('CreatedDate', '>=', dateLiteral('LAST_N_DAYS', 7))
+ *       .orderBy('CreatedDate', 'DESC')
+ *       .limit(1)
+ */
+
+export type SoqlOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'LIKE' | 'IN' | 'NOT IN' | 'INCLUDES' | 'EXCLUDES';
+
+/**
+ * A value rendered verbatim: date literals (TODAY, LAST_N_DAYS:7) and date-only values
+ */
+export class SoqlLiteral {
+    constructor(readonly text: string) { }
+
+    toString(): string {
+        return this.text;
+    }
+}
+
+export type SoqlValue = string | number | boolean | null | Date | SoqlLiteral | SoqlValue[];
+
+const DATE_LITERALS = [
+    'YESTERDAY', 'TODAY', 'TOMORROW',
+    'LAST_WEEK', 'THIS_WEEK', 'NEXT_WEEK',
+    'LAST_MONTH', 'THIS_MONTH', 'NEXT_MONTH',
+    'LAST_90_DAYS', 'NEXT_90_DAYS',
+    'THIS_QUARTER', 'LAST_QUARTER', 'NEXT_QUARTER',
+    'THIS_YEAR', 'LAST_YEAR', 'NEXT_YEAR',
+    'THIS_FISCAL_QUARTER', 'LAST_FISCAL_QUARTER', 'NEXT_FISCAL_QUARTER',
+    'THIS_FISCAL_YEAR', 'LAST_FISCAL_YEAR', 'NEXT_FISCAL_YEAR',
+] as const;
+
+const DATE_N_LITERALS = [
+    'LAST_N_DAYS', 'NEXT_N_DAYS', 'N_DAYS_AGO',
+    'LAST_N_WEEKS', 'NEXT_N_WEEKS', 'N_WEEKS_AGO',
+    'LAST_N_MONTHS', 'NEXT_N_MONTHS', 'N_MONTHS_AGO',
+    'LAST_N_QUARTERS', 'NEXT_N_QUARTERS', 'N_QUARTERS_AGO',
+    'LAST_N_YEARS', 'NEXT_N_YEARS', 'N_YEARS_AGO',
+    'LAST_N_FISCAL_QUARTERS', 'NEXT_N_FISCAL_QUARTERS', 'N_FISCAL_QUARTERS_AGO',
+    'LAST_N_FISCAL_YEARS', 'NEXT_N_FISCAL_YEARS', 'N_FISCAL_YEARS_AGO',
+] as const;
+
+export type SoqlDateLiteral = typeof DATE_LITERALS[number];
+export type SoqlDateNLiteral = typeof DATE_N_LITERALS[number];
+
+export function dateLiteral(literal: SoqlDateLiteral): SoqlLiteral;
+export function dateLiteral(literal: SoqlDateNLiteral, n: number): SoqlLiteral;
+export function dateLiteral(literal: SoqlDateLiteral | SoqlDateNLiteral, n?: number): SoqlLiteral {
+    if ((DATE_N_LITERALS as readonly string[]).includes(literal)) {
+        if (!Number.isInteger(n) || (n as number) < 0) {
+            throw new Error(`Date literal ${literal} needs a non-negative integer, got ${n}`);
+        }
+        return new SoqlLiteral(`${literal}:${n}`);
+    }
+    if (!(DATE_LITERALS as readonly string[]).includes(literal)) {
+        throw new Error(`Unknown SOQL date literal "${literal}"`);
+    }
+    return new SoqlLiteral(literal);
+}
+
+/**
+ * A Date field value (YYYY-MM-DD). Plain Date objects are rendered as DateTime values.
+ */
+export function dateOnly(date: Date | string): SoqlLiteral {
+    const iso = typeof date === 'string' ? date : date.toISOString().split('T')[0];
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+        throw new Error(`Invalid SOQL date "${iso}"`);
+    }
+    return new SoqlLiteral(iso);
+}
+
+/**
+ * A LIKE pattern from a glob where * matches any run of characters: likePattern('TestOpp_*') -> 'TestOpp\_%'.
+ * SOQL's own wildcards (% and _) in the glob are matched literally.
+ */
+export function likePattern(glob: string): SoqlLiteral {
+    const pattern = glob
+        .split('*')
+        .map(part => escapeSoqlLiteral(part).replace(/[%_]/g, '\\$&'))
+        .join('%');
+    return new SoqlLiteral(`'${pattern}'`);
+}
+
+export function escapeSoqlLiteral(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, '\\\'')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t')
+        .replace(/\f/g, '\\f')
+        .replace(/\x08/g, '\\b');
+}
+
+export function formatSoqlValue(value: SoqlValue): string {
+    if (value === null) return 'null';
+    if (value instanceof SoqlLiteral) return value.text;
+    if (value instanceof Date) return value.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    if (Array.isArray(value)) return `(${value.map(formatSoqlValue).join(', ')})`;
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) throw new Error(`Cannot use ${value} in SOQL`);
+        return String(value);
+    }
+    if (typeof value === 'boolean') return String(value);
+    return `'${escapeSoqlLiteral(value)}'`;
+}
+
+const FIELD_PATTERN = /^[A-Za-z][\w]*(\.[A-Za-z][\w]*)*$/;
+
+function assertFieldName(field: string): string {
+    if (!FIELD_PATTERN.test(field)) {
+        throw new Error(`Invalid SOQL field name "${field}"`);
+    }
+    return field;
+}
+
+type SoqlCondition<F extends string = string> = [field: F, operator: SoqlOperator, value: SoqlValue];
+
+function renderCondition([field, operator, value]: SoqlCondition): string {
+    const listOperator = operator === 'IN' || operator === 'NOT IN' || operator === 'INCLUDES' || operator === 'EXCLUDES';
+    if (listOperator && !Array.isArray(value)) {
+        throw new Error(`Operator ${operator} needs an array value for "${field}"`);
+    }
+    if (listOperator && (value as SoqlValue[]).length === 0) {
+        throw new Error(`Operator ${operator} needs at least one value for "${field}"`);
+    }
+    return `${assertFieldName(field)} ${operator} ${formatSoqlValue(value)}`;
+}
+
+/**
+ * T is the row type query() returns; F narrows the field names select/where/orderBy accept
+ */
+export class SoqlBuilder<T = Record<string, unknown>, F extends string = string> {
+    private readonly fields: string[] = [];
+    private readonly conditions: string[] = [];
+    private readonly ordering: string[] = [];
+    private limitCount?: number;
+    private offsetCount?: number;
+
+    constructor(private readonly sObject: string) {
+        assertFieldName(sObject);
+    }
+
+    /**
+     * Fields, relationship fields ('Account.Name') or child subqueries (soql('Opportunities').select(...))
+     */
+    select(...fields: (F | SoqlBuilder<object, string>)[]): this {
+        for (const field of fields) {
+            this.fields.push(field instanceof SoqlBuilder ? `(${field.toString()})` : assertFieldName(field));
+        }
+        return this;
+    }
+
+    /**
+     * Adds a condition; multiple where() calls are combined with AND
+     */
+    where(field: F, operator: SoqlOperator, value: SoqlValue): this {
+        this.conditions.push(renderCondition([field, operator, value]));
+        return this;
+    }
+
+    /**
+     * Adds a parenthesised group of conditions combined with OR
+     */
+    whereAny(...conditions: SoqlCondition<F>[]): this {
+        if (!conditions.length) throw new Error('whereAny needs at least one condition');
+        this.conditions.push(`(${conditions.map(renderCondition).join(' OR ')})`);
+        return this;
+    }
+
+    orderBy(field: F, direction: 'ASC' | 'DESC' = 'ASC', nulls?: 'FIRST' | 'LAST'): this {
+        this.ordering.push(`${assertFieldName(field)} ${direction}${nulls ? ` NULLS ${nulls}` : ''}`);
+        return this;
+    }
+
+    limit(count: number): this {
+        if (!Number.isInteger(count) || count < 0) throw new Error(`Invalid SOQL LIMIT ${count}`);
+        this.limitCount = count;
+        return this;
+    }
+
+    offset(count: number): this {
+        if (!Number.isInteger(count) || count < 0) throw new Error(`Invalid SOQL OFFSET ${count}`);
+        this.offsetCount = count;
+        return this;
+    }
+
+    toString(): string {
+        const parts = [`SELECT ${this.fields.length ? this.fields.join(', ') : 'Id'} FROM ${this.sObject}`];
+        if (this.conditions.length) parts.push(`WHERE ${this.conditions.join(' AND ')}`);
+        if (this.ordering.length) parts.push(`ORDER BY ${this.ordering.join(', ')}`);
+        if (this.limitCount !== undefined) parts.push(`LIMIT ${this.limitCount}`);
+        if (this.offsetCount !== undefined) parts.push(`OFFSET ${this.offsetCount}`);
+        return parts.join(' ');
+    }
+}
+
+export function soql<N extends SObjectName>(sObject: N): SoqlBuilder<SObjectTypeMap[N], SoqlFieldPath<SObjectTypeMap[N]>>;
+export function soql<T = Record<string, unknown>>(sObject: string): SoqlBuilder<T>;
+export function soql(sObject: string): SoqlBuilder<unknown> {
+    return new SoqlBuilder(sObject);
+}
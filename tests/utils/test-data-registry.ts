@@ -0,0 +1,155 @@
+import type { SalesforceApiUtils } from './salesforce-api';
+
+export interface TrackedRecord {
+    sObjectType: string;
+    id: string;
+    /** Id (testInfo.testId) of the test that created the record; absent for records created outside a test (e.g. beforeAll) */
+    test?: string;
+}
+
+export interface CleanupReport {
+    deleted: TrackedRecord[];
+    deactivated: TrackedRecord[];
+    failed: (TrackedRecord & { message: string })[];
+}
+
+/**
+ * Deletion order for known parent/child relationships: lower values are removed first.
+ * Types not listed are treated as children of the standard objects (custom objects usually are).
+ */
+const DELETE_PRIORITY: Record<string, number> = {
+    PermissionSetAssignment: 0,
+    OpportunityLineItem: 1,
+    OpportunityContactRole: 1,
+    Task: 1,
+    Event: 1,
+    Case: 3,
+    Opportunity: 4,
+    Contact: 5,
+    Lead: 5,
+    Account: 6,
+    User: 9,
+};
+const DEFAULT_PRIORITY = 2;
+
+/** Users cannot be deleted, only deactivated */
+const DEACTIVATE_ONLY = ['User'];
+
+/** The ListView sObject cannot be deleted; list views go through the UI API one by one */
+const LIST_VIEW = 'ListView';
+
+/** Errors that mean the record is already gone */
+const ALREADY_REMOVED = ['ENTITY_IS_DELETED', 'INVALID_CROSS_REFERENCE_KEY', 'NOT_FOUND'];
+
+/**
+ * Records every sObject created during a run so it can be removed afterwards,
+ * children before parents and most recent first
+ */
+export class TestDataRegistry {
+    private readonly records: TrackedRecord[] = [];
+    private readonly failedTests: string[] = [];
+    private readonly testTitles = new Map<string, string>();
+    private currentTest: string | undefined;
+
+    constructor(private readonly keepOnFailure = false) { }
+
+    /**
+     * Attribute the records tracked from now on to a test (undefined: to none); the title is only used in log messages
+     */
+    startTest(testId: string | undefined, title?: string): void {
+        this.currentTest = testId;
+        if (testId && title) this.testTitles.set(testId, title);
+    }
+
+    track(sObjectType: string, id: string): void {
+        if (id && !this.records.some(record => record.id === id)) {
+            this.records.push(this.currentTest ? { sObjectType, id, test: this.currentTest } : { sObjectType, id });
+        }
+    }
+
+    untrack(id: string): void {
+        const index = this.records.findIndex(record => record.id === id);
+        if (index !== -1) this.records.splice(index, 1);
+    }
+
+    get tracked(): readonly TrackedRecord[] {
+        return this.records;
+    }
+
+    markFailed(testId: string): void {
+        this.failedTests.push(testId);
+    }
+
+    /**
+     * True when keep-on-failure is enabled and a test using this registry failed
+     */
+    get shouldKeep(): boolean {
+        return this.keepOnFailure && this.failedTests.length > 0;
+    }
+
+    /**
+     * Records cleanup leaves in the org: with keep-on-failure, those created by the failed tests
+     */
+    get kept(): TrackedRecord[] {
+        return this.shouldKeep ? this.records.filter(record => record.test && this.failedTests.includes(record.test)) : [];
+    }
+
+    /**
+     * Records in teardown order: by dependency priority, then reverse creation order
+     */
+    teardownOrder(): TrackedRecord[] {
+        const priority = (record: TrackedRecord) => DELETE_PRIORITY[record.sObjectType] ?? DEFAULT_PRIORITY;
+        return [...this.records].reverse().sort((a, b) => priority(a) - priority(b));
+    }
+
+    async cleanup(sfApi: SalesforceApiUtils): Promise<CleanupReport> {
+        const report: CleanupReport = { deleted: [], deactivated: [], failed: [] };
+        const kept = this.kept;
+        if (kept.length) {
+            console.log(`Keeping ${kept.length} test record(s) for debugging after failure in: ${this.failedTests.map(testId => this.testTitles.get(testId) ?? testId).join(', ')}`);
+        }
+
+        const ordered = this.teardownOrder().filter(record => !kept.includes(record));
+        const types = [...new Set(ordered.map(record => record.sObjectType))];
+
+        for (const sObjectType of types) {
+            const group = ordered.filter(record => record.sObjectType === sObjectType);
+            const results = DEACTIVATE_ONLY.includes(sObjectType)
+                ? await sfApi.updateRecords(sObjectType, group.map(record => ({ Id: record.id, IsActive: false })))
+                : sObjectType === LIST_VIEW
+                    ? await sfApi.deleteListViews(group.map(record => record.id))
+                    : await sfApi.deleteRecords(group.map(record => record.id));
+
+            results.forEach((result, index) => {
+                const record = group[index];
+                if (result.success || result.errors.some(error => ALREADY_REMOVED.includes(error.errorCode))) {
+                    (DEACTIVATE_ONLY.includes(sObjectType) ? report.deactivated : report.deleted).push(record);
+                    this.untrack(record.id);
+                } else {
+                    report.failed.push({ ...record, message: result.errors.map(error => `${error.errorCode}: ${error.message}`).join('; ') });
+                }
+            });
+        }
+
+        console.log(`Test data cleanup: ${report.deleted.length} deleted, ${report.deactivated.length} deactivated, ${report.failed.length} failed`);
+        for (const failure of report.failed) {
+            console.log(`  Could not remove ${failure.sObjectType} ${failure.id}: ${failure.message}`);
+        }
+        return report;
+    }
+}
+
+let activeRegistry: TestDataRegistry | undefined;
+
+/**
+ * The registry that SalesforceApiUtils reports created records to (set by the dataRegistry fixture)
+ */
+export function getActiveRegistry(): TestDataRegistry | undefined {
+    return activeRegistry;
+}
+
+export function setActiveRegistry(registry: TestDataRegistry | undefined): void {
+    activeRegistry = registry;
+}
+
+export default TestDataRegistry;
@@ -0,0 +1,95 @@
+import { config, SweepTarget } from '../../config/environment';
+import { SalesforceApiUtils } from './salesforce-api';
+import { likePattern, soql } from './soql-builder';
+import { CleanupReport, TestDataRegistry, TrackedRecord } from './test-data-registry';
+
+export interface SweepOptions {
+    /** Naming patterns to look for (default: config.testData.sweep.targets) */
+    targets?: SweepTarget[];
+    /** Only records created at least this long ago (default: config.testData.sweep.olderThanHours) */
+    olderThanHours?: number;
+    /** Only records created by this user (default: the user the API session belongs to) */
+    createdById?: string;
+}
+
+export interface OrphanedRecord extends TrackedRecord {
+    name: string;
+    createdDate: string;
+    pattern: string;
+}
+
+/** Users are deactivated rather than deleted, so only active ones are still orphans */
+const ACTIVE_ONLY = ['User'];
+
+/**
+ * Finds test records left behind by interrupted runs and removes them in referential order.
+ * Matching uses the naming patterns of testData.generate*Name, so real data is never touched.
+ *
+ *   const sweeper = new TestDataSweeper(sfApi, { olderThanHours: 6 });
+ *   const orphans = await sweeper.find();
+ *   console.log(formatSweepTable(orphans));
+ *   await sweeper.sweep(orphans);
+ */
+export class TestDataSweeper {
+    private readonly targets: SweepTarget[];
+    private readonly olderThanHours: number;
+
+    constructor(private sfApi: SalesforceApiUtils, private options: SweepOptions = {}) {
+        this.targets = options.targets ?? config.testData.sweep.targets;
+        this.olderThanHours = options.olderThanHours ?? config.testData.sweep.olderThanHours;
+    }
+
+    async find(): Promise<OrphanedRecord[]> {
+        const createdById = this.options.createdById ?? await this.sfApi.getCurrentUserId();
+        const createdBefore = new Date(Date.now() - this.olderThanHours * 60 * 60 * 1000);
+        const found = new Map<string, OrphanedRecord>();
+
+        for (const target of this.targets) {
+            const query = soql<Record<string, string>>(target.sObjectType)
+                .select('Id', target.field, 'CreatedDate')
+                .where(target.field, 'LIKE', likePattern(target.pattern))
+                .where('CreatedDate', '<', createdBefore)
+                .where('CreatedById', '=', createdById)
+                .orderBy('CreatedDate');
+            if (ACTIVE_ONLY.includes(target.sObjectType)) query.where('IsActive', '=', true);
+
+            for (const record of await this.sfApi.query(query)) {
+                if (found.has(record.Id)) continue;
+                found.set(record.Id, {
+                    sObjectType: target.sObjectType,
+                    id: record.Id,
+                    name: record[target.field],
+                    createdDate: record.CreatedDate,
+                    pattern: target.pattern,
+                });
+            }
+        }
+        return [...found.values()];
+    }
+
+    /**
+     * Deletes (or, for users, deactivates) the records children-first, in batches of 200 per type
+     */
+    async sweep(records: OrphanedRecord[]): Promise<CleanupReport> {
+        const registry = new TestDataRegistry();
+        // Tracked oldest first, so teardown removes the newest of each type first as it does after a run
+        for (const record of records) registry.track(record.sObjectType, record.id);
+        return registry.cleanup(this.sfApi);
+    }
+}
+
+/**
+ * Plain-text table of the records a sweep would remove, for dry runs
+ */
+export function formatSweepTable(records: OrphanedRecord[]): string {
+    if (!records.length) return 'No orphaned test records found';
+
+    const header = ['Type', 'Id', 'Name', 'Created', 'Pattern'];
+    const rows = records.map(r => [r.sObjectType, r.id, r.name, r.createdDate, r.pattern]);
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    return [line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+export default TestDataSweeper;
@@ -0,0 +1,253 @@
+import { Page } from '@playwright/test';
+import { config } from '../../config/environment';
+import { sleep } from './api-retry';
+import { LightningNetwork } from './lightning-network';
+import { locators } from './locators';
+
+export type ToastType = 'success' | 'error' | 'warning' | 'info';
+
+/** A link in a toast message, e.g. the record in 'Opportunity "Big Deal" was created.' */
+export interface ToastLink {
+    text: string;
+    href: string;
+    objectName?: string;
+    recordId?: string;
+}
+
+export interface Toast {
+    /** Order of appearance in the current document, from 1 */
+    id: number;
+    /** When the toast appeared, by the page clock */
+    shownAt: number;
+    type: ToastType;
+    title: string;
+    message: string;
+    links: ToastLink[];
+    /** Id of the first record the message links to */
+    recordId?: string;
+    /** Still on the page when last read; toasts that dismissed themselves keep their last content */
+    visible: boolean;
+}
+
+/** A toast type, a pattern for the title and message, or both */
+export type ToastMatch = ToastType | RegExp | { type?: ToastType; text?: string | RegExp };
+
+export interface ToastWaitOptions {
+    timeout?: number;
+}
+
+interface RawToast {
+    id: number;
+    shownAt: number;
+    type: ToastType;
+    title: string;
+    message: string;
+    links: { text: string; href: string }[];
+    visible: boolean;
+}
+
+interface ToastSelectors {
+    toast: string;
+    title: string[];
+    message: string[];
+}
+
+const RECORD_HREF = /\/lightning\/r\/(?:(\w+)\/)?([a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?)\/view/;
+const CLASSIC_RECORD_HREF = /^\/([a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?)$/;
+
+/**
+ * The record a link points to: /lightning/r/Opportunity/006.../view, /lightning/r/006.../view or a
+ * classic /006... link; null for any other href
+ */
+export function parseRecordHref(href: string): { objectName?: string; recordId: string } | null {
+    const lightning = href.match(RECORD_HREF);
+    if (lightning) return lightning[1] ? { objectName: lightning[1], recordId: lightning[2] } : { recordId: lightning[2] };
+    const classic = href.match(CLASSIC_RECORD_HREF);
+    return classic ? { recordId: classic[1] } : null;
+}
+
+/**
+ * The record a toast link points to, see parseRecordHref
+ */
+export function parseToastLink(link: { text: string; href: string }): ToastLink {
+    return { ...link, ...parseRecordHref(link.href) };
+}
+
+/**
+ * Whether a toast matches a type, a pattern for its title and message, or both
+ */
+export function matchesToast(toast: Toast, match: ToastMatch): boolean {
+    const { type, text } = typeof match === 'string' ? { type: match, text: undefined }
+        : match instanceof RegExp ? { type: undefined, text: match }
+            : match;
+    if (type && toast.type !== type) return false;
+    const content = [toast.title, toast.message].filter(Boolean).join(' ');
+    return !text || (typeof text === 'string' ? content.includes(text) : text.test(content));
+}
+
+export function describeToast(toast: Toast): string {
+    return `${toast.type} "${[toast.title, toast.message].filter((part, index, parts) => part && parts.indexOf(part) === index).join(': ')}"`;
+}
+
+function describeMatch(match: ToastMatch): string {
+    if (typeof match === 'string') return `${match} toast`;
+    if (match instanceof RegExp) return `toast matching ${match}`;
+    return `${match.type ? `${match.type} ` : ''}toast${match.text ? ` matching ${match.text}` : ''}`;
+}
+
+/**
+ * Runs in the page: numbers every toast as it appears and keeps its parsed content after it has gone,
+ * so toasts that stack or dismiss themselves between two reads are not missed
+ */
+function installToastObserver(selectors: ToastSelectors): void {
+    type Store = { toasts: RawToast[]; elements: Map<Element, RawToast> };
+    const global = window as unknown as { __sfToasts?: Store };
+    if (global.__sfToasts) return;
+    const store: Store = { toasts: [], elements: new Map() };
+    global.__sfToasts = store;
+
+    const text = (element: Element | null) => (element?.textContent ?? '').replace(/\s+/g, ' ').trim();
+    const first = (root: Element, candidates: string[]) => {
+        for (const selector of candidates) {
+            const element = root.querySelector(selector);
+            if (element) return element;
+        }
+        return null;
+    };
+
+    const scan = () => {
+        for (const [element, toast] of store.elements) {
+            if (!element.isConnected) {
+                toast.visible = false;
+                store.elements.delete(element);
+            }
+        }
+        for (const element of Array.from(document.querySelectorAll(selectors.toast))) {
+            let toast = store.elements.get(element);
+            if (!toast) {
+                toast = { id: store.toasts.length + 1, shownAt: Date.now(), type: 'info', title: '', message: '', links: [], visible: true };
+                store.toasts.push(toast);
+                store.elements.set(element, toast);
+                element.setAttribute('data-sf-toast', String(toast.id));
+            }
+            const message = text(first(element, selectors.message));
+            if (!message && toast.message) continue;
+            toast.type = (element.className.match(/slds-(?:notify|theme)--(success|error|warning|info)/)?.[1] ?? 'info') as ToastType;
+            toast.title = text(first(element, selectors.title));
+            toast.message = message;
+            toast.links = Array.from(element.querySelectorAll('a[href]'))
+                .map(link => ({ text: text(link), href: link.getAttribute('href') ?? '' }));
+        }
+    };
+
+    new MutationObserver(scan).observe(document, { childList: true, subtree: true, characterData: true, attributes: true, attributeFilter: ['class'] });
+    if (document.readyState !== 'loading') scan();
+}
+
+/**
+ * Collects every toast a page shows, stacked or not, as { type, title, message, links, recordId }.
+ * watch() starts a new action; waitFor() and the rest only look at toasts that appeared after it.
+ *
+ *   await toasts.watch();
+ *   await sfUtils.saveRecord();
+ *   const created = await toasts.waitFor({ type: 'success', text: /was created/ });
+ *   await toasts.expectNoErrorToast();
+ *   const opportunityId = created.recordId;
+ */
+export class ToastWatcher {
+    private installed?: Promise<void>;
+    /** Page time of the last watch(); earlier toasts are ignored */
+    private since = 0;
+
+    constructor(private page: Page) { }
+
+    /**
+     * Start collecting for a new action: toasts already shown no longer count
+     */
+    async watch(): Promise<void> {
+        await this.install();
+        this.since = await this.page.evaluate(() => Date.now());
+    }
+
+    /**
+     * Toasts shown since watch(), in order of appearance
+     */
+    async seen(): Promise<Toast[]> {
+        await this.install();
+        const raw = await this.page.evaluate(() =>
+            (window as unknown as { __sfToasts?: { toasts: RawToast[] } }).__sfToasts?.toasts ?? []);
+        return raw.filter(toast => toast.shownAt >= this.since).map(toast => {
+            const links = toast.links.map(parseToastLink);
+            return { ...toast, links, recordId: links.find(link => link.recordId)?.recordId };
+        });
+    }
+
+    /**
+     * Run an action and return the toasts it showed
+     */
+    async during(action: () => Promise<unknown>): Promise<Toast[]> {
+        await this.watch();
+        await action();
+        return this.seen();
+    }
+
+    /**
+     * The first toast since watch() that matches. An error toast that does not match fails the wait
+     * straight away, as does an Aura action error reported for the page.
+     */
+    async waitFor(match: ToastMatch = {}, options: ToastWaitOptions = {}): Promise<Toast> {
+        const timeout = options.timeout ?? config.timeouts.action;
+        const deadline = Date.now() + timeout;
+        const network = LightningNetwork.for(this.page);
+
+        for (;;) {
+            const toasts = await network.untilFailure(this.seen());
+            const found = toasts.find(toast => matchesToast(toast, match));
+            if (found) return found;
+
+            const error = toasts.find(toast => toast.type === 'error');
+            if (error) throw new Error(`Waited for a ${describeMatch(match)}, but an error toast appeared: ${describeToast(error)}`);
+            if (Date.now() >= deadline) {
+                const shown = toasts.length ? `; toasts shown: ${toasts.map(describeToast).join(', ')}` : '';
+                throw new Error(`No ${describeMatch(match)} appeared within ${timeout}ms${shown}`);
+            }
+            await network.untilFailure(sleep(100));
+        }
+    }
+
+    /**
+     * Fail with their messages if any error toast appeared since watch()
+     */
+    async expectNoErrorToast(): Promise<void> {
+        const errors = (await this.seen()).filter(toast => toast.type === 'error');
+        if (errors.length) {
+            throw new Error(`Expected no error toast, but ${errors.length} appeared: ${errors.map(describeToast).join(', ')}`);
+        }
+    }
+
+    /**
+     * Close a toast that is still on the page through its close button
+     */
+    async dismiss(toast: Toast): Promise<void> {
+        if (!toast.visible) return;
+        const element = this.page.locator(`[data-sf-toast="${toast.id}"]`);
+        await (await locators.find(element, 'toast.closeButton', {}))?.click().catch(() => { });
+    }
+
+    private install(): Promise<void> {
+        const selectors: ToastSelectors = {
+            toast: locators.selectors('toast.container', {})
+                .flatMap(container => locators.selectors('toast.theme', {}).map(theme => `${container} ${theme}`))
+                .join(', '),
+            title: locators.selectors('toast.title', {}),
+            message: locators.selectors('toast.message', {}),
+        };
+        this.installed ??= Promise.all([
+            this.page.addInitScript(installToastObserver, selectors),
+            this.page.evaluate(installToastObserver, selectors),
+        ]).then(() => { });
+        return this.installed;
+    }
+}
+
+export default ToastWatcher;